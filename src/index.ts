@@ -24,6 +24,8 @@ import "./lib/styles/minimap-control.css";
 import "./lib/styles/colorbar-gui-control.css";
 import "./lib/styles/legend-gui-control.css";
 import "./lib/styles/html-gui-control.css";
+import "./lib/styles/attribute-table.css";
+import "./lib/styles/spatial-query.css";
 
 // Plugin CSS
 import "maplibre-gl-geo-editor/style.css";
@@ -68,6 +70,12 @@ export { LegendGuiControl } from "./lib/core/LegendGuiControl";
 export { HtmlGuiControl } from "./lib/core/HtmlGuiControl";
 export { SpinGlobeControl } from "./lib/core/SpinGlobeControl";
 export { TileLayerControl } from "./lib/core/TileLayerControl";
+export { AttributeTableControl } from "./lib/core/AttributeTableControl";
+export {
+  SpatialQueryControl,
+  substituteQueryParameters,
+  toTableName,
+} from "./lib/core/SpatialQueryControl";
 
 // Adapters for layer control integration
 export {
@@ -157,6 +165,7 @@ export {
   debounce,
   throttle,
   classNames,
+  sanitizeHtml,
 } from "./lib/utils";
 
 // File helper exports
@@ -197,6 +206,94 @@ export {
   ShapefileConverter,
 } from "./lib/converters";
 
+// Attribute filter helpers
+export { buildFilterExpression, matchesFilter } from "./lib/core/filterBuilder";
+
+// Vector export helpers
+export {
+  exportFeatures,
+  featuresToCSV,
+  geometryToWKT,
+} from "./lib/core/vectorExport";
+
+// Measurement import/export helpers
+export {
+  exportMeasurementsAs,
+  measurementsToGeoJSON,
+  measurementsToKML,
+  parseMeasurements,
+} from "./lib/core/measureIO";
+export type { MeasurementInput } from "./lib/core/measureIO";
+
+// Bookmark import/export, sharing and storage helpers
+export {
+  bookmarksToGeoJSON,
+  bookmarksToKML,
+  decodeBookmarkShare,
+  encodeBookmarkShare,
+  exportBookmarksAs,
+  parseBookmarks,
+} from "./lib/core/bookmarkIO";
+export type { BookmarkCollection } from "./lib/core/bookmarkIO";
+export {
+  BookmarkStorageConflictError,
+  IndexedDBBookmarkStorage,
+  RestBookmarkStorage,
+  mergeBookmarkData,
+} from "./lib/core/bookmarkStorage";
+export type {
+  IndexedDBBookmarkStorageOptions,
+  RestBookmarkStorageOptions,
+} from "./lib/core/bookmarkStorage";
+
+// URL hash permalinks
+export {
+  PermalinkManager,
+  captureLayers,
+  captureView,
+  isSharableUrl,
+  layersFromInfo,
+  parsePermalink,
+  restoreLayers,
+  restoreView,
+  serializePermalink,
+} from "./lib/core/permalink";
+export type {
+  PermalinkControls,
+  PermalinkEvent,
+  PermalinkEventHandler,
+  PermalinkLayer,
+  PermalinkLayerInfo,
+  PermalinkManagerOptions,
+  PermalinkState,
+} from "./lib/core/permalink";
+
+// Project files
+export {
+  ProjectManager,
+  PROJECT_FILE_TYPE,
+  parseProject,
+} from "./lib/core/project";
+export type {
+  MapProject,
+  ProjectControls,
+  ProjectEvent,
+  ProjectEventHandler,
+  ProjectLayer,
+  ProjectManagerOptions,
+  ProjectOpenResult,
+} from "./lib/core/project";
+
+// Snapping helpers
+export { findSnapPoint } from "./lib/core/snapping";
+
+// Print layout helpers
+export {
+  DEFAULT_PRINT_LAYOUT,
+  parsePrintLayout,
+  serializePrintLayout,
+} from "./lib/core/printLayout";
+
 // Type exports
 export type { MaplibreSampleDataset } from "./lib/core/sampleDropdown";
 export type {
@@ -227,6 +324,7 @@ export type {
   VectorDatasetControlReactProps,
   LoadedDataset,
   VectorLayerStyle,
+  VectorAttributeStyle,
   VectorDatasetEvent,
   VectorDatasetEventHandler,
   VectorFormat,
@@ -238,11 +336,14 @@ export type {
   InspectHighlightStyle,
   InspectEvent,
   InspectEventHandler,
+  SnapOptions,
+  SnapResult,
   ViewStateControlOptions,
   ViewStateControlState,
   ViewStateEvent,
   ViewStateEventHandler,
   ControlGridOptions,
+  ControlGridLayout,
   ControlGridState,
   DefaultControlName,
   ControlGridReactProps,
@@ -253,6 +354,7 @@ export type {
   CogLayerEvent,
   CogLayerEventHandler,
   CogLayerInfo,
+  CogLayerAddOptions,
   ZarrLayerControlOptions,
   ZarrLayerControlState,
   ZarrLayerEvent,
@@ -267,6 +369,7 @@ export type {
   PMTilesLayerEvent,
   PMTilesLayerEventHandler,
   PMTilesLayerInfo,
+  PMTilesLayerAddOptions,
   PMTilesTileType,
   AddVectorControlOptions,
   AddVectorControlState,
@@ -274,6 +377,13 @@ export type {
   AddVectorEventHandler,
   AddVectorInputMode,
   AddVectorLayerInfo,
+  AddVectorLayerAddOptions,
+  AttributeFilter,
+  AttributeFilterClause,
+  AttributeFilterOperator,
+  VectorExportFormat,
+  VectorExportScope,
+  VectorExportOptions,
   RemoteVectorFormat,
   ChoroplethControlOptions,
   ChoroplethControlState,
@@ -281,10 +391,15 @@ export type {
   ChoroplethEventHandler,
   ChoroplethLayerInfo,
   ChoroplethClassificationScheme,
+  ChoroplethRenderMode,
+  ChoroplethBivariatePalette,
+  ChoroplethNormalization,
   StacLayerControlOptions,
   StacLayerControlState,
   StacLayerEvent,
   StacLayerEventHandler,
+  StacLayerInfo,
+  StacLayerAddOptions,
   StacAssetInfo,
   StacSearchControlOptions,
   StacSearchControlState,
@@ -299,6 +414,9 @@ export type {
   MeasureEventHandler,
   MeasureMode,
   MeasurePoint,
+  ElevationSample,
+  ElevationProfile,
+  MeasureExportFormat,
   Measurement,
   DistanceUnit,
   AreaUnit,
@@ -307,6 +425,10 @@ export type {
   BookmarkEvent,
   BookmarkEventHandler,
   BookmarkExportMode,
+  BookmarkExportFormat,
+  BookmarkStorageAdapter,
+  BookmarkStorageData,
+  BookmarkTourState,
   MapBookmark,
   MapBookmarkGroup,
   PrintControlOptions,
@@ -315,6 +437,16 @@ export type {
   PrintEvent,
   PrintEventHandler,
   PrintTheme,
+  PrintAtlasOptions,
+  PrintAtlasSource,
+  PrintAtlasOutput,
+  PrintAnimationOptions,
+  PrintAnimationSource,
+  PrintAnimationFormat,
+  PrintAnimationTimeSeries,
+  PrintLayout,
+  PrintLayoutElement,
+  PrintLayoutElementType,
   MinimapControlOptions,
   MinimapControlState,
   MinimapEvent,
@@ -351,6 +483,18 @@ export type {
   TileLayerEvent,
   TileLayerEventData,
   TileLayerEventHandler,
+  AttributeTableSortDirection,
+  AttributeTableControlOptions,
+  AttributeTableControlState,
+  AttributeTableEvent,
+  AttributeTableEventData,
+  AttributeTableEventHandler,
+  SpatialQueryLayerInfo,
+  SpatialQueryControlOptions,
+  SpatialQueryControlState,
+  SpatialQueryEvent,
+  SpatialQueryEventData,
+  SpatialQueryEventHandler,
 } from "./lib/core/types";
 
 // Converter types
@@ -358,6 +502,7 @@ export type {
   ConversionResult,
   ConversionMetadata,
   VectorConverter,
+  SpatialQueryResult,
 } from "./lib/converters";
 
 // Auto-install Map.prototype.addControlGrid
@@ -3,6 +3,7 @@ import type {
   ConversionResult,
   ConversionProgressCallback,
   ConversionMetadata,
+  SpatialQueryResult,
 } from "./types";
 
 /**
@@ -17,6 +18,8 @@ type DuckDBModule = any;
 interface DuckDBInstance {
   connect(): Promise<DuckDBConnection>;
   registerFileBuffer(name: string, buffer: Uint8Array): Promise<void>;
+  registerEmptyFileBuffer(name: string): Promise<void>;
+  copyFileToBuffer(name: string): Promise<Uint8Array>;
   registerFileURL(
     name: string,
     url: string,
@@ -29,10 +32,38 @@ interface DuckDBInstance {
 }
 
 interface DuckDBConnection {
-  query<T = Record<string, unknown>>(sql: string): Promise<{ toArray(): T[] }>;
+  query<T = Record<string, unknown>>(sql: string): Promise<DuckDBResult<T>>;
   close(): Promise<void>;
 }
 
+/** An Arrow table returned by a query. */
+interface DuckDBResult<T> {
+  schema: { fields: { name: string; type: unknown }[] };
+  toArray(): T[];
+}
+
+/**
+ * Converts a value read from a DuckDB (Arrow) result row to a plain
+ * JSON-compatible value.
+ */
+function toPlainValue(value: unknown): unknown {
+  if (typeof value === "bigint") return Number(value);
+  if (value instanceof Uint8Array) return `<${value.byteLength} bytes>`;
+  if (value && typeof value === "object") {
+    const json = (value as { toJSON?: () => unknown }).toJSON;
+    if (typeof json === "function" && !(value instanceof Date)) {
+      return toPlainValue(json.call(value));
+    }
+    if (Array.isArray(value)) return value.map(toPlainValue);
+    if (!(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, toPlainValue(v)]),
+      );
+    }
+  }
+  return value;
+}
+
 /** Singleton instance of the DuckDB converter. */
 let converterInstance: DuckDBConverter | null = null;
 
@@ -69,6 +100,7 @@ export class DuckDBConverter implements VectorConverter {
   private _initialized = false;
   private _initializing = false;
   private _bundleUrl?: string;
+  private _registeredFiles = new Set<string>();
 
   /**
    * Creates a new DuckDBConverter instance.
@@ -578,6 +610,168 @@ export class DuckDBConverter implements VectorConverter {
       this._duckdb.DuckDBDataProtocol.HTTP,
       false, // not direct IO
     );
+    this._registeredFiles.add(fileName);
+  }
+
+  /**
+   * Registers a file buffer so it can be referenced by name in queries, e.g.
+   * `SELECT * FROM ST_Read('parcels.gpkg')`.
+   *
+   * @param fileName - The internal filename to use for queries.
+   * @param buffer - The file contents.
+   */
+  async registerFile(
+    fileName: string,
+    buffer: ArrayBuffer | Uint8Array,
+  ): Promise<void> {
+    if (!this.isReady()) {
+      await this.initialize();
+    }
+
+    if (!this._db) {
+      throw new Error("DuckDB not initialized");
+    }
+
+    await this._db.registerFileBuffer(
+      fileName,
+      buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer),
+    );
+    this._registeredFiles.add(fileName);
+  }
+
+  /**
+   * Returns the names of the files registered for querying.
+   */
+  getRegisteredFiles(): string[] {
+    return [...this._registeredFiles];
+  }
+
+  /**
+   * Loads a GeoJSON FeatureCollection into a table (replacing any table of
+   * the same name), with its geometry in a `geom` column.
+   *
+   * @param tableName - The table name to create.
+   * @param geojson - The features to load.
+   */
+  async registerGeoJSON(
+    tableName: string,
+    geojson: GeoJSON.FeatureCollection,
+  ): Promise<void> {
+    if (!this.isReady()) {
+      await this.initialize();
+    }
+
+    if (!this._db) {
+      throw new Error("DuckDB not initialized");
+    }
+
+    const fileName = `${tableName}.table.geojson`;
+    await this._db.registerFileBuffer(
+      fileName,
+      new TextEncoder().encode(JSON.stringify(geojson)),
+    );
+
+    const conn = await this._db.connect();
+
+    try {
+      await conn.query(
+        `CREATE OR REPLACE TABLE "${tableName}" AS SELECT * FROM ST_Read('${fileName}')`,
+      );
+    } finally {
+      await conn.close();
+      try {
+        await this._db!.dropFile(fileName);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
+  /**
+   * Runs an arbitrary SQL statement. When the statement returns rows with a
+   * GEOMETRY column, the rows are also returned as GeoJSON features.
+   * Statements that cannot be described (e.g. `SHOW`, `PRAGMA` or
+   * `CREATE TABLE`) return their rows as-is, which may be none.
+   *
+   * @param sql - The SQL statement to run.
+   * @returns The result columns, rows and features.
+   */
+  async query(sql: string): Promise<SpatialQueryResult> {
+    if (!this.isReady()) {
+      await this.initialize();
+    }
+
+    if (!this._db) {
+      throw new Error("DuckDB not initialized");
+    }
+
+    const statement = sql.trim().replace(/;\s*$/, "");
+    const conn = await this._db.connect();
+
+    try {
+      let described: { column_name: string; column_type: string }[];
+      try {
+        described = (
+          await conn.query<{ column_name: string; column_type: string }>(
+            `DESCRIBE ${statement}`,
+          )
+        ).toArray();
+      } catch {
+        // Not a plain query (or invalid): run it as-is so a genuine SQL
+        // error surfaces with DuckDB's own message. Column types are the
+        // result's Arrow types, the DuckDB ones being unknown.
+        const result = await conn.query(statement);
+        return {
+          columns: result.schema.fields.map((f) => ({
+            name: f.name,
+            type: String(f.type),
+          })),
+          rows: result
+            .toArray()
+            .map((row) => toPlainValue(row) as Record<string, unknown>),
+          geometryColumn: null,
+          geojson: { type: "FeatureCollection", features: [] },
+        };
+      }
+
+      const geometryColumn =
+        described.find((c) =>
+          c.column_type?.toUpperCase().startsWith("GEOMETRY"),
+        )?.column_name ?? null;
+      const columns = described
+        .filter((c) => c.column_name !== geometryColumn)
+        .map((c) => ({ name: c.column_name, type: c.column_type }));
+
+      const select = geometryColumn
+        ? `SELECT * EXCLUDE ("${geometryColumn}"), ST_AsGeoJSON("${geometryColumn}") AS "__geojson" FROM (${statement})`
+        : statement;
+      const result = await conn.query(select);
+
+      const rows: Record<string, unknown>[] = [];
+      const features: GeoJSON.Feature[] = [];
+      for (const row of result.toArray()) {
+        const { __geojson: geometry, ...properties } = toPlainValue(
+          row,
+        ) as Record<string, unknown>;
+        rows.push(properties);
+        if (typeof geometry === "string") {
+          features.push({
+            type: "Feature",
+            geometry: JSON.parse(geometry),
+            properties,
+          });
+        }
+      }
+
+      return {
+        columns,
+        rows,
+        geometryColumn,
+        geojson: { type: "FeatureCollection", features },
+      };
+    } finally {
+      await conn.close();
+    }
   }
 
   /**
@@ -742,6 +936,75 @@ export class DuckDBConverter implements VectorConverter {
     }
   }
 
+  /**
+   * Writes a GeoJSON FeatureCollection to another format through the spatial
+   * extension's GDAL `COPY ... TO` path.
+   *
+   * @param geojson - The features to write.
+   * @param driver - GDAL driver name, e.g. 'GPKG', 'FlatGeobuf' or 'ESRI Shapefile'.
+   * @param fileName - Output filename, including the driver's extension.
+   * @param sidecarExtensions - Extensions of extra files the driver writes
+   *   next to the output, e.g. ['.shx', '.dbf', '.prj'] for Shapefile.
+   * @returns The non-empty written files keyed by filename.
+   */
+  async exportGeoJSON(
+    geojson: GeoJSON.FeatureCollection,
+    driver: string,
+    fileName: string,
+    sidecarExtensions: string[] = [],
+  ): Promise<Record<string, Uint8Array>> {
+    if (!this.isReady()) {
+      await this.initialize();
+    }
+
+    if (!this._db) {
+      throw new Error("DuckDB not initialized");
+    }
+
+    const inputName = `${fileName}.input.geojson`;
+    const baseName = fileName.replace(/\.[^.]+$/, "");
+    const outputNames = [
+      fileName,
+      ...sidecarExtensions.map((ext) => `${baseName}${ext}`),
+    ];
+
+    await this._db.registerFileBuffer(
+      inputName,
+      new TextEncoder().encode(JSON.stringify(geojson)),
+    );
+    for (const name of outputNames) {
+      await this._db.registerEmptyFileBuffer(name);
+    }
+
+    const conn = await this._db.connect();
+
+    try {
+      await conn.query(`
+        COPY (SELECT * FROM ST_Read('${inputName}'))
+        TO '${fileName}'
+        WITH (FORMAT GDAL, DRIVER '${driver}', SRS 'EPSG:4326')
+      `);
+
+      const files: Record<string, Uint8Array> = {};
+      for (const name of outputNames) {
+        const data = await this._db.copyFileToBuffer(name);
+        if (data.byteLength > 0) {
+          files[name] = data;
+        }
+      }
+      return files;
+    } finally {
+      await conn.close();
+      for (const name of [inputName, ...outputNames]) {
+        try {
+          await this._db!.dropFile(name);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    }
+  }
+
   /**
    * Unregisters a file from DuckDB.
    *
@@ -750,6 +1013,7 @@ export class DuckDBConverter implements VectorConverter {
   async unregisterFile(fileName: string): Promise<void> {
     if (!this._db) return;
 
+    this._registeredFiles.delete(fileName);
     try {
       await this._db.dropFile(fileName);
     } catch {
@@ -771,6 +1035,7 @@ export class DuckDBConverter implements VectorConverter {
     }
     this._initialized = false;
     this._duckdb = null;
+    this._registeredFiles.clear();
 
     // Clear singleton if this is it
     if (converterInstance === this) {
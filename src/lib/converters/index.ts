@@ -9,6 +9,7 @@ export type {
   ConversionProgress,
   ConversionProgressCallback,
   VectorConverter,
+  SpatialQueryResult,
 } from "./types";
 
 export { DuckDBConverter, getDuckDBConverter } from "./DuckDBConverter";
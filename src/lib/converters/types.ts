@@ -28,6 +28,20 @@ export interface ConversionMetadata {
   conversionTimeMs: number;
 }
 
+/**
+ * Result of a SQL query run with {@link DuckDBConverter.query}.
+ */
+export interface SpatialQueryResult {
+  /** Non-geometry result columns with their DuckDB types. */
+  columns: { name: string; type: string }[];
+  /** Result rows (without the geometry column) as plain objects. */
+  rows: Record<string, unknown>[];
+  /** Name of the geometry column, or null if the result has none. */
+  geometryColumn: string | null;
+  /** The rows with a geometry as GeoJSON features. */
+  geojson: GeoJSON.FeatureCollection;
+}
+
 /**
  * Progress callback for conversion operations.
  */
@@ -5,17 +5,36 @@ import "../styles/add-vector.css";
 import {
   GeoJSONSource,
   Popup,
+  type FilterSpecification,
   type IControl,
   type Map as MapLibreMap,
 } from "maplibre-gl";
 import { createSampleDropdown } from "./sampleDropdown";
+import {
+  applyAttributeFilter,
+  buildFilterExpression,
+  collectColumns,
+  createFilterBuilder,
+  FILTER_ICON,
+} from "./filterBuilder";
+import {
+  createExportForm,
+  downloadBlob,
+  EXPORT_ICON,
+  exportFeatures,
+  selectFeatures,
+} from "./vectorExport";
 import type {
+  AttributeFilter,
   AddVectorControlOptions,
   AddVectorControlState,
   AddVectorEvent,
   AddVectorEventHandler,
+  AddVectorLayerAddOptions,
   AddVectorLayerInfo,
   RemoteVectorFormat,
+  VectorExportFormat,
+  VectorExportOptions,
 } from "./types";
 import { generateId, debounce } from "../utils/helpers";
 import {
@@ -137,6 +156,11 @@ export class AddVectorControl implements IControl {
   private _viewportLoadingLayers: Set<string> = new Set();
   private _viewportHandler?: () => void;
   private _viewportLoadingState: Map<string, boolean> = new Map();
+  private _layerColumns: Map<string, string[]> = new Map();
+  private _baseFilters: Map<string, FilterSpecification | undefined> =
+    new Map();
+  private _openFilters: Set<string> = new Set();
+  private _openExports: Set<string> = new Set();
 
   constructor(options?: AddVectorControlOptions) {
     this._options = { ...DEFAULT_OPTIONS, ...options };
@@ -296,12 +320,32 @@ export class AddVectorControl implements IControl {
   }
 
   /**
-   * Programmatically add a vector layer from URL.
+   * Programmatically add a vector layer from URL. Any
+   * {@link AddVectorLayerAddOptions} field sets the matching panel value first.
    */
-  async addLayer(url?: string, format?: RemoteVectorFormat): Promise<void> {
+  async addLayer(
+    url?: string,
+    format?: RemoteVectorFormat,
+    options?: AddVectorLayerAddOptions,
+  ): Promise<void> {
     if (url) this._state.url = url;
     if (format) this._state.format = format;
-    await this._addLayer();
+    if (options?.name !== undefined) this._state.layerName = options.name;
+    if (options?.opacity !== undefined) {
+      this._state.layerOpacity = options.opacity;
+    }
+    if (options?.fillColor) this._state.fillColor = options.fillColor;
+    if (options?.strokeColor) this._state.strokeColor = options.strokeColor;
+    if (options?.circleColor) this._state.circleColor = options.circleColor;
+    if (options?.pickable !== undefined)
+      this._state.pickable = options.pickable;
+    if (options?.viewportLoading !== undefined) {
+      this._state.viewportLoading = options.viewportLoading;
+    }
+    if (options?.viewportMinZoom !== undefined) {
+      this._state.viewportMinZoom = options.viewportMinZoom;
+    }
+    await this._addLayer(options?.fitBounds ?? this._options.fitBounds);
   }
 
   /**
@@ -312,6 +356,73 @@ export class AddVectorControl implements IControl {
     this._render();
   }
 
+  /**
+   * Get the active attribute filter of a layer, or null if none.
+   */
+  getLayerFilter(layerId: string): AttributeFilter | null {
+    return this._vectorLayers.get(layerId)?.filter ?? null;
+  }
+
+  /**
+   * Filter a layer's features by attribute. Pass null to clear the filter.
+   */
+  setLayerFilter(layerId: string, filter: AttributeFilter | null): void {
+    const info = this._vectorLayers.get(layerId);
+    if (!this._map || !info) return;
+    applyAttributeFilter(this._map, info.layerIds, filter, this._baseFilters);
+    if (buildFilterExpression(filter)) {
+      info.filter = filter!;
+    } else {
+      delete info.filter;
+    }
+    this._state.layers = Array.from(this._vectorLayers.values());
+    this._render();
+    this._emit("filterchange", { layerId });
+  }
+
+  /**
+   * Export a layer's features and download the file. Viewport-loaded
+   * GeoParquet layers export the features currently loaded. GeoPackage,
+   * Shapefile and FlatGeobuf load DuckDB WASM.
+   */
+  async exportLayer(
+    layerId: string,
+    format: VectorExportFormat,
+    options: VectorExportOptions = {},
+  ): Promise<Blob | null> {
+    const info = this._vectorLayers.get(layerId);
+    const source = this._map?.getSource(info?.sourceId ?? "");
+    if (!this._map || !info || !(source instanceof GeoJSONSource)) {
+      return null;
+    }
+
+    const data = await source.getData();
+    const features =
+      data.type === "FeatureCollection"
+        ? data.features
+        : data.type === "Feature"
+          ? [data]
+          : [];
+    const bounds = this._map.getBounds();
+    const selected = selectFeatures(features, options.scope ?? "all", {
+      bounds: [
+        bounds.getWest(),
+        bounds.getSouth(),
+        bounds.getEast(),
+        bounds.getNorth(),
+      ],
+      filter: info.filter,
+    });
+    const { blob, filename } = await exportFeatures(
+      selected,
+      format,
+      options.filename ?? info.id,
+    );
+    downloadBlob(blob, filename);
+    this._emit("export", { layerId });
+    return blob;
+  }
+
   /**
    * Get all vector layer IDs.
    */
@@ -978,6 +1089,36 @@ export class AddVectorControl implements IControl {
 
         item.appendChild(label);
 
+        const filterOpen = this._openFilters.has(sourceId);
+        const filterBtn = document.createElement("button");
+        filterBtn.className = `maplibre-gl-filter-toggle${info.filter || filterOpen ? " maplibre-gl-filter-toggle--active" : ""}`;
+        filterBtn.innerHTML = FILTER_ICON;
+        filterBtn.title = info.filter ? "Edit filter (active)" : "Filter";
+        filterBtn.addEventListener("click", () => {
+          if (this._openFilters.has(sourceId)) {
+            this._openFilters.delete(sourceId);
+          } else {
+            this._openFilters.add(sourceId);
+          }
+          this._render();
+        });
+        item.appendChild(filterBtn);
+
+        const exportOpen = this._openExports.has(sourceId);
+        const exportBtn = document.createElement("button");
+        exportBtn.className = `maplibre-gl-filter-toggle${exportOpen ? " maplibre-gl-filter-toggle--active" : ""}`;
+        exportBtn.innerHTML = EXPORT_ICON;
+        exportBtn.title = "Export as...";
+        exportBtn.addEventListener("click", () => {
+          if (this._openExports.has(sourceId)) {
+            this._openExports.delete(sourceId);
+          } else {
+            this._openExports.add(sourceId);
+          }
+          this._render();
+        });
+        item.appendChild(exportBtn);
+
         const removeBtn = document.createElement("button");
         removeBtn.className = "maplibre-gl-add-vector-list-remove";
         removeBtn.innerHTML = "&times;";
@@ -989,6 +1130,28 @@ export class AddVectorControl implements IControl {
         item.appendChild(removeBtn);
 
         listContainer.appendChild(item);
+
+        if (filterOpen) {
+          listContainer.appendChild(
+            createFilterBuilder({
+              columns:
+                info.propertyColumns ?? this._layerColumns.get(sourceId) ?? [],
+              filter: info.filter,
+              onApply: (filter) => this.setLayerFilter(sourceId, filter),
+            }),
+          );
+        }
+
+        if (exportOpen) {
+          listContainer.appendChild(
+            createExportForm({
+              hasFilter: !!info.filter,
+              onExport: async (format, scope) => {
+                await this.exportLayer(sourceId, format, { scope });
+              },
+            }),
+          );
+        }
       }
 
       panel.appendChild(listContainer);
@@ -1035,7 +1198,7 @@ export class AddVectorControl implements IControl {
     this._panel.appendChild(status);
   }
 
-  private async _addLayer(): Promise<void> {
+  private async _addLayer(fitBounds = this._options.fitBounds): Promise<void> {
     // Validate map is initialized
     if (!this._map) {
       this._state.error = "Map not initialized.";
@@ -1330,6 +1493,7 @@ export class AddVectorControl implements IControl {
         opacity: this._state.layerOpacity,
         fillColor: this._state.fillColor,
         strokeColor: this._state.strokeColor,
+        circleColor: this._state.circleColor,
         pickable: this._state.pickable,
         viewportLoading: format === "geoparquet" && this._state.viewportLoading,
         viewportMinZoom:
@@ -1338,6 +1502,7 @@ export class AddVectorControl implements IControl {
             : undefined,
       };
       this._vectorLayers.set(layerId, layerInfo);
+      this._layerColumns.set(layerId, collectColumns(geojson.features));
 
       this._state.hasLayer = this._vectorLayers.size > 0;
       this._state.layerCount = this._vectorLayers.size;
@@ -1377,7 +1542,7 @@ export class AddVectorControl implements IControl {
 
       // Fit bounds if enabled (skip for viewport loading as data may be partial)
       if (
-        this._options.fitBounds &&
+        fitBounds &&
         geojson.features.length > 0 &&
         !layerInfo.viewportLoading
       ) {
@@ -1810,6 +1975,12 @@ export class AddVectorControl implements IControl {
         }
       }
       this._vectorLayers.delete(id);
+      this._layerColumns.delete(id);
+      this._openFilters.delete(id);
+      this._openExports.delete(id);
+      for (const layerId of info?.layerIds ?? []) {
+        this._baseFilters.delete(layerId);
+      }
       this._state.hasLayer = this._vectorLayers.size > 0;
       this._state.layerCount = this._vectorLayers.size;
       this._state.layers = Array.from(this._vectorLayers.values());
@@ -1843,6 +2014,10 @@ export class AddVectorControl implements IControl {
       }
     }
     this._vectorLayers.clear();
+    this._layerColumns.clear();
+    this._baseFilters.clear();
+    this._openFilters.clear();
+    this._openExports.clear();
     this._state.hasLayer = false;
     this._state.layerCount = 0;
     this._state.layers = [];
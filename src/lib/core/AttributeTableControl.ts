@@ -0,0 +1,989 @@
+import "../styles/common.css";
+import "../styles/attribute-table.css";
+import type {
+  ControlPosition,
+  GeoJSONSource,
+  IControl,
+  Map as MapLibreMap,
+  MapGeoJSONFeature,
+  MapMouseEvent,
+} from "maplibre-gl";
+import type {
+  AttributeTableControlOptions,
+  AttributeTableControlState,
+  AttributeTableEvent,
+  AttributeTableEventHandler,
+  AttributeTableSortDirection,
+} from "./types";
+import { generateId, geometryBounds } from "../utils/helpers";
+import { DEFAULT_HIGHLIGHT_STYLE } from "./InspectControl";
+
+/**
+ * Default options for the AttributeTableControl.
+ */
+const DEFAULT_OPTIONS: Required<AttributeTableControlOptions> = {
+  position: "top-right",
+  className: "",
+  visible: true,
+  collapsed: true,
+  layers: [],
+  excludeLayers: [],
+  excludeProperties: [],
+  highlightStyle: DEFAULT_HIGHLIGHT_STYLE,
+  zoomToFeature: true,
+  maxZoomToFeature: 16,
+  panelWidth: 480,
+  tableHeight: 300,
+  rowHeight: 24,
+  columnWidth: 120,
+  minzoom: 0,
+  maxzoom: 24,
+};
+
+/**
+ * Layer types whose features can be listed in the table.
+ */
+const TABLE_LAYER_TYPES = ["fill", "line", "circle", "fill-extrusion"];
+
+/**
+ * Extra rows rendered above and below the visible window while scrolling.
+ */
+const OVERSCAN_ROWS = 8;
+
+/**
+ * SVG icon for the attribute table button.
+ */
+const TABLE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="18" height="18" rx="2"/><line x1="3" y1="9" x2="21" y2="9"/><line x1="3" y1="15" x2="21" y2="15"/><line x1="9" y1="9" x2="9" y2="21"/></svg>`;
+
+/**
+ * A feature as listed in the table, keyed by its position in the source data.
+ */
+interface TableRow {
+  /** Index of the feature in the source data. */
+  index: number;
+  /** The GeoJSON feature. */
+  feature: GeoJSON.Feature;
+}
+
+/**
+ * How the features of a GeoJSON source get the IDs they are rendered with.
+ */
+interface SourceFeatureIds {
+  /** Whether IDs are the features' positions in the source data. */
+  generateId: boolean;
+  /** Property promoted to the feature ID, if any. */
+  promoteId?: string;
+}
+
+/**
+ * Whether a feature returned by `queryRenderedFeatures` is the feature of a
+ * row. Without a rendered ID, the rendered properties are compared.
+ */
+function isRenderedRow(
+  row: TableRow,
+  hit: MapGeoJSONFeature,
+  ids: SourceFeatureIds,
+): boolean {
+  if (ids.generateId) return row.index === hit.id;
+  if (hit.id !== undefined) {
+    const own = ids.promoteId
+      ? row.feature.properties?.[ids.promoteId]
+      : row.feature.id;
+    return own !== undefined && own !== null && String(own) === String(hit.id);
+  }
+  const rendered = Object.entries(hit.properties ?? {});
+  if (rendered.length === 0) return false;
+  const properties = row.feature.properties ?? {};
+  return rendered.every(([key, value]) => {
+    const own = properties[key];
+    // Nested values are rendered as JSON
+    return (
+      (own !== null && typeof own === "object" ? JSON.stringify(own) : own) ===
+      value
+    );
+  });
+}
+
+/**
+ * Formats a property value for display in a cell.
+ */
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Compares two property values, numbers numerically and everything else as
+ * text. Empty values sort last regardless of direction.
+ */
+function compareValues(
+  a: unknown,
+  b: unknown,
+  direction: AttributeTableSortDirection,
+): number {
+  const aEmpty = a === null || a === undefined || a === "";
+  const bEmpty = b === null || b === undefined || b === "";
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  const sign = direction === "asc" ? 1 : -1;
+  if (typeof a === "number" && typeof b === "number") {
+    return (a - b) * sign;
+  }
+  return (
+    formatCell(a).localeCompare(formatCell(b), undefined, { numeric: true }) *
+    sign
+  );
+}
+
+/**
+ * A control that lists the features of a vector layer in a table.
+ *
+ * Any layer backed by a GeoJSON source can be shown, including those added by
+ * VectorDatasetControl, AddVectorControl and ChoroplethControl. Only the rows
+ * in view are rendered, so large layers scroll smoothly. Columns sort on
+ * header click, a text box filters rows, selecting a row highlights and zooms
+ * to its feature, and clicking a feature on the map scrolls to its row.
+ *
+ * @example
+ * ```typescript
+ * const table = new AttributeTableControl({ collapsed: false });
+ * map.addControl(table, 'top-right');
+ *
+ * table.on('select', (event) => {
+ *   console.log('Selected:', event.feature);
+ * });
+ * ```
+ */
+export class AttributeTableControl implements IControl {
+  private _container?: HTMLElement;
+  private _button?: HTMLButtonElement;
+  private _panel?: HTMLElement;
+  private _options: Required<AttributeTableControlOptions>;
+  private _state: AttributeTableControlState;
+  private _eventHandlers: Map<
+    AttributeTableEvent,
+    Set<AttributeTableEventHandler>
+  > = new Map();
+  private _map?: MapLibreMap;
+  private _handleZoom?: () => void;
+  private _handleStyleData?: () => void;
+  private _boundClickHandler?: (e: MapMouseEvent) => void;
+  private _zoomVisible: boolean = true;
+  private _highlightSourceId: string;
+  private _highlightLayerIds: string[] = [];
+
+  /** Features of the current layer, in source order. */
+  private _rows: TableRow[] = [];
+  /** Filtered and sorted view of {@link _rows}. */
+  private _viewRows: TableRow[] = [];
+  /** How the current layer's features are identified when clicked. */
+  private _featureIds: SourceFeatureIds = { generateId: false };
+  private _columns: string[] = [];
+
+  // DOM elements
+  private _layerSelect?: HTMLSelectElement;
+  private _filterInput?: HTMLInputElement;
+  private _countEl?: HTMLElement;
+  private _scrollEl?: HTMLElement;
+  private _headerEl?: HTMLElement;
+  private _spacerEl?: HTMLElement;
+
+  /**
+   * Creates a new AttributeTableControl instance.
+   *
+   * @param options - Configuration options for the control.
+   */
+  constructor(options?: AttributeTableControlOptions) {
+    this._options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      highlightStyle: {
+        ...DEFAULT_HIGHLIGHT_STYLE,
+        ...options?.highlightStyle,
+      },
+    };
+    this._state = {
+      visible: this._options.visible,
+      collapsed: this._options.collapsed,
+      layerId: null,
+      sortColumn: null,
+      sortDirection: "asc",
+      filterText: "",
+      selectedIndex: null,
+    };
+    this._highlightSourceId = `attribute-table-highlight-${generateId()}`;
+  }
+
+  /**
+   * Called when the control is added to the map.
+   *
+   * @param map - The MapLibre GL map instance.
+   * @returns The control's container element.
+   */
+  onAdd(map: MapLibreMap): HTMLElement {
+    this._map = map;
+    this._container = this._createContainer();
+    this._setupZoomHandler();
+
+    this._boundClickHandler = (e) => this._handleMapClick(e);
+    map.on("click", this._boundClickHandler);
+
+    if (!this._state.collapsed) {
+      this._showPanel();
+    }
+
+    return this._container;
+  }
+
+  /**
+   * Called when the control is removed from the map.
+   */
+  onRemove(): void {
+    if (this._map) {
+      if (this._handleZoom) this._map.off("zoom", this._handleZoom);
+      if (this._boundClickHandler) {
+        this._map.off("click", this._boundClickHandler);
+      }
+    }
+    this._handleZoom = undefined;
+    this._boundClickHandler = undefined;
+    this._hidePanel();
+    this._removeHighlight();
+
+    this._container?.remove();
+    this._container = undefined;
+    this._button = undefined;
+    this._map = undefined;
+  }
+
+  /**
+   * Get the default position for this control.
+   */
+  getDefaultPosition(): ControlPosition {
+    return this._options.position as ControlPosition;
+  }
+
+  /**
+   * Register an event handler.
+   */
+  on(event: AttributeTableEvent, handler: AttributeTableEventHandler): this {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler);
+    return this;
+  }
+
+  /**
+   * Remove an event handler.
+   */
+  off(event: AttributeTableEvent, handler: AttributeTableEventHandler): this {
+    this._eventHandlers.get(event)?.delete(handler);
+    return this;
+  }
+
+  /**
+   * Emit an event to registered handlers.
+   */
+  private _emit(
+    event: AttributeTableEvent,
+    extra?: { feature?: GeoJSON.Feature },
+  ): void {
+    const handlers = this._eventHandlers.get(event);
+    if (handlers) {
+      const eventData = {
+        type: event,
+        state: this.getState(),
+        ...extra,
+      };
+      handlers.forEach((handler) => handler(eventData));
+    }
+  }
+
+  /**
+   * Create the control container.
+   */
+  private _createContainer(): HTMLElement {
+    const container = document.createElement("div");
+    container.className = `maplibregl-ctrl maplibre-gl-attribute-table ${this._options.className}`;
+
+    if (!this._state.visible) {
+      container.style.display = "none";
+    }
+
+    this._button = document.createElement("button");
+    this._button.type = "button";
+    this._button.className = "attribute-table-button";
+    this._button.title = "Attribute table";
+    this._button.setAttribute("aria-label", "Attribute table");
+    this._button.innerHTML = TABLE_ICON;
+    this._button.addEventListener("click", () => this._togglePanel());
+    container.appendChild(this._button);
+
+    return container;
+  }
+
+  /**
+   * Create the panel: layer picker, filter box and the scrollable grid.
+   */
+  private _createPanel(): HTMLElement {
+    const panel = document.createElement("div");
+    panel.className = `attribute-table-panel ${this._options.position.includes("left") ? "right" : "left"}`;
+    panel.style.width = `${this._options.panelWidth}px`;
+
+    const toolbar = document.createElement("div");
+    toolbar.className = "attribute-table-toolbar";
+
+    this._layerSelect = document.createElement("select");
+    this._layerSelect.className = "attribute-table-layer-select";
+    this._layerSelect.title = "Layer";
+    this._layerSelect.addEventListener("change", () => {
+      void this.setLayer(this._layerSelect!.value || null);
+    });
+    toolbar.appendChild(this._layerSelect);
+
+    this._filterInput = document.createElement("input");
+    this._filterInput.type = "search";
+    this._filterInput.className = "attribute-table-filter";
+    this._filterInput.placeholder = "Filter rows...";
+    this._filterInput.value = this._state.filterText;
+    this._filterInput.addEventListener("input", () => {
+      this.setFilter(this._filterInput!.value);
+    });
+    toolbar.appendChild(this._filterInput);
+
+    panel.appendChild(toolbar);
+
+    this._scrollEl = document.createElement("div");
+    this._scrollEl.className = "attribute-table-scroll";
+    this._scrollEl.style.height = `${this._options.tableHeight}px`;
+    this._scrollEl.addEventListener("scroll", () => this._renderRows());
+
+    this._headerEl = document.createElement("div");
+    this._headerEl.className = "attribute-table-header";
+    this._scrollEl.appendChild(this._headerEl);
+
+    this._spacerEl = document.createElement("div");
+    this._spacerEl.className = "attribute-table-rows";
+    this._scrollEl.appendChild(this._spacerEl);
+
+    panel.appendChild(this._scrollEl);
+
+    this._countEl = document.createElement("div");
+    this._countEl.className = "attribute-table-count";
+    panel.appendChild(this._countEl);
+
+    return panel;
+  }
+
+  /**
+   * Toggle the panel visibility.
+   */
+  private _togglePanel(): void {
+    if (this._state.collapsed) {
+      this.expand();
+    } else {
+      this.collapse();
+    }
+  }
+
+  /**
+   * Show the panel and keep its layer picker in sync with the map style.
+   */
+  private _showPanel(): void {
+    if (!this._panel && this._container) {
+      this._panel = this._createPanel();
+      this._container.appendChild(this._panel);
+      this._updateLayerOptions();
+      this._renderTable();
+
+      if (this._map && !this._handleStyleData) {
+        this._handleStyleData = () => this._updateLayerOptions();
+        this._map.on("styledata", this._handleStyleData);
+      }
+    }
+    this._button?.classList.add("active");
+  }
+
+  /**
+   * Hide the panel.
+   */
+  private _hidePanel(): void {
+    if (this._map && this._handleStyleData) {
+      this._map.off("styledata", this._handleStyleData);
+    }
+    this._handleStyleData = undefined;
+    this._panel?.remove();
+    this._panel = undefined;
+    this._layerSelect = undefined;
+    this._filterInput = undefined;
+    this._countEl = undefined;
+    this._scrollEl = undefined;
+    this._headerEl = undefined;
+    this._spacerEl = undefined;
+    this._button?.classList.remove("active");
+  }
+
+  /**
+   * Rebuild the layer picker options when the set of table layers changes.
+   * When the current layer is gone from the map, the table is cleared.
+   */
+  private _updateLayerOptions(): void {
+    const layerIds = this.getLayerIds();
+
+    if (this._state.layerId && !layerIds.includes(this._state.layerId)) {
+      void this.setLayer(null);
+    }
+
+    const select = this._layerSelect;
+    if (!select) return;
+    const values = ["", ...layerIds];
+    const current = Array.from(select.options).map((o) => o.value);
+    if (
+      current.length !== values.length ||
+      current.some((v, i) => v !== values[i])
+    ) {
+      select.innerHTML = "";
+      const placeholder = document.createElement("option");
+      placeholder.value = "";
+      placeholder.textContent = layerIds.length
+        ? "Select a layer..."
+        : "No vector layers";
+      select.appendChild(placeholder);
+      for (const id of layerIds) {
+        const option = document.createElement("option");
+        option.value = id;
+        option.textContent = id;
+        select.appendChild(option);
+      }
+    }
+    select.value = this._state.layerId ?? "";
+  }
+
+  /**
+   * Returns the source ID of a layer, if it exists on the map.
+   */
+  private _getSourceId(layerId: string): string | null {
+    const layer = this._map?.getLayer(layerId) as
+      { source?: string } | undefined;
+    return typeof layer?.source === "string" ? layer.source : null;
+  }
+
+  /**
+   * Returns the IDs of all map layers drawing the current layer's source, so
+   * a click on any of them (fill or outline) maps back to a row.
+   */
+  private _getSiblingLayerIds(): string[] {
+    if (!this._map || !this._state.layerId) return [];
+    const sourceId = this._getSourceId(this._state.layerId);
+    const layers = this._map.getStyle()?.layers ?? [];
+    return layers
+      .filter((l) => "source" in l && l.source === sourceId)
+      .map((l) => l.id)
+      .filter((id) => !id.startsWith(this._highlightSourceId));
+  }
+
+  /**
+   * Recompute the filtered and sorted rows and re-render the grid.
+   */
+  private _updateView(): void {
+    const text = this._state.filterText.trim().toLowerCase();
+    let rows = this._rows;
+    if (text) {
+      rows = rows.filter((row) =>
+        this._columns.some((column) =>
+          formatCell(row.feature.properties?.[column])
+            .toLowerCase()
+            .includes(text),
+        ),
+      );
+    }
+
+    const { sortColumn, sortDirection } = this._state;
+    if (sortColumn) {
+      rows = [...rows].sort(
+        (a, b) =>
+          compareValues(
+            a.feature.properties?.[sortColumn],
+            b.feature.properties?.[sortColumn],
+            sortDirection,
+          ) || a.index - b.index,
+      );
+    }
+
+    this._viewRows = rows;
+    this._renderTable();
+  }
+
+  /**
+   * Render the header, the grid height and the rows in view.
+   */
+  private _renderTable(): void {
+    if (!this._headerEl || !this._spacerEl) return;
+    const rowWidth = this._columns.length * this._options.columnWidth;
+    const template = `repeat(${this._columns.length}, ${this._options.columnWidth}px)`;
+
+    this._headerEl.innerHTML = "";
+    this._headerEl.style.gridTemplateColumns = template;
+    this._headerEl.style.width = `${rowWidth}px`;
+    for (const column of this._columns) {
+      const cell = document.createElement("button");
+      cell.type = "button";
+      cell.className = "attribute-table-header-cell";
+      cell.dataset.column = column;
+      cell.title = `Sort by ${column}`;
+      let label = column;
+      if (this._state.sortColumn === column) {
+        cell.classList.add("sorted");
+        label += this._state.sortDirection === "asc" ? " ▲" : " ▼";
+      }
+      cell.textContent = label;
+      cell.addEventListener("click", () => this._handleSortClick(column));
+      this._headerEl.appendChild(cell);
+    }
+
+    this._spacerEl.style.height = `${this._viewRows.length * this._options.rowHeight}px`;
+    this._spacerEl.style.width = `${rowWidth}px`;
+    this._renderRows();
+
+    if (this._countEl) {
+      this._countEl.textContent = this._state.layerId
+        ? this._viewRows.length === this._rows.length
+          ? `${this._rows.length} features`
+          : `${this._viewRows.length} of ${this._rows.length} features`
+        : "";
+    }
+  }
+
+  /**
+   * Render only the rows inside the scrolled window (plus a small overscan).
+   */
+  private _renderRows(): void {
+    const scrollEl = this._scrollEl;
+    const spacer = this._spacerEl;
+    if (!scrollEl || !spacer) return;
+
+    const { rowHeight, tableHeight, columnWidth } = this._options;
+    const viewport = scrollEl.clientHeight || tableHeight;
+    const start = Math.max(
+      0,
+      Math.floor(scrollEl.scrollTop / rowHeight) - OVERSCAN_ROWS,
+    );
+    const end = Math.min(
+      this._viewRows.length,
+      Math.ceil((scrollEl.scrollTop + viewport) / rowHeight) + OVERSCAN_ROWS,
+    );
+    const template = `repeat(${this._columns.length}, ${columnWidth}px)`;
+
+    spacer.innerHTML = "";
+    for (let i = start; i < end; i++) {
+      const row = this._viewRows[i];
+      const rowEl = document.createElement("div");
+      rowEl.className = "attribute-table-row";
+      if (row.index === this._state.selectedIndex) {
+        rowEl.classList.add("selected");
+      }
+      rowEl.dataset.index = String(row.index);
+      rowEl.style.top = `${i * rowHeight}px`;
+      rowEl.style.height = `${rowHeight}px`;
+      rowEl.style.gridTemplateColumns = template;
+
+      for (const column of this._columns) {
+        const cell = document.createElement("div");
+        cell.className = "attribute-table-cell";
+        const text = formatCell(row.feature.properties?.[column]);
+        cell.textContent = text;
+        cell.title = text;
+        rowEl.appendChild(cell);
+      }
+
+      rowEl.addEventListener("click", () => this.selectFeature(row.index));
+      spacer.appendChild(rowEl);
+    }
+  }
+
+  /**
+   * Sort by a column, flipping the direction when it is already sorted.
+   */
+  private _handleSortClick(column: string): void {
+    const direction =
+      this._state.sortColumn === column && this._state.sortDirection === "asc"
+        ? "desc"
+        : "asc";
+    this.sortBy(column, direction);
+  }
+
+  /**
+   * Select the clicked feature's row when it belongs to the current layer.
+   */
+  private _handleMapClick(e: MapMouseEvent): void {
+    if (!this._map || this._state.collapsed || !this._state.layerId) return;
+    const layers = this._getSiblingLayerIds().filter((id) =>
+      this._map!.getLayer(id),
+    );
+    if (layers.length === 0) return;
+
+    const [hit] = this._map.queryRenderedFeatures(e.point, { layers });
+    if (!hit) return;
+
+    const row = this._rows.find((r) => isRenderedRow(r, hit, this._featureIds));
+    if (row) {
+      this.selectFeature(row.index, { zoom: false });
+    }
+  }
+
+  /**
+   * Scroll the grid so the row of a feature is in view, clearing the text
+   * filter first when it hides that row.
+   */
+  private _scrollToRow(index: number): void {
+    let position = this._viewRows.findIndex((r) => r.index === index);
+    if (position === -1 && this._state.filterText) {
+      this.setFilter("");
+      position = this._viewRows.findIndex((r) => r.index === index);
+    }
+    if (position === -1 || !this._scrollEl) return;
+
+    const { rowHeight, tableHeight } = this._options;
+    const viewport = this._scrollEl.clientHeight || tableHeight;
+    const top = position * rowHeight;
+    if (
+      top < this._scrollEl.scrollTop ||
+      top + rowHeight > this._scrollEl.scrollTop + viewport
+    ) {
+      this._scrollEl.scrollTop = Math.max(0, top - viewport / 2);
+    }
+    this._renderRows();
+  }
+
+  /**
+   * Zoom the map to a feature's extent.
+   */
+  private _zoomTo(feature: GeoJSON.Feature): void {
+    const bounds = geometryBounds(feature.geometry);
+    if (!this._map || !bounds) return;
+    this._map.fitBounds(
+      [
+        [bounds[0], bounds[1]],
+        [bounds[2], bounds[3]],
+      ],
+      { padding: 50, maxZoom: this._options.maxZoomToFeature },
+    );
+  }
+
+  /**
+   * Adds highlight layers for a feature.
+   */
+  private _addHighlight(feature: GeoJSON.Feature): void {
+    if (!this._map || !feature.geometry) return;
+    const map = this._map;
+    this._removeHighlight();
+
+    const style = this._options.highlightStyle;
+    const source = this._highlightSourceId;
+    map.addSource(source, { type: "geojson", data: feature });
+
+    const geometryType = feature.geometry.type;
+    if (geometryType === "Point" || geometryType === "MultiPoint") {
+      map.addLayer({
+        id: `${source}-circle`,
+        type: "circle",
+        source,
+        paint: {
+          "circle-radius": style.circleRadius,
+          "circle-color": style.fillColor,
+          "circle-opacity": style.fillOpacity,
+          "circle-stroke-color": style.strokeColor,
+          "circle-stroke-width": style.circleStrokeWidth,
+        },
+      });
+      this._highlightLayerIds.push(`${source}-circle`);
+      return;
+    }
+
+    if (geometryType === "Polygon" || geometryType === "MultiPolygon") {
+      map.addLayer({
+        id: `${source}-fill`,
+        type: "fill",
+        source,
+        paint: {
+          "fill-color": style.fillColor,
+          "fill-opacity": style.fillOpacity,
+        },
+      });
+      this._highlightLayerIds.push(`${source}-fill`);
+    }
+
+    map.addLayer({
+      id: `${source}-line`,
+      type: "line",
+      source,
+      paint: {
+        "line-color": style.strokeColor,
+        "line-width": style.strokeWidth,
+      },
+    });
+    this._highlightLayerIds.push(`${source}-line`);
+  }
+
+  /**
+   * Removes highlight layers.
+   */
+  private _removeHighlight(): void {
+    if (!this._map) return;
+    for (const layerId of this._highlightLayerIds) {
+      if (this._map.getLayer(layerId)) {
+        this._map.removeLayer(layerId);
+      }
+    }
+    this._highlightLayerIds = [];
+    if (this._map.getSource(this._highlightSourceId)) {
+      this._map.removeSource(this._highlightSourceId);
+    }
+  }
+
+  /**
+   * Set up zoom-based visibility handling.
+   */
+  private _setupZoomHandler(): void {
+    if (!this._map) return;
+
+    this._handleZoom = () => {
+      const zoom = this._map!.getZoom();
+      const shouldShow =
+        zoom >= this._options.minzoom && zoom <= this._options.maxzoom;
+
+      if (shouldShow !== this._zoomVisible) {
+        this._zoomVisible = shouldShow;
+        if (this._container) {
+          this._container.style.display =
+            shouldShow && this._state.visible ? "" : "none";
+        }
+      }
+    };
+
+    this._map.on("zoom", this._handleZoom);
+    this._handleZoom();
+  }
+
+  // Public API methods
+
+  /**
+   * Show the control.
+   */
+  show(): this {
+    this._state.visible = true;
+    if (this._container && this._zoomVisible) {
+      this._container.style.display = "";
+    }
+    this._emit("show");
+    return this;
+  }
+
+  /**
+   * Hide the control.
+   */
+  hide(): this {
+    this._state.visible = false;
+    if (this._container) {
+      this._container.style.display = "none";
+    }
+    this._emit("hide");
+    return this;
+  }
+
+  /**
+   * Expand the panel.
+   */
+  expand(): this {
+    if (!this._state.collapsed) return this;
+    this._state.collapsed = false;
+    this._showPanel();
+    this._emit("expand");
+    return this;
+  }
+
+  /**
+   * Collapse the panel.
+   */
+  collapse(): this {
+    if (this._state.collapsed) return this;
+    this._state.collapsed = true;
+    this._hidePanel();
+    this._emit("collapse");
+    return this;
+  }
+
+  /**
+   * Get the current state.
+   */
+  getState(): AttributeTableControlState {
+    return { ...this._state };
+  }
+
+  /**
+   * Returns the layers that can be shown in the table: the configured
+   * `layers`, or one layer per GeoJSON source on the map.
+   */
+  getLayerIds(): string[] {
+    if (!this._map) return [];
+    const excluded = new Set(this._options.excludeLayers);
+
+    if (this._options.layers.length > 0) {
+      return this._options.layers.filter(
+        (id) => !excluded.has(id) && this._map!.getLayer(id),
+      );
+    }
+
+    const seenSources = new Set<string>();
+    const ids: string[] = [];
+    for (const layer of this._map.getStyle()?.layers ?? []) {
+      if (!TABLE_LAYER_TYPES.includes(layer.type) || excluded.has(layer.id)) {
+        continue;
+      }
+      const sourceId = "source" in layer ? layer.source : undefined;
+      if (
+        typeof sourceId !== "string" ||
+        seenSources.has(sourceId) ||
+        sourceId.startsWith("attribute-table-highlight-") ||
+        sourceId.startsWith("inspect-highlight-") ||
+        this._map.getSource(sourceId)?.type !== "geojson"
+      ) {
+        continue;
+      }
+      seenSources.add(sourceId);
+      ids.push(layer.id);
+    }
+    return ids;
+  }
+
+  /**
+   * Show the features of a layer in the table, or clear it with `null`.
+   * Features are read from the layer's GeoJSON source.
+   */
+  async setLayer(layerId: string | null): Promise<this> {
+    this._rows = [];
+    this._columns = [];
+    this._state.layerId = null;
+    this._state.selectedIndex = null;
+    this._state.sortColumn = null;
+    this._removeHighlight();
+
+    const sourceId = layerId ? this._getSourceId(layerId) : null;
+    const source = sourceId ? this._map?.getSource(sourceId) : undefined;
+    if (layerId && source?.type === "geojson") {
+      const data = await (source as GeoJSONSource).getData();
+      // Sources added by this library use `generateId: true`; others render
+      // the features' own IDs
+      const options = (
+        source as {
+          serialize?: () => { generateId?: boolean; promoteId?: unknown };
+        }
+      ).serialize?.();
+      this._featureIds = {
+        generateId: options?.generateId === true,
+        promoteId:
+          typeof options?.promoteId === "string"
+            ? options.promoteId
+            : undefined,
+      };
+      const features =
+        data.type === "FeatureCollection"
+          ? data.features
+          : data.type === "Feature"
+            ? [data]
+            : [];
+
+      const excluded = new Set(this._options.excludeProperties);
+      const columns = new Set<string>();
+      for (const feature of features) {
+        for (const key of Object.keys(feature.properties ?? {})) {
+          if (!excluded.has(key)) columns.add(key);
+        }
+      }
+
+      this._rows = features.map((feature, index) => ({ index, feature }));
+      this._columns = [...columns];
+      this._state.layerId = layerId;
+    }
+
+    if (this._layerSelect) {
+      this._layerSelect.value = this._state.layerId ?? "";
+    }
+    if (this._scrollEl) this._scrollEl.scrollTop = 0;
+    this._updateView();
+    this._emit("layerchange");
+    return this;
+  }
+
+  /**
+   * Returns the table columns (property names) of the current layer.
+   */
+  getColumns(): string[] {
+    return [...this._columns];
+  }
+
+  /**
+   * Returns the features currently listed, after filtering and sorting.
+   */
+  getFeatures(): GeoJSON.Feature[] {
+    return this._viewRows.map((row) => row.feature);
+  }
+
+  /**
+   * Sort the rows by a column, or restore source order with `null`.
+   */
+  sortBy(
+    column: string | null,
+    direction: AttributeTableSortDirection = "asc",
+  ): this {
+    this._state.sortColumn = column;
+    this._state.sortDirection = direction;
+    this._updateView();
+    this._emit("sort");
+    return this;
+  }
+
+  /**
+   * Filter the rows to those with a cell containing `text` (case-insensitive).
+   */
+  setFilter(text: string): this {
+    this._state.filterText = text;
+    if (this._filterInput && this._filterInput.value !== text) {
+      this._filterInput.value = text;
+    }
+    if (this._scrollEl) this._scrollEl.scrollTop = 0;
+    this._updateView();
+    this._emit("filter");
+    return this;
+  }
+
+  /**
+   * Select a feature by its index in the source data: highlight it, scroll
+   * to its row and (unless `zoom` is false) zoom the map to it.
+   */
+  selectFeature(index: number, options: { zoom?: boolean } = {}): this {
+    const row = this._rows[index];
+    if (!row) return this;
+
+    this._state.selectedIndex = index;
+    this._addHighlight(row.feature);
+    this._scrollToRow(index);
+    if (options.zoom ?? this._options.zoomToFeature) {
+      this._zoomTo(row.feature);
+    }
+    this._emit("select", { feature: row.feature });
+    return this;
+  }
+
+  /**
+   * Clear the selected feature and its highlight.
+   */
+  clearSelection(): this {
+    this._state.selectedIndex = null;
+    this._removeHighlight();
+    this._renderRows();
+    return this;
+  }
+}
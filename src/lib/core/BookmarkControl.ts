@@ -10,11 +10,26 @@ import type {
   BookmarkControlState,
   BookmarkEvent,
   BookmarkEventHandler,
+  BookmarkExportFormat,
   BookmarkExportMode,
+  BookmarkStorageData,
+  BookmarkTourState,
   MapBookmark,
   MapBookmarkGroup,
 } from "./types";
-import { generateId } from "../utils/helpers";
+import { generateId, sanitizeHtml } from "../utils/helpers";
+import {
+  BOOKMARK_EXPORT_FORMATS,
+  decodeBookmarkShare,
+  encodeBookmarkShare,
+  exportBookmarksAs,
+  parseBookmarks,
+  type BookmarkCollection,
+} from "./bookmarkIO";
+import {
+  BookmarkStorageConflictError,
+  mergeBookmarkData,
+} from "./bookmarkStorage";
 import {
   addPanelResizeHandles,
   applyPanelMaxHeight,
@@ -23,10 +38,19 @@ import {
   type UserPanelSize,
 } from "../utils/panelResize";
 
+/** How often a sync merges again when the stored set changed meanwhile. */
+const MAX_SYNC_ATTEMPTS = 3;
+
 /**
  * Default options for the BookmarkControl.
  */
-const DEFAULT_OPTIONS: Required<BookmarkControlOptions> = {
+/** BookmarkControl options with required fields except for `shareParam` */
+type ResolvedBookmarkControlOptions = Required<
+  Omit<BookmarkControlOptions, "shareParam">
+> &
+  Pick<BookmarkControlOptions, "shareParam">;
+
+const DEFAULT_OPTIONS: ResolvedBookmarkControlOptions = {
   position: "top-right",
   className: "",
   visible: true,
@@ -61,6 +85,16 @@ const DEFAULT_OPTIONS: Required<BookmarkControlOptions> = {
   groups: [],
   newFolderLabel: "New Folder",
   defaultFolderName: "Folder",
+  exportFormat: "json",
+  shareable: false,
+  shareParam: undefined,
+  shareBaseUrl: "",
+  openSharedOnLoad: false,
+  storage: null,
+  tourable: false,
+  tourDwellTime: 5000,
+  tourLoop: false,
+  tourKeyboard: true,
 };
 
 /**
@@ -138,6 +172,19 @@ const FOLDER_OPEN_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 2
  */
 const FOLDER_PLUS_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z"/><line x1="12" y1="10" x2="12" y2="16"/><line x1="9" y1="13" x2="15" y2="13"/></svg>`;
 
+/**
+ * SVG icon for the copy share link action.
+ */
+const LINK_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"/><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"/></svg>`;
+
+/**
+ * SVG icons for the tour controls.
+ */
+const PLAY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polygon points="6 3 20 12 6 21 6 3"/></svg>`;
+const PAUSE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="6" y="4" width="4" height="16"/><rect x="14" y="4" width="4" height="16"/></svg>`;
+const PREVIOUS_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polygon points="19 20 9 12 19 4 19 20"/><line x1="5" y1="19" x2="5" y2="5"/></svg>`;
+const NEXT_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polygon points="5 4 15 12 5 20 5 4"/><line x1="19" y1="5" x2="19" y2="19"/></svg>`;
+
 /**
  * Format a date for display.
  */
@@ -178,7 +225,7 @@ export class BookmarkControl implements IControl {
   private _container?: HTMLElement;
   private _button?: HTMLButtonElement;
   private _panel?: HTMLElement;
-  private _options: Required<BookmarkControlOptions>;
+  private _options: ResolvedBookmarkControlOptions;
   private _state: BookmarkControlState;
   private _eventHandlers: Map<BookmarkEvent, Set<BookmarkEventHandler>> =
     new Map();
@@ -194,6 +241,17 @@ export class BookmarkControl implements IControl {
   private _exportSelection: Set<string> = new Set();
   /** ID of the bookmark currently being dragged for reordering (471). */
   private _dragId: string | null = null;
+  /** Format written by the footer's Export button. */
+  private _exportFormat: BookmarkExportFormat;
+  /** Deletion timestamps by bookmark/folder ID, persisted for merging. */
+  private _deleted: Record<string, number> = {};
+  /** Chain of storage backend syncs, so they never overlap. */
+  private _storageQueue: Promise<void> = Promise.resolve();
+  /** The open tour, if any. */
+  private _tour: BookmarkTourState | null = null;
+  private _tourTimer?: ReturnType<typeof setTimeout>;
+  private _tourPanel?: HTMLElement;
+  private _handleTourKey?: (e: KeyboardEvent) => void;
 
   // DOM elements
   private _listEl?: HTMLElement;
@@ -205,6 +263,7 @@ export class BookmarkControl implements IControl {
   constructor(options?: BookmarkControlOptions) {
     this._options = { ...DEFAULT_OPTIONS, ...options };
     this._captureEnabled = this._options.captureStateDefault;
+    this._exportFormat = this._options.exportFormat;
     this._state = {
       visible: this._options.visible,
       collapsed: this._options.collapsed,
@@ -213,8 +272,10 @@ export class BookmarkControl implements IControl {
       selectedId: null,
     };
 
-    // Load from localStorage if storageKey is set
-    if (this._options.storageKey) {
+    // Load from the storage backend, or from localStorage if storageKey is set
+    if (this._options.storage) {
+      void this.sync();
+    } else if (this._options.storageKey) {
       this._loadFromStorage();
     }
   }
@@ -231,6 +292,12 @@ export class BookmarkControl implements IControl {
       this._showPanel();
     }
 
+    // Open bookmarks shared through the page URL, if the host opted in
+    if (this._options.openSharedOnLoad && typeof window !== "undefined") {
+      const imported = this.openShareUrl(window.location.href);
+      if (imported.length > 0) this._removeShareParam();
+    }
+
     return this._container;
   }
 
@@ -238,6 +305,7 @@ export class BookmarkControl implements IControl {
    * Called when the control is removed from the map.
    */
   onRemove(): void {
+    this.endTour();
     if (this._handleZoom && this._map) {
       this._map.off("zoom", this._handleZoom);
     }
@@ -479,6 +547,20 @@ export class BookmarkControl implements IControl {
           <span>${this._escapeHtml(this._options.exportLabel)}</span>
         </button>`
         }
+        <select class="bookmark-export-format" title="Export format">
+          ${BOOKMARK_EXPORT_FORMATS.map(
+            (f) =>
+              `<option value="${f.value}"${f.value === this._exportFormat ? " selected" : ""}>${f.label}</option>`,
+          ).join("")}
+        </select>
+        ${
+          this._options.tourable
+            ? `<button type="button" class="bookmark-tour-btn" title="Play a tour of all bookmarks">
+          ${PLAY_ICON}
+          <span>Tour</span>
+        </button>`
+            : ""
+        }
       </div>
       ${
         this._state.bookmarks.length > 0
@@ -500,6 +582,15 @@ export class BookmarkControl implements IControl {
     footer
       .querySelector(".bookmark-export-all-btn")
       ?.addEventListener("click", () => this._exportToFile("all"));
+    footer
+      .querySelector(".bookmark-tour-btn")
+      ?.addEventListener("click", () => this.startTour());
+    const formatSelect = footer.querySelector(
+      ".bookmark-export-format",
+    ) as HTMLSelectElement | null;
+    formatSelect?.addEventListener("change", () => {
+      this._exportFormat = formatSelect.value as BookmarkExportFormat;
+    });
     footer
       .querySelector(".bookmark-clear-btn")
       ?.addEventListener("click", () => this._clearAll());
@@ -620,7 +711,7 @@ export class BookmarkControl implements IControl {
     const reorderable = this._options.reorderable;
     const selectable = this._options.selectable;
     return `
-        <div class="bookmark-item ${this._state.selectedId === b.id ? "active" : ""}${grouped ? " grouped" : ""}" data-id="${b.id}"${reorderable ? ' draggable="true"' : ""}>
+        <div class="bookmark-item ${this._state.selectedId === b.id ? "active" : ""}${grouped ? " grouped" : ""}${b.shared ? " shared" : ""}" data-id="${this._escapeAttr(b.id)}"${reorderable ? ' draggable="true"' : ""}${b.shared ? ' title="Shared bookmark"' : ""}>
           ${
             reorderable
               ? `<div class="bookmark-grip" title="Drag to reorder">${GRIP_ICON}</div>`
@@ -633,7 +724,7 @@ export class BookmarkControl implements IControl {
           }
           ${
             b.thumbnail
-              ? `<img class="bookmark-thumbnail" src="${b.thumbnail}" alt="${b.name}">`
+              ? `<img class="bookmark-thumbnail" src="${this._escapeAttr(b.thumbnail)}" alt="${this._escapeAttr(b.name)}">`
               : `<div class="bookmark-icon">${MAP_ICON}</div>`
           }
           <div class="bookmark-info">
@@ -645,6 +736,11 @@ export class BookmarkControl implements IControl {
             }
           </div>
           <div class="bookmark-actions">
+            ${
+              this._options.shareable
+                ? `<button type="button" class="bookmark-action-btn share" title="Copy share link">${LINK_ICON}</button>`
+                : ""
+            }
             <button type="button" class="bookmark-action-btn rename" title="Rename">${EDIT_ICON}</button>
             <button type="button" class="bookmark-action-btn delete" title="Delete">${TRASH_ICON}</button>
           </div>
@@ -668,6 +764,16 @@ export class BookmarkControl implements IControl {
           }</div>
           <div class="bookmark-group-name">${this._escapeHtml(group.name)}</div>
           <div class="bookmark-group-actions">
+            ${
+              this._options.tourable
+                ? `<button type="button" class="bookmark-group-btn tour" title="Play tour">${PLAY_ICON}</button>`
+                : ""
+            }
+            ${
+              this._options.shareable
+                ? `<button type="button" class="bookmark-group-btn share" title="Copy folder share link">${LINK_ICON}</button>`
+                : ""
+            }
             <button type="button" class="bookmark-group-btn rename" title="Rename">${EDIT_ICON}</button>
             <button type="button" class="bookmark-group-btn delete" title="Delete folder">${TRASH_ICON}</button>
           </div>
@@ -739,6 +845,22 @@ export class BookmarkControl implements IControl {
             e.stopPropagation();
             this._toggleGroupCollapsed(groupId);
           });
+        header
+          .querySelector(".bookmark-group-btn.tour")
+          ?.addEventListener("click", (e) => {
+            e.stopPropagation();
+            this.startTour(groupId);
+          });
+        header
+          .querySelector(".bookmark-group-btn.share")
+          ?.addEventListener("click", (e) => {
+            e.stopPropagation();
+            this._copyShareLink(
+              this.getGroupShareUrl(groupId),
+              e.currentTarget as HTMLButtonElement,
+              { group: this._state.groups.find((g) => g.id === groupId) },
+            );
+          });
         header
           .querySelector(".bookmark-group-btn.rename")
           ?.addEventListener("click", (e) => {
@@ -769,6 +891,16 @@ export class BookmarkControl implements IControl {
         this._goToBookmark(id);
       });
 
+      // Copy share link button
+      item.querySelector(".share")?.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this._copyShareLink(
+          this.getShareUrl(id),
+          e.currentTarget as HTMLButtonElement,
+          { bookmark: this._state.bookmarks.find((b) => b.id === id) },
+        );
+      });
+
       // Rename button
       item.querySelector(".rename")?.addEventListener("click", (e) => {
         e.stopPropagation();
@@ -852,12 +984,13 @@ export class BookmarkControl implements IControl {
 
     const target = bookmarks[to];
     const [moved] = bookmarks.splice(from, 1);
-    if (this._options.groupable) {
+    if (this._options.groupable && moved.groupId !== target.groupId) {
       if (target.groupId) {
         moved.groupId = target.groupId;
       } else {
         delete moved.groupId;
       }
+      moved.updatedAt = Date.now();
     }
     // The target index may have shifted after removing the dragged item.
     const insertAt = bookmarks.findIndex((b) => b.id === toId);
@@ -970,8 +1103,13 @@ export class BookmarkControl implements IControl {
     const index = this._state.groups.findIndex((g) => g.id === id);
     if (index === -1) return;
     const [group] = this._state.groups.splice(index, 1);
+    const now = Date.now();
+    this._deleted[id] = now;
     for (const b of this._state.bookmarks) {
-      if (b.groupId === id) delete b.groupId;
+      if (b.groupId === id) {
+        delete b.groupId;
+        b.updatedAt = now;
+      }
     }
     this._normalizeGroupContiguity();
     this._saveToStorage();
@@ -1054,6 +1192,7 @@ export class BookmarkControl implements IControl {
     } else {
       delete bookmark.groupId;
     }
+    bookmark.updatedAt = Date.now();
     // Move to the end of the array so it appends to the target folder's block
     // (or to the end of the ungrouped tail) after contiguity normalization.
     const index = this._state.bookmarks.indexOf(bookmark);
@@ -1123,6 +1262,13 @@ export class BookmarkControl implements IControl {
     return div.innerHTML;
   }
 
+  /**
+   * Escape text for use inside a double-quoted HTML attribute.
+   */
+  private _escapeAttr(str: string): string {
+    return this._escapeHtml(str).replace(/"/g, "&quot;");
+  }
+
   /**
    * Add a new bookmark.
    */
@@ -1198,6 +1344,7 @@ export class BookmarkControl implements IControl {
 
     const bookmark = this._state.bookmarks[index];
     this._state.bookmarks.splice(index, 1);
+    this._deleted[id] = Date.now();
 
     if (this._state.selectedId === id) {
       this._state.selectedId = null;
@@ -1229,7 +1376,8 @@ export class BookmarkControl implements IControl {
     });
 
     // Restore host-defined state captured with the bookmark (e.g. layers).
-    if (bookmark.extra) {
+    // State of shared bookmarks waits until the host accepts them.
+    if (bookmark.extra && !bookmark.shared) {
       this._options.restoreState(bookmark.extra);
     }
 
@@ -1262,6 +1410,7 @@ export class BookmarkControl implements IControl {
 
     const finishRename = () => {
       const newName = input.value.trim() || currentName;
+      if (newName !== bookmark.name) bookmark.updatedAt = Date.now();
       bookmark.name = newName;
       this._saveToStorage();
       this._updateList();
@@ -1282,10 +1431,24 @@ export class BookmarkControl implements IControl {
     });
   }
 
+  /**
+   * Time to stamp on a bookmark or folder that is added again: now, but
+   * always after its deletion, and its tombstone is dropped.
+   */
+  private _revivedAt(id: string): number {
+    const time = Math.max(Date.now(), (this._deleted[id] ?? 0) + 1);
+    delete this._deleted[id];
+    return time;
+  }
+
   /**
    * Clear all bookmarks.
    */
   private _clearAll(): void {
+    const now = Date.now();
+    for (const item of [...this._state.bookmarks, ...this._state.groups]) {
+      this._deleted[item.id] = now;
+    }
     this._state.bookmarks = [];
     this._state.groups = [];
     this._state.selectedId = null;
@@ -1317,16 +1480,19 @@ export class BookmarkControl implements IControl {
   }
 
   /**
-   * Export bookmarks to a JSON file download. The mode controls which
-   * bookmarks are written (see {@link exportBookmarks}).
+   * Export bookmarks to a file download in the selected format. The mode
+   * controls which bookmarks are written (see {@link exportBookmarks}).
    */
   private _exportToFile(mode: BookmarkExportMode = "auto"): void {
-    const json = this.exportBookmarks(mode);
-    const blob = new Blob([json], { type: "application/json" });
+    const spec = BOOKMARK_EXPORT_FORMATS.find(
+      (f) => f.value === this._exportFormat,
+    )!;
+    const text = this.exportBookmarks(mode, spec.value);
+    const blob = new Blob([text], { type: spec.mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "bookmarks.json";
+    a.download = `bookmarks${spec.extension}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -1356,12 +1522,12 @@ export class BookmarkControl implements IControl {
   }
 
   /**
-   * Import bookmarks from a JSON file via file picker.
+   * Import bookmarks from a JSON, GeoJSON or KML file via file picker.
    */
   private _importFromFile(): void {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".json";
+    input.accept = BOOKMARK_EXPORT_FORMATS.map((f) => f.extension).join(",");
     input.style.display = "none";
 
     input.addEventListener("change", () => {
@@ -1371,25 +1537,12 @@ export class BookmarkControl implements IControl {
       const reader = new FileReader();
       reader.onload = () => {
         try {
-          const data = JSON.parse(reader.result as string);
-          if (!Array.isArray(data)) {
-            console.warn("BookmarkControl: imported data is not an array");
-            return;
-          }
-          // Validate that items look like bookmarks
-          const valid = data.filter(
-            (b: MapBookmark) =>
-              b &&
-              typeof b.name === "string" &&
-              typeof b.lng === "number" &&
-              typeof b.lat === "number" &&
-              typeof b.zoom === "number",
-          ) as MapBookmark[];
-          if (valid.length === 0) {
+          const collection = parseBookmarks(reader.result as string);
+          if (collection.bookmarks.length === 0) {
             console.warn("BookmarkControl: no valid bookmarks found in file");
             return;
           }
-          this.importBookmarks(valid);
+          this._importCollection(collection);
           this._emit("import");
         } catch {
           console.warn("BookmarkControl: failed to parse imported file");
@@ -1403,10 +1556,114 @@ export class BookmarkControl implements IControl {
     document.body.removeChild(input);
   }
 
+  /**
+   * Add parsed bookmarks and their folders. Folders are matched to existing
+   * ones by id or name (when grouping is enabled) and bookmark IDs that are
+   * already taken are replaced.
+   *
+   * @returns The bookmarks that were added.
+   */
+  private _importCollection(collection: BookmarkCollection): MapBookmark[] {
+    const groupIds = new Map<string, string>();
+    if (this._options.groupable) {
+      for (const group of collection.groups) {
+        const existing = this._state.groups.find(
+          (g) => g.id === group.id || g.name === group.name,
+        );
+        if (existing) {
+          groupIds.set(group.id, existing.id);
+        } else {
+          this._state.groups.push({
+            ...group,
+            updatedAt: this._revivedAt(group.id),
+          });
+          groupIds.set(group.id, group.id);
+        }
+      }
+    }
+
+    const ids = new Set(this._state.bookmarks.map((b) => b.id));
+    const bookmarks = collection.bookmarks.map((b) => {
+      const bookmark = { ...b };
+      if (ids.has(bookmark.id)) bookmark.id = generateId("bookmark");
+      ids.add(bookmark.id);
+      if (bookmark.groupId && groupIds.has(bookmark.groupId)) {
+        bookmark.groupId = groupIds.get(bookmark.groupId);
+      }
+      return bookmark;
+    });
+
+    // importBookmarks keeps only as many as fit under maxBookmarks
+    const remaining = this._options.maxBookmarks - this._state.bookmarks.length;
+    this.importBookmarks(bookmarks);
+    return bookmarks.slice(0, Math.max(0, remaining));
+  }
+
+  /**
+   * Build a share link for bookmarks, pointing at the configured page.
+   */
+  private _buildShareUrl(bookmarks: MapBookmark[], folder?: string): string {
+    const base = this._options.shareBaseUrl || window.location.href;
+    const url = new URL(base, window.location.href);
+    const token = encodeBookmarkShare(bookmarks, folder);
+    url.hash = `${this._options.shareParam || "bookmarks"}=${token}`;
+    return url.toString();
+  }
+
+  /**
+   * Remove the share parameter from the page URL once its bookmarks have been
+   * imported, so reloading the page does not import them again.
+   */
+  private _removeShareParam(): void {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    params.delete(this._options.shareParam || "bookmarks");
+    const hash = params.toString();
+    try {
+      window.history.replaceState(
+        window.history.state,
+        "",
+        `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ""}`,
+      );
+    } catch {
+      // History API not available
+    }
+  }
+
+  /**
+   * Copy a share link to the clipboard and show feedback on the button.
+   */
+  private _copyShareLink(
+    url: string | null,
+    btn: HTMLButtonElement,
+    extra: { bookmark?: MapBookmark; group?: MapBookmarkGroup },
+  ): void {
+    if (!url) return;
+    navigator.clipboard
+      ?.writeText(url)
+      .then(() => {
+        btn.classList.add("copied");
+        btn.title = "Link copied";
+        setTimeout(() => {
+          btn.classList.remove("copied");
+          btn.title = extra.group
+            ? "Copy folder share link"
+            : "Copy share link";
+        }, 1000);
+        this._emit("share", extra);
+      })
+      .catch(() => {
+        console.warn("BookmarkControl: failed to copy share link");
+      });
+  }
+
   /**
    * Save bookmarks to localStorage.
    */
   private _saveToStorage(): void {
+    if (this._options.storage) {
+      void this.sync();
+      return;
+    }
     if (!this._options.storageKey) return;
 
     try {
@@ -1457,6 +1714,156 @@ export class BookmarkControl implements IControl {
     }
   }
 
+  /**
+   * Go to a tour step and, while playing, schedule the next one after the
+   * flight and the bookmark's dwell time. Ends the tour if the bookmark has
+   * been removed.
+   */
+  private _showTourStep(index: number): void {
+    const tour = this._tour;
+    if (!tour) return;
+    clearTimeout(this._tourTimer);
+    const bookmark = this._state.bookmarks.find(
+      (b) => b.id === tour.bookmarkIds[index],
+    );
+    if (!bookmark) {
+      this.endTour();
+      return;
+    }
+
+    tour.index = index;
+    // Flies with flyToDuration and passes `extra` to restoreState
+    this._goToBookmark(bookmark.id);
+    this._renderTourPanel();
+    this._emit("tour-step", { bookmark });
+    if (tour.playing) this._scheduleTourAdvance();
+  }
+
+  /**
+   * Advance to the next step once the current one has been shown long enough.
+   * At the end of a tour that does not loop, playback pauses on the last step.
+   */
+  private _scheduleTourAdvance(): void {
+    const tour = this._tour;
+    if (!tour) return;
+    const bookmark = this._state.bookmarks.find(
+      (b) => b.id === tour.bookmarkIds[tour.index],
+    );
+    const delay =
+      this._options.flyToDuration +
+      (bookmark?.dwell ?? this._options.tourDwellTime);
+    clearTimeout(this._tourTimer);
+    this._tourTimer = setTimeout(() => {
+      if (tour.index < tour.bookmarkIds.length - 1 || this._options.tourLoop) {
+        this._showTourStep((tour.index + 1) % tour.bookmarkIds.length);
+      } else {
+        this.pauseTour();
+      }
+    }, delay);
+  }
+
+  /**
+   * Create the tour panel over the map, with the caption and the
+   * previous/play/next/close buttons.
+   */
+  private _createTourPanel(): void {
+    const parent = this._map?.getContainer();
+    if (!parent) return;
+    const panel = document.createElement("div");
+    // Shares the control's class for its theme tokens
+    panel.className = "maplibre-gl-bookmark-control maplibre-gl-bookmark-tour";
+    panel.setAttribute("role", "region");
+    panel.setAttribute("aria-label", "Bookmark tour");
+    panel.innerHTML = `
+      <div class="bookmark-tour-header">
+        <div class="bookmark-tour-title"></div>
+        <div class="bookmark-tour-step"></div>
+      </div>
+      <div class="bookmark-tour-caption"></div>
+      <div class="bookmark-tour-controls">
+        <button type="button" class="bookmark-tour-prev" title="Previous (Left arrow)">${PREVIOUS_ICON}</button>
+        <button type="button" class="bookmark-tour-play" title="Pause (Space)">${PAUSE_ICON}</button>
+        <button type="button" class="bookmark-tour-next" title="Next (Right arrow)">${NEXT_ICON}</button>
+        <button type="button" class="bookmark-tour-close" title="End tour (Escape)">${CLOSE_ICON}</button>
+      </div>
+    `;
+    panel
+      .querySelector(".bookmark-tour-prev")
+      ?.addEventListener("click", () => this.previousTourStep());
+    panel
+      .querySelector(".bookmark-tour-play")
+      ?.addEventListener("click", () =>
+        this._tour?.playing ? this.pauseTour() : this.resumeTour(),
+      );
+    panel
+      .querySelector(".bookmark-tour-next")
+      ?.addEventListener("click", () => this.nextTourStep());
+    panel
+      .querySelector(".bookmark-tour-close")
+      ?.addEventListener("click", () => this.endTour());
+    parent.appendChild(panel);
+    this._tourPanel = panel;
+  }
+
+  /**
+   * Show the current step's name, position and caption in the tour panel.
+   */
+  private _renderTourPanel(): void {
+    const tour = this._tour;
+    const panel = this._tourPanel;
+    if (!tour || !panel) return;
+    const bookmark = this._state.bookmarks.find(
+      (b) => b.id === tour.bookmarkIds[tour.index],
+    );
+    panel.querySelector(".bookmark-tour-title")!.textContent =
+      bookmark?.name ?? "";
+    panel.querySelector(".bookmark-tour-step")!.textContent = `${
+      tour.index + 1
+    } / ${tour.bookmarkIds.length}`;
+    const caption = panel.querySelector(
+      ".bookmark-tour-caption",
+    ) as HTMLElement;
+    // Captions can come from imported files and share links
+    caption.innerHTML = sanitizeHtml(bookmark?.caption ?? "");
+    caption.style.display = bookmark?.caption ? "" : "none";
+    const play = panel.querySelector(".bookmark-tour-play") as HTMLElement;
+    play.innerHTML = tour.playing ? PAUSE_ICON : PLAY_ICON;
+    play.title = tour.playing ? "Pause (Space)" : "Play (Space)";
+  }
+
+  /**
+   * The local bookmark set in the form storage backends persist.
+   */
+  private _storageData(): BookmarkStorageData {
+    return {
+      bookmarks: [...this._state.bookmarks],
+      groups: [...this._state.groups],
+      deleted: { ...this._deleted },
+    };
+  }
+
+  /**
+   * Replace the local bookmark set with merged storage data.
+   */
+  private _applyStorageData(data: BookmarkStorageData): void {
+    this._deleted = { ...data.deleted };
+    // Skip re-rendering when nothing changed, so an inline rename survives
+    const current = JSON.stringify([this._state.bookmarks, this._state.groups]);
+    if (JSON.stringify([data.bookmarks, data.groups]) === current) return;
+
+    this._state.bookmarks = [...data.bookmarks];
+    this._state.groups = [...data.groups];
+    const ids = new Set(this._state.bookmarks.map((b) => b.id));
+    if (this._state.selectedId && !ids.has(this._state.selectedId)) {
+      this._state.selectedId = null;
+    }
+    for (const id of this._exportSelection) {
+      if (!ids.has(id)) this._exportSelection.delete(id);
+    }
+    this._updateList();
+    this._updateFooter();
+  }
+
   /**
    * Set up zoom-based visibility handling.
    */
@@ -1558,7 +1965,11 @@ export class BookmarkControl implements IControl {
    */
   importBookmarks(bookmarks: MapBookmark[]): this {
     const remaining = this._options.maxBookmarks - this._state.bookmarks.length;
-    const toImport = bookmarks.slice(0, remaining);
+    // Stamp them as changed now, so a storage merge keeps them even if their
+    // IDs were deleted earlier (e.g. by clear() before a re-import)
+    const toImport = bookmarks
+      .slice(0, remaining)
+      .map((b) => ({ ...b, updatedAt: this._revivedAt(b.id) }));
     this._state.bookmarks.push(...toImport);
     // Imported bookmarks may carry a groupId for a folder that does not exist
     // here; contiguity normalization drops those dangling references.
@@ -1575,8 +1986,122 @@ export class BookmarkControl implements IControl {
    * default) serializes the ticked subset when export selection is enabled and
    * a subset is ticked, otherwise every bookmark.
    */
-  exportBookmarks(mode: BookmarkExportMode = "auto"): string {
-    return JSON.stringify(this._bookmarksForExport(mode), null, 2);
+  exportBookmarks(
+    mode: BookmarkExportMode = "auto",
+    format: BookmarkExportFormat = "json",
+  ): string {
+    return exportBookmarksAs(
+      this._bookmarksForExport(mode),
+      format,
+      this._state.groups,
+    );
+  }
+
+  /**
+   * Import bookmarks from the control's JSON, GeoJSON or KML. Folders in the
+   * file are created (or matched by name) when grouping is enabled.
+   *
+   * @param text - The file contents.
+   * @param format - The format; detected from the contents when omitted.
+   * @returns The bookmarks that were added.
+   * @throws If the text cannot be parsed.
+   */
+  importBookmarksFrom(
+    text: string,
+    format?: BookmarkExportFormat,
+  ): MapBookmark[] {
+    const imported = this._importCollection(parseBookmarks(text, format));
+    this._emit("import");
+    return imported;
+  }
+
+  /**
+   * Get a link that opens a bookmark in another BookmarkControl.
+   *
+   * @param id - The bookmark ID.
+   * @returns The link, or null if there is no such bookmark.
+   */
+  getShareUrl(id: string): string | null {
+    const bookmark = this._state.bookmarks.find((b) => b.id === id);
+    return bookmark ? this._buildShareUrl([bookmark]) : null;
+  }
+
+  /**
+   * Get a link that opens a whole folder in another BookmarkControl.
+   *
+   * @param groupId - The folder ID.
+   * @returns The link, or null if there is no such folder.
+   */
+  getGroupShareUrl(groupId: string): string | null {
+    const group = this._state.groups.find((g) => g.id === groupId);
+    if (!group) return null;
+    return this._buildShareUrl(
+      this._state.bookmarks.filter((b) => b.groupId === groupId),
+      group.name,
+    );
+  }
+
+  /**
+   * Import the bookmarks encoded in a share link and go to the first one.
+   * Called with the page URL when the control is added if `openSharedOnLoad`
+   * is set. The imported bookmarks are marked `shared`: their `extra` is not
+   * passed to `restoreState` until {@link acceptSharedBookmarks} is called.
+   *
+   * @param url - The link. Default: the page URL.
+   * @returns The bookmarks that were added (empty if the link carries none).
+   */
+  openShareUrl(url: string = window.location.href): MapBookmark[] {
+    const hash = url.includes("#") ? url.slice(url.indexOf("#") + 1) : "";
+    const token = new URLSearchParams(hash).get(
+      this._options.shareParam || "bookmarks",
+    );
+    if (!token) return [];
+
+    let imported: MapBookmark[];
+    try {
+      const collection = decodeBookmarkShare(token);
+      imported = this._importCollection({
+        ...collection,
+        bookmarks: collection.bookmarks.map((b) => ({ ...b, shared: true })),
+      });
+    } catch {
+      console.warn("BookmarkControl: invalid share link");
+      return [];
+    }
+    if (imported.length > 0) {
+      this._emit("import");
+      this._goToBookmark(imported[0].id);
+    }
+    return imported;
+  }
+
+  /**
+   * Get the bookmarks imported from share links that have not been accepted.
+   */
+  getSharedBookmarks(): MapBookmark[] {
+    return this._state.bookmarks.filter((b) => b.shared);
+  }
+
+  /**
+   * Accept bookmarks imported from share links, so their `extra` is passed to
+   * `restoreState` when they are opened.
+   *
+   * @param ids - Bookmarks to accept. Default: all shared bookmarks.
+   */
+  acceptSharedBookmarks(ids?: string[]): this {
+    const accept = ids ? new Set(ids) : null;
+    let changed = false;
+    this._state.bookmarks = this._state.bookmarks.map((b) => {
+      if (!b.shared || (accept && !accept.has(b.id))) return b;
+      changed = true;
+      const { shared: _shared, ...rest } = b;
+      return { ...rest, updatedAt: Date.now() };
+    });
+    if (changed) {
+      this._saveToStorage();
+      this._updateList();
+    }
+    return this;
   }
 
   /**
@@ -1635,6 +2160,212 @@ export class BookmarkControl implements IControl {
     return this;
   }
 
+  /**
+   * Update a bookmark's name, tour caption or dwell time.
+   *
+   * @param id - The bookmark ID.
+   * @param changes - The fields to change.
+   */
+  updateBookmark(
+    id: string,
+    changes: Partial<Pick<MapBookmark, "name" | "caption" | "dwell">>,
+  ): this {
+    const bookmark = this._state.bookmarks.find((b) => b.id === id);
+    if (!bookmark) return this;
+    Object.assign(bookmark, changes, { updatedAt: Date.now() });
+    this._saveToStorage();
+    this._updateList();
+    this._renderTourPanel();
+    return this;
+  }
+
+  /**
+   * Start a tour: fly through the bookmarks of a folder (or all bookmarks) in
+   * list order, staying on each for its dwell time, with a caption panel over
+   * the map. Each step restores the bookmark's state through `restoreState`.
+   *
+   * @param groupId - Folder to tour. Default: null (all bookmarks).
+   */
+  startTour(groupId: string | null = null): this {
+    if (!this._map) return this;
+    const bookmarkIds = this._state.bookmarks
+      .filter((b) => groupId === null || b.groupId === groupId)
+      .map((b) => b.id);
+    if (bookmarkIds.length === 0) return this;
+
+    this.endTour();
+    this._tour = {
+      active: true,
+      playing: true,
+      index: 0,
+      bookmarkIds,
+      groupId,
+    };
+    this._createTourPanel();
+    if (this._options.tourKeyboard) {
+      this._handleTourKey = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (
+          target?.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target?.tagName ?? "")
+        ) {
+          return;
+        }
+        if (e.key === "ArrowRight" || e.key === "PageDown") {
+          this.nextTourStep();
+        } else if (e.key === "ArrowLeft" || e.key === "PageUp") {
+          this.previousTourStep();
+        } else if (e.key === " ") {
+          if (this._tour?.playing) this.pauseTour();
+          else this.resumeTour();
+        } else if (e.key === "Escape") {
+          this.endTour();
+        } else {
+          return;
+        }
+        e.preventDefault();
+      };
+      document.addEventListener("keydown", this._handleTourKey);
+    }
+    this._emit("tour-start");
+    this._showTourStep(0);
+    return this;
+  }
+
+  /**
+   * Go to the next tour step (wrapping to the first when `tourLoop` is set).
+   */
+  nextTourStep(): this {
+    const tour = this._tour;
+    if (!tour) return this;
+    if (tour.index < tour.bookmarkIds.length - 1) {
+      this._showTourStep(tour.index + 1);
+    } else if (this._options.tourLoop) {
+      this._showTourStep(0);
+    }
+    return this;
+  }
+
+  /**
+   * Go to the previous tour step.
+   */
+  previousTourStep(): this {
+    const tour = this._tour;
+    if (tour && tour.index > 0) this._showTourStep(tour.index - 1);
+    return this;
+  }
+
+  /**
+   * Pause the tour on the current step.
+   */
+  pauseTour(): this {
+    if (!this._tour?.playing) return this;
+    this._tour.playing = false;
+    clearTimeout(this._tourTimer);
+    this._renderTourPanel();
+    this._emit("tour-pause");
+    return this;
+  }
+
+  /**
+   * Resume a paused tour. The current step gets its full dwell time again.
+   */
+  resumeTour(): this {
+    const tour = this._tour;
+    if (!tour || tour.playing) return this;
+    tour.playing = true;
+    this._renderTourPanel();
+    this._scheduleTourAdvance();
+    this._emit("tour-resume");
+    return this;
+  }
+
+  /**
+   * End the tour and remove its panel.
+   */
+  endTour(): this {
+    if (!this._tour) return this;
+    clearTimeout(this._tourTimer);
+    this._tourTimer = undefined;
+    if (this._handleTourKey) {
+      document.removeEventListener("keydown", this._handleTourKey);
+      this._handleTourKey = undefined;
+    }
+    this._tourPanel?.remove();
+    this._tourPanel = undefined;
+    this._tour = null;
+    this._emit("tour-end");
+    return this;
+  }
+
+  /**
+   * Get the progress of the current tour.
+   */
+  getTourState(): BookmarkTourState {
+    return this._tour
+      ? { ...this._tour, bookmarkIds: [...this._tour.bookmarkIds] }
+      : {
+          active: false,
+          playing: false,
+          index: 0,
+          bookmarkIds: [],
+          groupId: null,
+        };
+  }
+
+  /**
+   * Merge with the storage backend: load the stored set, merge it with the
+   * local one (newer bookmarks win, deletions are kept) and save the result.
+   * If the backend reports that the stored set changed in between, the merge
+   * is repeated (up to three times).
+   * Runs on every change; call it to pick up edits made elsewhere. Failures
+   * are logged and leave the local bookmarks untouched.
+   *
+   * @returns Resolves once this and any earlier syncs have finished.
+   */
+  sync(): Promise<void> {
+    const storage = this._options.storage;
+    if (!storage) return Promise.resolve();
+    const key = this._options.storageKey || "bookmarks";
+    this._storageQueue = this._storageQueue.then(async () => {
+      try {
+        for (let attempt = 1; ; attempt++) {
+          const remote = await storage.load(key);
+          // Merge with the state as it is now, not as it was when queued
+          const merged = mergeBookmarkData(this._storageData(), remote);
+          this._applyStorageData(merged);
+          try {
+            await storage.save(key, merged);
+            break;
+          } catch (err) {
+            // Stored set changed since it was loaded: merge again
+            if (
+              !(err instanceof BookmarkStorageConflictError) ||
+              attempt >= MAX_SYNC_ATTEMPTS
+            ) {
+              throw err;
+            }
+          }
+        }
+        this._emit("sync");
+      } catch (err) {
+        console.warn("BookmarkControl: failed to sync bookmark storage", err);
+      }
+    });
+    return this._storageQueue;
+  }
+
+  /**
+   * Delete the stored bookmark set from the storage backend. The bookmarks
+   * shown in the control are kept.
+   */
+  async deleteStorage(): Promise<void> {
+    const storage = this._options.storage;
+    if (!storage) return;
+    await this._storageQueue;
+    await storage.delete(this._options.storageKey || "bookmarks");
+  }
+
   /**
    * Move a bookmark into a folder, or out of any folder when `groupId` is null.
    */
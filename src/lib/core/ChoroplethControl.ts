@@ -5,23 +5,42 @@ import "../styles/choropleth-control.css";
 import {
   Popup,
   type ExpressionSpecification,
+  type FilterSpecification,
   type IControl,
   type Map as MapLibreMap,
 } from "maplibre-gl";
+import {
+  applyAttributeFilter,
+  buildFilterExpression,
+  collectColumns,
+  createFilterBuilder,
+  FILTER_ICON,
+} from "./filterBuilder";
 import type {
+  AttributeFilter,
   ChoroplethControlOptions,
   ChoroplethControlState,
   ChoroplethEvent,
   ChoroplethEventHandler,
   ChoroplethLayerInfo,
   ChoroplethClassificationScheme,
+  ChoroplethRenderMode,
+  ChoroplethBivariatePalette,
+  ChoroplethNormalization,
   ColormapName,
+  LegendItem,
   RemoteVectorFormat,
 } from "./types";
 import { generateId } from "../utils/helpers";
 import { getColormap, isValidColormap, getColormapNames } from "../colormaps";
-import { getColorAtPosition } from "../utils/color";
+import {
+  generateDistinctColors,
+  getColorAtPosition,
+  interpolateColor,
+} from "../utils/color";
 import { Legend } from "./Legend";
+import { HtmlControl } from "./HtmlControl";
+import { calculatePolygonArea } from "./measureGeometry";
 
 /**
  * Choropleth map icon for the control button.
@@ -50,8 +69,88 @@ const CLASSIFICATION_SCHEMES: {
   { value: "natural_breaks", label: "Natural Breaks (Jenks)" },
   { value: "std_mean", label: "Standard Deviation" },
   { value: "head_tail", label: "Head/Tail Breaks" },
+  { value: "manual", label: "Manual Breaks" },
+  { value: "unique_values", label: "Unique Values (categorical)" },
+];
+
+/**
+ * Schemes that classify a column into exactly the requested number of
+ * classes, as the n x n grid of bivariate maps needs.
+ */
+const BIVARIATE_SCHEMES: ChoroplethClassificationScheme[] = [
+  "quantile",
+  "equal_interval",
+  "natural_breaks",
 ];
 
+/**
+ * Number of bars drawn in the histogram editor.
+ */
+const HISTOGRAM_BINS = 30;
+
+/**
+ * Qualitative palette for the unique values scheme (Tableau 10).
+ */
+const CATEGORY_COLORS = [
+  "#4e79a7",
+  "#f28e2b",
+  "#e15759",
+  "#76b7b2",
+  "#59a14f",
+  "#edc948",
+  "#b07aa1",
+  "#ff9da7",
+  "#9c755f",
+  "#bab0ac",
+];
+
+/**
+ * Legend label for categories grouped beyond the maximum.
+ */
+const OTHER_CATEGORY = "Other";
+
+/**
+ * `_choropleth_category` value of features in the grouped "Other" category,
+ * kept apart from a real category named "Other".
+ */
+const OTHER_CATEGORY_KEY = "__choropleth_other__";
+
+/**
+ * Legend label for features without a value to classify.
+ */
+const NO_DATA_LABEL = "No data";
+
+/**
+ * Symbolization modes available for choropleth layers.
+ */
+const RENDER_MODES: { value: ChoroplethRenderMode; label: string }[] = [
+  { value: "choropleth", label: "Choropleth" },
+  { value: "proportional", label: "Proportional Symbols" },
+  { value: "bivariate", label: "Bivariate (two columns)" },
+];
+
+/**
+ * Corner colors of the built-in bivariate palettes, in the order
+ * [low/low, high X/low Y, low X/high Y, high/high].
+ */
+export const BIVARIATE_PALETTES: Record<
+  ChoroplethBivariatePalette,
+  { label: string; corners: [string, string, string, string] }
+> = {
+  pink_blue: {
+    label: "Pink / Blue",
+    corners: ["#e8e8e8", "#be64ac", "#5ac8c8", "#3b4994"],
+  },
+  red_blue: {
+    label: "Red / Blue",
+    corners: ["#e8e8e8", "#c85a5a", "#64acbe", "#574249"],
+  },
+  green_purple: {
+    label: "Green / Purple",
+    corners: ["#e8e8e8", "#73ae80", "#6c83b5", "#2a5a5b"],
+  },
+};
+
 /**
  * Default options for the ChoroplethControl.
  */
@@ -66,13 +165,25 @@ const DEFAULT_OPTIONS: Required<ChoroplethControlOptions> = {
   loadDefaultUrl: false,
   defaultFormat: "auto",
   defaultColumn: "",
+  defaultNormalization: null,
   defaultColormap: "viridis",
   defaultScheme: "quantile",
   defaultK: 5,
+  defaultBreaks: [],
+  showHistogram: true,
   defaultOpacity: 0.8,
   defaultOutlineColor: "#ffffff",
   defaultExtrude: false,
   defaultScaleFactor: 1.0,
+  defaultRenderMode: "choropleth",
+  defaultMinRadius: 4,
+  defaultMaxRadius: 24,
+  defaultColumnY: "",
+  defaultBivariateK: 3,
+  defaultBivariatePalette: "pink_blue",
+  defaultMaxCategories: 10,
+  defaultOtherColor: "#bdbdbd",
+  defaultNoDataColor: "#808080",
   defaultPickable: true,
   fitBounds: true,
   fitBoundsPadding: 50,
@@ -107,15 +218,18 @@ function detectFormatFromUrl(url: string): RemoteVectorFormat {
 /**
  * Classify numeric values into k bins using the given scheme.
  * Returns an array of break values (length k+1) and the bin index for each value.
+ * The `manual` scheme uses manualBreaks as class thresholds instead of k.
+ * Values that are not finite numbers are left out of the breaks and get bin -1.
  */
 function classify(
   values: number[],
   scheme: ChoroplethClassificationScheme,
   k: number,
+  manualBreaks: number[] = [],
 ): { breaks: number[]; bins: number[] } {
-  const sorted = [...values].filter((v) => !isNaN(v)).sort((a, b) => a - b);
+  const sorted = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
   const n = sorted.length;
-  if (n === 0) return { breaks: [0, 1], bins: values.map(() => 0) };
+  if (n === 0) return { breaks: [0, 1], bins: values.map(() => -1) };
 
   const min = sorted[0];
   const max = sorted[n - 1];
@@ -161,6 +275,21 @@ function classify(
       breaks = [...new Set(breaks)].sort((a, b) => a - b);
       break;
     }
+    case "manual": {
+      const thresholds = manualBreaks
+        .filter((b) => Number.isFinite(b))
+        .sort((a, b) => a - b);
+      // Thresholds outside the data range still define a class, so fixed
+      // (e.g. regulatory) limits keep the same legend for every dataset
+      breaks = [
+        Math.min(min, thresholds[0] ?? min),
+        ...thresholds,
+        Math.max(max, thresholds[thresholds.length - 1] ?? max),
+      ];
+      breaks = [...new Set(breaks)].sort((a, b) => a - b);
+      if (breaks.length < 2) breaks = [min, max];
+      break;
+    }
     case "head_tail": {
       breaks = [min];
       let remaining = sorted;
@@ -187,7 +316,7 @@ function classify(
 
   // Assign bin indices to original values
   const bins = values.map((v) => {
-    if (isNaN(v)) return 0;
+    if (!Number.isFinite(v)) return -1;
     for (let i = 0; i < breaks.length - 1; i++) {
       if (v <= breaks[i + 1]) return Math.min(i, breaks.length - 2);
     }
@@ -197,6 +326,32 @@ function classify(
   return { breaks, bins };
 }
 
+/**
+ * Count values into equal-width bins for the histogram editor.
+ */
+function computeHistogram(
+  values: number[],
+  binCount: number,
+): { min: number; max: number; counts: number[] } {
+  const finite = values.filter((v) => Number.isFinite(v));
+  if (finite.length === 0) {
+    return { min: 0, max: 1, counts: new Array(binCount).fill(0) };
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of finite) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === max) max = min + 1;
+  const counts = new Array(binCount).fill(0);
+  const width = (max - min) / binCount;
+  for (const v of finite) {
+    counts[Math.min(binCount - 1, Math.floor((v - min) / width))]++;
+  }
+  return { min, max, counts };
+}
+
 /**
  * Simple Jenks Natural Breaks implementation.
  */
@@ -274,9 +429,246 @@ function generateColors(colormap: ColormapName, numColors: number): string[] {
   return colors;
 }
 
+/**
+ * Generate one circle radius per class, growing linearly from minRadius to
+ * maxRadius so larger values get larger symbols.
+ */
+function generateSizes(
+  minRadius: number,
+  maxRadius: number,
+  numClasses: number,
+): number[] {
+  const sizes: number[] = [];
+  for (let i = 0; i < numClasses; i++) {
+    const t = numClasses === 1 ? 1 : i / (numClasses - 1);
+    sizes.push(Math.round((minRadius + (maxRadius - minRadius) * t) * 10) / 10);
+  }
+  return sizes;
+}
+
+/**
+ * Expression reading a numeric property. Features without a number get
+ * `fallback`, which keeps the expression numeric; {@link withNoData} paints
+ * them separately.
+ */
+function numericValueExpression(property: string, fallback: number): unknown[] {
+  return [
+    "case",
+    ["==", ["typeof", ["get", property]], "number"],
+    ["get", property],
+    fallback,
+  ];
+}
+
+/**
+ * Wrap a color expression so features without a number in any of
+ * `properties` get `noDataColor`. Layers without such features (no
+ * `noDataColor`) keep the expression as is.
+ */
+function withNoData(
+  properties: string[],
+  expr: unknown,
+  noDataColor?: string,
+): unknown {
+  if (!noDataColor) return expr;
+  return [
+    "case",
+    ["all", ...properties.map((p) => ["==", ["typeof", ["get", p]], "number"])],
+    expr,
+    noDataColor,
+  ];
+}
+
+/**
+ * Build a `step` expression picking `outputs[i]` for class i of `breaks`
+ * (length `outputs.length + 1`). A single class needs no expression.
+ */
+function stepExpression(
+  input: unknown,
+  breaks: number[],
+  outputs: unknown[],
+): unknown {
+  if (outputs.length === 1) return outputs[0];
+  const expr: unknown[] = ["step", input, outputs[0]];
+  for (let i = 1; i < outputs.length; i++) {
+    expr.push(breaks[i], outputs[i]);
+  }
+  return expr;
+}
+
+/**
+ * Color and height expressions of a fill-extrusion layer, interpolated over
+ * the class breaks of `property`.
+ */
+function extrusionPaint(
+  property: string,
+  breaks: number[],
+  colors: string[],
+  scaleFactor: number,
+  noDataColor?: string,
+): { color: ExpressionSpecification; height: ExpressionSpecification } {
+  const valueExpr = numericValueExpression(property, breaks[0]);
+  const color: unknown[] = ["interpolate", ["linear"], valueExpr];
+  const height: unknown[] = ["interpolate", ["linear"], valueExpr];
+  for (let i = 0; i < breaks.length; i++) {
+    color.push(breaks[i], colors[Math.min(i, colors.length - 1)]);
+    height.push(breaks[i], breaks[i] / scaleFactor);
+  }
+  return {
+    color: withNoData(
+      [property],
+      color,
+      noDataColor,
+    ) as ExpressionSpecification,
+    height: height as ExpressionSpecification,
+  };
+}
+
+/**
+ * Area of a linear ring in square meters.
+ */
+function ringArea(ring: GeoJSON.Position[]): number {
+  return calculatePolygonArea(ring.map(([lng, lat]) => ({ lng, lat })));
+}
+
+/**
+ * Area of a (multi)polygon in square kilometers, holes excluded. Other
+ * geometry types have no area.
+ */
+function geometryAreaKm2(geometry: GeoJSON.Geometry | null): number {
+  if (!geometry) return 0;
+  const polygonArea = (rings: GeoJSON.Position[][]) =>
+    rings.reduce(
+      (sum, ring, i) => (i === 0 ? sum + ringArea(ring) : sum - ringArea(ring)),
+      0,
+    );
+  if (geometry.type === "Polygon") {
+    return polygonArea(geometry.coordinates) / 1e6;
+  }
+  if (geometry.type === "MultiPolygon") {
+    return (
+      geometry.coordinates.reduce((sum, p) => sum + polygonArea(p), 0) / 1e6
+    );
+  }
+  return 0;
+}
+
+/**
+ * Read the numeric values of a column, divided by the normalization
+ * denominator and multiplied by its scale. Non-numeric values and zero or
+ * missing denominators give NaN, which classification skips.
+ */
+function getColumnValues(
+  features: GeoJSON.Feature[],
+  column: string,
+  normalization?: ChoroplethNormalization | null,
+): number[] {
+  const scale = normalization?.scale ?? 1;
+  return features.map((f) => {
+    const v = f.properties?.[column];
+    if (typeof v !== "number") return NaN;
+    if (!normalization) return v;
+    const d =
+      normalization.by === "area"
+        ? geometryAreaKm2(f.geometry)
+        : f.properties?.[normalization.column ?? ""];
+    return typeof d === "number" && d !== 0 ? (v / d) * scale : NaN;
+  });
+}
+
+/**
+ * Describe a normalized column for legend titles, e.g.
+ * "cases per 100,000 population" or "population per km²".
+ */
+function describeColumn(
+  column: string,
+  normalization?: ChoroplethNormalization | null,
+): string {
+  if (!normalization) return column;
+  const scale = normalization.scale ?? 1;
+  const unit = normalization.by === "area" ? "km²" : normalization.column;
+  return scale === 1
+    ? `${column} per ${unit}`
+    : `${column} per ${scale.toLocaleString("en-US")} ${unit}`;
+}
+
+/**
+ * Whether a category value is missing: such features have no category.
+ */
+function isMissingCategory(v: unknown): boolean {
+  return v === null || v === undefined || v === "";
+}
+
+/**
+ * Rank the distinct values of a column by frequency (ties by name) and keep
+ * the first maxCategories; anything else belongs to the "Other" group.
+ * Missing values are not counted.
+ */
+export function rankCategories(
+  values: unknown[],
+  maxCategories: number,
+): { categories: string[]; hasOther: boolean } {
+  const counts = new Map<string, number>();
+  for (const v of values) {
+    if (isMissingCategory(v)) continue;
+    const key = String(v);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const ranked = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([key]) => key);
+  return {
+    categories: ranked.slice(0, maxCategories),
+    hasOther: ranked.length > maxCategories,
+  };
+}
+
+/**
+ * Assign a qualitative color to each category.
+ */
+export function generateCategoryColors(
+  categories: string[],
+): Record<string, string> {
+  const extra = generateDistinctColors(
+    Math.max(0, categories.length - CATEGORY_COLORS.length),
+  );
+  const colors: Record<string, string> = {};
+  categories.forEach((category, i) => {
+    colors[category] = CATEGORY_COLORS[i] ?? extra[i - CATEGORY_COLORS.length];
+  });
+  return colors;
+}
+
+/**
+ * Generate a bivariate color grid by bilinear interpolation between the
+ * palette's corner colors. Returned as `[yClass][xClass]`.
+ */
+export function generateBivariateColors(
+  palette: ChoroplethBivariatePalette,
+  nx: number,
+  ny: number,
+): string[][] {
+  const [lowLow, highX, highY, highHigh] = BIVARIATE_PALETTES[palette].corners;
+  const grid: string[][] = [];
+  for (let y = 0; y < ny; y++) {
+    const ty = ny === 1 ? 0 : y / (ny - 1);
+    const row: string[] = [];
+    for (let x = 0; x < nx; x++) {
+      const tx = nx === 1 ? 0 : x / (nx - 1);
+      const bottom = interpolateColor(lowLow, highX, tx);
+      const top = interpolateColor(highY, highHigh, tx);
+      row.push(interpolateColor(bottom, top, ty));
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
 /**
  * A control for adding choropleth (thematic) maps from vector data URLs.
- * Supports classification schemes, colormaps, fill and extrusion modes.
+ * Supports classification schemes, colormaps, fill and extrusion modes, and
+ * graduated (proportional) circle symbols for point data, and bivariate maps
+ * of two columns.
  *
  * @example
  * ```typescript
@@ -302,11 +694,16 @@ export class ChoroplethControl implements IControl {
   private _handleZoom?: () => void;
   private _zoomVisible: boolean = true;
   private _choroplethLayers: Map<string, ChoroplethLayerInfo> = new Map();
-  private _legendControls: Map<string, Legend> = new Map();
+  private _legendControls: Map<string, IControl> = new Map();
   private _activePopup?: Popup;
   // Cache of loaded GeoJSON data and their numeric columns
   private _cachedGeojson?: GeoJSON.FeatureCollection;
   private _cachedColumns: string[] = [];
+  private _cachedCategoricalColumns: string[] = [];
+  private _layerColumns: Map<string, string[]> = new Map();
+  private _baseFilters: Map<string, FilterSpecification | undefined> =
+    new Map();
+  private _openFilters: Set<string> = new Set();
 
   constructor(options?: ChoroplethControlOptions) {
     this._options = { ...DEFAULT_OPTIONS, ...options };
@@ -318,14 +715,23 @@ export class ChoroplethControl implements IControl {
       beforeId: this._options.beforeId,
       format: this._options.defaultFormat,
       column: this._options.defaultColumn,
+      normalization: this._options.defaultNormalization,
       colormap: this._options.defaultColormap,
       scheme: this._options.defaultScheme,
       k: this._options.defaultK,
+      breaks: [...this._options.defaultBreaks],
       opacity: this._options.defaultOpacity,
       showOutline: true,
       outlineColor: this._options.defaultOutlineColor,
       extrude: this._options.defaultExtrude,
       scaleFactor: this._options.defaultScaleFactor,
+      renderMode: this._options.defaultRenderMode,
+      minRadius: this._options.defaultMinRadius,
+      maxRadius: this._options.defaultMaxRadius,
+      columnY: this._options.defaultColumnY,
+      bivariateK: this._options.defaultBivariateK,
+      bivariatePalette: this._options.defaultBivariatePalette,
+      maxCategories: this._options.defaultMaxCategories,
       pickable: this._options.defaultPickable,
       hasLayer: false,
       layerCount: 0,
@@ -334,6 +740,7 @@ export class ChoroplethControl implements IControl {
       error: null,
       status: null,
       availableColumns: [],
+      categoricalColumns: [],
     };
   }
 
@@ -438,7 +845,9 @@ export class ChoroplethControl implements IControl {
   }
 
   /**
-   * Programmatically add a choropleth layer.
+   * Programmatically add a choropleth layer. The options set the matching
+   * panel values first; `fitBounds` overrides the control's option for this
+   * layer.
    */
   async addLayer(
     url?: string,
@@ -447,6 +856,19 @@ export class ChoroplethControl implements IControl {
       colormap?: ColormapName;
       scheme?: ChoroplethClassificationScheme;
       k?: number;
+      breaks?: number[];
+      normalization?: ChoroplethNormalization | null;
+      renderMode?: ChoroplethRenderMode;
+      minRadius?: number;
+      maxRadius?: number;
+      columnY?: string;
+      bivariateK?: 3 | 4;
+      bivariatePalette?: ChoroplethBivariatePalette;
+      name?: string;
+      opacity?: number;
+      extrude?: boolean;
+      scaleFactor?: number;
+      fitBounds?: boolean;
     },
   ): Promise<void> {
     if (url) this._state.url = url;
@@ -454,9 +876,25 @@ export class ChoroplethControl implements IControl {
     if (options?.colormap) this._state.colormap = options.colormap;
     if (options?.scheme) this._state.scheme = options.scheme;
     if (options?.k) this._state.k = options.k;
+    if (options?.breaks) this._state.breaks = [...options.breaks];
+    if (options?.normalization !== undefined)
+      this._state.normalization = options.normalization;
+    if (options?.renderMode) this._state.renderMode = options.renderMode;
+    if (options?.minRadius) this._state.minRadius = options.minRadius;
+    if (options?.maxRadius) this._state.maxRadius = options.maxRadius;
+    if (options?.columnY) this._state.columnY = options.columnY;
+    if (options?.bivariateK) this._state.bivariateK = options.bivariateK;
+    if (options?.bivariatePalette)
+      this._state.bivariatePalette = options.bivariatePalette;
+    if (options?.name !== undefined) this._state.layerName = options.name;
+    if (options?.opacity !== undefined) this._state.opacity = options.opacity;
+    if (options?.extrude !== undefined) this._state.extrude = options.extrude;
+    if (options?.scaleFactor) this._state.scaleFactor = options.scaleFactor;
     await this._loadData();
     if (this._cachedGeojson && this._state.column) {
-      await this._addChoroplethLayer();
+      await this._addChoroplethLayer(
+        options?.fitBounds ?? this._options.fitBounds,
+      );
     }
   }
 
@@ -468,6 +906,186 @@ export class ChoroplethControl implements IControl {
     this._render();
   }
 
+  /**
+   * Recolor one category of a layer classified with the `unique_values`
+   * scheme. Use "Other" to recolor the grouped long tail, unless the column
+   * has a category of that name.
+   */
+  setCategoryColor(layerId: string, category: string, color: string): void {
+    this._setCategoryColor(layerId, category, false, color);
+  }
+
+  /**
+   * Recolor a category, or the grouped long tail when `other` is set.
+   */
+  private _setCategoryColor(
+    layerId: string,
+    category: string,
+    other: boolean,
+    color: string,
+  ): void {
+    const info = this._choroplethLayers.get(layerId);
+    if (!info || !info.categoryColors) return;
+
+    if (
+      other ||
+      (category === OTHER_CATEGORY && !(category in info.categoryColors))
+    ) {
+      info.otherColor = color;
+    } else if (category in info.categoryColors) {
+      info.categoryColors[category] = color;
+    } else {
+      return;
+    }
+    // The grouped long tail, if any, is the entry after the categories
+    const categoryCount = Object.keys(info.categoryColors).length;
+    info.legendColors = info.legendLabels.map((label, i) =>
+      i < categoryCount ? info.categoryColors![label] : info.otherColor!,
+    );
+    this._applyCategoryColors(info);
+    this._refreshLegendControl(layerId, info);
+    this._state.layers = Array.from(this._choroplethLayers.values());
+    this._render();
+    this._emit("update", { layerId });
+  }
+
+  /**
+   * Reclassify a numeric layer with manual class thresholds, as for the
+   * `manual` scheme, and restyle its map layers and legend in place.
+   */
+  setLayerBreaks(layerId: string, breaks: number[]): void {
+    const info = this._choroplethLayers.get(layerId);
+    if (!this._map || !info || info.categoryColors) return;
+
+    // The layer keeps its data range, so classifying the range's ends gives
+    // the same class breaks as classifying all of its values.
+    const range = [info.breaks[0], info.breaks[info.breaks.length - 1]];
+    const classBreaks = classify(range, "manual", info.k, breaks).breaks;
+    const numClasses = classBreaks.length - 1;
+    const valueProperty = info.normalization
+      ? "_choropleth_value"
+      : info.column;
+    const valueExpr = numericValueExpression(valueProperty, classBreaks[0]);
+
+    let colors: string[];
+    let colorExpr: unknown;
+    if (info.bivariateColors && info.breaksY && info.columnY) {
+      const grid = generateBivariateColors(
+        info.bivariatePalette ?? this._options.defaultBivariatePalette,
+        numClasses,
+        info.breaksY.length - 1,
+      );
+      colorExpr = withNoData(
+        [valueProperty, info.columnY],
+        stepExpression(
+          numericValueExpression(info.columnY, info.breaksY[0]),
+          info.breaksY,
+          grid.map((row) => stepExpression(valueExpr, classBreaks, row)),
+        ),
+        info.noDataColor,
+      );
+      info.bivariateColors = grid;
+      colors = grid.flat();
+    } else {
+      colors = generateColors(info.colormap, numClasses);
+      colorExpr = withNoData(
+        [valueProperty],
+        stepExpression(valueExpr, classBreaks, colors),
+        info.noDataColor,
+      );
+    }
+    const sizes = info.legendSizes
+      ? generateSizes(
+          info.legendSizes[0],
+          info.legendSizes[info.legendSizes.length - 1],
+          numClasses,
+        )
+      : undefined;
+
+    for (const lid of info.layerIds) {
+      const layer = this._map.getLayer(lid);
+      if (!layer) continue;
+      const color = colorExpr as ExpressionSpecification;
+      if (layer.type === "fill-extrusion") {
+        const extrusion = extrusionPaint(
+          valueProperty,
+          classBreaks,
+          colors,
+          info.scaleFactor,
+          info.noDataColor,
+        );
+        this._map.setPaintProperty(
+          lid,
+          "fill-extrusion-color",
+          extrusion.color,
+        );
+        this._map.setPaintProperty(
+          lid,
+          "fill-extrusion-height",
+          extrusion.height,
+        );
+      } else if (layer.type === "fill") {
+        this._map.setPaintProperty(lid, "fill-color", color);
+      } else if (layer.type === "circle") {
+        this._map.setPaintProperty(lid, "circle-color", color);
+        if (sizes) {
+          this._map.setPaintProperty(
+            lid,
+            "circle-radius",
+            stepExpression(
+              valueExpr,
+              classBreaks,
+              sizes,
+            ) as ExpressionSpecification,
+          );
+        }
+      } else if (layer.type === "line" && !lid.endsWith("-outline")) {
+        this._map.setPaintProperty(lid, "line-color", color);
+      }
+    }
+
+    info.scheme = "manual";
+    info.k = numClasses;
+    info.breaks = classBreaks;
+    info.legendColors = colors;
+    info.legendLabels = this._rangeLabels(
+      describeColumn(info.column, info.normalization),
+      classBreaks,
+      info.columnY,
+      info.bivariateColors ? info.breaksY : undefined,
+    );
+    if (sizes) info.legendSizes = sizes;
+    this._refreshLegendControl(layerId, info);
+
+    this._state.layers = Array.from(this._choroplethLayers.values());
+    this._render();
+    this._emit("update", { layerId });
+  }
+
+  /**
+   * Get the active attribute filter of a layer, or null if none.
+   */
+  getLayerFilter(layerId: string): AttributeFilter | null {
+    return this._choroplethLayers.get(layerId)?.filter ?? null;
+  }
+
+  /**
+   * Filter a layer's features by attribute. Pass null to clear the filter.
+   */
+  setLayerFilter(layerId: string, filter: AttributeFilter | null): void {
+    const info = this._choroplethLayers.get(layerId);
+    if (!this._map || !info) return;
+    applyAttributeFilter(this._map, info.layerIds, filter, this._baseFilters);
+    if (buildFilterExpression(filter)) {
+      info.filter = filter!;
+    } else {
+      delete info.filter;
+    }
+    this._state.layers = Array.from(this._choroplethLayers.values());
+    this._render();
+    this._emit("filterchange", { layerId });
+  }
+
   /**
    * Get all choropleth layer IDs.
    */
@@ -666,7 +1284,14 @@ export class ChoroplethControl implements IControl {
     panel.appendChild(loadBtnContainer);
 
     // === CLASSIFICATION SECTION (shown only after data is loaded) ===
-    if (this._cachedColumns.length > 0) {
+    if (
+      this._cachedColumns.length > 0 ||
+      this._cachedCategoricalColumns.length > 0
+    ) {
+      const isCategorical = this._state.scheme === "unique_values";
+      const columnChoices = isCategorical
+        ? this._cachedCategoricalColumns
+        : this._cachedColumns;
       const sectionTitle2 = document.createElement("div");
       sectionTitle2.className = "maplibre-gl-choropleth-section-title";
       sectionTitle2.textContent = "Classification";
@@ -682,9 +1307,9 @@ export class ChoroplethControl implements IControl {
       defaultOpt.value = "";
       defaultOpt.textContent = "-- Select column --";
       defaultOpt.disabled = true;
-      defaultOpt.selected = !this._state.column;
+      defaultOpt.selected = !columnChoices.includes(this._state.column);
       columnSelect.appendChild(defaultOpt);
-      for (const col of this._cachedColumns) {
+      for (const col of columnChoices) {
         const option = document.createElement("option");
         option.value = col;
         option.textContent = col;
@@ -697,6 +1322,76 @@ export class ChoroplethControl implements IControl {
       columnGroup.appendChild(columnSelect);
       panel.appendChild(columnGroup);
 
+      // Normalization (numeric schemes only)
+      if (!isCategorical) {
+        const normalization = this._state.normalization;
+        const normRow = document.createElement("div");
+        normRow.className = "maplibre-gl-choropleth-row";
+
+        const normGroup = this._createFormGroup("Normalize By", "normalize");
+        const normSelect = document.createElement("select");
+        normSelect.id = "choropleth-normalize";
+        normSelect.className = "maplibre-gl-choropleth-select";
+        normSelect.style.color = "#000";
+        const normChoices: { value: string; label: string }[] = [
+          { value: "", label: "None" },
+          { value: "area", label: "Area (km²)" },
+          ...this._cachedColumns
+            .filter((col) => col !== this._state.column)
+            .map((col) => ({ value: `column:${col}`, label: col })),
+        ];
+        const normValue = !normalization
+          ? ""
+          : normalization.by === "area"
+            ? "area"
+            : `column:${normalization.column}`;
+        for (const choice of normChoices) {
+          const option = document.createElement("option");
+          option.value = choice.value;
+          option.textContent = choice.label;
+          option.selected = choice.value === normValue;
+          normSelect.appendChild(option);
+        }
+        normSelect.addEventListener("change", () => {
+          const scale = this._state.normalization?.scale ?? 1;
+          const value = normSelect.value;
+          this._state.normalization = !value
+            ? null
+            : value === "area"
+              ? { by: "area", scale }
+              : { by: "column", column: value.slice(7), scale };
+          this._render();
+        });
+        normGroup.appendChild(normSelect);
+        normRow.appendChild(normGroup);
+
+        if (normalization) {
+          const normScaleGroup = this._createFormGroup(
+            "Per",
+            "normalize-scale",
+          );
+          const normScaleInput = document.createElement("input");
+          normScaleInput.type = "number";
+          normScaleInput.id = "choropleth-normalize-scale";
+          normScaleInput.className = "maplibre-gl-choropleth-input";
+          normScaleInput.style.color = "#000";
+          normScaleInput.min = "0";
+          normScaleInput.placeholder = "1";
+          normScaleInput.value = String(normalization.scale ?? 1);
+          normScaleInput.addEventListener("change", () => {
+            const scale = Number(normScaleInput.value);
+            this._state.normalization = {
+              ...normalization,
+              scale: scale > 0 ? scale : 1,
+            };
+            this._render();
+          });
+          normScaleGroup.appendChild(normScaleInput);
+          normRow.appendChild(normScaleGroup);
+        }
+        panel.appendChild(normRow);
+      }
+
       // Classification scheme and k (row)
       const classRow = document.createElement("div");
       classRow.className = "maplibre-gl-choropleth-row";
@@ -714,30 +1409,256 @@ export class ChoroplethControl implements IControl {
         schemeSelect.appendChild(option);
       }
       schemeSelect.addEventListener("change", () => {
+        const wasCategorical = this._state.scheme === "unique_values";
         this._state.scheme =
           schemeSelect.value as ChoroplethClassificationScheme;
+        // Switching between numeric and categorical changes the column list
+        if (wasCategorical !== (this._state.scheme === "unique_values")) {
+          const choices =
+            this._state.scheme === "unique_values"
+              ? this._cachedCategoricalColumns
+              : this._cachedColumns;
+          if (!choices.includes(this._state.column)) {
+            this._state.column = choices[0] ?? "";
+          }
+          this._render();
+        }
       });
       schemeGroup.appendChild(schemeSelect);
       classRow.appendChild(schemeGroup);
 
-      const kGroup = this._createFormGroup("Classes", "k");
+      // Categorical schemes cap the number of categories instead of classes
+      const kGroup = isCategorical
+        ? this._createFormGroup("Max Categories", "max-categories")
+        : this._createFormGroup("Classes", "k");
       const kInput = document.createElement("input");
       kInput.type = "number";
-      kInput.id = "choropleth-k";
+      kInput.id = isCategorical ? "choropleth-max-categories" : "choropleth-k";
       kInput.className = "maplibre-gl-choropleth-input";
       kInput.style.color = "#000";
-      kInput.min = "2";
-      kInput.max = "20";
-      kInput.value = String(this._state.k);
-      kInput.addEventListener("change", () => {
-        this._state.k = Math.max(2, Math.min(20, Number(kInput.value) || 5));
+      if (isCategorical) {
+        kInput.min = "1";
+        kInput.max = "50";
+        kInput.value = String(this._state.maxCategories);
+        kInput.addEventListener("change", () => {
+          this._state.maxCategories = Math.max(
+            1,
+            Math.min(50, Number(kInput.value) || 10),
+          );
+          kInput.value = String(this._state.maxCategories);
+        });
+      } else {
+        kInput.min = "2";
+        kInput.max = "20";
         kInput.value = String(this._state.k);
-      });
+        kInput.addEventListener("change", () => {
+          this._state.k = Math.max(2, Math.min(20, Number(kInput.value) || 5));
+          kInput.value = String(this._state.k);
+        });
+      }
       kGroup.appendChild(kInput);
       classRow.appendChild(kGroup);
 
       panel.appendChild(classRow);
 
+      // Manual breaks input (comma-separated thresholds)
+      if (this._state.scheme === "manual") {
+        const breaksGroup = this._createFormGroup("Breaks", "breaks");
+        const breaksInput = document.createElement("input");
+        breaksInput.type = "text";
+        breaksInput.id = "choropleth-breaks";
+        breaksInput.className = "maplibre-gl-choropleth-input";
+        breaksInput.style.color = "#000";
+        breaksInput.placeholder = "e.g. 10, 50, 100";
+        breaksInput.value = this._state.breaks
+          .map((b) => this._formatBreak(b))
+          .join(", ");
+        breaksInput.addEventListener("change", () => {
+          this._adoptBreaks(
+            breaksInput.value
+              .split(",")
+              .map((v) => parseFloat(v.trim()))
+              .filter((v) => Number.isFinite(v)),
+          );
+        });
+        breaksGroup.appendChild(breaksInput);
+        const breaksHint = document.createElement("div");
+        breaksHint.className = "maplibre-gl-choropleth-format-hint";
+        breaksHint.textContent = this._state.normalization
+          ? "Upper bound of each class, in normalized units"
+          : "Upper bound of each class, in column units";
+        breaksGroup.appendChild(breaksHint);
+        panel.appendChild(breaksGroup);
+      }
+
+      // Histogram with draggable break lines (numeric schemes only)
+      if (
+        this._options.showHistogram &&
+        !isCategorical &&
+        this._state.column &&
+        this._cachedGeojson
+      ) {
+        panel.appendChild(this._createHistogram());
+      }
+
+      // Render mode selector
+      const renderModeGroup = this._createFormGroup(
+        "Symbolization",
+        "render-mode",
+      );
+      const renderModeSelect = document.createElement("select");
+      renderModeSelect.id = "choropleth-render-mode";
+      renderModeSelect.className = "maplibre-gl-choropleth-select";
+      renderModeSelect.style.color = "#000";
+      for (const m of RENDER_MODES) {
+        const option = document.createElement("option");
+        option.value = m.value;
+        option.textContent = m.label;
+        option.selected = m.value === this._state.renderMode;
+        renderModeSelect.appendChild(option);
+      }
+      renderModeSelect.addEventListener("change", () => {
+        this._state.renderMode = renderModeSelect.value as ChoroplethRenderMode;
+        radiusRow.style.display =
+          this._state.renderMode === "proportional" ? "flex" : "none";
+        bivariateGroup.style.display =
+          this._state.renderMode === "bivariate" ? "block" : "none";
+        syncExtrude();
+      });
+      renderModeGroup.appendChild(renderModeSelect);
+      const renderModeHint = document.createElement("div");
+      renderModeHint.className = "maplibre-gl-choropleth-format-hint";
+      renderModeHint.textContent =
+        "Proportional symbols size point features by class";
+      renderModeGroup.appendChild(renderModeHint);
+      panel.appendChild(renderModeGroup);
+
+      // Min/max radius (hidden unless proportional)
+      const radiusRow = document.createElement("div");
+      radiusRow.className = "maplibre-gl-choropleth-row";
+      radiusRow.style.display =
+        this._state.renderMode === "proportional" ? "flex" : "none";
+
+      const minRadiusGroup = this._createFormGroup("Min Radius", "min-radius");
+      const minRadiusInput = document.createElement("input");
+      minRadiusInput.type = "number";
+      minRadiusInput.id = "choropleth-min-radius";
+      minRadiusInput.className = "maplibre-gl-choropleth-input";
+      minRadiusInput.style.color = "#000";
+      minRadiusInput.min = "1";
+      minRadiusInput.max = "100";
+      minRadiusInput.value = String(this._state.minRadius);
+      minRadiusInput.addEventListener("change", () => {
+        this._state.minRadius = Math.max(
+          1,
+          Math.min(this._state.maxRadius, Number(minRadiusInput.value) || 4),
+        );
+        minRadiusInput.value = String(this._state.minRadius);
+      });
+      minRadiusGroup.appendChild(minRadiusInput);
+      radiusRow.appendChild(minRadiusGroup);
+
+      const maxRadiusGroup = this._createFormGroup("Max Radius", "max-radius");
+      const maxRadiusInput = document.createElement("input");
+      maxRadiusInput.type = "number";
+      maxRadiusInput.id = "choropleth-max-radius";
+      maxRadiusInput.className = "maplibre-gl-choropleth-input";
+      maxRadiusInput.style.color = "#000";
+      maxRadiusInput.min = "1";
+      maxRadiusInput.max = "100";
+      maxRadiusInput.value = String(this._state.maxRadius);
+      maxRadiusInput.addEventListener("change", () => {
+        this._state.maxRadius = Math.max(
+          this._state.minRadius,
+          Math.min(100, Number(maxRadiusInput.value) || 24),
+        );
+        maxRadiusInput.value = String(this._state.maxRadius);
+      });
+      maxRadiusGroup.appendChild(maxRadiusInput);
+      radiusRow.appendChild(maxRadiusGroup);
+
+      panel.appendChild(radiusRow);
+
+      // Bivariate options (hidden unless bivariate)
+      const bivariateGroup = document.createElement("div");
+      bivariateGroup.style.display =
+        this._state.renderMode === "bivariate" ? "block" : "none";
+
+      const columnYGroup = this._createFormGroup("Second Column", "column-y");
+      const columnYSelect = document.createElement("select");
+      columnYSelect.id = "choropleth-column-y";
+      columnYSelect.className = "maplibre-gl-choropleth-select";
+      columnYSelect.style.color = "#000";
+      const defaultYOpt = document.createElement("option");
+      defaultYOpt.value = "";
+      defaultYOpt.textContent = "-- Select column --";
+      defaultYOpt.disabled = true;
+      defaultYOpt.selected = !this._state.columnY;
+      columnYSelect.appendChild(defaultYOpt);
+      for (const col of this._cachedColumns) {
+        const option = document.createElement("option");
+        option.value = col;
+        option.textContent = col;
+        option.selected = col === this._state.columnY;
+        columnYSelect.appendChild(option);
+      }
+      columnYSelect.addEventListener("change", () => {
+        this._state.columnY = columnYSelect.value;
+      });
+      columnYGroup.appendChild(columnYSelect);
+      bivariateGroup.appendChild(columnYGroup);
+
+      const bivariateRow = document.createElement("div");
+      bivariateRow.className = "maplibre-gl-choropleth-row";
+
+      const gridGroup = this._createFormGroup("Grid", "bivariate-k");
+      const gridSelect = document.createElement("select");
+      gridSelect.id = "choropleth-bivariate-k";
+      gridSelect.className = "maplibre-gl-choropleth-select";
+      gridSelect.style.color = "#000";
+      for (const n of [3, 4] as const) {
+        const option = document.createElement("option");
+        option.value = String(n);
+        option.textContent = `${n} x ${n}`;
+        option.selected = n === this._state.bivariateK;
+        gridSelect.appendChild(option);
+      }
+      gridSelect.addEventListener("change", () => {
+        this._state.bivariateK = Number(gridSelect.value) === 4 ? 4 : 3;
+      });
+      gridGroup.appendChild(gridSelect);
+      bivariateRow.appendChild(gridGroup);
+
+      const paletteGroup = this._createFormGroup(
+        "Palette",
+        "bivariate-palette",
+      );
+      const paletteSelect = document.createElement("select");
+      paletteSelect.id = "choropleth-bivariate-palette";
+      paletteSelect.className = "maplibre-gl-choropleth-select";
+      paletteSelect.style.color = "#000";
+      for (const [value, palette] of Object.entries(BIVARIATE_PALETTES)) {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = palette.label;
+        option.selected = value === this._state.bivariatePalette;
+        paletteSelect.appendChild(option);
+      }
+      paletteSelect.addEventListener("change", () => {
+        this._state.bivariatePalette =
+          paletteSelect.value as ChoroplethBivariatePalette;
+      });
+      paletteGroup.appendChild(paletteSelect);
+      bivariateRow.appendChild(paletteGroup);
+      bivariateGroup.appendChild(bivariateRow);
+
+      const bivariateHint = document.createElement("div");
+      bivariateHint.className = "maplibre-gl-choropleth-format-hint";
+      bivariateHint.textContent =
+        "Both columns use the selected scheme; Classes and Colormap are ignored";
+      bivariateGroup.appendChild(bivariateHint);
+      panel.appendChild(bivariateGroup);
+
       // === STYLING SECTION ===
       const sectionTitle3 = document.createElement("div");
       sectionTitle3.className = "maplibre-gl-choropleth-section-title";
@@ -865,8 +1786,7 @@ export class ChoroplethControl implements IControl {
       extrudeCheckbox.checked = this._state.extrude;
       extrudeCheckbox.addEventListener("change", () => {
         this._state.extrude = extrudeCheckbox.checked;
-        // Toggle scale factor visibility
-        scaleGroup.style.display = extrudeCheckbox.checked ? "block" : "none";
+        syncExtrude();
       });
       extrudeLabel.appendChild(extrudeCheckbox);
       const extrudeText = document.createElement("span");
@@ -877,7 +1797,15 @@ export class ChoroplethControl implements IControl {
 
       // Scale factor (hidden when not extruding)
       const scaleGroup = this._createFormGroup("Scale Factor", "scale-factor");
-      scaleGroup.style.display = this._state.extrude ? "block" : "none";
+      // Extrusion only applies to numeric choropleth maps
+      const syncExtrude = () => {
+        const available =
+          this._state.renderMode !== "bivariate" && !isCategorical;
+        extrudeGroup.style.display = available ? "" : "none";
+        scaleGroup.style.display =
+          available && this._state.extrude ? "block" : "none";
+      };
+      syncExtrude();
       const scaleInput = document.createElement("input");
       scaleInput.type = "number";
       scaleInput.id = "choropleth-scale-factor";
@@ -992,10 +1920,29 @@ export class ChoroplethControl implements IControl {
 
         const label = document.createElement("span");
         label.className = "maplibre-gl-choropleth-layer-label";
-        label.textContent = `${info.id} (${info.column}, ${info.scheme})`;
+        const columnLabel = describeColumn(info.column, info.normalization);
+        const columnText = info.columnY
+          ? `${columnLabel} x ${info.columnY}`
+          : columnLabel;
+        label.textContent = `${info.id} (${columnText}, ${info.scheme}${info.renderMode === "proportional" ? ", symbols" : ""})`;
         label.title = `${info.url} - ${info.column}`;
         item.appendChild(label);
 
+        const filterOpen = this._openFilters.has(layerId);
+        const filterBtn = document.createElement("button");
+        filterBtn.className = `maplibre-gl-filter-toggle${info.filter || filterOpen ? " maplibre-gl-filter-toggle--active" : ""}`;
+        filterBtn.innerHTML = FILTER_ICON;
+        filterBtn.title = info.filter ? "Edit filter (active)" : "Filter";
+        filterBtn.addEventListener("click", () => {
+          if (this._openFilters.has(layerId)) {
+            this._openFilters.delete(layerId);
+          } else {
+            this._openFilters.add(layerId);
+          }
+          this._render();
+        });
+        item.appendChild(filterBtn);
+
         const removeBtn = document.createElement("button");
         removeBtn.className = "maplibre-gl-choropleth-layer-remove";
         removeBtn.innerHTML = "&times;";
@@ -1008,6 +1955,16 @@ export class ChoroplethControl implements IControl {
 
         listContainer.appendChild(item);
 
+        if (filterOpen) {
+          listContainer.appendChild(
+            createFilterBuilder({
+              columns: this._layerColumns.get(layerId) ?? [],
+              filter: info.filter,
+              onApply: (filter) => this.setLayerFilter(layerId, filter),
+            }),
+          );
+        }
+
         // Mini legend
         if (info.legendColors && info.legendLabels) {
           const legend = document.createElement("div");
@@ -1022,7 +1979,7 @@ export class ChoroplethControl implements IControl {
           const legendTitle = document.createElement("div");
           legendTitle.className = "maplibre-gl-choropleth-legend-title";
           legendTitle.style.marginBottom = "0";
-          legendTitle.textContent = info.column;
+          legendTitle.textContent = columnText;
           legendHeader.appendChild(legendTitle);
 
           const hasMapLegend = this._legendControls.has(layerId);
@@ -1045,18 +2002,61 @@ export class ChoroplethControl implements IControl {
           legendHeader.appendChild(addLegendBtn);
           legend.appendChild(legendHeader);
 
-          for (let i = 0; i < info.legendColors.length; i++) {
+          if (info.bivariateColors) {
+            legend.appendChild(this._createBivariateLegend(info));
+          }
+
+          for (
+            let i = 0;
+            !info.bivariateColors && i < info.legendColors.length;
+            i++
+          ) {
             const legendItem = document.createElement("div");
             legendItem.className = "maplibre-gl-choropleth-legend-item";
+            if (info.categoryColors) {
+              // Categories can be recolored straight from the legend
+              const category = info.legendLabels[i];
+              const other = i >= Object.keys(info.categoryColors).length;
+              const colorInput = document.createElement("input");
+              colorInput.type = "color";
+              colorInput.className = "maplibre-gl-choropleth-legend-color";
+              colorInput.value = info.legendColors[i];
+              colorInput.title = `Recolor ${category}`;
+              colorInput.addEventListener("change", () => {
+                this._setCategoryColor(
+                  layerId,
+                  category,
+                  other,
+                  colorInput.value,
+                );
+              });
+              legendItem.appendChild(colorInput);
+              const legendLabel = document.createElement("span");
+              legendLabel.textContent = category;
+              legendItem.appendChild(legendLabel);
+              legend.appendChild(legendItem);
+              continue;
+            }
             const swatch = document.createElement("div");
             swatch.className = "maplibre-gl-choropleth-legend-swatch";
             swatch.style.backgroundColor = info.legendColors[i];
+            if (info.legendSizes) {
+              const diameter = info.legendSizes[i] * 2;
+              swatch.classList.add(
+                "maplibre-gl-choropleth-legend-swatch--circle",
+              );
+              swatch.style.width = `${diameter}px`;
+              swatch.style.height = `${diameter}px`;
+            }
             legendItem.appendChild(swatch);
             const legendLabel = document.createElement("span");
             legendLabel.textContent = info.legendLabels[i] || "";
             legendItem.appendChild(legendLabel);
             legend.appendChild(legendItem);
           }
+          if (info.noDataColor && !info.bivariateColors) {
+            legend.appendChild(this._createNoDataLegendItem(info.noDataColor));
+          }
           listContainer.appendChild(legend);
         }
       }
@@ -1068,6 +2068,159 @@ export class ChoroplethControl implements IControl {
     this._button = undefined;
   }
 
+  /**
+   * Build the histogram editor for the selected column. Break lines show the
+   * current classification; dragging one adopts the breaks as a manual
+   * scheme. Double-click the plot to add a break, or a line to remove it.
+   */
+  private _createHistogram(): HTMLElement {
+    const values = getColumnValues(
+      this._cachedGeojson?.features ?? [],
+      this._state.column,
+      this._state.normalization,
+    );
+    const { min, max, counts } = computeHistogram(values, HISTOGRAM_BINS);
+    const maxCount = Math.max(1, ...counts);
+
+    // Interior breaks of the current scheme are the draggable thresholds
+    const { breaks: currentBreaks } = classify(
+      values,
+      this._state.scheme,
+      this._state.k,
+      this._state.breaks,
+    );
+    let thresholds =
+      this._state.scheme === "manual"
+        ? [...this._state.breaks]
+        : currentBreaks.slice(1, -1);
+
+    const width = 280;
+    const height = 80;
+    const toX = (v: number) => ((v - min) / (max - min)) * width;
+    const toValue = (x: number) => min + (x / width) * (max - min);
+    const svgNs = "http://www.w3.org/2000/svg";
+
+    const group = this._createFormGroup("Histogram", "histogram");
+    const wrapper = document.createElement("div");
+    wrapper.className = "maplibre-gl-choropleth-histogram";
+
+    const svg = document.createElementNS(svgNs, "svg");
+    svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+    svg.setAttribute("preserveAspectRatio", "none");
+    svg.setAttribute("class", "maplibre-gl-choropleth-histogram-svg");
+
+    const barWidth = width / counts.length;
+    counts.forEach((count, i) => {
+      const barHeight = (count / maxCount) * (height - 4);
+      const bar = document.createElementNS(svgNs, "rect");
+      bar.setAttribute("x", String(i * barWidth + 0.5));
+      bar.setAttribute("y", String(height - barHeight));
+      bar.setAttribute("width", String(Math.max(0, barWidth - 1)));
+      bar.setAttribute("height", String(barHeight));
+      bar.setAttribute("class", "maplibre-gl-choropleth-histogram-bar");
+      svg.appendChild(bar);
+    });
+
+    const rangeLabel = document.createElement("div");
+    rangeLabel.className = "maplibre-gl-choropleth-histogram-range";
+    const updateLabel = () => {
+      rangeLabel.textContent = [min, ...thresholds, max]
+        .map((b) => this._formatBreak(b))
+        .join(" | ");
+    };
+
+    const adopt = () => this._adoptBreaks(thresholds);
+
+    const eventToValue = (e: MouseEvent) => {
+      const rect = svg.getBoundingClientRect();
+      const x = ((e.clientX - rect.left) / (rect.width || 1)) * width;
+      return toValue(Math.max(0, Math.min(width, x)));
+    };
+
+    thresholds.forEach((threshold, index) => {
+      const line = document.createElementNS(svgNs, "line");
+      line.setAttribute("class", "maplibre-gl-choropleth-histogram-break");
+      const place = (v: number) => {
+        const x = String(Math.max(0, Math.min(width, toX(v))));
+        line.setAttribute("x1", x);
+        line.setAttribute("x2", x);
+      };
+      place(threshold);
+      line.setAttribute("y1", "0");
+      line.setAttribute("y2", String(height));
+
+      line.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        const onMove = (ev: PointerEvent) => {
+          // Keep breaks ordered by clamping between the neighbours
+          const lo = index > 0 ? thresholds[index - 1] : -Infinity;
+          const hi =
+            index < thresholds.length - 1 ? thresholds[index + 1] : Infinity;
+          thresholds[index] = Math.max(lo, Math.min(hi, eventToValue(ev)));
+          place(thresholds[index]);
+          updateLabel();
+        };
+        const onUp = () => {
+          document.removeEventListener("pointermove", onMove);
+          document.removeEventListener("pointerup", onUp);
+          adopt();
+        };
+        document.addEventListener("pointermove", onMove);
+        document.addEventListener("pointerup", onUp);
+      });
+      line.addEventListener("dblclick", (e) => {
+        e.stopPropagation();
+        thresholds = thresholds.filter((_, i) => i !== index);
+        adopt();
+      });
+      svg.appendChild(line);
+    });
+
+    svg.addEventListener("dblclick", (e) => {
+      thresholds = [...thresholds, eventToValue(e)];
+      adopt();
+    });
+
+    wrapper.appendChild(svg);
+    updateLabel();
+    wrapper.appendChild(rangeLabel);
+    group.appendChild(wrapper);
+
+    const hint = document.createElement("div");
+    hint.className = "maplibre-gl-choropleth-format-hint";
+    hint.textContent =
+      "Drag a line to adjust; double-click to add or remove a break";
+    group.appendChild(hint);
+    return group;
+  }
+
+  /**
+   * Switch the panel to manual breaks and restyle the layer drawn from the
+   * panel's data and column, if one has been added.
+   */
+  private _adoptBreaks(breaks: number[]): void {
+    this._state.scheme = "manual";
+    this._state.breaks = [...breaks].sort((a, b) => a - b);
+
+    const column = describeColumn(
+      this._state.column,
+      this._state.normalization,
+    );
+    const layer = Array.from(this._choroplethLayers.values())
+      .reverse()
+      .find(
+        (info) =>
+          !info.categoryColors &&
+          info.url === this._state.url &&
+          describeColumn(info.column, info.normalization) === column,
+      );
+    if (layer) {
+      this.setLayerBreaks(layer.id, this._state.breaks);
+    } else {
+      this._render();
+    }
+  }
+
   private _createFormGroup(labelText: string, id: string): HTMLElement {
     const group = document.createElement("div");
     group.className = "maplibre-gl-choropleth-form-group";
@@ -1154,14 +2307,23 @@ export class ChoroplethControl implements IControl {
       const numericCols = this._detectNumericColumns(geojson);
       this._cachedColumns = numericCols;
       this._state.availableColumns = numericCols;
+      const categoricalCols = this._detectCategoricalColumns(geojson);
+      this._cachedCategoricalColumns = categoricalCols;
+      this._state.categoricalColumns = categoricalCols;
 
       // Auto-select first column if none specified
-      if (!this._state.column && numericCols.length > 0) {
-        this._state.column = numericCols[0];
+      const columnChoices =
+        this._state.scheme === "unique_values" ? categoricalCols : numericCols;
+      if (!this._state.column && columnChoices.length > 0) {
+        this._state.column = columnChoices[0];
+      }
+      if (!this._state.columnY && numericCols.length > 1) {
+        this._state.columnY =
+          numericCols.find((c) => c !== this._state.column) ?? "";
       }
 
       this._state.loading = false;
-      this._state.status = `Loaded ${geojson.features.length} features, ${numericCols.length} numeric columns.`;
+      this._state.status = `Loaded ${geojson.features.length} features, ${numericCols.length} numeric and ${categoricalCols.length} categorical columns.`;
       this._render();
     } catch (err) {
       this._state.loading = false;
@@ -1208,10 +2370,63 @@ export class ChoroplethControl implements IControl {
     return numericCols.sort();
   }
 
+  /**
+   * Detect categorical columns (strings or integers) from GeoJSON features.
+   */
+  private _detectCategoricalColumns(
+    geojson: GeoJSON.FeatureCollection,
+  ): string[] {
+    const columnStats = new Map<
+      string,
+      { stringCount: number; integerCount: number; totalCount: number }
+    >();
+
+    // Sample up to 100 features for performance
+    const sampleSize = Math.min(geojson.features.length, 100);
+    for (let i = 0; i < sampleSize; i++) {
+      const props = geojson.features[i]?.properties;
+      if (!props) continue;
+      for (const [key, value] of Object.entries(props)) {
+        if (value === null || value === undefined) continue;
+        if (!columnStats.has(key)) {
+          columnStats.set(key, {
+            stringCount: 0,
+            integerCount: 0,
+            totalCount: 0,
+          });
+        }
+        const stats = columnStats.get(key)!;
+        stats.totalCount++;
+        if (typeof value === "string") {
+          stats.stringCount++;
+        } else if (typeof value === "number" && Number.isInteger(value)) {
+          stats.integerCount++;
+        }
+      }
+    }
+
+    // A column is categorical if >80% of sampled values are strings, or if
+    // all of them are integers (codes)
+    const categoricalCols: string[] = [];
+    for (const [key, stats] of columnStats) {
+      if (stats.totalCount === 0) continue;
+      if (
+        stats.stringCount / stats.totalCount > 0.8 ||
+        stats.integerCount === stats.totalCount
+      ) {
+        categoricalCols.push(key);
+      }
+    }
+
+    return categoricalCols.sort();
+  }
+
   /**
    * Create and add the choropleth layer to the map.
    */
-  private async _addChoroplethLayer(): Promise<void> {
+  private async _addChoroplethLayer(
+    fitBounds = this._options.fitBounds,
+  ): Promise<void> {
     if (!this._map || !this._cachedGeojson || !this._state.column) {
       this._state.error = "Load data and select a column first.";
       this._render();
@@ -1236,27 +2451,151 @@ export class ChoroplethControl implements IControl {
         : "transparent";
       const extrude = this._state.extrude;
       const scaleFactor = this._state.scaleFactor;
+      const renderMode = this._state.renderMode;
+      const isBivariate = renderMode === "bivariate";
+      const isCategorical = scheme === "unique_values";
+      const columnY = isBivariate ? this._state.columnY : "";
+      const normalization = isCategorical
+        ? undefined
+        : (this._state.normalization ?? undefined);
+      const columnLabel = describeColumn(column, normalization);
+      if (isBivariate && !columnY) {
+        throw new Error("Select a second column for bivariate mode.");
+      }
+      if (isCategorical && renderMode !== "choropleth") {
+        throw new Error(
+          "Unique values classification only supports the choropleth symbolization.",
+        );
+      }
+      if (isBivariate && !BIVARIATE_SCHEMES.includes(scheme)) {
+        throw new Error(
+          "Bivariate maps need the quantile, equal interval or natural breaks scheme.",
+        );
+      }
+      // Extrusion heights follow the classes of a single numeric column
+      const extruded = extrude && !isBivariate && !isCategorical;
+
+      let breaks: number[];
+      let bins: number[];
+      let values: number[] | undefined;
+      let numClasses: number;
+      let colors: string[];
+      let featureColors: string[];
+      let categoryColors: Record<string, string> | undefined;
+      let categoryLabels: string[] | undefined;
+      const otherColor = this._options.defaultOtherColor;
+      const noDataColor = this._options.defaultNoDataColor;
+      // Whether some features have no value to classify
+      let hasNoData = false;
+
+      if (isCategorical) {
+        // Unique values: one color per category, long tail grouped as Other
+        const rawValues = geojson.features.map((f) => f.properties?.[column]);
+        const { categories, hasOther } = rankCategories(
+          rawValues,
+          this._state.maxCategories,
+        );
+        categoryColors = generateCategoryColors(categories);
+        const palette = categoryColors;
+        categoryLabels = hasOther
+          ? [...categories, OTHER_CATEGORY]
+          : categories;
+        breaks = [];
+        bins = rawValues.map((v) => {
+          if (isMissingCategory(v)) return -1;
+          const idx = categories.indexOf(String(v));
+          return idx === -1 ? categories.length : idx;
+        });
+        numClasses = categoryLabels.length;
+        colors = categoryLabels.map((c, i) =>
+          i < categories.length ? palette[c] : otherColor,
+        );
+        featureColors = bins.map((bin) =>
+          bin === -1 ? noDataColor : (colors[bin] ?? otherColor),
+        );
+        hasNoData = bins.includes(-1);
+      } else {
+        // Extract (normalized) values for the selected column
+        values = getColumnValues(geojson.features, column, normalization);
+
+        // Classify
+        ({ breaks, bins } = classify(
+          values,
+          scheme,
+          isBivariate ? this._state.bivariateK : k,
+          this._state.breaks,
+        ));
+        numClasses = breaks.length - 1;
+        colors = generateColors(colormapName, numClasses);
+        const classColors = colors;
+        featureColors = bins.map((bin) =>
+          bin === -1 ? noDataColor : classColors[bin],
+        );
+        hasNoData = bins.includes(-1);
+      }
 
-      // Extract values for the selected column
-      const values = geojson.features.map((f) => {
-        const v = f.properties?.[column];
-        return typeof v === "number" ? v : NaN;
-      });
-
-      // Classify
-      const { breaks, bins } = classify(values, scheme, k);
-      const numClasses = breaks.length - 1;
-      const colors = generateColors(colormapName, numClasses);
+      // Bivariate: classify the second column and color from the 2D grid
+      let breaksY: number[] | undefined;
+      let bivariateColors: string[][] | undefined;
+      if (isBivariate) {
+        const valuesY = geojson.features.map((f) => {
+          const v = f.properties?.[columnY];
+          return typeof v === "number" ? v : NaN;
+        });
+        const classifiedY = classify(valuesY, scheme, this._state.bivariateK);
+        breaksY = classifiedY.breaks;
+        bivariateColors = generateBivariateColors(
+          this._state.bivariatePalette,
+          numClasses,
+          breaksY.length - 1,
+        );
+        const grid = bivariateColors;
+        featureColors = bins.map((bin, i) =>
+          bin === -1 || classifiedY.bins[i] === -1
+            ? noDataColor
+            : grid[classifiedY.bins[i]][bin],
+        );
+        hasNoData ||= classifiedY.bins.includes(-1);
+        colors = grid.flat();
+      }
+      const sizes =
+        renderMode === "proportional"
+          ? generateSizes(
+              this._state.minRadius,
+              this._state.maxRadius,
+              numClasses,
+            )
+          : undefined;
 
-      // Assign color to each feature
+      // Assign color (and radius for proportional symbols) to each feature
       const coloredGeojson: GeoJSON.FeatureCollection = {
         type: "FeatureCollection",
         features: geojson.features.map((f, i) => ({
           ...f,
           properties: {
             ...f.properties,
-            _choropleth_color: colors[bins[i]] || colors[0],
+            _choropleth_color: featureColors[i],
+            ...(categoryColors
+              ? {
+                  _choropleth_category:
+                    bins[i] === -1
+                      ? null
+                      : bins[i] < Object.keys(categoryColors).length
+                        ? categoryLabels![bins[i]]
+                        : OTHER_CATEGORY_KEY,
+                }
+              : {}),
             _choropleth_bin: bins[i],
+            ...(normalization
+              ? {
+                  _choropleth_value: Number.isFinite(values![i])
+                    ? values![i]
+                    : null,
+                }
+              : {}),
+            ...(sizes
+              ? { _choropleth_radius: sizes[bins[i]] ?? sizes[0] }
+              : {}),
           },
         })),
       };
@@ -1275,8 +2614,13 @@ export class ChoroplethControl implements IControl {
       if (!layerId) {
         layerId = generateId("choropleth");
       }
-      // Append column to make unique
-      layerId = `${layerId}-${column}`;
+      // Append column(s) to make unique
+      layerId = columnY
+        ? `${layerId}-${column}-${columnY}`
+        : `${layerId}-${column}`;
+      if (normalization) {
+        layerId += `-per-${normalization.by === "area" ? "area" : normalization.column}`;
+      }
       const sourceId = `${layerId}-source`;
 
       // Detect geometry type
@@ -1311,24 +2655,15 @@ export class ChoroplethControl implements IControl {
         geometryTypes.has("Point") || geometryTypes.has("MultiPoint");
 
       if (hasPolygons) {
-        if (extrude) {
+        if (extruded) {
           // Fill-extrusion layer with interpolate expressions
-          const fillExtrusionColorExpr: unknown[] = [
-            "interpolate",
-            ["linear"],
-            ["get", column],
-          ];
-          const fillExtrusionHeightExpr: unknown[] = [
-            "interpolate",
-            ["linear"],
-            ["get", column],
-          ];
-
-          for (let i = 0; i < breaks.length; i++) {
-            const colorIdx = Math.min(i, colors.length - 1);
-            fillExtrusionColorExpr.push(breaks[i], colors[colorIdx]);
-            fillExtrusionHeightExpr.push(breaks[i], breaks[i] / scaleFactor);
-          }
+          const extrusion = extrusionPaint(
+            normalization ? "_choropleth_value" : column,
+            breaks,
+            colors,
+            scaleFactor,
+            hasNoData ? noDataColor : undefined,
+          );
 
           const extrusionLayerId = `${layerId}-extrusion`;
           this._map.addLayer(
@@ -1342,10 +2677,8 @@ export class ChoroplethControl implements IControl {
                 ["==", ["geometry-type"], "MultiPolygon"],
               ],
               paint: {
-                "fill-extrusion-color":
-                  fillExtrusionColorExpr as ExpressionSpecification,
-                "fill-extrusion-height":
-                  fillExtrusionHeightExpr as ExpressionSpecification,
+                "fill-extrusion-color": extrusion.color,
+                "fill-extrusion-height": extrusion.height,
                 "fill-extrusion-base": 10, // Small offset to avoid z-fighting on globe projection
                 "fill-extrusion-opacity": opacity,
               },
@@ -1448,7 +2781,12 @@ export class ChoroplethControl implements IControl {
                 "get",
                 "_choropleth_color",
               ] as unknown as ExpressionSpecification,
-              "circle-radius": 6,
+              "circle-radius": sizes
+                ? ([
+                    "get",
+                    "_choropleth_radius",
+                  ] as unknown as ExpressionSpecification)
+                : 6,
               "circle-stroke-color": outlineColor,
               "circle-stroke-width": showOutline ? 1 : 0,
               "circle-opacity": opacity,
@@ -1508,12 +2846,9 @@ export class ChoroplethControl implements IControl {
 
       // Build legend
       const legendColors = colors;
-      const legendLabels: string[] = [];
-      for (let i = 0; i < breaks.length - 1; i++) {
-        const lo = this._formatBreak(breaks[i]);
-        const hi = this._formatBreak(breaks[i + 1]);
-        legendLabels.push(`${lo} – ${hi}`);
-      }
+      const legendLabels =
+        categoryLabels ??
+        this._rangeLabels(columnLabel, breaks, columnY, breaksY);
 
       // Store layer info
       const layerInfo: ChoroplethLayerInfo = {
@@ -1524,6 +2859,7 @@ export class ChoroplethControl implements IControl {
         featureCount: coloredGeojson.features.length,
         geometryTypes: Array.from(geometryTypes),
         column,
+        ...(normalization ? { normalization } : {}),
         scheme,
         k: numClasses,
         colormap: colormapName,
@@ -1531,19 +2867,40 @@ export class ChoroplethControl implements IControl {
         legendColors,
         legendLabels,
         opacity,
-        extrude,
+        extrude: extruded,
         scaleFactor,
+        renderMode,
+        legendSizes: sizes,
+        ...(isBivariate
+          ? {
+              columnY,
+              breaksY,
+              bivariatePalette: this._state.bivariatePalette,
+              bivariateColors,
+            }
+          : {}),
+        ...(categoryColors ? { categoryColors, otherColor } : {}),
+        ...(hasNoData ? { noDataColor } : {}),
       };
       this._choroplethLayers.set(layerId, layerInfo);
+      this._layerColumns.set(layerId, collectColumns(geojson.features));
 
       this._state.hasLayer = this._choroplethLayers.size > 0;
       this._state.layerCount = this._choroplethLayers.size;
       this._state.layers = Array.from(this._choroplethLayers.values());
       this._state.loading = false;
-      this._state.status = `Added choropleth: ${column} (${numClasses} classes, ${scheme}).`;
+      this._state.status = isBivariate
+        ? `Added bivariate choropleth: ${columnLabel} x ${columnY} (${scheme}).`
+        : isCategorical
+          ? `Added choropleth: ${column} (${numClasses} categories).`
+          : `Added choropleth: ${columnLabel} (${numClasses} classes, ${scheme}).`;
+      if (extrude && !extruded) {
+        this._state.status +=
+          " 3D extrusion is only available for numeric choropleth maps.";
+      }
 
       // Fit bounds
-      if (this._options.fitBounds && coloredGeojson.features.length > 0) {
+      if (fitBounds && coloredGeojson.features.length > 0) {
         this._fitToData(coloredGeojson);
       }
 
@@ -1557,6 +2914,35 @@ export class ChoroplethControl implements IControl {
     }
   }
 
+  /**
+   * Legend labels of numeric classes: one value range per class, or one per
+   * grid cell, row by row, for bivariate layers.
+   */
+  private _rangeLabels(
+    columnLabel: string,
+    breaks: number[],
+    columnY?: string,
+    breaksY?: number[],
+  ): string[] {
+    const formatRange = (b: number[], i: number) =>
+      `${this._formatBreak(b[i])} – ${this._formatBreak(b[i + 1])}`;
+    const labels: string[] = [];
+    if (breaksY) {
+      for (let y = 0; y < breaksY.length - 1; y++) {
+        for (let x = 0; x < breaks.length - 1; x++) {
+          labels.push(
+            `${columnLabel}: ${formatRange(breaks, x)}, ${columnY}: ${formatRange(breaksY, y)}`,
+          );
+        }
+      }
+    } else {
+      for (let i = 0; i < breaks.length - 1; i++) {
+        labels.push(formatRange(breaks, i));
+      }
+    }
+    return labels;
+  }
+
   private _formatBreak(value: number): string {
     if (Math.abs(value) >= 1000) return Math.round(value).toLocaleString();
     if (Math.abs(value) >= 1) return value.toFixed(2);
@@ -1742,6 +3128,11 @@ export class ChoroplethControl implements IControl {
         }
       }
       this._choroplethLayers.delete(id);
+      this._layerColumns.delete(id);
+      this._openFilters.delete(id);
+      for (const lid of info?.layerIds ?? []) {
+        this._baseFilters.delete(lid);
+      }
       this._removeLegendControl(id);
       this._state.hasLayer = this._choroplethLayers.size > 0;
       this._state.layerCount = this._choroplethLayers.size;
@@ -1760,15 +3151,22 @@ export class ChoroplethControl implements IControl {
   private _addLegendControl(layerId: string, info: ChoroplethLayerInfo): void {
     if (!this._map || this._legendControls.has(layerId)) return;
 
-    const items = info.legendColors.map((color, i) => ({
-      label: info.legendLabels[i] || "",
-      color,
-      shape: "square" as const,
-    }));
+    if (info.bivariateColors) {
+      const control = new HtmlControl({
+        title: `${describeColumn(info.column, info.normalization)} x ${info.columnY}`,
+        element: this._createBivariateLegend(info),
+        collapsible: true,
+        collapsed: false,
+        visible: true,
+      });
+      this._map.addControl(control, "bottom-left");
+      this._legendControls.set(layerId, control);
+      return;
+    }
 
     const legend = new Legend({
-      title: info.column,
-      items,
+      title: describeColumn(info.column, info.normalization),
+      items: this._getLegendItems(info),
       position: "bottom-left",
       collapsible: true,
       collapsed: false,
@@ -1779,6 +3177,135 @@ export class ChoroplethControl implements IControl {
     this._legendControls.set(layerId, legend);
   }
 
+  /**
+   * Redraw the map legend of a layer, if it has one, after its classes changed.
+   */
+  private _refreshLegendControl(
+    layerId: string,
+    info: ChoroplethLayerInfo,
+  ): void {
+    const legend = this._legendControls.get(layerId);
+    if (legend instanceof Legend) {
+      legend.setItems(this._getLegendItems(info));
+    } else if (legend instanceof HtmlControl) {
+      legend.setElement(this._createBivariateLegend(info));
+    }
+  }
+
+  /**
+   * Build Legend items for a (non-bivariate) choropleth layer.
+   */
+  private _getLegendItems(info: ChoroplethLayerInfo): LegendItem[] {
+    const sizes = info.legendSizes;
+    const item = (label: string, color: string, size?: number): LegendItem => ({
+      label,
+      color,
+      shape: sizes ? "circle" : "square",
+      ...(size !== undefined ? { size: size * 2 } : {}),
+    });
+    const items = info.legendColors.map((color, i) =>
+      item(info.legendLabels[i] || "", color, sizes?.[i]),
+    );
+    if (info.noDataColor) {
+      // Features without a value are drawn at the smallest size
+      items.push(item(NO_DATA_LABEL, info.noDataColor, sizes?.[0]));
+    }
+    return items;
+  }
+
+  /**
+   * Build the "No data" row of the panel and bivariate legends.
+   */
+  private _createNoDataLegendItem(color: string): HTMLElement {
+    const item = document.createElement("div");
+    item.className = "maplibre-gl-choropleth-legend-item";
+    const swatch = document.createElement("div");
+    swatch.className = "maplibre-gl-choropleth-legend-swatch";
+    swatch.style.backgroundColor = color;
+    item.appendChild(swatch);
+    const label = document.createElement("span");
+    label.textContent = NO_DATA_LABEL;
+    item.appendChild(label);
+    return item;
+  }
+
+  /**
+   * Push the category colors of a unique values layer to its map layers.
+   */
+  private _applyCategoryColors(info: ChoroplethLayerInfo): void {
+    if (!this._map || !info.categoryColors) return;
+    const otherColor = info.otherColor ?? this._options.defaultOtherColor;
+    const labels: unknown[] = [];
+    for (const [category, color] of Object.entries(info.categoryColors)) {
+      labels.push(category, color);
+    }
+    if (info.legendLabels.length > labels.length / 2) {
+      labels.push(OTHER_CATEGORY_KEY, otherColor);
+    }
+    // Features without a category fall through to the no-data color, and a
+    // match needs at least one label, so a column without any categories
+    // gets a plain color
+    const fallback = info.noDataColor ?? otherColor;
+    const colorExpr = (labels.length
+      ? ["match", ["get", "_choropleth_category"], ...labels, fallback]
+      : fallback) as unknown as ExpressionSpecification;
+
+    for (const lid of info.layerIds) {
+      const layer = this._map.getLayer(lid);
+      if (!layer) continue;
+      if (layer.type === "fill") {
+        this._map.setPaintProperty(lid, "fill-color", colorExpr);
+      } else if (layer.type === "circle") {
+        this._map.setPaintProperty(lid, "circle-color", colorExpr);
+      } else if (layer.type === "line" && !lid.endsWith("-outline")) {
+        this._map.setPaintProperty(lid, "line-color", colorExpr);
+      }
+    }
+  }
+
+  /**
+   * Build the square legend of a bivariate layer: a color grid with the
+   * first column increasing to the right and the second column upwards.
+   */
+  private _createBivariateLegend(info: ChoroplethLayerInfo): HTMLElement {
+    const grid = info.bivariateColors ?? [];
+    const wrapper = document.createElement("div");
+    wrapper.className = "maplibre-gl-choropleth-bivariate";
+
+    const yAxis = document.createElement("div");
+    yAxis.className = "maplibre-gl-choropleth-bivariate-y";
+    yAxis.textContent = `${info.columnY ?? ""} →`;
+    wrapper.appendChild(yAxis);
+
+    const body = document.createElement("div");
+    const cells = document.createElement("div");
+    cells.className = "maplibre-gl-choropleth-bivariate-grid";
+    cells.style.gridTemplateColumns = `repeat(${grid[0]?.length ?? 0}, 1fr)`;
+    // Render the highest Y class first so it ends up on top
+    for (let y = grid.length - 1; y >= 0; y--) {
+      for (let x = 0; x < grid[y].length; x++) {
+        const cell = document.createElement("div");
+        cell.className = "maplibre-gl-choropleth-bivariate-cell";
+        cell.style.backgroundColor = grid[y][x];
+        cell.title =
+          info.legendLabels[y * grid[y].length + x] ?? `${x + 1}, ${y + 1}`;
+        cells.appendChild(cell);
+      }
+    }
+    body.appendChild(cells);
+
+    const xAxis = document.createElement("div");
+    xAxis.className = "maplibre-gl-choropleth-bivariate-x";
+    xAxis.textContent = `${describeColumn(info.column, info.normalization)} →`;
+    body.appendChild(xAxis);
+    if (info.noDataColor) {
+      body.appendChild(this._createNoDataLegendItem(info.noDataColor));
+    }
+    wrapper.appendChild(body);
+
+    return wrapper;
+  }
+
   /**
    * Remove a Legend control from the map for a given choropleth layer.
    */
@@ -1828,6 +3355,9 @@ export class ChoroplethControl implements IControl {
       }
     }
     this._choroplethLayers.clear();
+    this._layerColumns.clear();
+    this._baseFilters.clear();
+    this._openFilters.clear();
     this._removeAllLegendControls();
     this._state.hasLayer = false;
     this._state.layerCount = 0;
@@ -8,6 +8,7 @@ import {
   type Map as MapLibreMap,
 } from "maplibre-gl";
 import type {
+  CogLayerAddOptions,
   CogLayerControlOptions,
   CogLayerControlState,
   CogLayerEvent,
@@ -512,11 +513,21 @@ export class CogLayerControl implements IControl {
   }
 
   /**
-   * Programmatically add a COG layer.
+   * Programmatically add a COG layer. Any {@link CogLayerAddOptions} field
+   * sets the matching panel value first.
    */
-  async addLayer(url?: string): Promise<void> {
+  async addLayer(url?: string, options?: CogLayerAddOptions): Promise<void> {
     if (url) this._state.url = url;
-    await this._addLayer();
+    if (options?.name !== undefined) this._state.layerName = options.name;
+    if (options?.colormap) this._state.colormap = options.colormap;
+    if (options?.rescaleMin !== undefined)
+      this._state.rescaleMin = options.rescaleMin;
+    if (options?.rescaleMax !== undefined)
+      this._state.rescaleMax = options.rescaleMax;
+    if (options?.nodata !== undefined) this._state.nodata = options.nodata;
+    if (options?.opacity !== undefined)
+      this._state.layerOpacity = options.opacity;
+    await this._addLayer(options?.fitBounds ?? true);
   }
 
   /**
@@ -1711,7 +1722,7 @@ export class CogLayerControl implements IControl {
     };
   }
 
-  private async _addLayer(): Promise<void> {
+  private async _addLayer(fitBounds = true): Promise<void> {
     if (!this._map || !this._state.url) {
       this._state.error = "Please enter a COG URL.";
       this._render();
@@ -1764,7 +1775,7 @@ export class CogLayerControl implements IControl {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         onGeoTIFFLoad: (_geotiff: any, options: any) => {
           try {
-            if (options && options.geographicBounds) {
+            if (fitBounds && options && options.geographicBounds) {
               const { west, south, east, north } = options.geographicBounds;
               map.fitBounds(
                 [
@@ -196,6 +196,19 @@ export class Colorbar implements IControl {
     return { ...this._state };
   }
 
+  /**
+   * Gets the resolved colorbar entries, e.g. for drawing them on a printed
+   * map.
+   *
+   * @returns A copy of every colorbar entry.
+   */
+  getColorbars(): ColorbarItemOptions[] {
+    return this._colorbars.map((colorbar) => ({
+      ...colorbar,
+      colorStops: [...colorbar.colorStops],
+    }));
+  }
+
   /**
    * Registers an event handler.
    *
@@ -12,6 +12,7 @@ import type {
   ControlGridState,
   ControlGridEvent,
   ControlGridEventHandler,
+  ControlGridLayout,
   DefaultControlName,
 } from "./types";
 import { SearchControl } from "./SearchControl";
@@ -61,11 +62,13 @@ import {
 /** Optional fields that should not be made required */
 type OptionalControlGridFields =
   | "controls"
+  | "controlKeys"
   | "defaultControls"
   | "basemapStyleUrl"
   | "excludeLayers"
   | "streetViewOptions"
-  | "bookmarkOptions";
+  | "bookmarkOptions"
+  | "layout";
 
 /** ControlGrid options with required fields except for optional ones */
 type ResolvedControlGridOptions = Required<
@@ -98,11 +101,18 @@ const DEFAULT_OPTIONS: ResolvedControlGridOptions = {
   excludeLayers: undefined,
   streetViewOptions: undefined,
   bookmarkOptions: undefined,
+  reorderable: true,
+  customizable: true,
+  layout: undefined,
+  storageKey: "",
 };
 
 /** Wrench icon SVG for collapsed state – stroke style matching MapLibre globe icon. */
 const WRENCH_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#333" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z"/></svg>`;
 
+/** Sliders icon SVG for the customize button. */
+const CUSTOMIZE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round"><path d="M4 6h10M18 6h2M4 12h4M12 12h8M4 18h12"/><circle cx="16" cy="6" r="2"/><circle cx="10" cy="12" r="2"/><circle cx="18" cy="18" r="2"/></svg>`;
+
 /** Compass SVG matching MapLibre's built-in compass icon. */
 const COMPASS_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="29" height="29" viewBox="0 0 29 29"><path d="m10.5 14 4-8 4 8z" fill="#333"/><path d="m10.5 16 4 8 4-8z" fill="#ccc"/></svg>`;
 
@@ -214,6 +224,14 @@ interface ChildEntry {
   _savedPositionMethods: Record<string, () => void> | null;
   /** Tooltip text to apply if the control's button has no title */
   tooltip?: string;
+  /** Layout key: the default control name, the key given by the host, or `control-<n>` */
+  key: string;
+  /** Insertion sequence, used to restore the original order */
+  seq: number;
+  /** Name of the built-in control, for entries from `defaultControls` */
+  defaultName?: DefaultControlName;
+  /** Hidden by the layout; the control is not added to the map */
+  hidden: boolean;
 }
 
 /** Human-readable tooltip labels for default controls. */
@@ -287,6 +305,12 @@ export class ControlGrid implements IControl {
   private _clickInGrid: boolean = false;
   private _docCaptureHandler?: (e: MouseEvent) => void;
   private _docBubbleHandler?: (e: MouseEvent) => void;
+  /** Number of entries created, for `seq`. */
+  private _entryCount: number = 0;
+  /** Number of controls without a default name or key, for their layout keys. */
+  private _controlCount: number = 0;
+  private _menuOpen: boolean = false;
+  private _dragEntry: ChildEntry | null = null;
 
   constructor(options?: ControlGridOptions) {
     this._options = { ...DEFAULT_OPTIONS, ...options };
@@ -298,40 +322,21 @@ export class ControlGrid implements IControl {
     };
     // Add explicitly passed controls
     const initial = options?.controls ?? this._options.controls ?? [];
-    initial.forEach((c) =>
-      this._children.push({
-        control: c,
-        element: null,
-        expandable: this._isExpandable(c),
-        collapsedSnapshot: null,
-        expandHandler: null,
-        collapseHandler: null,
-        _placeholder: null,
-        _externalPanel: null,
-        _externalPanelParent: null,
-        _savedPositionMethods: null,
-      }),
+    const keys = this._options.controlKeys ?? [];
+    initial.forEach((c, i) =>
+      this._children.push(this._createEntry(c, undefined, keys[i])),
     );
 
     // Create and add built-in default controls
     const defaults = options?.defaultControls ?? [];
     for (const name of defaults) {
       const ctrl = this._createDefaultControl(name);
-      if (ctrl)
-        this._children.push({
-          control: ctrl,
-          element: null,
-          expandable: this._isExpandable(ctrl),
-          collapsedSnapshot: null,
-          expandHandler: null,
-          collapseHandler: null,
-          _placeholder: null,
-          _externalPanel: null,
-          _externalPanelParent: null,
-          _savedPositionMethods: null,
-          tooltip: DEFAULT_CONTROL_TOOLTIPS[name],
-        });
+      if (ctrl) this._children.push(this._createEntry(ctrl, name));
     }
+
+    // A layout saved in localStorage wins over the one passed in
+    const layout = this._loadLayout() ?? this._options.layout;
+    if (layout) this._applyLayout(layout);
     this._autoGrowRows();
   }
 
@@ -585,25 +590,18 @@ export class ControlGrid implements IControl {
 
   /**
    * Add a control to the grid. If the control is already on the map, it is mounted into the grid.
+   *
+   * @param control - The control to add.
+   * @param key - Stable layout key for the cell. Default: `control-<n>`.
    */
-  addControl(control: IControl): void {
+  addControl(control: IControl, key?: string): void {
     if (this._children.some((e) => e.control === control)) return;
-    const entry: ChildEntry = {
-      control,
-      element: null,
-      expandable: this._isExpandable(control),
-      collapsedSnapshot: null,
-      expandHandler: null,
-      collapseHandler: null,
-      _placeholder: null,
-      _externalPanel: null,
-      _externalPanelParent: null,
-      _savedPositionMethods: null,
-    };
+    const entry = this._createEntry(control, undefined, key);
     this._children.push(entry);
     this._autoGrowRows();
     if (this._map && this._gridEl) {
       entry.element = control.onAdd(this._map);
+      if (this._options.reorderable) entry.element.draggable = true;
       if (entry.expandable) {
         entry.collapsedSnapshot = entry.element.cloneNode(true) as HTMLElement;
         this._attachExpandListeners(entry);
@@ -619,19 +617,7 @@ export class ControlGrid implements IControl {
   removeControl(control: IControl): void {
     const index = this._children.findIndex((e) => e.control === control);
     if (index === -1) return;
-    const entry = this._children[index];
-    // If this control is currently floating, clear it first
-    if (this._floatingEntry === entry) {
-      this._clearFloating();
-    }
-    this._detachExpandListeners(entry);
-    if (entry._placeholder?.parentNode) {
-      entry._placeholder.parentNode.removeChild(entry._placeholder);
-    }
-    if (entry.element?.parentNode) {
-      entry.element.parentNode.removeChild(entry.element);
-    }
-    if (this._map) control.onRemove(this._map);
+    this._unmountEntry(this._children[index]);
     this._children.splice(index, 1);
     this._emit("controlremove", control);
   }
@@ -659,10 +645,63 @@ export class ControlGrid implements IControl {
   }
 
   /**
-   * Get the list of controls currently in the grid.
+   * Get the list of controls currently in the grid, in display order.
+   * Default controls hidden by the layout are not included.
    */
   getControls(): IControl[] {
-    return this._children.map((e) => e.control);
+    return this._children.filter((e) => !e.hidden).map((e) => e.control);
+  }
+
+  /**
+   * Get the order of the cells and the hidden default controls.
+   */
+  getLayout(): ControlGridLayout {
+    return {
+      order: this._children.map((e) => e.key),
+      hidden: this._children
+        .filter((e) => e.hidden && e.defaultName)
+        .map((e) => e.defaultName!),
+    };
+  }
+
+  /**
+   * Apply a layout, e.g. one saved by the host from a `layoutchange` event.
+   * Cells missing from `order` keep their relative order after the others.
+   */
+  setLayout(layout: ControlGridLayout): void {
+    this._applyLayout(layout);
+    this._layoutChanged();
+  }
+
+  /**
+   * Restore the original cell order and show all default controls.
+   */
+  resetLayout(): void {
+    this._applyLayout({ order: [], hidden: [] });
+    this._layoutChanged();
+  }
+
+  /**
+   * Move a control to another cell.
+   *
+   * @param control - A control in the grid.
+   * @param index - The new position in the layout order (hidden controls included).
+   */
+  moveControl(control: IControl, index: number): void {
+    const entry = this._children.find((e) => e.control === control);
+    if (entry) this._moveEntry(entry, index);
+  }
+
+  /**
+   * Show or hide one of the `defaultControls`. A hidden control is removed
+   * from the map and added again when shown.
+   */
+  setControlVisible(name: DefaultControlName, visible: boolean): void {
+    const entry = this._children.find((e) => e.defaultName === name);
+    if (!entry || entry.hidden === !visible) return;
+    if (!visible) this._unmountEntry(entry);
+    entry.hidden = !visible;
+    this._layoutChanged();
   }
 
   /**
@@ -676,6 +715,7 @@ export class ControlGrid implements IControl {
   getAdapters(): CustomLayerAdapter[] {
     const adapters: CustomLayerAdapter[] = [];
     for (const entry of this._children) {
+      if (entry.hidden) continue;
       const ctrl = entry.control;
       if (ctrl instanceof CogLayerControl) {
         adapters.push(new CogLayerAdapter(ctrl));
@@ -770,11 +810,120 @@ export class ControlGrid implements IControl {
   private _emit(event: ControlGridEvent, control?: IControl): void {
     const handlers = this._eventHandlers.get(event);
     if (handlers) {
-      const payload = { type: event, state: this.getState(), control };
+      const payload = {
+        type: event,
+        state: this.getState(),
+        control,
+        ...(event === "layoutchange" ? { layout: this.getLayout() } : {}),
+      };
       handlers.forEach((h) => h(payload));
     }
   }
 
+  private _createEntry(
+    control: IControl,
+    defaultName?: DefaultControlName,
+    key?: string,
+  ): ChildEntry {
+    if (key && this._children.some((e) => e.key === key)) {
+      console.warn(`ControlGrid: Duplicate layout key "${key}"`);
+      key = undefined;
+    }
+    return {
+      control,
+      element: null,
+      expandable: this._isExpandable(control),
+      collapsedSnapshot: null,
+      expandHandler: null,
+      collapseHandler: null,
+      _placeholder: null,
+      _externalPanel: null,
+      _externalPanelParent: null,
+      _savedPositionMethods: null,
+      tooltip: defaultName ? DEFAULT_CONTROL_TOOLTIPS[defaultName] : undefined,
+      key: defaultName ?? key ?? `control-${this._controlCount++}`,
+      seq: this._entryCount++,
+      defaultName,
+      hidden: false,
+    };
+  }
+
+  /**
+   * Sort the entries by the layout order and set which ones are hidden.
+   */
+  private _applyLayout(layout: ControlGridLayout): void {
+    const rank = new Map(layout.order.map((key, i) => [key, i]));
+    const position = (e: ChildEntry) =>
+      rank.get(e.key) ?? layout.order.length + e.seq;
+    this._children.sort((a, b) => position(a) - position(b));
+
+    const hidden = new Set<string>(layout.hidden);
+    for (const entry of this._children) {
+      if (!entry.defaultName) continue;
+      const hide = hidden.has(entry.defaultName);
+      if (hide && !entry.hidden) this._unmountEntry(entry);
+      entry.hidden = hide;
+    }
+  }
+
+  private _moveEntry(entry: ChildEntry, index: number): void {
+    const from = this._children.indexOf(entry);
+    const to = Math.max(
+      0,
+      Math.min(this._children.length - 1, Math.round(index)),
+    );
+    if (from === -1 || from === to) return;
+    this._children.splice(from, 1);
+    this._children.splice(to, 0, entry);
+    this._layoutChanged();
+  }
+
+  /**
+   * Re-render the cells in their new order, then persist and announce the layout.
+   */
+  private _layoutChanged(): void {
+    this._autoGrowRows();
+    this._render();
+    this._saveLayout();
+    this._emit("layoutchange");
+  }
+
+  /**
+   * Save the layout to localStorage.
+   */
+  private _saveLayout(): void {
+    if (!this._options.storageKey) return;
+
+    try {
+      localStorage.setItem(
+        this._options.storageKey,
+        JSON.stringify(this.getLayout()),
+      );
+    } catch {
+      // localStorage not available or full
+    }
+  }
+
+  /**
+   * Load the layout from localStorage.
+   */
+  private _loadLayout(): ControlGridLayout | null {
+    if (!this._options.storageKey) return null;
+
+    try {
+      const stored = localStorage.getItem(this._options.storageKey);
+      if (stored) {
+        const parsed = JSON.parse(stored) as Partial<ControlGridLayout>;
+        if (Array.isArray(parsed.order) && Array.isArray(parsed.hidden)) {
+          return { order: parsed.order, hidden: parsed.hidden };
+        }
+      }
+    } catch {
+      // localStorage not available or invalid data
+    }
+    return null;
+  }
+
   private _checkZoomVisibility(): void {
     if (!this._map) return;
     const zoom = this._map.getZoom();
@@ -807,8 +956,9 @@ export class ControlGrid implements IControl {
 
   private _autoGrowRows(): void {
     const capacity = this._state.rows * this._state.columns;
-    if (this._children.length > capacity) {
-      this._state.rows = Math.ceil(this._children.length / this._state.columns);
+    const count = this._children.filter((e) => !e.hidden).length;
+    if (count > capacity) {
+      this._state.rows = Math.ceil(count / this._state.columns);
       this._applyGridStyle();
     }
   }
@@ -835,8 +985,10 @@ export class ControlGrid implements IControl {
   private _mountChildren(): void {
     if (!this._map || !this._gridEl) return;
     this._children.forEach((entry) => {
+      if (entry.hidden) return;
       if (!entry.element) {
         entry.element = entry.control.onAdd(this._map!);
+        if (this._options.reorderable) entry.element.draggable = true;
         // Apply tooltip to the button if the control doesn't already set one
         if (entry.tooltip) {
           this._applyTooltip(entry.element, entry.tooltip);
@@ -896,9 +1048,141 @@ export class ControlGrid implements IControl {
       _externalPanel: null,
       _externalPanelParent: null,
       _savedPositionMethods: null,
+      tooltip: e.tooltip,
+      key: e.key,
+      seq: e.seq,
+      defaultName: e.defaultName,
+      hidden: e.hidden,
     }));
   }
 
+  /**
+   * Take a single control off the map and out of the grid, leaving its entry.
+   */
+  private _unmountEntry(entry: ChildEntry): void {
+    const placeholder = entry._placeholder;
+    // If this control is currently floating, clear it first
+    if (this._floatingEntry === entry) {
+      this._clearFloating();
+    }
+    this._detachExpandListeners(entry);
+    placeholder?.parentNode?.removeChild(placeholder);
+    if (entry.element?.parentNode) {
+      entry.element.parentNode.removeChild(entry.element);
+    }
+    if (this._map && entry.element) entry.control.onRemove(this._map);
+    entry.element = null;
+    entry.collapsedSnapshot = null;
+    entry._placeholder = null;
+  }
+
+  /**
+   * Find the entry of the grid cell containing a node.
+   */
+  private _cellEntry(
+    target: Node | null,
+    grid: HTMLElement,
+  ): ChildEntry | null {
+    let node = target;
+    while (node && node.parentNode !== grid) node = node.parentNode;
+    if (!node) return null;
+    return (
+      this._children.find(
+        (e) => e.element === node || e._placeholder === node,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Let cells be dragged onto one another to reorder them. The listeners are
+   * delegated to the grid element, which is recreated on every render.
+   */
+  private _attachDragListeners(grid: HTMLElement): void {
+    const clearDropTarget = () =>
+      grid
+        .querySelectorAll(".maplibre-gl-control-grid-cell--dragover")
+        .forEach((el) =>
+          el.classList.remove("maplibre-gl-control-grid-cell--dragover"),
+        );
+    const endDrag = () => {
+      clearDropTarget();
+      this._dragEntry?.element?.classList.remove(
+        "maplibre-gl-control-grid-cell--dragging",
+      );
+      this._dragEntry = null;
+    };
+
+    grid.addEventListener("dragstart", (e) => {
+      const entry = this._cellEntry(e.target as Node, grid);
+      if (!entry || !entry.element || entry === this._floatingEntry) return;
+      this._dragEntry = entry;
+      entry.element.classList.add("maplibre-gl-control-grid-cell--dragging");
+      if (e.dataTransfer) {
+        e.dataTransfer.effectAllowed = "move";
+        // Firefox only starts a drag when data is set
+        e.dataTransfer.setData("text/plain", entry.key);
+      }
+    });
+    grid.addEventListener("dragover", (e) => {
+      if (!this._dragEntry) return;
+      e.preventDefault();
+      const target = this._cellEntry(e.target as Node, grid);
+      const cell = target?._placeholder ?? target?.element;
+      if (cell?.classList.contains("maplibre-gl-control-grid-cell--dragover"))
+        return;
+      clearDropTarget();
+      if (target && target !== this._dragEntry) {
+        cell?.classList.add("maplibre-gl-control-grid-cell--dragover");
+      }
+    });
+    grid.addEventListener("drop", (e) => {
+      const dragged = this._dragEntry;
+      if (!dragged) return;
+      e.preventDefault();
+      const target = this._cellEntry(e.target as Node, grid);
+      endDrag();
+      if (target && target !== dragged) {
+        this._moveEntry(dragged, this._children.indexOf(target));
+      }
+    });
+    grid.addEventListener("dragend", endDrag);
+  }
+
+  /**
+   * Build the menu listing the default controls with a checkbox each.
+   */
+  private _createCustomizeMenu(): HTMLElement {
+    const menu = document.createElement("div");
+    menu.className = "maplibre-gl-control-grid-menu";
+    menu.style.display = this._menuOpen ? "block" : "none";
+
+    for (const entry of this._children) {
+      const name = entry.defaultName;
+      if (!name) continue;
+      const label = document.createElement("label");
+      label.className = "maplibre-gl-control-grid-menu-item";
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.checked = !entry.hidden;
+      checkbox.addEventListener("change", () =>
+        this.setControlVisible(name, checkbox.checked),
+      );
+      label.appendChild(checkbox);
+      label.appendChild(
+        document.createTextNode(DEFAULT_CONTROL_TOOLTIPS[name] ?? name),
+      );
+      menu.appendChild(label);
+    }
+
+    const resetBtn = document.createElement("button");
+    resetBtn.type = "button";
+    resetBtn.className = "maplibre-gl-control-grid-menu-reset";
+    resetBtn.textContent = "Reset layout";
+    resetBtn.addEventListener("click", () => this.resetLayout());
+    menu.appendChild(resetBtn);
+    return menu;
+  }
+
   private _isExpandable(control: IControl): boolean {
     const ctrl = control as any;
     return typeof ctrl.on === "function" && typeof ctrl.collapse === "function";
@@ -1273,10 +1557,18 @@ export class ControlGrid implements IControl {
       borderRadius,
       padding,
       showRowColumnControls,
+      customizable,
     } = this._options;
 
     this._container.innerHTML = "";
 
+    const menu =
+      customizable &&
+      !this._state.collapsed &&
+      this._children.some((e) => e.defaultName)
+        ? this._createCustomizeMenu()
+        : null;
+
     if (this._state.collapsed) {
       this._container.classList.add("maplibre-gl-control-grid--collapsed");
     } else {
@@ -1399,6 +1691,26 @@ export class ControlGrid implements IControl {
 
         header.appendChild(left);
 
+        if (menu) {
+          const customizeBtn = document.createElement("span");
+          customizeBtn.className = "maplibre-gl-control-grid-customize";
+          customizeBtn.innerHTML = CUSTOMIZE_ICON;
+          customizeBtn.title = "Customize controls";
+          customizeBtn.setAttribute("role", "button");
+          Object.assign(customizeBtn.style, {
+            display: "inline-flex",
+            marginLeft: "auto",
+            cursor: "pointer",
+          });
+          customizeBtn.addEventListener("click", (ev) => {
+            // Keep the header from toggling the grid
+            ev.stopPropagation();
+            this._menuOpen = !this._menuOpen;
+            menu.style.display = this._menuOpen ? "block" : "none";
+          });
+          header.appendChild(customizeBtn);
+        }
+
         if (collapsible) {
           const toggleBtn = document.createElement("span");
           toggleBtn.className = "maplibre-gl-control-grid-toggle";
@@ -1419,12 +1731,15 @@ export class ControlGrid implements IControl {
       this._container.appendChild(header);
     }
 
+    if (menu) this._container.appendChild(menu);
+
     const content = document.createElement("div");
     content.className = "maplibre-gl-control-grid-content";
     Object.assign(content.style, {
       display: this._state.collapsed ? "none" : "block",
     });
     this._gridEl = content;
+    if (this._options.reorderable) this._attachDragListeners(content);
     this._applyGridStyle();
     this._container.appendChild(content);
 
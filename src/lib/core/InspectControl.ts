@@ -25,7 +25,7 @@ import { generateId } from "../utils/helpers";
 /**
  * Default highlight style for selected features.
  */
-const DEFAULT_HIGHLIGHT_STYLE: Required<InspectHighlightStyle> = {
+export const DEFAULT_HIGHLIGHT_STYLE: Required<InspectHighlightStyle> = {
   fillColor: "#ffff00",
   fillOpacity: 0.3,
   strokeColor: "#ffff00",
@@ -272,6 +272,19 @@ export class Legend implements IControl {
     };
   }
 
+  /**
+   * Gets the resolved legend entries, e.g. for drawing them on a printed
+   * map.
+   *
+   * @returns A copy of every legend entry.
+   */
+  getLegends(): LegendItemOptions[] {
+    return this._legends.map((legend) => ({
+      ...legend,
+      items: [...legend.items],
+    }));
+  }
+
   /**
    * Registers an event handler.
    *
@@ -454,7 +467,7 @@ export class Legend implements IControl {
     item: LegendItem,
     legend: ResolvedLegendOptions,
   ): HTMLElement {
-    const { swatchSize = 16 } = legend;
+    const swatchSize = item.size ?? legend.swatchSize ?? 16;
     const shape = item.shape || "square";
     const swatch = document.createElement("span");
     swatch.className = `maplibre-gl-legend-swatch maplibre-gl-legend-swatch-${shape}`;
@@ -1,5 +1,6 @@
 import "../styles/common.css";
 import "../styles/measure-control.css";
+import { LngLat } from "maplibre-gl";
 import type {
   IControl,
   Map as MapLibreMap,
@@ -16,10 +17,29 @@ import type {
   MeasureMode,
   MeasurePoint,
   Measurement,
+  ElevationProfile,
+  ElevationSample,
+  MeasureExportFormat,
   DistanceUnit,
   AreaUnit,
 } from "./types";
 import { generateId } from "../utils/helpers";
+import {
+  computeMeasurementValues,
+  haversineDistance,
+  measurementGeometries,
+} from "./measureGeometry";
+import {
+  MEASURE_EXPORT_FORMATS,
+  exportMeasurementsAs,
+  parseMeasurements,
+} from "./measureIO";
+import { EXPORT_ICON, downloadBlob } from "./vectorExport";
+import {
+  findSnapPoint,
+  removeSnapIndicator,
+  showSnapIndicator,
+} from "./snapping";
 
 /**
  * Default options for the MeasureControl.
@@ -40,6 +60,15 @@ const DEFAULT_OPTIONS: Required<MeasureControlOptions> = {
   showSegments: true,
   showTotal: true,
   precision: 2,
+  demSource: "",
+  profileSamples: 200,
+  profileHeight: 120,
+  editable: true,
+  storageKey: "",
+  snap: false,
+  snapTolerance: 10,
+  snapIncludeLayers: [],
+  snapExcludeLayers: [],
   panelWidth: 240,
   maxHeight: 500,
   backgroundColor: "",
@@ -66,6 +95,48 @@ const DISTANCE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 2
  */
 const AREA_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="3" width="18" height="18" rx="2"/></svg>`;
 
+/**
+ * SVG icon for elevation profile mode (mountain).
+ */
+const PROFILE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m8 3 4 8 5-5 5 15H2L8 3z"/></svg>`;
+
+/**
+ * SVG icon for radius mode (circle with a radius).
+ */
+const RADIUS_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="9"/><path d="M12 12h9"/></svg>`;
+
+/**
+ * SVG icon for bearing mode (compass).
+ */
+const BEARING_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><path d="m16.24 7.76-2.12 6.36-6.36 2.12 2.12-6.36 6.36-2.12z"/></svg>`;
+
+/**
+ * SVG icon for point mode (map pin).
+ */
+const POINT_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z"/><circle cx="12" cy="10" r="3"/></svg>`;
+
+/**
+ * Button label and icon for each measurement mode, in toolbar order.
+ */
+const MODES: { mode: MeasureMode; label: string; icon: string }[] = [
+  { mode: "distance", label: "Distance", icon: DISTANCE_ICON },
+  { mode: "area", label: "Area", icon: AREA_ICON },
+  { mode: "profile", label: "Profile", icon: PROFILE_ICON },
+  { mode: "radius", label: "Radius", icon: RADIUS_ICON },
+  { mode: "bearing", label: "Bearing", icon: BEARING_ICON },
+  { mode: "point", label: "Point", icon: POINT_ICON },
+];
+
+/**
+ * SVG icon for editing a measurement's vertices (pencil).
+ */
+const EDIT_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M17 3a2.85 2.83 0 1 1 4 4L7.5 20.5 2 22l1.5-5.5Z"/></svg>`;
+
+/**
+ * SVG icon for importing measurements (upload).
+ */
+const IMPORT_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>`;
+
 /**
  * SVG icon for close button.
  */
@@ -102,47 +173,193 @@ const AREA_UNITS: Record<AreaUnit, { label: string; factor: number }> = {
 };
 
 /**
- * Calculate the distance between two points using the Haversine formula.
+ * The headline value of a measurement: its distance, area, radius or bearing.
+ */
+function primaryValue(
+  mode: MeasureMode,
+  values: ReturnType<typeof computeMeasurementValues>,
+): number {
+  switch (mode) {
+    case "area":
+      return values.area || 0;
+    case "radius":
+      return values.radius || 0;
+    case "bearing":
+      return values.bearing || 0;
+    case "point":
+      return 0;
+    default:
+      return values.distance || 0;
+  }
+}
+
+/**
+ * Format a point as "lat, lng" with six decimals (about 0.1 m).
+ */
+function formatCoordinate(point: MeasurePoint): string {
+  return `${point.lat.toFixed(6)}, ${point.lng.toFixed(6)}`;
+}
+
+/**
+ * Which unit list a mode's readout uses, or null for unitless modes.
+ */
+function unitKind(mode: MeasureMode): "distance" | "area" | null {
+  if (mode === "area") return "area";
+  if (mode === "bearing" || mode === "point") return null;
+  return "distance";
+}
+
+/**
+ * Whether a mode's readout sums all of its measurements, rather than showing
+ * the latest one.
  */
-function haversineDistance(p1: MeasurePoint, p2: MeasurePoint): number {
-  const R = 6371000; // Earth's radius in meters
-  const lat1 = (p1.lat * Math.PI) / 180;
-  const lat2 = (p2.lat * Math.PI) / 180;
-  const deltaLat = ((p2.lat - p1.lat) * Math.PI) / 180;
-  const deltaLng = ((p2.lng - p1.lng) * Math.PI) / 180;
-
-  const a =
-    Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
-    Math.cos(lat1) *
-      Math.cos(lat2) *
-      Math.sin(deltaLng / 2) *
-      Math.sin(deltaLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
+function isTotalMode(mode: MeasureMode): boolean {
+  return mode === "distance" || mode === "area" || mode === "profile";
 }
 
 /**
- * Calculate the area of a polygon using the Shoelace formula (spherical approximation).
+ * Number of points that completes a measurement in each mode. Distance,
+ * profile and area take any number of points from this minimum until the
+ * user finishes; the other modes finish on their own.
  */
-function calculatePolygonArea(points: MeasurePoint[]): number {
-  if (points.length < 3) return 0;
+const REQUIRED_POINTS: Record<MeasureMode, number> = {
+  distance: 2,
+  area: 3,
+  profile: 2,
+  radius: 2,
+  bearing: 2,
+  point: 1,
+};
 
-  const R = 6371000; // Earth's radius in meters
-  let area = 0;
+/**
+ * Label of the readout for each mode.
+ */
+const RESULT_LABELS: Record<MeasureMode, string> = {
+  distance: "Total Distance",
+  area: "Total Area",
+  profile: "Total Distance",
+  radius: "Radius",
+  bearing: "Bearing",
+  point: "Coordinates",
+};
+
+/**
+ * Drawing instructions for each mode.
+ */
+const INSTRUCTIONS: Record<MeasureMode, string> = {
+  distance:
+    "Click to add points. Double-click, right-click, or Enter to finish.",
+  area: "Click to add vertices. Double-click, right-click, or Enter to close the polygon.",
+  profile:
+    "Click to add points. Double-click, right-click, or Enter to finish and sample elevations.",
+  radius:
+    "Press on the center and drag out the radius, or click the center and then a point on the circle.",
+  bearing: "Click the start point, then the end point.",
+  point: "Click the map to record a coordinate.",
+};
+
+/**
+ * Instructions shown while editing a measurement's vertices.
+ */
+const EDIT_INSTRUCTIONS =
+  "Drag a vertex to move it, drag a midpoint to add a vertex, or right-click a vertex to delete it. Press Enter or Escape when done.";
+
+/**
+ * Interpolate evenly spaced points along a polyline, each tagged with its
+ * cumulative distance from the start in meters.
+ */
+function sampleAlongLine(
+  points: MeasurePoint[],
+  count: number,
+): Omit<ElevationSample, "elevation">[] {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(
+      cumulative[i - 1] + haversineDistance(points[i - 1], points[i]),
+    );
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (points.length < 2 || total === 0) {
+    return points.slice(0, 1).map((p) => ({ ...p, distance: 0 }));
+  }
+
+  const samples: Omit<ElevationSample, "elevation">[] = [];
+  const n = Math.max(2, Math.round(count));
+  let segment = 1;
+  for (let i = 0; i < n; i++) {
+    const distance = (total * i) / (n - 1);
+    while (segment < points.length - 1 && cumulative[segment] < distance) {
+      segment++;
+    }
+    const start = cumulative[segment - 1];
+    const length = cumulative[segment] - start;
+    const t = length > 0 ? (distance - start) / length : 0;
+    const a = points[segment - 1];
+    const b = points[segment];
+    samples.push({
+      lng: a.lng + (b.lng - a.lng) * t,
+      lat: a.lat + (b.lat - a.lat) * t,
+      distance,
+    });
+  }
+  return samples;
+}
 
-  for (let i = 0; i < points.length; i++) {
-    const j = (i + 1) % points.length;
-    const lat1 = (points[i].lat * Math.PI) / 180;
-    const lat2 = (points[j].lat * Math.PI) / 180;
-    const lng1 = (points[i].lng * Math.PI) / 180;
-    const lng2 = (points[j].lng * Math.PI) / 180;
+/**
+ * Whether a loaded raster-dem tile covers a location. Where none has loaded,
+ * `map.queryTerrainElevation` returns 0 rather than null, which would read as
+ * sea level in the profile.
+ *
+ * The check relies on MapLibre internals. When they are not there (renamed in
+ * a later release), every location counts as covered and only the null
+ * `queryTerrainElevation` returns without terrain leaves a gap.
+ */
+function hasLoadedDem(map: MapLibreMap, lngLat: LngLat): boolean {
+  const terrain = map.terrain;
+  if (!terrain) return false;
+  const { tileManager } = terrain;
+  if (
+    typeof terrain._getOverscaledTileIDFromLngLatZoom !== "function" ||
+    typeof tileManager?.getSourceTile !== "function"
+  ) {
+    return true;
+  }
+  const { tileID } = terrain._getOverscaledTileIDFromLngLatZoom(
+    lngLat,
+    tileManager.maxzoom,
+  );
+  // Searches up to the parent tiles, as the terrain does while loading.
+  return Boolean(tileManager.getSourceTile(tileID, true)?.dem);
+}
 
-    area += (lng2 - lng1) * (2 + Math.sin(lat1) + Math.sin(lat2));
+/**
+ * Summarize the ascent, descent and elevation range of profile samples,
+ * skipping samples without data.
+ */
+function summarizeProfile(samples: ElevationSample[]): ElevationProfile {
+  let gain = 0;
+  let loss = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let previous: number | null = null;
+
+  for (const { elevation } of samples) {
+    if (elevation === null) continue;
+    if (previous !== null) {
+      const delta = elevation - previous;
+      if (delta > 0) gain += delta;
+      else loss -= delta;
+    }
+    min = Math.min(min, elevation);
+    max = Math.max(max, elevation);
+    previous = elevation;
   }
 
-  area = Math.abs((area * R * R) / 2);
-  return area;
+  if (previous === null) {
+    min = 0;
+    max = 0;
+  }
+  return { samples, gain, loss, min, max };
 }
 
 /**
@@ -177,21 +394,47 @@ export class MeasureControl implements IControl {
   private _sourceId: string;
   private _lineLayerId: string;
   private _fillLayerId: string;
+  private _pointLayerId: string;
+  private _handleSourceId: string;
+  private _handleLayerId: string;
+  private _snapLayerId: string;
 
   // DOM elements
   private _resultValueEl?: HTMLElement;
   private _resultUnitEl?: HTMLElement;
   private _segmentListEl?: HTMLElement;
+  private _detailsEl?: HTMLElement;
   private _instructionsEl?: HTMLElement;
   private _measurementsListEl?: HTMLElement;
+  private _profileEl?: HTMLElement;
+
+  // Elevation profile shown in the chart and the sample under the cursor
+  private _profileId: string | null = null;
+  private _profileHover: ElevationSample | null = null;
 
   // Event handlers
   private _boundClickHandler?: (e: MapMouseEvent) => void;
   private _boundMoveHandler?: (e: MapMouseEvent) => void;
+  private _boundMouseDownHandler?: (e: MapMouseEvent) => void;
+  private _boundMouseUpHandler?: (e: MapMouseEvent) => void;
   private _boundDblClickHandler?: (e: MapMouseEvent) => void;
   private _boundContextMenuHandler?: (e: MapMouseEvent) => void;
   private _boundKeyHandler?: (e: KeyboardEvent) => void;
 
+  // Screen position where a radius drag started
+  private _radiusDragStart: { x: number; y: number } | null = null;
+
+  // Vertex editing handlers and the index of the vertex being dragged
+  private _editHandlers?: {
+    mousedown: (e: MapMouseEvent) => void;
+    mousemove: (e: MapMouseEvent) => void;
+    mouseup: (e: MapMouseEvent) => void;
+    contextmenu: (e: MapMouseEvent) => void;
+    keydown: (e: KeyboardEvent) => void;
+  };
+  private _dragIndex: number | null = null;
+  private _dragMoved: boolean = false;
+
   // Markers for vertices
   private _markers: Marker[] = [];
 
@@ -211,12 +454,21 @@ export class MeasureControl implements IControl {
       currentValue: 0,
       currentSegments: [],
       measurements: [],
+      editingId: null,
+      snap: this._options.snap,
     };
 
     const uid = generateId("measure");
     this._sourceId = `${uid}-source`;
     this._lineLayerId = `${uid}-line`;
     this._fillLayerId = `${uid}-fill`;
+    this._pointLayerId = `${uid}-point`;
+    this._handleSourceId = `${uid}-handles`;
+    this._handleLayerId = `${uid}-handles`;
+    this._snapLayerId = `${uid}-snap`;
+
+    // Load from localStorage if storageKey is set
+    this._loadFromStorage();
   }
 
   /**
@@ -243,6 +495,7 @@ export class MeasureControl implements IControl {
    * Called when the control is removed from the map.
    */
   onRemove(): void {
+    this._endEditing();
     this._stopDrawing();
     this._cleanupMapSources();
     this._clearMarkers();
@@ -365,16 +618,14 @@ export class MeasureControl implements IControl {
     // Mode toggle
     const modeToggle = document.createElement("div");
     modeToggle.className = "measure-mode-toggle";
-    modeToggle.innerHTML = `
-      <button type="button" class="mode-btn ${this._state.mode === "distance" ? "active" : ""}" data-mode="distance">
-        ${DISTANCE_ICON}
-        <span>Distance</span>
+    modeToggle.innerHTML = MODES.map(
+      ({ mode, label, icon }) => `
+      <button type="button" class="mode-btn ${this._state.mode === mode ? "active" : ""}" data-mode="${mode}">
+        ${icon}
+        <span>${label}</span>
       </button>
-      <button type="button" class="mode-btn ${this._state.mode === "area" ? "active" : ""}" data-mode="area">
-        ${AREA_ICON}
-        <span>Area</span>
-      </button>
-    `;
+    `,
+    ).join("");
     modeToggle.querySelectorAll(".mode-btn").forEach((btn) => {
       btn.addEventListener("click", (e) => {
         const mode = (e.currentTarget as HTMLElement).dataset
@@ -398,7 +649,7 @@ export class MeasureControl implements IControl {
       const value = (e.target as HTMLSelectElement).value;
       // Go through the public setters so the saved measurements list is
       // re-rendered in the new unit too, not just the total readout.
-      if (this._state.mode === "distance") {
+      if (unitKind(this._state.mode) === "distance") {
         this.setDistanceUnit(value as DistanceUnit);
       } else {
         this.setAreaUnit(value as AreaUnit);
@@ -406,12 +657,26 @@ export class MeasureControl implements IControl {
     });
     content.appendChild(unitDiv);
 
+    // Snapping toggle
+    const snapLabel = document.createElement("label");
+    snapLabel.className = "measure-snap";
+    snapLabel.innerHTML = `
+      <input type="checkbox" ${this._state.snap ? "checked" : ""} />
+      <span>Snap to features</span>
+    `;
+    snapLabel
+      .querySelector("input")
+      ?.addEventListener("change", (e) =>
+        this.setSnap((e.target as HTMLInputElement).checked),
+      );
+    content.appendChild(snapLabel);
+
     // Result display
     const resultDiv = document.createElement("div");
     resultDiv.className = "measure-result";
     resultDiv.style.display = "none";
     resultDiv.innerHTML = `
-      <div class="result-label">${this._state.mode === "distance" ? "Total Distance" : "Total Area"}</div>
+      <div class="result-label">${this._getResultLabel()}</div>
       <div>
         <span class="result-value">0</span>
         <span class="result-unit">${this._getCurrentUnitLabel()}</span>
@@ -420,12 +685,21 @@ export class MeasureControl implements IControl {
         <div class="segment-label">Segments</div>
         <div class="segment-list"></div>
       </div>
+      <div class="measure-details" style="display: none;"></div>
     `;
     this._resultValueEl = resultDiv.querySelector(".result-value")!;
     this._resultUnitEl = resultDiv.querySelector(".result-unit")!;
     this._segmentListEl = resultDiv.querySelector(".segment-list")!;
+    this._detailsEl = resultDiv.querySelector(".measure-details")!;
     content.appendChild(resultDiv);
 
+    // Elevation profile chart
+    this._profileEl = document.createElement("div");
+    this._profileEl.className = "measure-profile";
+    this._profileEl.style.display = "none";
+    content.appendChild(this._profileEl);
+    this._renderProfile();
+
     // Instructions
     this._instructionsEl = document.createElement("div");
     this._instructionsEl.className = "measure-instructions";
@@ -438,6 +712,33 @@ export class MeasureControl implements IControl {
     this._measurementsListEl.className = "measurements-list";
     this._measurementsListEl.style.display = "none";
     content.appendChild(this._measurementsListEl);
+    this._updateMeasurementsList();
+
+    // Import/export
+    const io = document.createElement("div");
+    io.className = "measure-io";
+    io.innerHTML = `
+      <select class="measure-io-format" aria-label="File format">
+        ${MEASURE_EXPORT_FORMATS.map((f) => `<option value="${f.value}">${f.label}</option>`).join("")}
+      </select>
+      <button type="button" class="action-btn export-btn" title="Export measurements">
+        ${EXPORT_ICON}
+        <span>Export</span>
+      </button>
+      <button type="button" class="action-btn import-btn" title="Import measurements">
+        ${IMPORT_ICON}
+        <span>Import</span>
+      </button>
+    `;
+    const formatSelect = io.querySelector("select")!;
+    formatSelect.style.color = "var(--ms-input-text)";
+    io.querySelector(".export-btn")?.addEventListener("click", () =>
+      this.downloadMeasurements(formatSelect.value as MeasureExportFormat),
+    );
+    io.querySelector(".import-btn")?.addEventListener("click", () =>
+      this._importFromFile(),
+    );
+    content.appendChild(io);
 
     // Actions
     const actions = document.createElement("div");
@@ -447,13 +748,15 @@ export class MeasureControl implements IControl {
         ${MEASURE_ICON}
         <span>Start</span>
       </button>
-      <button type="button" class="action-btn danger clear-btn" disabled>
+      <button type="button" class="action-btn danger clear-btn" ${this._state.measurements.length === 0 ? "disabled" : ""}>
         ${TRASH_ICON}
         <span>Clear All</span>
       </button>
     `;
     actions.querySelector(".start-btn")?.addEventListener("click", () => {
-      if (this._state.isDrawing) {
+      if (this._state.editingId) {
+        this.stopEditing();
+      } else if (this._state.isDrawing) {
         this._finishDrawing();
       } else {
         this._startDrawing();
@@ -473,11 +776,14 @@ export class MeasureControl implements IControl {
    */
   private _updateUnitOptions(select: HTMLSelectElement): void {
     select.innerHTML = "";
-    const units = this._state.mode === "distance" ? DISTANCE_UNITS : AREA_UNITS;
+    const kind = unitKind(this._state.mode);
+    // Bearings and coordinates have no unit to choose.
+    const unitDiv = select.parentElement as HTMLElement | null;
+    if (unitDiv) unitDiv.style.display = kind ? "" : "none";
+
+    const units = kind === "area" ? AREA_UNITS : DISTANCE_UNITS;
     const currentUnit =
-      this._state.mode === "distance"
-        ? this._state.distanceUnit
-        : this._state.areaUnit;
+      kind === "area" ? this._state.areaUnit : this._state.distanceUnit;
 
     Object.entries(units).forEach(([key, { label }]) => {
       const option = document.createElement("option");
@@ -492,10 +798,21 @@ export class MeasureControl implements IControl {
    * Get the current unit label.
    */
   private _getCurrentUnitLabel(): string {
-    if (this._state.mode === "distance") {
-      return DISTANCE_UNITS[this._state.distanceUnit].label;
+    switch (unitKind(this._state.mode)) {
+      case "distance":
+        return DISTANCE_UNITS[this._state.distanceUnit].label;
+      case "area":
+        return AREA_UNITS[this._state.areaUnit].label;
+      default:
+        return "";
     }
-    return AREA_UNITS[this._state.areaUnit].label;
+  }
+
+  /**
+   * Get the label of the readout for the current mode.
+   */
+  private _getResultLabel(): string {
+    return RESULT_LABELS[this._state.mode];
   }
 
   /**
@@ -551,6 +868,7 @@ export class MeasureControl implements IControl {
    * Hide the panel.
    */
   private _hidePanel(): void {
+    this._endEditing();
     this._stopDrawing();
     this._panel?.remove();
     this._panel = undefined;
@@ -561,7 +879,8 @@ export class MeasureControl implements IControl {
    * Set the measurement mode.
    */
   private _setMode(mode: MeasureMode): void {
-    const changed = mode !== this._state.mode;
+    const previous = this._state.mode;
+    const changed = mode !== previous;
     this._state.mode = mode;
 
     // Update UI
@@ -581,8 +900,7 @@ export class MeasureControl implements IControl {
 
     const resultLabel = this._panel?.querySelector(".result-label");
     if (resultLabel) {
-      resultLabel.textContent =
-        mode === "distance" ? "Total Distance" : "Total Area";
+      resultLabel.textContent = this._getResultLabel();
     }
 
     if (changed) this._emit("modechange");
@@ -590,9 +908,20 @@ export class MeasureControl implements IControl {
     // Selecting a mode immediately starts measuring. If a drawing is already in
     // progress, keep the points already placed and just re-interpret them under
     // the new mode (open polyline for distance, closed polygon for area) so the
-    // user does not lose work when toggling mid-session.
+    // user does not lose work when toggling mid-session. Radius, bearing and
+    // point modes take a fixed number of points, so points placed for another
+    // mode cannot carry over to or from them.
     if (!this._panel) return;
-    if (this._state.isDrawing) {
+    if (
+      this._state.isDrawing &&
+      !(isTotalMode(previous) && isTotalMode(mode))
+    ) {
+      this._cancelDrawing();
+      this._startDrawing();
+    } else if (this._state.isDrawing) {
+      if (this._instructionsEl) {
+        this._instructionsEl.textContent = INSTRUCTIONS[mode];
+      }
       this._updateMeasurement();
       this._updateMapGeometry();
     } else {
@@ -633,6 +962,57 @@ export class MeasureControl implements IControl {
         "line-width": this._options.lineWidth,
       },
     });
+
+    // Add circle layer for the profile chart's hover position
+    this._map.addLayer({
+      id: this._pointLayerId,
+      type: "circle",
+      source: this._sourceId,
+      filter: ["==", "$type", "Point"],
+      paint: {
+        "circle-color": this._options.pointColor,
+        "circle-radius": this._options.pointRadius,
+        "circle-stroke-color": "#fff",
+        "circle-stroke-width": 2,
+      },
+    });
+
+    // Add vertex and midpoint handles for editing, above the measurements
+    this._map.addSource(this._handleSourceId, {
+      type: "geojson",
+      data: { type: "FeatureCollection", features: [] },
+    });
+    this._map.addLayer({
+      id: this._handleLayerId,
+      type: "circle",
+      source: this._handleSourceId,
+      paint: {
+        "circle-color": [
+          "case",
+          ["get", "midpoint"],
+          "#fff",
+          this._options.pointColor,
+        ],
+        "circle-radius": [
+          "case",
+          ["get", "midpoint"],
+          Math.max(this._options.pointRadius - 2, 3),
+          this._options.pointRadius,
+        ],
+        "circle-stroke-color": [
+          "case",
+          ["get", "midpoint"],
+          this._options.pointColor,
+          "#fff",
+        ],
+        "circle-stroke-width": 2,
+      },
+    });
+
+    // Draw measurements restored from storage or imported before the map
+    // was ready.
+    this._updateMapGeometry();
+    this._syncMarkers();
   }
 
   /**
@@ -641,6 +1021,16 @@ export class MeasureControl implements IControl {
   private _cleanupMapSources(): void {
     if (!this._map) return;
 
+    removeSnapIndicator(this._map, this._snapLayerId);
+    if (this._map.getLayer(this._handleLayerId)) {
+      this._map.removeLayer(this._handleLayerId);
+    }
+    if (this._map.getSource(this._handleSourceId)) {
+      this._map.removeSource(this._handleSourceId);
+    }
+    if (this._map.getLayer(this._pointLayerId)) {
+      this._map.removeLayer(this._pointLayerId);
+    }
     if (this._map.getLayer(this._lineLayerId)) {
       this._map.removeLayer(this._lineLayerId);
     }
@@ -657,6 +1047,7 @@ export class MeasureControl implements IControl {
    */
   private _startDrawing(): void {
     if (!this._map || this._state.isDrawing) return;
+    this._endEditing();
 
     this._state.isDrawing = true;
     this._state.currentPoints = [];
@@ -677,15 +1068,15 @@ export class MeasureControl implements IControl {
 
     // Update instructions
     if (this._instructionsEl) {
-      this._instructionsEl.textContent =
-        this._state.mode === "distance"
-          ? "Click to add points. Double-click, right-click, or Enter to finish."
-          : "Click to add vertices. Double-click, right-click, or Enter to close the polygon.";
+      this._instructionsEl.textContent = INSTRUCTIONS[this._state.mode];
     }
 
     // Set up event handlers
     this._boundClickHandler = (e: MapMouseEvent) => this._handleClick(e);
     this._boundMoveHandler = (e: MapMouseEvent) => this._handleMouseMove(e);
+    this._boundMouseDownHandler = (e: MapMouseEvent) =>
+      this._handleMouseDown(e);
+    this._boundMouseUpHandler = (e: MapMouseEvent) => this._handleMouseUp(e);
     this._boundDblClickHandler = (e: MapMouseEvent) => {
       e.preventDefault();
       this._finishOnDoubleClick();
@@ -706,6 +1097,8 @@ export class MeasureControl implements IControl {
 
     this._map.on("click", this._boundClickHandler);
     this._map.on("mousemove", this._boundMoveHandler);
+    this._map.on("mousedown", this._boundMouseDownHandler);
+    this._map.on("mouseup", this._boundMouseUpHandler);
     this._map.on("dblclick", this._boundDblClickHandler);
     this._map.on("contextmenu", this._boundContextMenuHandler);
     document.addEventListener("keydown", this._boundKeyHandler);
@@ -728,6 +1121,16 @@ export class MeasureControl implements IControl {
     if (this._boundMoveHandler) {
       this._map.off("mousemove", this._boundMoveHandler);
     }
+    if (this._boundMouseDownHandler) {
+      this._map.off("mousedown", this._boundMouseDownHandler);
+    }
+    if (this._boundMouseUpHandler) {
+      this._map.off("mouseup", this._boundMouseUpHandler);
+    }
+    if (this._radiusDragStart) {
+      this._radiusDragStart = null;
+      this._map.dragPan.enable();
+    }
     if (this._boundDblClickHandler) {
       this._map.off("dblclick", this._boundDblClickHandler);
     }
@@ -739,6 +1142,7 @@ export class MeasureControl implements IControl {
     }
 
     this._map.getCanvas().style.cursor = "";
+    this._hideSnapIndicator();
     this._state.isDrawing = false;
 
     // Update button text
@@ -750,7 +1154,10 @@ export class MeasureControl implements IControl {
    * Handle map click during drawing.
    */
   private _handleClick(e: MapMouseEvent): void {
-    const point: MeasurePoint = { lng: e.lngLat.lng, lat: e.lngLat.lat };
+    // Radius mode is driven by mousedown/mouseup so the radius can be dragged.
+    if (this._state.mode === "radius") return;
+
+    const point = this._snapPoint(e);
     this._state.currentPoints.push(point);
 
     // Add marker for vertex
@@ -760,19 +1167,82 @@ export class MeasureControl implements IControl {
     this._updateMeasurement();
     this._updateMapGeometry();
     this._emit("drawupdate");
+
+    // Bearing and point measurements complete themselves once their points
+    // are placed.
+    if (
+      !isTotalMode(this._state.mode) &&
+      this._state.currentPoints.length >= REQUIRED_POINTS[this._state.mode]
+    ) {
+      this._finishDrawing();
+    }
+  }
+
+  /**
+   * Handle mouse down during drawing: places the center of a radius
+   * measurement, or its edge when the center was placed with a click.
+   */
+  private _handleMouseDown(e: MapMouseEvent): void {
+    if (this._state.mode !== "radius" || !this._map) return;
+
+    const point = this._snapPoint(e);
+    if (this._state.currentPoints.length > 0) {
+      this._state.currentPoints = [this._state.currentPoints[0], point];
+      this._updateMeasurement();
+      this._finishDrawing();
+      return;
+    }
+
+    this._state.currentPoints = [point];
+    this._addMarker(point);
+    // Hold the map still so dragging draws the radius instead of panning.
+    this._radiusDragStart = { x: e.point.x, y: e.point.y };
+    this._map.dragPan.disable();
+    this._updateMeasurement();
+    this._emit("drawupdate");
+  }
+
+  /**
+   * Handle mouse up during drawing: finishes a dragged radius. A press that
+   * barely moved leaves the center placed and waits for a click on the edge.
+   */
+  private _handleMouseUp(e: MapMouseEvent): void {
+    if (!this._radiusDragStart || !this._map) return;
+
+    const start = this._radiusDragStart;
+    this._radiusDragStart = null;
+    this._map.dragPan.enable();
+
+    const center = this._state.currentPoints[0];
+    if (Math.hypot(e.point.x - start.x, e.point.y - start.y) < 4) {
+      this._state.currentPoints = [center];
+      this._updateMeasurement();
+      this._updateMapGeometry();
+      return;
+    }
+    this._state.currentPoints = [center, this._snapPoint(e)];
+    this._updateMeasurement();
+    this._finishDrawing();
   }
 
   /**
    * Handle mouse move during drawing.
    */
   private _handleMouseMove(e: MapMouseEvent): void {
+    // Snap before anything is placed so the indicator previews the first point.
+    const point = this._snapPoint(e);
     if (this._state.currentPoints.length === 0) return;
 
+    // The radius follows the cursor, with a live readout.
+    if (this._state.mode === "radius") {
+      this._state.currentPoints = [this._state.currentPoints[0], point];
+      this._updateMeasurement();
+      this._updateMapGeometry();
+      return;
+    }
+
     // Create temporary geometry including mouse position
-    const tempPoints = [
-      ...this._state.currentPoints,
-      { lng: e.lngLat.lng, lat: e.lngLat.lat },
-    ];
+    const tempPoints = [...this._state.currentPoints, point];
     this._updateMapGeometry(tempPoints);
   }
 
@@ -783,29 +1253,24 @@ export class MeasureControl implements IControl {
     // A line needs at least two points; a polygon needs at least three. If the
     // user triggers "finish" too early (e.g. a stray double-click), ignore it
     // and keep the current drawing active instead of discarding their points.
-    const required = this._state.mode === "area" ? 3 : 2;
-    if (this._state.currentPoints.length < required) {
+    const mode = this._state.mode;
+    if (this._state.currentPoints.length < REQUIRED_POINTS[mode]) {
       return;
     }
 
     // Create measurement
     const measurement: Measurement = {
       id: generateId("measurement"),
-      mode: this._state.mode,
+      mode,
       points: [...this._state.currentPoints],
-      segments: [...this._state.currentSegments],
+      ...computeMeasurementValues(mode, this._state.currentPoints),
     };
 
-    if (this._state.mode === "distance") {
-      measurement.distance = this._state.currentValue;
-    } else {
-      measurement.area = this._state.currentValue;
-    }
-
     this._state.measurements.push(measurement);
     this._stopDrawing();
     this._updateMapGeometry();
     this._updateMeasurementsList();
+    this._saveToStorage();
 
     // Enable clear button
     const clearBtn = this._panel?.querySelector(
@@ -816,6 +1281,10 @@ export class MeasureControl implements IControl {
     this._emit("drawend", { measurement });
     this._emit("measurementadd", { measurement });
 
+    if (measurement.mode === "profile") {
+      void this.computeProfile(measurement.id);
+    }
+
     // Re-arm immediately so the user can start the next measurement without
     // having to click "Start" again, matching the continuous workflow of a
     // typical desktop GIS measure tool.
@@ -884,25 +1353,12 @@ export class MeasureControl implements IControl {
    * Update the current measurement calculation.
    */
   private _updateMeasurement(): void {
-    const points = this._state.currentPoints;
-
-    if (this._state.mode === "distance") {
-      // Calculate total distance and segments
-      let total = 0;
-      const segments: number[] = [];
-
-      for (let i = 1; i < points.length; i++) {
-        const dist = haversineDistance(points[i - 1], points[i]);
-        segments.push(dist);
-        total += dist;
-      }
-
-      this._state.currentValue = total;
-      this._state.currentSegments = segments;
-    } else {
-      // Calculate area
-      this._state.currentValue = calculatePolygonArea(points);
-    }
+    const values = computeMeasurementValues(
+      this._state.mode,
+      this._state.currentPoints,
+    );
+    this._state.currentValue = primaryValue(this._state.mode, values);
+    this._state.currentSegments = values.segments ?? [];
 
     this._updateResult();
   }
@@ -918,7 +1374,7 @@ export class MeasureControl implements IControl {
   private _totalValue(): number {
     const completed = this._state.measurements.reduce((sum, m) => {
       if (m.mode !== this._state.mode) return sum;
-      return sum + (m.mode === "distance" ? m.distance || 0 : m.area || 0);
+      return sum + (m.mode === "area" ? m.area || 0 : m.distance || 0);
     }, 0);
     return completed + this._state.currentValue;
   }
@@ -929,11 +1385,19 @@ export class MeasureControl implements IControl {
   private _updateResult(): void {
     if (!this._resultValueEl || !this._resultUnitEl) return;
 
+    if (this._detailsEl) {
+      this._detailsEl.style.display = "none";
+    }
+    if (!isTotalMode(this._state.mode)) {
+      this._updateDetailResult();
+      return;
+    }
+
     const total = this._totalValue();
     let displayValue: number;
     let unitLabel: string;
 
-    if (this._state.mode === "distance") {
+    if (unitKind(this._state.mode) === "distance") {
       const factor = DISTANCE_UNITS[this._state.distanceUnit].factor;
       displayValue = total * factor;
       unitLabel = DISTANCE_UNITS[this._state.distanceUnit].label;
@@ -949,14 +1413,14 @@ export class MeasureControl implements IControl {
     this._resultUnitEl.textContent = unitLabel;
 
     // Update segments display
-    if (
-      this._segmentListEl &&
-      this._state.mode === "distance" &&
-      this._options.showSegments
-    ) {
+    if (this._segmentListEl) {
       const segmentsContainer = this._segmentListEl
         .parentElement as HTMLElement;
-      if (this._state.currentSegments.length > 0) {
+      if (
+        this._options.showSegments &&
+        unitKind(this._state.mode) === "distance" &&
+        this._state.currentSegments.length > 0
+      ) {
         segmentsContainer.style.display = "block";
         const factor = DISTANCE_UNITS[this._state.distanceUnit].factor;
         this._segmentListEl.innerHTML = this._state.currentSegments
@@ -971,6 +1435,60 @@ export class MeasureControl implements IControl {
     }
   }
 
+  /**
+   * Update the readout of radius, bearing and point modes. These show the
+   * measurement in progress, or else the latest one of the mode, with its
+   * secondary values listed below.
+   */
+  private _updateDetailResult(): void {
+    if (!this._resultValueEl || !this._resultUnitEl) return;
+
+    const mode = this._state.mode;
+    const latest = [...this._state.measurements]
+      .reverse()
+      .find((m) => m.mode === mode);
+    const points =
+      this._state.currentPoints.length > 0
+        ? this._state.currentPoints
+        : (latest?.points ?? []);
+    const values = computeMeasurementValues(mode, points);
+    const p = this._options.precision;
+    const distance = DISTANCE_UNITS[this._state.distanceUnit];
+    const area = AREA_UNITS[this._state.areaUnit];
+
+    let value = "";
+    let unit = "";
+    const details: string[] = [];
+    if (mode === "radius") {
+      value = ((values.radius || 0) * distance.factor).toFixed(p);
+      unit = distance.label;
+      details.push(
+        `Circumference: ${((values.circumference || 0) * distance.factor).toFixed(p)} ${distance.label}`,
+        `Area: ${((values.area || 0) * area.factor).toFixed(p)} ${area.label}`,
+      );
+    } else if (mode === "bearing") {
+      value = (values.bearing || 0).toFixed(p);
+      unit = "°";
+      details.push(
+        `Distance: ${((values.distance || 0) * distance.factor).toFixed(p)} ${distance.label}`,
+      );
+    } else if (points.length > 0) {
+      value = formatCoordinate(points[0]);
+    }
+
+    this._resultValueEl.textContent = value;
+    this._resultUnitEl.textContent = unit;
+    if (this._segmentListEl) {
+      (this._segmentListEl.parentElement as HTMLElement).style.display = "none";
+    }
+    if (this._detailsEl) {
+      this._detailsEl.innerHTML = details
+        .map((d) => `<span class="detail-item">${d}</span>`)
+        .join("");
+      this._detailsEl.style.display = details.length > 0 ? "block" : "none";
+    }
+  }
+
   /**
    * Update the map geometry (lines/polygons).
    */
@@ -984,63 +1502,38 @@ export class MeasureControl implements IControl {
 
     // Add completed measurements
     for (const m of this._state.measurements) {
-      if (m.mode === "distance") {
+      for (const geometry of measurementGeometries(m.mode, m.points)) {
         features.push({
           type: "Feature",
           properties: { id: m.id, mode: m.mode },
-          geometry: {
-            type: "LineString",
-            coordinates: m.points.map((p) => [p.lng, p.lat]),
-          },
-        });
-      } else {
-        const coords = m.points.map((p) => [p.lng, p.lat]);
-        coords.push(coords[0]); // Close the polygon
-        features.push({
-          type: "Feature",
-          properties: { id: m.id, mode: m.mode },
-          geometry: {
-            type: "Polygon",
-            coordinates: [coords],
-          },
+          geometry,
         });
       }
     }
 
     // Add current drawing
     const drawPoints = tempPoints || this._state.currentPoints;
-    if (drawPoints.length >= 2) {
-      if (this._state.mode === "distance") {
-        features.push({
-          type: "Feature",
-          properties: { current: true },
-          geometry: {
-            type: "LineString",
-            coordinates: drawPoints.map((p) => [p.lng, p.lat]),
-          },
-        });
-      } else if (drawPoints.length >= 3) {
-        const coords = drawPoints.map((p) => [p.lng, p.lat]);
-        coords.push(coords[0]);
-        features.push({
-          type: "Feature",
-          properties: { current: true },
-          geometry: {
-            type: "Polygon",
-            coordinates: [coords],
-          },
-        });
-      } else {
-        // Just a line for < 3 points in area mode
-        features.push({
-          type: "Feature",
-          properties: { current: true },
-          geometry: {
-            type: "LineString",
-            coordinates: drawPoints.map((p) => [p.lng, p.lat]),
-          },
-        });
-      }
+    for (const geometry of measurementGeometries(
+      this._state.mode,
+      drawPoints,
+    )) {
+      features.push({
+        type: "Feature",
+        properties: { current: true },
+        geometry,
+      });
+    }
+
+    // Position hovered on the elevation profile chart
+    if (this._profileHover) {
+      features.push({
+        type: "Feature",
+        properties: { profileHover: true },
+        geometry: {
+          type: "Point",
+          coordinates: [this._profileHover.lng, this._profileHover.lat],
+        },
+      });
     }
 
     source.setData({ type: "FeatureCollection", features });
@@ -1100,25 +1593,24 @@ export class MeasureControl implements IControl {
     this._measurementsListEl.style.display = "block";
     this._measurementsListEl.innerHTML = this._state.measurements
       .map((m) => {
-        let value: string;
-        let icon: string;
-
-        if (m.mode === "distance") {
-          const factor = DISTANCE_UNITS[this._state.distanceUnit].factor;
-          value = `${((m.distance || 0) * factor).toFixed(2)} ${DISTANCE_UNITS[this._state.distanceUnit].label}`;
-          icon = DISTANCE_ICON;
-        } else {
-          const factor = AREA_UNITS[this._state.areaUnit].factor;
-          value = `${((m.area || 0) * factor).toFixed(2)} ${AREA_UNITS[this._state.areaUnit].label}`;
-          icon = AREA_ICON;
-        }
+        const value = this._formatMeasurement(m);
+        const icon = MODES.find((entry) => entry.mode === m.mode)!.icon;
+        const classes = [
+          "measurement-item",
+          m.id === this._profileId ? "selected" : "",
+          m.id === this._state.editingId ? "editing" : "",
+        ].join(" ");
+        const edit = this._options.editable
+          ? `<button type="button" class="measurement-edit" title="Edit vertices">${EDIT_ICON}</button>`
+          : "";
 
         return `
-          <div class="measurement-item" data-id="${m.id}">
+          <div class="${classes}" data-id="${m.id}" data-mode="${m.mode}">
             <div class="measurement-info">
               <span class="measurement-icon">${icon}</span>
               <span class="measurement-value">${value}</span>
             </div>
+            ${edit}
             <button type="button" class="measurement-delete" title="Delete">${CLOSE_ICON}</button>
           </div>
         `;
@@ -1137,6 +1629,71 @@ export class MeasureControl implements IControl {
           if (id) this._removeMeasurement(id);
         });
       });
+
+    // Add edit handlers; clicking the measurement being edited finishes it
+    this._measurementsListEl
+      .querySelectorAll(".measurement-edit")
+      .forEach((btn) => {
+        btn.addEventListener("click", (e) => {
+          const item = (e.currentTarget as HTMLElement).closest(
+            ".measurement-item",
+          ) as HTMLElement;
+          const id = item?.dataset.id;
+          if (!id) return;
+          if (id === this._state.editingId) {
+            this.stopEditing();
+          } else {
+            this.editMeasurement(id);
+          }
+        });
+      });
+
+    // Clicking a profile measurement shows its elevation chart
+    this._measurementsListEl
+      .querySelectorAll('.measurement-item[data-mode="profile"]')
+      .forEach((item) => {
+        item.addEventListener("click", (e) => {
+          if (
+            (e.target as HTMLElement).closest(
+              ".measurement-delete, .measurement-edit",
+            )
+          ) {
+            return;
+          }
+          const id = (item as HTMLElement).dataset.id!;
+          const measurement = this._state.measurements.find((m) => m.id === id);
+          if (measurement?.profile) {
+            this._profileId = id;
+            this._profileHover = null;
+            this._renderProfile();
+            this._updateMapGeometry();
+            this._updateMeasurementsList();
+          } else {
+            void this.computeProfile(id);
+          }
+        });
+      });
+  }
+
+  /**
+   * Format the value of a measurement for the measurements list.
+   */
+  private _formatMeasurement(m: Measurement): string {
+    const distance = DISTANCE_UNITS[this._state.distanceUnit];
+    const area = AREA_UNITS[this._state.areaUnit];
+
+    switch (m.mode) {
+      case "area":
+        return `${((m.area || 0) * area.factor).toFixed(2)} ${area.label}`;
+      case "radius":
+        return `r ${((m.radius || 0) * distance.factor).toFixed(2)} ${distance.label}`;
+      case "bearing":
+        return `${(m.bearing || 0).toFixed(2)}° over ${((m.distance || 0) * distance.factor).toFixed(2)} ${distance.label}`;
+      case "point":
+        return formatCoordinate(m.points[0]);
+      default:
+        return `${((m.distance || 0) * distance.factor).toFixed(2)} ${distance.label}`;
+    }
   }
 
   /**
@@ -1147,11 +1704,21 @@ export class MeasureControl implements IControl {
     if (index === -1) return;
 
     const measurement = this._state.measurements[index];
+    if (id === this._state.editingId) {
+      this.stopEditing();
+    }
     this._state.measurements.splice(index, 1);
+    if (id === this._profileId) {
+      this._profileId = null;
+      this._profileHover = null;
+      this._renderProfile();
+    }
     this._updateMapGeometry();
+    this._syncMarkers();
     this._updateMeasurementsList();
     // The deleted measurement was part of the total; drop it from the readout.
     this._updateResult();
+    this._saveToStorage();
 
     // Disable clear button if no measurements
     if (this._state.measurements.length === 0) {
@@ -1168,11 +1735,16 @@ export class MeasureControl implements IControl {
    * Clear all measurements.
    */
   private _clearAll(): void {
+    this._endEditing();
     this._cancelDrawing();
     this._state.measurements = [];
+    this._profileId = null;
+    this._profileHover = null;
+    this._renderProfile();
     this._clearMarkers();
     this._updateMapGeometry();
     this._updateMeasurementsList();
+    this._saveToStorage();
 
     // Hide result
     const resultDiv = this._panel?.querySelector(
@@ -1189,6 +1761,436 @@ export class MeasureControl implements IControl {
     this._emit("clear");
   }
 
+  /**
+   * Get the position of a mouse event, snapped to the vertices and edges of
+   * rendered features when snapping is on. Moves the snap indicator to match.
+   */
+  private _snapPoint(e: MapMouseEvent): MeasurePoint {
+    const point = { lng: e.lngLat.lng, lat: e.lngLat.lat };
+    if (!this._map || !this._state.snap) return point;
+
+    const snap = findSnapPoint(this._map, e.point, {
+      tolerance: this._options.snapTolerance,
+      includeLayers: this._options.snapIncludeLayers,
+      // Never snap to the measurements themselves.
+      excludeLayers: [
+        ...this._options.snapExcludeLayers,
+        this._lineLayerId,
+        this._fillLayerId,
+        this._pointLayerId,
+        this._handleLayerId,
+        this._snapLayerId,
+      ],
+    });
+    showSnapIndicator(
+      this._map,
+      this._snapLayerId,
+      snap,
+      this._options.pointColor,
+    );
+    return snap ? { lng: snap.lng, lat: snap.lat } : point;
+  }
+
+  /**
+   * Hide the snap indicator.
+   */
+  private _hideSnapIndicator(): void {
+    if (!this._map || !this._state.snap) return;
+    showSnapIndicator(
+      this._map,
+      this._snapLayerId,
+      null,
+      this._options.pointColor,
+    );
+  }
+
+  /**
+   * Redraw the vertex markers of the completed measurements and the drawing
+   * in progress. The measurement being edited shows handles instead.
+   */
+  private _syncMarkers(): void {
+    this._clearMarkers();
+    for (const m of this._state.measurements) {
+      if (m.id === this._state.editingId) continue;
+      m.points.forEach((point) => this._addMarker(point));
+    }
+    this._state.currentPoints.forEach((point) => this._addMarker(point));
+  }
+
+  /**
+   * Get the measurement being edited.
+   */
+  private _editingMeasurement(): Measurement | undefined {
+    return this._state.measurements.find((m) => m.id === this._state.editingId);
+  }
+
+  /**
+   * Draw the vertex and midpoint handles of the measurement being edited.
+   * Midpoints are offered only where vertices can be added, on the segments of
+   * distance, area and profile measurements.
+   */
+  private _renderHandles(): void {
+    if (!this._map) return;
+
+    const source = this._map.getSource(this._handleSourceId) as GeoJSONSource;
+    if (!source) return;
+
+    const features: GeoJSON.Feature[] = [];
+    const m = this._editingMeasurement();
+    if (m) {
+      m.points.forEach((p, index) => {
+        features.push({
+          type: "Feature",
+          properties: { index, midpoint: false },
+          geometry: { type: "Point", coordinates: [p.lng, p.lat] },
+        });
+      });
+
+      if (isTotalMode(m.mode)) {
+        // Polygons also get a midpoint on the closing segment.
+        const segments =
+          m.mode === "area" ? m.points.length : m.points.length - 1;
+        for (let i = 0; i < segments; i++) {
+          const a = m.points[i];
+          const b = m.points[(i + 1) % m.points.length];
+          features.push({
+            type: "Feature",
+            properties: { index: i + 1, midpoint: true },
+            geometry: {
+              type: "Point",
+              coordinates: [(a.lng + b.lng) / 2, (a.lat + b.lat) / 2],
+            },
+          });
+        }
+      }
+    }
+
+    source.setData({ type: "FeatureCollection", features });
+  }
+
+  /**
+   * Find the edit handle under the mouse.
+   */
+  private _hitHandle(
+    e: MapMouseEvent,
+  ): { index: number; midpoint: boolean } | null {
+    if (!this._map) return null;
+
+    const [feature] = this._map.queryRenderedFeatures(e.point, {
+      layers: [this._handleLayerId],
+    });
+    if (!feature) return null;
+
+    // Feature properties may come back serialized from the worker.
+    const { index, midpoint } = feature.properties ?? {};
+    return {
+      index: Number(index),
+      midpoint: midpoint === true || midpoint === "true",
+    };
+  }
+
+  /**
+   * Recompute a measurement after its points changed and redraw it.
+   */
+  private _applyEdit(m: Measurement): void {
+    Object.assign(m, computeMeasurementValues(m.mode, m.points));
+    this._updateMapGeometry();
+    this._renderHandles();
+    this._updateMeasurementsList();
+    this._updateResult();
+  }
+
+  /**
+   * Persist an edited measurement and announce the change. A profile no
+   * longer matches its line, so it is sampled again.
+   */
+  private _commitEdit(m: Measurement): void {
+    if (m.mode === "profile" && m.profile) {
+      delete m.profile;
+      if (m.id === this._profileId) {
+        this._profileId = null;
+        this._profileHover = null;
+        this._renderProfile();
+      }
+      void this.computeProfile(m.id);
+    }
+    this._saveToStorage();
+    this._emit("measurementupdate", { measurement: m });
+  }
+
+  /**
+   * Leave vertex editing, if active.
+   */
+  private _endEditing(): void {
+    if (!this._state.editingId) return;
+
+    if (this._map && this._editHandlers) {
+      this._map.off("mousedown", this._editHandlers.mousedown);
+      this._map.off("mousemove", this._editHandlers.mousemove);
+      this._map.off("mouseup", this._editHandlers.mouseup);
+      this._map.off("contextmenu", this._editHandlers.contextmenu);
+      document.removeEventListener("keydown", this._editHandlers.keydown);
+    }
+    this._editHandlers = undefined;
+    if (this._dragIndex !== null) {
+      this._dragIndex = null;
+      this._map?.dragPan.enable();
+    }
+    this._hideSnapIndicator();
+
+    this._state.editingId = null;
+    this._renderHandles();
+    this._syncMarkers();
+    this._updateMeasurementsList();
+    if (this._map) this._map.getCanvas().style.cursor = "";
+
+    const startBtn = this._panel?.querySelector(".start-btn span");
+    if (startBtn) startBtn.textContent = "Start";
+    if (this._instructionsEl) {
+      this._instructionsEl.textContent = INSTRUCTIONS[this._state.mode];
+    }
+  }
+
+  /**
+   * Save measurements to localStorage.
+   */
+  private _saveToStorage(): void {
+    if (!this._options.storageKey) return;
+
+    try {
+      localStorage.setItem(
+        this._options.storageKey,
+        JSON.stringify(this._state.measurements),
+      );
+    } catch {
+      // localStorage not available or full
+    }
+  }
+
+  /**
+   * Load measurements from localStorage.
+   */
+  private _loadFromStorage(): void {
+    if (!this._options.storageKey) return;
+
+    try {
+      const stored = localStorage.getItem(this._options.storageKey);
+      if (stored) {
+        const parsed = JSON.parse(stored) as unknown;
+        if (Array.isArray(parsed)) {
+          this._state.measurements = parsed.filter(
+            (m: Measurement) =>
+              m &&
+              typeof m.id === "string" &&
+              typeof m.mode === "string" &&
+              Array.isArray(m.points),
+          ) as Measurement[];
+        }
+      }
+    } catch {
+      // localStorage not available or invalid data
+    }
+  }
+
+  /**
+   * Import measurements from a file picked by the user. The format follows
+   * the file extension.
+   */
+  private _importFromFile(): void {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".geojson,.json,.kml,.csv";
+    input.style.display = "none";
+
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (!file) return;
+
+      const extension = file.name.slice(file.name.lastIndexOf("."));
+      const format =
+        extension === ".json"
+          ? "geojson"
+          : MEASURE_EXPORT_FORMATS.find((f) => f.extension === extension)
+              ?.value;
+
+      const reader = new FileReader();
+      reader.onload = () => {
+        try {
+          const imported = this.importMeasurements(
+            reader.result as string,
+            format,
+          );
+          if (imported.length === 0) {
+            console.warn("MeasureControl: no valid measurements found in file");
+          }
+        } catch {
+          console.warn("MeasureControl: failed to import measurements");
+        }
+      };
+      reader.readAsText(file);
+    });
+
+    document.body.appendChild(input);
+    input.click();
+    document.body.removeChild(input);
+  }
+
+  /**
+   * Show a message in place of the elevation chart.
+   */
+  private _renderProfileMessage(message: string): void {
+    if (!this._profileEl) return;
+    this._profileEl.style.display = "block";
+    this._profileEl.innerHTML = "";
+    const messageEl = document.createElement("div");
+    messageEl.className = "profile-message";
+    messageEl.textContent = message;
+    this._profileEl.appendChild(messageEl);
+  }
+
+  /**
+   * Render the elevation chart of the selected profile measurement.
+   */
+  private _renderProfile(): void {
+    if (!this._profileEl) return;
+
+    const profile = this._state.measurements.find(
+      (m) => m.id === this._profileId,
+    )?.profile;
+    if (!profile) {
+      this._profileEl.style.display = "none";
+      this._profileEl.innerHTML = "";
+      return;
+    }
+    if (!profile.samples.some((s) => s.elevation !== null)) {
+      this._renderProfileMessage("No elevation data along this line.");
+      return;
+    }
+
+    const width = Math.max(this._options.panelWidth - 20, 100);
+    const height = this._options.profileHeight;
+    const total = profile.samples[profile.samples.length - 1].distance || 1;
+    const range = profile.max - profile.min || 1;
+    const x = (d: number) => (d / total) * width;
+    const y = (e: number) =>
+      height - 4 - ((e - profile.min) / range) * (height - 8);
+
+    // Draw each run of samples with data separately so gaps in the DEM show
+    // as breaks rather than as straight lines across them.
+    let line = "";
+    let area = "";
+    let run: ElevationSample[] = [];
+    const flush = () => {
+      if (run.length > 0) {
+        const path = run
+          .map(
+            (s) => `${x(s.distance).toFixed(1)} ${y(s.elevation!).toFixed(1)}`,
+          )
+          .join(" L ");
+        line += `M ${path} `;
+        area += `M ${x(run[0].distance).toFixed(1)} ${height} L ${path} L ${x(run[run.length - 1].distance).toFixed(1)} ${height} Z `;
+      }
+      run = [];
+    };
+    for (const sample of profile.samples) {
+      if (sample.elevation === null) flush();
+      else run.push(sample);
+    }
+    flush();
+
+    const p = this._options.precision;
+    this._profileEl.style.display = "block";
+    this._profileEl.innerHTML = `
+      <div class="profile-chart">
+        <svg viewBox="0 0 ${width} ${height}" preserveAspectRatio="none" style="height: ${height}px">
+          <path class="profile-area" d="${area.trim()}" />
+          <path class="profile-line" d="${line.trim()}" />
+          <line class="profile-cursor" x1="0" x2="0" y1="0" y2="${height}" style="display: none" />
+        </svg>
+      </div>
+      <div class="profile-readout"></div>
+      <div class="profile-stats">
+        <span>Gain</span><strong class="profile-gain">+${profile.gain.toFixed(p)} m</strong>
+        <span>Loss</span><strong class="profile-loss">-${profile.loss.toFixed(p)} m</strong>
+        <span>Min</span><strong class="profile-min">${profile.min.toFixed(p)} m</strong>
+        <span>Max</span><strong class="profile-max">${profile.max.toFixed(p)} m</strong>
+      </div>
+    `;
+    this._updateProfileReadout();
+
+    const svg = this._profileEl.querySelector("svg")!;
+    svg.addEventListener("mousemove", (e) => {
+      const rect = svg.getBoundingClientRect();
+      if (rect.width <= 0) return;
+      const ratio = Math.min(
+        Math.max((e.clientX - rect.left) / rect.width, 0),
+        1,
+      );
+      this._hoverProfile(ratio * total);
+    });
+    svg.addEventListener("mouseleave", () => this._hoverProfile(null));
+  }
+
+  /**
+   * Move the chart cursor and the map marker to the sample nearest to a
+   * distance along the profile, or hide both when `distance` is null.
+   */
+  private _hoverProfile(distance: number | null): void {
+    const profile = this._state.measurements.find(
+      (m) => m.id === this._profileId,
+    )?.profile;
+    if (!profile) return;
+
+    let nearest: ElevationSample | null = null;
+    if (distance !== null) {
+      for (const sample of profile.samples) {
+        if (
+          !nearest ||
+          Math.abs(sample.distance - distance) <
+            Math.abs(nearest.distance - distance)
+        ) {
+          nearest = sample;
+        }
+      }
+    }
+    this._profileHover = nearest;
+
+    const cursor = this._profileEl?.querySelector(
+      ".profile-cursor",
+    ) as SVGLineElement | null;
+    if (cursor) {
+      const total = profile.samples[profile.samples.length - 1].distance || 1;
+      const width = Math.max(this._options.panelWidth - 20, 100);
+      const cx = nearest ? String((nearest.distance / total) * width) : "0";
+      cursor.setAttribute("x1", cx);
+      cursor.setAttribute("x2", cx);
+      cursor.style.display = nearest ? "" : "none";
+    }
+    this._updateProfileReadout();
+    this._updateMapGeometry();
+  }
+
+  /**
+   * Show the hovered sample, or the profile length when nothing is hovered.
+   */
+  private _updateProfileReadout(): void {
+    const readout = this._profileEl?.querySelector(".profile-readout");
+    const profile = this._state.measurements.find(
+      (m) => m.id === this._profileId,
+    )?.profile;
+    if (!readout || !profile) return;
+
+    const { factor, label } = DISTANCE_UNITS[this._state.distanceUnit];
+    const p = this._options.precision;
+    const sample =
+      this._profileHover ?? profile.samples[profile.samples.length - 1];
+    const elevation =
+      this._profileHover && sample.elevation !== null
+        ? ` · ${sample.elevation.toFixed(p)} m`
+        : "";
+    readout.textContent = `${(sample.distance * factor).toFixed(p)} ${label}${elevation}`;
+  }
+
   /**
    * Set up zoom-based visibility handling.
    */
@@ -1253,6 +2255,88 @@ export class MeasureControl implements IControl {
     return [...this._state.measurements];
   }
 
+  /**
+   * Sample the elevation profile of a profile-mode measurement.
+   *
+   * Elevations are read from the DEM tiles the map has loaded. Samples no
+   * loaded tile covers, such as parts of the line far outside the view, get a
+   * null elevation; call this again after panning along the line to fill the
+   * gaps. When `demSource` names a source other than the active terrain,
+   * it is switched in as terrain until the map is idle, then switched back:
+   * the map shows that terrain meanwhile, turning 3D terrain on if it was
+   * off. Set `demSource` to the active terrain's source to avoid this.
+   *
+   * @param id - ID of the measurement.
+   * @returns The profile, or null when no DEM is available.
+   */
+  async computeProfile(id: string): Promise<ElevationProfile | null> {
+    const map = this._map;
+    const measurement = this._state.measurements.find((m) => m.id === id);
+    if (!map || !measurement) return null;
+
+    const terrain = map.getTerrain();
+    const demSource = this._options.demSource || terrain?.source;
+    if (!demSource || !map.getSource(demSource)) {
+      this._renderProfileMessage(
+        "No elevation data: enable terrain or set the demSource option.",
+      );
+      return null;
+    }
+
+    this._renderProfileMessage("Sampling elevations...");
+    const swap = terrain?.source !== demSource;
+    if (swap) {
+      map.setTerrain({ source: demSource });
+      await new Promise<void>((resolve) => map.once("idle", () => resolve()));
+    }
+
+    let samples: ElevationSample[];
+    try {
+      // queryTerrainElevation includes the terrain exaggeration.
+      const exaggeration = map.getTerrain()?.exaggeration || 1;
+      samples = sampleAlongLine(
+        measurement.points,
+        this._options.profileSamples,
+      ).map((sample) => {
+        const lngLat = new LngLat(sample.lng, sample.lat);
+        const elevation = hasLoadedDem(map, lngLat)
+          ? map.queryTerrainElevation(lngLat)
+          : null;
+        return {
+          ...sample,
+          elevation: elevation === null ? null : elevation / exaggeration,
+        };
+      });
+    } finally {
+      if (swap) map.setTerrain(terrain);
+    }
+
+    // The measurement may have been removed while the DEM was loading.
+    if (!this._state.measurements.includes(measurement)) return null;
+
+    measurement.profile = summarizeProfile(samples);
+    this._saveToStorage();
+    this._profileId = measurement.id;
+    this._profileHover = null;
+    this._renderProfile();
+    this._updateMeasurementsList();
+    this._emit("profile", { measurement });
+    return measurement.profile;
+  }
+
+  /**
+   * Turn snapping to rendered features on or off.
+   */
+  setSnap(enabled: boolean): this {
+    this._hideSnapIndicator();
+    this._state.snap = enabled;
+    const checkbox = this._panel?.querySelector(
+      ".measure-snap input",
+    ) as HTMLInputElement | null;
+    if (checkbox) checkbox.checked = enabled;
+    return this;
+  }
+
   /**
    * Set the measurement mode.
    */
@@ -1268,6 +2352,7 @@ export class MeasureControl implements IControl {
     this._state.distanceUnit = unit;
     this._updateResult();
     this._updateMeasurementsList();
+    this._renderProfile();
     this._emit("unitchange");
     return this;
   }
@@ -1290,4 +2375,170 @@ export class MeasureControl implements IControl {
     this._clearAll();
     return this;
   }
+
+  /**
+   * Edit the vertices of a measurement on the map. Vertices can be dragged;
+   * distance, area and profile measurements also gain vertices by dragging a
+   * segment midpoint and lose them on right-click. Drawing is paused until
+   * editing stops.
+   *
+   * @param id - ID of the measurement.
+   */
+  editMeasurement(id: string): this {
+    const map = this._map;
+    const measurement = this._state.measurements.find((m) => m.id === id);
+    if (!map || !measurement || !this._options.editable) return this;
+
+    this._endEditing();
+    if (this._state.isDrawing) this._cancelDrawing();
+
+    this._state.editingId = id;
+    this._dragIndex = null;
+    this._dragMoved = false;
+    this._editHandlers = {
+      mousedown: (e) => {
+        const hit = this._hitHandle(e);
+        if (!hit) return;
+        e.preventDefault();
+        map.dragPan.disable();
+        this._dragMoved = false;
+        if (hit.midpoint) {
+          measurement.points.splice(hit.index, 0, {
+            lng: e.lngLat.lng,
+            lat: e.lngLat.lat,
+          });
+          this._dragMoved = true;
+          this._applyEdit(measurement);
+        }
+        this._dragIndex = hit.index;
+      },
+      mousemove: (e) => {
+        if (this._dragIndex === null) {
+          map.getCanvas().style.cursor = this._hitHandle(e) ? "move" : "";
+          return;
+        }
+        measurement.points[this._dragIndex] = this._snapPoint(e);
+        this._dragMoved = true;
+        this._applyEdit(measurement);
+      },
+      mouseup: () => {
+        if (this._dragIndex === null) return;
+        this._dragIndex = null;
+        map.dragPan.enable();
+        this._hideSnapIndicator();
+        if (this._dragMoved) this._commitEdit(measurement);
+      },
+      contextmenu: (e) => {
+        const hit = this._hitHandle(e);
+        if (!hit || hit.midpoint) return;
+        e.preventDefault();
+        if (
+          !isTotalMode(measurement.mode) ||
+          measurement.points.length <= REQUIRED_POINTS[measurement.mode]
+        ) {
+          return;
+        }
+        measurement.points.splice(hit.index, 1);
+        this._applyEdit(measurement);
+        this._commitEdit(measurement);
+      },
+      keydown: (e) => {
+        if (e.key === "Enter" || e.key === "Escape") this.stopEditing();
+      },
+    };
+    map.on("mousedown", this._editHandlers.mousedown);
+    map.on("mousemove", this._editHandlers.mousemove);
+    map.on("mouseup", this._editHandlers.mouseup);
+    map.on("contextmenu", this._editHandlers.contextmenu);
+    document.addEventListener("keydown", this._editHandlers.keydown);
+
+    this._renderHandles();
+    this._syncMarkers();
+    this._updateMeasurementsList();
+
+    const startBtn = this._panel?.querySelector(".start-btn span");
+    if (startBtn) startBtn.textContent = "Done";
+    if (this._instructionsEl) {
+      this._instructionsEl.textContent = EDIT_INSTRUCTIONS;
+    }
+    return this;
+  }
+
+  /**
+   * Stop editing vertices. Drawing resumes while the panel is open.
+   */
+  stopEditing(): this {
+    if (!this._state.editingId) return this;
+    this._endEditing();
+    if (this._panel) this._startDrawing();
+    return this;
+  }
+
+  /**
+   * Export all measurements as text.
+   *
+   * @param format - GeoJSON (default), KML or CSV with a WKT geometry column.
+   * @returns The file contents.
+   */
+  exportMeasurements(format: MeasureExportFormat = "geojson"): string {
+    return exportMeasurementsAs(this._state.measurements, format);
+  }
+
+  /**
+   * Download all measurements as a file.
+   *
+   * @param format - GeoJSON (default), KML or CSV with a WKT geometry column.
+   * @param filename - File name without extension.
+   */
+  downloadMeasurements(
+    format: MeasureExportFormat = "geojson",
+    filename: string = "measurements",
+  ): void {
+    const spec = MEASURE_EXPORT_FORMATS.find((f) => f.value === format)!;
+    const blob = new Blob([this.exportMeasurements(format)], {
+      type: spec.mimeType,
+    });
+    downloadBlob(blob, `${filename}${spec.extension}`);
+  }
+
+  /**
+   * Import measurements from GeoJSON, KML or CSV text and add them to the
+   * existing ones. Values are recomputed from the imported geometry.
+   *
+   * @param data - The file contents.
+   * @param format - The file format; detected from the contents when omitted.
+   * @returns The imported measurements.
+   */
+  importMeasurements(
+    data: string,
+    format?: MeasureExportFormat,
+  ): Measurement[] {
+    const measurements = parseMeasurements(data, format).map(
+      (input): Measurement => ({
+        id: generateId("measurement"),
+        mode: input.mode,
+        points: input.points,
+        ...computeMeasurementValues(input.mode, input.points),
+      }),
+    );
+    if (measurements.length === 0) return measurements;
+
+    this._state.measurements.push(...measurements);
+    this._updateMapGeometry();
+    this._syncMarkers();
+    this._updateMeasurementsList();
+    this._updateResult();
+    this._saveToStorage();
+
+    const clearBtn = this._panel?.querySelector(
+      ".clear-btn",
+    ) as HTMLButtonElement;
+    if (clearBtn) clearBtn.disabled = false;
+
+    for (const measurement of measurements) {
+      this._emit("measurementadd", { measurement });
+    }
+    this._emit("import");
+    return measurements;
+  }
 }
@@ -15,6 +15,7 @@ import {
   type UserPanelSize,
 } from "../utils/panelResize";
 import type {
+  PMTilesLayerAddOptions,
   PMTilesLayerControlOptions,
   PMTilesLayerControlState,
   PMTilesLayerEvent,
@@ -356,11 +357,24 @@ export class PMTilesLayerControl implements IControl {
   }
 
   /**
-   * Programmatically add a PMTiles layer.
+   * Programmatically add a PMTiles layer. Any {@link PMTilesLayerAddOptions}
+   * field sets the matching panel value first.
    */
-  async addLayer(url?: string): Promise<void> {
+  async addLayer(
+    url?: string,
+    options?: PMTilesLayerAddOptions,
+  ): Promise<void> {
     if (url) this._state.url = url;
-    await this._addLayer();
+    if (options?.name !== undefined) this._state.layerName = options.name;
+    if (options?.opacity !== undefined) {
+      this._state.layerOpacity = options.opacity;
+    }
+    if (options?.sourceLayers) {
+      this._state.selectedSourceLayers = [...options.sourceLayers];
+    }
+    if (options?.pickable !== undefined)
+      this._state.pickable = options.pickable;
+    await this._addLayer(options?.fitBounds ?? true);
   }
 
   /**
@@ -1231,7 +1245,7 @@ export class PMTilesLayerControl implements IControl {
     }
   }
 
-  private async _addLayer(): Promise<void> {
+  private async _addLayer(fitBounds = true): Promise<void> {
     if (!this._map || !this._state.url) {
       this._state.error = "Please enter a PMTiles URL.";
       this._render();
@@ -1423,7 +1437,7 @@ export class PMTilesLayerControl implements IControl {
       // center when those bounds are degenerate. See resolvePMTilesViewTarget:
       // many archives (e.g. Overture exports) leave the center at 0,0, which
       // would otherwise fly the map to "null island" instead of the data.
-      const viewTarget = resolvePMTilesViewTarget(header);
+      const viewTarget = fitBounds ? resolvePMTilesViewTarget(header) : null;
       if (viewTarget?.type === "bounds") {
         this._map.fitBounds(viewTarget.bounds, {
           padding: 40,
@@ -1443,6 +1457,7 @@ export class PMTilesLayerControl implements IControl {
         id: sourceId,
         name: customName || undefined,
         url: this._state.url,
+        fileName: this._state.localFileName,
         tileType,
         sourceLayers,
         layerIds,
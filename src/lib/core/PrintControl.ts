@@ -1,10 +1,14 @@
 import "../styles/common.css";
 import "../styles/print-control.css";
+import { Map as MapLibreMap } from "maplibre-gl";
 import type {
   IControl,
-  Map as MapLibreMap,
   ControlPosition,
+  FilterSpecification,
+  GeoJSONSource,
+  StyleSpecification,
 } from "maplibre-gl";
+import type { jsPDF } from "jspdf";
 import type {
   PrintControlOptions,
   PrintControlState,
@@ -16,10 +20,37 @@ import type {
   PrintFitMode,
   PrintFormat,
   PrintTheme,
+  PrintAtlasOptions,
+  PrintAnimationOptions,
+  PrintAnimationSource,
+  PrintAnimationFormat,
+  PrintLayout,
+  PrintLayoutElement,
+  PrintLayoutElementType,
+  LegendItemOptions,
   ColormapName,
   ColorStop,
 } from "./types";
+import {
+  PRINT_LAYOUT_ELEMENT_TYPES,
+  DEFAULT_PRINT_LAYOUT,
+  clonePrintLayout,
+  parsePrintLayout,
+  serializePrintLayout,
+} from "./printLayout";
 import { getColormap, isValidColormap, getColormapNames } from "../colormaps";
+import { generateId, geometryBounds } from "../utils/helpers";
+import { crc32, createZip, type ZipEntry } from "../utils/zip";
+import { GifEncoder } from "../utils/gif";
+import { WebmEncoder } from "../utils/webm";
+import {
+  EPSG_3857_WKT,
+  createGeoPdfViewport,
+  createGeoTiff,
+  createWorldFile,
+  lngLatToMercator,
+  type GeoTransform,
+} from "../utils/georeference";
 
 /**
  * Default colorbar configuration.
@@ -38,6 +69,35 @@ const DEFAULT_COLORBAR: Required<PrintColorbarConfig> = {
   tickCount: 5,
 };
 
+/**
+ * Default atlas configuration.
+ */
+const DEFAULT_ATLAS: Required<PrintAtlasOptions> = {
+  source: "bookmarks",
+  bookmarkControl: null,
+  layerId: "",
+  titleTemplate: "{name}",
+  nameProperty: "name",
+  padding: 40,
+  maxZoom: 16,
+  output: "pdf",
+};
+
+/**
+ * Default animation configuration.
+ */
+const DEFAULT_ANIMATION: Required<PrintAnimationOptions> = {
+  source: "bookmarks",
+  bookmarkControl: null,
+  spinGlobeControl: null,
+  spinSpeed: 10,
+  time: null,
+  titleTemplate: "{title}",
+  format: "gif",
+  fps: 10,
+  duration: 5,
+};
+
 /**
  * Default options for the PrintControl.
  */
@@ -68,7 +128,17 @@ const DEFAULT_OPTIONS: Required<Omit<PrintControlOptions, "colorbar">> & {
   margin: 0,
   pageBackground: "#ffffff",
   fitMode: "contain",
+  offscreen: false,
+  scale: null,
   showPageOptions: false,
+  atlas: DEFAULT_ATLAS,
+  showAtlasOptions: false,
+  animation: DEFAULT_ANIMATION,
+  showAnimationOptions: false,
+  layout: null,
+  showLayoutOptions: false,
+  legendControls: [],
+  colorbarControls: [],
   panelWidth: 280,
   maxHeight: 500,
   backgroundColor: "",
@@ -147,6 +217,138 @@ interface PageLayout {
   pageHeightIn: number | null;
 }
 
+/**
+ * Georeferencing of an export canvas.
+ */
+interface GeoReference {
+  /** Export-canvas pixels to EPSG:3857 meters. */
+  transform: GeoTransform;
+  /** Part of the canvas covered by the map, in export pixels. */
+  mapRect: Rect;
+}
+
+/**
+ * Formats that carry georeferencing.
+ */
+const GEO_FORMATS: PrintFormat[] = ["geotiff", "png-world", "geopdf"];
+
+/**
+ * A single atlas page: either a saved camera (bookmarks) or an extent to fit
+ * (features).
+ */
+interface AtlasPage {
+  /** Page name used for `{name}` and zip entry names. */
+  name: string;
+  /** Values available to the title template. */
+  properties: Record<string, unknown>;
+  /** Camera to jump to. */
+  view: {
+    center: [number, number];
+    zoom: number;
+    bearing: number;
+    pitch: number;
+  } | null;
+  /** [west, south, east, north] extent to fit. */
+  bounds: [number, number, number, number] | null;
+}
+
+/**
+ * A single animation frame: the camera and/or time step to show.
+ */
+interface AnimationStep {
+  /** Camera to jump to. */
+  view?: {
+    center: [number, number];
+    zoom: number;
+    bearing: number;
+    pitch: number;
+  };
+  /** Time step to filter the time series layer on. */
+  time?: string | number;
+  /** Bookmark being approached, for `{name}`. */
+  name?: string;
+}
+
+/**
+ * A measured layout element, drawn with its top-left corner at the origin.
+ * Sizes are in layout units (one pixel at 96 DPI).
+ */
+interface LayoutBlock {
+  width: number;
+  height: number;
+  draw: (ctx: CanvasRenderingContext2D) => void;
+}
+
+/**
+ * Default style of overview insets (the MinimapControl default).
+ */
+const INSET_STYLE =
+  "https://basemaps.cartocdn.com/gl/positron-gl-style/style.json";
+
+/**
+ * How long to wait for an offscreen map (inset or export) to load before
+ * giving up.
+ */
+const OFFSCREEN_TIMEOUT_MS = 30000;
+
+/**
+ * Largest canvas edge, in device pixels, rendered by an offscreen map.
+ */
+const MAX_EXPORT_CANVAS_SIZE = 16384;
+
+/**
+ * Equatorial circumference of the Web Mercator sphere, in meters.
+ */
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+/**
+ * Meters per inch, for converting print scales to ground distances.
+ */
+const METERS_PER_INCH = 0.0254;
+
+/**
+ * Font stack used for text drawn on exports.
+ */
+const EXPORT_FONT = `-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
+
+/**
+ * Map layer types whose features can become atlas pages.
+ */
+const ATLAS_LAYER_TYPES = [
+  "fill",
+  "line",
+  "circle",
+  "symbol",
+  "fill-extrusion",
+  "heatmap",
+];
+
+/**
+ * Fill `{key}` placeholders from a set of values. Unknown keys become empty.
+ */
+function fillTemplate(
+  template: string,
+  values: Record<string, unknown>,
+): string {
+  return template.replace(/\{([^{}]+)\}/g, (_, key: string) => {
+    const value = values[key.trim()];
+    return value === undefined || value === null ? "" : String(value);
+  });
+}
+
+/**
+ * Turn a page name into a safe file name fragment.
+ */
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "page"
+  );
+}
+
 /**
  * A control for exporting the current map view as an image.
  *
@@ -204,16 +406,36 @@ export class PrintControl implements IControl {
   private _marginInput?: HTMLInputElement;
   private _fitModeSelect?: HTMLSelectElement;
   private _pageBackgroundInput?: HTMLInputElement;
+  private _scaleInput?: HTMLInputElement;
+  private _offscreenInput?: HTMLInputElement;
   private _exportBtn?: HTMLButtonElement;
   private _copyBtn?: HTMLButtonElement;
+  private _atlasBtn?: HTMLButtonElement;
+  private _atlasLayerField?: HTMLElement;
+  private _animationBtn?: HTMLButtonElement;
+  private _animationTimeField?: HTMLElement;
+  private _layoutToggle?: HTMLInputElement;
+  private _layoutBody?: HTMLElement;
+  private _layoutPreview?: HTMLElement;
+  private _layoutEditor?: HTMLElement;
+  private _selectedElementId: string | null = null;
   private _feedbackEl?: HTMLElement;
+  private _geoReference: GeoReference | null = null;
 
   /**
    * Creates a new PrintControl instance.
    */
   constructor(options?: PrintControlOptions) {
     const colorbar = { ...DEFAULT_COLORBAR, ...options?.colorbar };
-    this._options = { ...DEFAULT_OPTIONS, ...options, colorbar };
+    const atlas = { ...DEFAULT_ATLAS, ...options?.atlas };
+    const animation = { ...DEFAULT_ANIMATION, ...options?.animation };
+    this._options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      colorbar,
+      atlas,
+      animation,
+    };
     this._state = {
       visible: this._options.visible,
       collapsed: this._options.collapsed,
@@ -233,6 +455,13 @@ export class PrintControl implements IControl {
       margin: this._options.margin,
       pageBackground: this._options.pageBackground,
       fitMode: this._options.fitMode,
+      offscreen: this._options.offscreen,
+      scale: this._options.scale,
+      atlas: { ...atlas },
+      animation: { ...animation },
+      layout: this._options.layout
+        ? clonePrintLayout(this._options.layout)
+        : null,
     };
   }
 
@@ -295,7 +524,14 @@ export class PrintControl implements IControl {
    */
   private _emit(
     event: PrintEvent,
-    extra?: { dataUrl?: string; error?: string },
+    extra?: {
+      dataUrl?: string;
+      error?: string;
+      page?: number;
+      pageCount?: number;
+      frame?: number;
+      frameCount?: number;
+    },
   ): void {
     const handlers = this._eventHandlers.get(event);
     if (handlers) {
@@ -598,6 +834,9 @@ export class PrintControl implements IControl {
       <option value="jpeg" ${this._state.format === "jpeg" ? "selected" : ""}>JPEG</option>
       <option value="pdf" ${this._state.format === "pdf" ? "selected" : ""}>PDF</option>
       <option value="svg" ${this._state.format === "svg" ? "selected" : ""}>SVG</option>
+      <option value="geotiff" ${this._state.format === "geotiff" ? "selected" : ""}>GeoTIFF</option>
+      <option value="png-world" ${this._state.format === "png-world" ? "selected" : ""}>PNG + world file</option>
+      <option value="geopdf" ${this._state.format === "geopdf" ? "selected" : ""}>GeoPDF</option>
     `;
     this._formatSelect.addEventListener("change", () => {
       this._state.format = this._formatSelect!.value as PrintFormat;
@@ -743,6 +982,33 @@ export class PrintControl implements IControl {
       content.appendChild(pageField);
     }
 
+    // Atlas options
+    if (this._options.showAtlasOptions) {
+      const atlasField = document.createElement("div");
+      atlasField.className = "print-field";
+      atlasField.innerHTML = `<label>Atlas</label>`;
+      atlasField.appendChild(this._createAtlasOptions());
+      content.appendChild(atlasField);
+    }
+
+    // Animation options
+    if (this._options.showAnimationOptions) {
+      const animationField = document.createElement("div");
+      animationField.className = "print-field";
+      animationField.innerHTML = `<label>Animation</label>`;
+      animationField.appendChild(this._createAnimationOptions());
+      content.appendChild(animationField);
+    }
+
+    // Layout composer
+    if (this._options.showLayoutOptions) {
+      const layoutField = document.createElement("div");
+      layoutField.className = "print-field";
+      layoutField.innerHTML = `<label>Layout</label>`;
+      layoutField.appendChild(this._createLayoutOptions());
+      content.appendChild(layoutField);
+    }
+
     // Export button
     this._exportBtn = document.createElement("button");
     this._exportBtn.type = "button";
@@ -915,19 +1181,595 @@ export class PrintControl implements IControl {
     row3.appendChild(this._makeField("Background", this._pageBackgroundInput));
     wrapper.appendChild(row3);
 
+    // Row 4: Print scale + offscreen rendering
+    const row4 = document.createElement("div");
+    row4.className = "print-row";
+
+    this._scaleInput = document.createElement("input");
+    this._scaleInput.type = "number";
+    this._scaleInput.className = "print-input";
+    this._scaleInput.style.color = "var(--print-input-text)";
+    this._scaleInput.min = "1";
+    this._scaleInput.placeholder = "Current view";
+    this._scaleInput.value = this._state.scale ? String(this._state.scale) : "";
+    this._scaleInput.addEventListener("input", () => {
+      const scale = parseFloat(this._scaleInput!.value);
+      this._state.scale = scale > 0 ? scale : null;
+      this._updatePageOptionsDisabled();
+    });
+    row4.appendChild(this._makeField("Scale 1:", this._scaleInput));
+
+    const offscreenLabel = document.createElement("label");
+    offscreenLabel.className = "print-checkbox-label";
+    this._offscreenInput = document.createElement("input");
+    this._offscreenInput.type = "checkbox";
+    this._offscreenInput.checked = this._state.offscreen;
+    this._offscreenInput.addEventListener("change", () => {
+      this._state.offscreen = this._offscreenInput!.checked;
+    });
+    offscreenLabel.appendChild(this._offscreenInput);
+    offscreenLabel.appendChild(document.createTextNode(" Full resolution"));
+    offscreenLabel.title =
+      "Render tiles and labels at the export resolution instead of scaling up the screen";
+    row4.appendChild(offscreenLabel);
+    wrapper.appendChild(row4);
+
     this._updatePageOptionsDisabled();
     return wrapper;
   }
 
+  /**
+   * Create the atlas options section (page source, layer, title, output).
+   */
+  private _createAtlasOptions(): HTMLElement {
+    const wrapper = document.createElement("div");
+    const atlas = this._state.atlas;
+
+    // Row 1: Page source + Output
+    const row1 = document.createElement("div");
+    row1.className = "print-row";
+
+    const sourceSelect = this._makeSelect(
+      [
+        ["bookmarks", "Bookmarks"],
+        ["features", "Layer features"],
+      ],
+      atlas.source ?? "bookmarks",
+    );
+    sourceSelect.addEventListener("change", () => {
+      atlas.source = sourceSelect.value as PrintAtlasOptions["source"];
+      this._updateAtlasLayerVisibility();
+    });
+    row1.appendChild(this._makeField("Pages", sourceSelect));
+
+    const outputSelect = this._makeSelect(
+      [
+        ["pdf", "PDF"],
+        ["zip", "Zip of images"],
+      ],
+      atlas.output ?? "pdf",
+    );
+    outputSelect.addEventListener("change", () => {
+      atlas.output = outputSelect.value as PrintAtlasOptions["output"];
+    });
+    row1.appendChild(this._makeField("Output", outputSelect));
+    wrapper.appendChild(row1);
+
+    // Layer whose features become pages
+    const layerIds = (this._map?.getStyle()?.layers ?? [])
+      .filter((layer) => ATLAS_LAYER_TYPES.includes(layer.type))
+      .map((layer) => layer.id);
+    if (atlas.layerId && !layerIds.includes(atlas.layerId)) {
+      layerIds.unshift(atlas.layerId);
+    }
+    const layerSelect = this._makeSelect(
+      [
+        ["", "Select a layer..."],
+        ...layerIds.map((id): [string, string] => [id, id]),
+      ],
+      atlas.layerId ?? "",
+    );
+    layerSelect.addEventListener("change", () => {
+      atlas.layerId = layerSelect.value;
+    });
+    this._atlasLayerField = this._makeField("Layer", layerSelect);
+    wrapper.appendChild(this._atlasLayerField);
+    this._updateAtlasLayerVisibility();
+
+    // Title template
+    const templateInput = document.createElement("input");
+    templateInput.type = "text";
+    templateInput.className = "print-input";
+    templateInput.style.color = "var(--print-input-text)";
+    templateInput.placeholder = "{name}";
+    templateInput.value = atlas.titleTemplate ?? "";
+    templateInput.addEventListener("input", () => {
+      atlas.titleTemplate = templateInput.value;
+    });
+    wrapper.appendChild(this._makeField("Page title", templateInput));
+
+    this._atlasBtn = document.createElement("button");
+    this._atlasBtn.type = "button";
+    this._atlasBtn.className = "print-copy-btn print-atlas-btn";
+    this._atlasBtn.innerHTML = `${DOWNLOAD_ICON}<span>Export Atlas</span>`;
+    this._atlasBtn.disabled = this._state.exporting;
+    this._atlasBtn.addEventListener("click", () => {
+      this.exportAtlas().catch(() => {
+        // Already reported through the feedback line and the error event
+      });
+    });
+    wrapper.appendChild(this._atlasBtn);
+
+    return wrapper;
+  }
+
+  /**
+   * Create the animation options section (source, time series, format,
+   * frame rate and duration).
+   */
+  private _createAnimationOptions(): HTMLElement {
+    const wrapper = document.createElement("div");
+    const animation = this._state.animation;
+
+    // Row 1: Source + Format
+    const row1 = document.createElement("div");
+    row1.className = "print-row";
+
+    const sourceSelect = this._makeSelect(
+      [
+        ["bookmarks", "Bookmark tour"],
+        ["spin", "Globe spin"],
+        ["time", "Time series"],
+      ],
+      animation.source ?? "bookmarks",
+    );
+    sourceSelect.addEventListener("change", () => {
+      animation.source = sourceSelect.value as PrintAnimationSource;
+      this._updateAnimationTimeVisibility();
+    });
+    row1.appendChild(this._makeField("Source", sourceSelect));
+
+    const formatSelect = this._makeSelect(
+      [
+        ["gif", "GIF"],
+        ["webm", "WebM"],
+      ],
+      animation.format ?? "gif",
+    );
+    formatSelect.addEventListener("change", () => {
+      animation.format = formatSelect.value as PrintAnimationFormat;
+    });
+    row1.appendChild(this._makeField("Format", formatSelect));
+    wrapper.appendChild(row1);
+
+    // Time series layer and property
+    this._animationTimeField = document.createElement("div");
+    this._animationTimeField.className = "print-row";
+    const layerIds = (this._map?.getStyle()?.layers ?? [])
+      .filter((layer) => ATLAS_LAYER_TYPES.includes(layer.type))
+      .map((layer) => layer.id);
+    const timeLayerId = animation.time?.layerId ?? "";
+    if (timeLayerId && !layerIds.includes(timeLayerId)) {
+      layerIds.unshift(timeLayerId);
+    }
+    const layerSelect = this._makeSelect(
+      [
+        ["", "Select a layer..."],
+        ...layerIds.map((id): [string, string] => [id, id]),
+      ],
+      timeLayerId,
+    );
+    const propertyInput = document.createElement("input");
+    propertyInput.type = "text";
+    propertyInput.className = "print-input";
+    propertyInput.style.color = "var(--print-input-text)";
+    propertyInput.placeholder = "time";
+    propertyInput.value = animation.time?.property ?? "";
+    const updateTime = () => {
+      animation.time = {
+        ...animation.time,
+        layerId: layerSelect.value,
+        property: propertyInput.value.trim(),
+      };
+    };
+    layerSelect.addEventListener("change", updateTime);
+    propertyInput.addEventListener("input", updateTime);
+    this._animationTimeField.appendChild(this._makeField("Layer", layerSelect));
+    this._animationTimeField.appendChild(
+      this._makeField("Time property", propertyInput),
+    );
+    wrapper.appendChild(this._animationTimeField);
+    this._updateAnimationTimeVisibility();
+
+    // Row 2: Frame rate + Duration
+    const row2 = document.createElement("div");
+    row2.className = "print-row";
+    const fpsInput = document.createElement("input");
+    fpsInput.type = "number";
+    fpsInput.className = "print-input";
+    fpsInput.style.color = "var(--print-input-text)";
+    fpsInput.min = "1";
+    fpsInput.max = "60";
+    fpsInput.value = String(animation.fps ?? DEFAULT_ANIMATION.fps);
+    fpsInput.addEventListener("input", () => {
+      animation.fps = parseFloat(fpsInput.value) || DEFAULT_ANIMATION.fps;
+    });
+    row2.appendChild(this._makeField("Frames/s", fpsInput));
+
+    const durationInput = document.createElement("input");
+    durationInput.type = "number";
+    durationInput.className = "print-input";
+    durationInput.style.color = "var(--print-input-text)";
+    durationInput.min = "0.1";
+    durationInput.step = "0.5";
+    durationInput.value = String(
+      animation.duration ?? DEFAULT_ANIMATION.duration,
+    );
+    durationInput.addEventListener("input", () => {
+      animation.duration =
+        parseFloat(durationInput.value) || DEFAULT_ANIMATION.duration;
+    });
+    row2.appendChild(this._makeField("Duration (s)", durationInput));
+    wrapper.appendChild(row2);
+
+    this._animationBtn = document.createElement("button");
+    this._animationBtn.type = "button";
+    this._animationBtn.className = "print-copy-btn print-atlas-btn";
+    this._animationBtn.innerHTML = `${DOWNLOAD_ICON}<span>Export Animation</span>`;
+    this._animationBtn.disabled = this._state.exporting;
+    this._animationBtn.addEventListener("click", () => {
+      this.exportAnimation().catch(() => {
+        // Already reported through the feedback line and the error event
+      });
+    });
+    wrapper.appendChild(this._animationBtn);
+
+    return wrapper;
+  }
+
+  /**
+   * Create the layout composer: a page preview whose elements can be dragged
+   * into place, an element editor, and template save/load buttons.
+   */
+  private _createLayoutOptions(): HTMLElement {
+    const wrapper = document.createElement("div");
+
+    const toggleLabel = document.createElement("label");
+    toggleLabel.className = "print-checkbox-label";
+    this._layoutToggle = document.createElement("input");
+    this._layoutToggle.type = "checkbox";
+    this._layoutToggle.checked = !!this._state.layout;
+    this._layoutToggle.addEventListener("change", () => {
+      this.setLayout(
+        this._layoutToggle!.checked
+          ? clonePrintLayout(DEFAULT_PRINT_LAYOUT)
+          : null,
+      );
+    });
+    toggleLabel.appendChild(this._layoutToggle);
+    toggleLabel.appendChild(document.createTextNode(" Use custom layout"));
+    wrapper.appendChild(toggleLabel);
+
+    this._layoutBody = document.createElement("div");
+    this._layoutBody.className = "print-layout";
+
+    this._layoutPreview = document.createElement("div");
+    this._layoutPreview.className = "print-layout-preview";
+    this._layoutBody.appendChild(this._layoutPreview);
+
+    const addSelect = this._makeSelect(
+      [
+        ["", "Add element..."],
+        ...PRINT_LAYOUT_ELEMENT_TYPES.map(
+          ({ value, label }): [string, string] => [value, label],
+        ),
+      ],
+      "",
+    );
+    addSelect.addEventListener("change", () => {
+      if (!addSelect.value) return;
+      const id = this.addLayoutElement({
+        type: addSelect.value as PrintLayoutElementType,
+        x: 0.5,
+        y: 0.5,
+      });
+      addSelect.value = "";
+      this._selectLayoutElement(id);
+    });
+    this._layoutBody.appendChild(addSelect);
+
+    this._layoutEditor = document.createElement("div");
+    this._layoutEditor.className = "print-layout-editor";
+    this._layoutBody.appendChild(this._layoutEditor);
+
+    // Template save/load
+    const templateRow = document.createElement("div");
+    templateRow.className = "print-row print-layout-templates";
+
+    const saveBtn = document.createElement("button");
+    saveBtn.type = "button";
+    saveBtn.className = "print-copy-btn";
+    saveBtn.textContent = "Save template";
+    saveBtn.addEventListener("click", () => {
+      const json = this.exportLayoutTemplate();
+      if (!json) return;
+      const blob = new Blob([json], { type: "application/json" });
+      this._downloadBlob(blob, `${this._state.filename}-layout.json`);
+    });
+    templateRow.appendChild(saveBtn);
+
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".json,application/json";
+    fileInput.style.display = "none";
+    fileInput.addEventListener("change", () => {
+      const file = fileInput.files?.[0];
+      if (file) this._importLayoutFile(file);
+      fileInput.value = "";
+    });
+    templateRow.appendChild(fileInput);
+
+    const loadBtn = document.createElement("button");
+    loadBtn.type = "button";
+    loadBtn.className = "print-copy-btn";
+    loadBtn.textContent = "Load template";
+    loadBtn.addEventListener("click", () => fileInput.click());
+    templateRow.appendChild(loadBtn);
+
+    this._layoutBody.appendChild(templateRow);
+    wrapper.appendChild(this._layoutBody);
+
+    this._renderLayoutComposer();
+    return wrapper;
+  }
+
+  /**
+   * Read a layout template chosen in the file picker.
+   */
+  private _importLayoutFile(file: File): void {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        this.loadLayoutTemplate(String(reader.result));
+      } catch (err) {
+        console.warn("PrintControl: failed to load layout template", err);
+        this._showFeedback("Invalid template");
+      }
+    };
+    reader.readAsText(file);
+  }
+
+  /**
+   * Sync the composer with the current layout.
+   */
+  private _renderLayoutComposer(): void {
+    if (!this._layoutBody || !this._layoutPreview) return;
+    const layout = this._state.layout;
+    if (this._layoutToggle) this._layoutToggle.checked = !!layout;
+    this._layoutBody.style.display = layout ? "" : "none";
+    if (!layout) return;
+
+    if (
+      this._selectedElementId &&
+      !layout.elements.some((el) => el.id === this._selectedElementId)
+    ) {
+      this._selectedElementId = null;
+    }
+
+    // Match the preview to the page shape
+    if (this._map) {
+      const { pageW, pageH } = this._getPageLayout(this._map.getCanvas());
+      if (pageW > 0 && pageH > 0) {
+        this._layoutPreview.style.aspectRatio = `${pageW} / ${pageH}`;
+      }
+    }
+
+    this._layoutPreview.innerHTML = "";
+    for (const element of layout.elements) {
+      const item = document.createElement("div");
+      item.className = "print-layout-item";
+      item.classList.toggle("selected", element.id === this._selectedElementId);
+      item.dataset.id = element.id;
+      item.textContent = this._layoutElementLabel(element);
+      item.addEventListener("pointerdown", (e) =>
+        this._startLayoutDrag(e, element, item),
+      );
+      this._layoutPreview.appendChild(item);
+      this._placeLayoutItem(item, element);
+    }
+
+    this._renderLayoutEditor();
+  }
+
+  /**
+   * Position a preview item the way the element is placed on the page.
+   */
+  private _placeLayoutItem(
+    item: HTMLElement,
+    element: PrintLayoutElement,
+  ): void {
+    item.style.left = `calc(${element.x * 100}% - ${element.x * item.offsetWidth}px)`;
+    item.style.top = `calc(${element.y * 100}% - ${element.y * item.offsetHeight}px)`;
+  }
+
+  /**
+   * Drag a preview item, updating the element position as it moves.
+   */
+  private _startLayoutDrag(
+    e: PointerEvent,
+    element: PrintLayoutElement,
+    item: HTMLElement,
+  ): void {
+    e.preventDefault();
+    this._selectLayoutElement(element.id);
+    const preview = this._layoutPreview!;
+    const itemRect = item.getBoundingClientRect();
+    const grabX = e.clientX - itemRect.left;
+    const grabY = e.clientY - itemRect.top;
+
+    const onMove = (ev: PointerEvent) => {
+      const rect = preview.getBoundingClientRect();
+      const freeW = rect.width - item.offsetWidth;
+      const freeH = rect.height - item.offsetHeight;
+      const fraction = (offset: number, free: number) =>
+        free > 0 ? Math.max(0, Math.min(1, offset / free)) : 0;
+      element.x = fraction(ev.clientX - grabX - rect.left, freeW);
+      element.y = fraction(ev.clientY - grabY - rect.top, freeH);
+      this._placeLayoutItem(item, element);
+    };
+    const onUp = () => {
+      document.removeEventListener("pointermove", onMove);
+      document.removeEventListener("pointerup", onUp);
+      this._emit("update");
+    };
+    document.addEventListener("pointermove", onMove);
+    document.addEventListener("pointerup", onUp);
+  }
+
+  /**
+   * Select a layout element for editing.
+   */
+  private _selectLayoutElement(id: string | null): void {
+    this._selectedElementId = id;
+    this._layoutPreview
+      ?.querySelectorAll<HTMLElement>(".print-layout-item")
+      .forEach((item) =>
+        item.classList.toggle("selected", item.dataset.id === id),
+      );
+    this._renderLayoutEditor();
+  }
+
+  /**
+   * Show the settings of the selected layout element.
+   */
+  private _renderLayoutEditor(): void {
+    const editor = this._layoutEditor;
+    if (!editor) return;
+    editor.innerHTML = "";
+    const element = this._state.layout?.elements.find(
+      (el) => el.id === this._selectedElementId,
+    );
+    if (!element) return;
+
+    const addInput = (
+      label: string,
+      value: string,
+      onInput: (value: string) => void,
+      type = "text",
+    ) => {
+      const input = document.createElement("input");
+      input.type = type;
+      input.className = "print-input";
+      input.style.color = "var(--print-input-text)";
+      input.value = value;
+      input.addEventListener("input", () => onInput(input.value));
+      input.addEventListener("change", () => this._renderLayoutComposer());
+      editor.appendChild(this._makeField(label, input));
+    };
+    const percent = (fraction: number | undefined, fallback: number) =>
+      String(Math.round((fraction ?? fallback) * 100));
+
+    if (element.type === "text") {
+      const textarea = document.createElement("textarea");
+      textarea.className = "print-input";
+      textarea.style.color = "var(--print-input-text)";
+      textarea.rows = 2;
+      textarea.placeholder = "Source: ... ({date})";
+      textarea.value = element.text ?? "";
+      textarea.addEventListener("input", () => {
+        element.text = textarea.value;
+      });
+      textarea.addEventListener("change", () => this._renderLayoutComposer());
+      editor.appendChild(this._makeField("Text", textarea));
+    } else if (element.type === "image") {
+      addInput("Image URL", element.src ?? "", (value) => {
+        element.src = value;
+      });
+      addInput(
+        "Width (%)",
+        percent(element.width, 0.15),
+        (value) => {
+          element.width = (parseFloat(value) || 15) / 100;
+        },
+        "number",
+      );
+    } else if (element.type === "inset") {
+      addInput(
+        "Zoom offset",
+        String(element.zoomOffset ?? -5),
+        (value) => {
+          element.zoomOffset = parseFloat(value) || 0;
+        },
+        "number",
+      );
+      addInput(
+        "Size (%)",
+        percent(element.width, 0.25),
+        (value) => {
+          element.width = element.height = (parseFloat(value) || 25) / 100;
+        },
+        "number",
+      );
+    }
+
+    const removeBtn = document.createElement("button");
+    removeBtn.type = "button";
+    removeBtn.className = "print-copy-btn";
+    removeBtn.textContent = `Remove ${this._layoutElementLabel(element).toLowerCase()}`;
+    removeBtn.addEventListener("click", () =>
+      this.removeLayoutElement(element.id),
+    );
+    editor.appendChild(removeBtn);
+  }
+
+  /**
+   * Short label for a layout element in the composer.
+   */
+  private _layoutElementLabel(element: PrintLayoutElement): string {
+    if (element.type === "text" && element.text?.trim()) {
+      return element.text.trim().split("\n")[0].slice(0, 24);
+    }
+    return (
+      PRINT_LAYOUT_ELEMENT_TYPES.find((t) => t.value === element.type)?.label ??
+      element.type
+    );
+  }
+
+  /**
+   * Show the layer picker only when pages come from layer features.
+   */
+  private _updateAtlasLayerVisibility(): void {
+    if (this._atlasLayerField) {
+      this._atlasLayerField.style.display =
+        this._state.atlas.source === "features" ? "" : "none";
+    }
+  }
+
+  /**
+   * Show the time series fields only for the 'time' animation source.
+   */
+  private _updateAnimationTimeVisibility(): void {
+    if (this._animationTimeField) {
+      this._animationTimeField.style.display =
+        this._state.animation.source === "time" ? "" : "none";
+    }
+  }
+
   /**
    * Disable page options that have no effect in the legacy 'fit' page mode.
    */
   private _updatePageOptionsDisabled(): void {
     const isFit = this._state.pageSize === "fit";
     if (this._orientationSelect) this._orientationSelect.disabled = isFit;
-    if (this._fitModeSelect) this._fitModeSelect.disabled = isFit;
     if (this._marginInput) this._marginInput.disabled = isFit;
     if (this._pageBackgroundInput) this._pageBackgroundInput.disabled = isFit;
+    // A fixed scale fills the content area and always renders offscreen
+    const hasScale = this._state.scale !== null;
+    if (this._fitModeSelect) this._fitModeSelect.disabled = isFit || hasScale;
+    if (this._offscreenInput) {
+      this._offscreenInput.checked = this._state.offscreen || hasScale;
+      this._offscreenInput.disabled = hasScale;
+    }
   }
 
   /**
@@ -947,7 +1789,7 @@ export class PrintControl implements IControl {
     if (this._copyBtn) {
       const format = this._state.format;
       this._copyBtn.style.display =
-        format === "pdf" || format === "svg" ? "none" : "";
+        format === "png" || format === "jpeg" ? "" : "none";
     }
   }
 
@@ -970,6 +1812,25 @@ export class PrintControl implements IControl {
    * @param canvas - The composed export canvas.
    */
   private async _exportPdf(canvas: HTMLCanvasElement): Promise<void> {
+    const pdf = await this._addPdfPage(null, canvas);
+    pdf.save(`${this._state.filename}.pdf`);
+  }
+
+  /**
+   * Add the canvas as a page of a PDF document, creating the document for the
+   * first page. Each page is sized to its canvas.
+   *
+   * @param pdf - The document to extend, or null to start a new one.
+   * @param canvas - The composed export canvas.
+   * @param geoReference - Georeferencing of the canvas, to write the page as
+   *   a GeoPDF.
+   * @returns The document holding the new page.
+   */
+  private async _addPdfPage(
+    pdf: jsPDF | null,
+    canvas: HTMLCanvasElement,
+    geoReference?: GeoReference,
+  ): Promise<jsPDF> {
     const { jsPDF } = await import("jspdf");
     const dpi = this._effectiveDpi();
     // Convert the page pixel dimensions to points (1 pt = 1/72 inch).
@@ -980,35 +1841,196 @@ export class PrintControl implements IControl {
     // flag rotate it; jsPDF normalizes array formats, so we read the resolved
     // page size back rather than assuming the dimension order is preserved.
     const orientation = widthPt >= heightPt ? "landscape" : "portrait";
-    const pdf = new jsPDF({
-      orientation,
-      unit: "pt",
-      format: [Math.min(widthPt, heightPt), Math.max(widthPt, heightPt)],
-    });
+    const format = [Math.min(widthPt, heightPt), Math.max(widthPt, heightPt)];
+    if (pdf) {
+      pdf.addPage(format, orientation);
+    } else {
+      pdf = new jsPDF({ orientation, unit: "pt", format });
+    }
 
     const pageWidth = pdf.internal.pageSize.getWidth();
     const pageHeight = pdf.internal.pageSize.getHeight();
     const imgData = canvas.toDataURL("image/png");
     pdf.addImage(imgData, "PNG", 0, 0, pageWidth, pageHeight);
-    pdf.save(`${this._state.filename}.pdf`);
+
+    if (geoReference) {
+      const { transform, mapRect } = geoReference;
+      const ptPerPx = pageWidth / canvas.width;
+      const viewport = createGeoPdfViewport(
+        [
+          mapRect.x * ptPerPx,
+          pageHeight - (mapRect.y + mapRect.h) * ptPerPx,
+          (mapRect.x + mapRect.w) * ptPerPx,
+          pageHeight - mapRect.y * ptPerPx,
+        ],
+        [
+          transform.originX + mapRect.x * transform.pixelWidth,
+          transform.originY - (mapRect.y + mapRect.h) * transform.pixelHeight,
+          transform.originX + (mapRect.x + mapRect.w) * transform.pixelWidth,
+          transform.originY - mapRect.y * transform.pixelHeight,
+        ],
+      );
+      // jsPDF has no API for page dictionary entries; write the viewport
+      // while the page object is serialized
+      const pageNumber = pdf.getNumberOfPages();
+      const internal = pdf.internal as unknown as {
+        write: (value: string) => void;
+      };
+      pdf.internal.events.subscribe(
+        "putPage",
+        (page: { pageNumber: number }) => {
+          if (page.pageNumber === pageNumber) internal.write(viewport);
+        },
+      );
+    }
+    return pdf;
   }
 
   /**
-   * Export the canvas to an SVG file. The rendered page is embedded as a
-   * base64 PNG `<image>` sized to the page dimensions. A WebGL map cannot be
-   * reconstructed as true vectors, so the map content remains raster.
+   * Export the canvas in the current georeferenced format: a GeoTIFF, a zip
+   * of a PNG with its world file and projection, or a GeoPDF.
    *
    * @param canvas - The composed export canvas.
    */
-  private _exportSvg(canvas: HTMLCanvasElement): void {
-    const pngDataUrl = canvas.toDataURL("image/png");
-    const w = canvas.width;
-    const h = canvas.height;
-    // Express the SVG size in physical inches (with a pixel viewBox) so it
-    // reports the correct page size, e.g. 11in x 8.5in for Letter landscape.
-    const dpi = this._effectiveDpi();
-    const widthIn = +(w / dpi).toFixed(4);
-    const heightIn = +(h / dpi).toFixed(4);
+  private async _exportGeoreferenced(canvas: HTMLCanvasElement): Promise<void> {
+    const geoReference = this._geoReference;
+    if (!geoReference) {
+      throw new Error("The export is not georeferenced");
+    }
+    const filename = this._state.filename;
+
+    if (this._state.format === "geopdf") {
+      const pdf = await this._addPdfPage(null, canvas, geoReference);
+      pdf.save(`${filename}.pdf`);
+      return;
+    }
+
+    if (this._state.format === "geotiff") {
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        throw new Error("Failed to read the export canvas");
+      }
+      const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const tiff = createGeoTiff(
+        canvas.width,
+        canvas.height,
+        data,
+        geoReference.transform,
+      );
+      this._downloadBlob(tiff, `${filename}.tif`);
+      return;
+    }
+
+    const blob = await new Promise<Blob | null>((resolve) => {
+      canvas.toBlob((b) => resolve(b), "image/png");
+    });
+    if (!blob) {
+      throw new Error("Failed to create image blob");
+    }
+    const png = await this._embedDpi(blob, "png");
+    const encoder = new TextEncoder();
+    const zip = createZip([
+      {
+        name: `${filename}.png`,
+        data: new Uint8Array(await png.arrayBuffer()),
+      },
+      {
+        name: `${filename}.pgw`,
+        data: encoder.encode(createWorldFile(geoReference.transform)),
+      },
+      { name: `${filename}.prj`, data: encoder.encode(EPSG_3857_WKT) },
+    ]);
+    this._downloadBlob(zip, `${filename}.zip`);
+  }
+
+  /**
+   * Refuse georeferenced exports of a rotated or tilted map, which an affine
+   * north-up transform cannot describe.
+   */
+  private _assertNorthUp(): void {
+    const map = this._map;
+    if (!map) return;
+    if (Math.abs(map.getBearing()) > 1e-6 || Math.abs(map.getPitch()) > 1e-6) {
+      throw new Error(
+        "Georeferenced export requires a north-up map: reset bearing and pitch to 0",
+      );
+    }
+  }
+
+  /**
+   * Georeference an export page: the map center sits at the center of the
+   * map destination rectangle and pixels are square in Web Mercator unless
+   * the on-screen canvas was stretched onto the page.
+   *
+   * @param layout - The export page layout.
+   * @param offscreen - Whether the map is rendered offscreen at the
+   *   destination size (and so never stretched).
+   */
+  private _getGeoReference(
+    layout: PageLayout,
+    offscreen: boolean,
+  ): GeoReference {
+    const map = this._map!;
+    const { mapDest, content } = layout;
+    const center = map.getCenter();
+    const [centerX, centerY] = lngLatToMercator(center.lng, center.lat);
+
+    let pixelWidth: number;
+    let pixelHeight: number;
+    if (this._state.scale) {
+      // Mercator meters are ground meters stretched by 1 / cos(latitude)
+      pixelWidth =
+        this._metersPerExportPixel(layout.scaleX) /
+        Math.cos((center.lat * Math.PI) / 180);
+      pixelHeight = pixelWidth;
+    } else {
+      const screen = map.getCanvas();
+      const ratio = map.getPixelRatio();
+      const metersPerCssPixel =
+        EARTH_CIRCUMFERENCE / (512 * 2 ** map.getZoom());
+      pixelWidth = ((screen.width / ratio) * metersPerCssPixel) / mapDest.w;
+      pixelHeight = offscreen
+        ? pixelWidth
+        : ((screen.height / ratio) * metersPerCssPixel) / mapDest.h;
+    }
+
+    // Cropped maps only cover the content area
+    const left = layout.clip ? Math.max(mapDest.x, content.x) : mapDest.x;
+    const top = layout.clip ? Math.max(mapDest.y, content.y) : mapDest.y;
+    const right = layout.clip
+      ? Math.min(mapDest.x + mapDest.w, content.x + content.w)
+      : mapDest.x + mapDest.w;
+    const bottom = layout.clip
+      ? Math.min(mapDest.y + mapDest.h, content.y + content.h)
+      : mapDest.y + mapDest.h;
+
+    return {
+      transform: {
+        originX: centerX - (mapDest.x + mapDest.w / 2) * pixelWidth,
+        originY: centerY + (mapDest.y + mapDest.h / 2) * pixelHeight,
+        pixelWidth,
+        pixelHeight,
+      },
+      mapRect: { x: left, y: top, w: right - left, h: bottom - top },
+    };
+  }
+
+  /**
+   * Export the canvas to an SVG file. The rendered page is embedded as a
+   * base64 PNG `<image>` sized to the page dimensions. A WebGL map cannot be
+   * reconstructed as true vectors, so the map content remains raster.
+   *
+   * @param canvas - The composed export canvas.
+   */
+  private _exportSvg(canvas: HTMLCanvasElement): void {
+    const pngDataUrl = canvas.toDataURL("image/png");
+    const w = canvas.width;
+    const h = canvas.height;
+    // Express the SVG size in physical inches (with a pixel viewBox) so it
+    // reports the correct page size, e.g. 11in x 8.5in for Letter landscape.
+    const dpi = this._effectiveDpi();
+    const widthIn = +(w / dpi).toFixed(4);
+    const heightIn = +(h / dpi).toFixed(4);
     const svg =
       `<?xml version="1.0" encoding="UTF-8"?>\n` +
       `<svg xmlns="http://www.w3.org/2000/svg" ` +
@@ -1018,33 +2040,26 @@ export class PrintControl implements IControl {
       `</svg>`;
 
     const blob = new Blob([svg], { type: "image/svg+xml" });
+    this._downloadBlob(blob, `${this._state.filename}.svg`);
+  }
+
+  /**
+   * Trigger a browser download of a blob.
+   *
+   * @param blob - The file contents.
+   * @param filename - The download file name.
+   */
+  private _downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${this._state.filename}.svg`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   }
 
-  /**
-   * Compute a PNG/zlib CRC-32 over the given bytes.
-   *
-   * @param bytes - The bytes to checksum.
-   * @returns The unsigned 32-bit CRC.
-   */
-  private _crc32(bytes: Uint8Array): number {
-    let crc = ~0;
-    for (let i = 0; i < bytes.length; i++) {
-      crc ^= bytes[i];
-      for (let k = 0; k < 8; k++) {
-        crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
-      }
-    }
-    return ~crc >>> 0;
-  }
-
   /**
    * Insert a `pHYs` chunk into a PNG so image viewers report the correct
    * physical (print) size. Canvas-generated PNGs carry no resolution metadata,
@@ -1073,7 +2088,7 @@ export class PrintControl implements IControl {
     view.setUint32(8, ppm); // X pixels per unit
     view.setUint32(12, ppm); // Y pixels per unit
     chunk[16] = 1; // unit specifier: metre
-    view.setUint32(17, this._crc32(chunk.subarray(4, 17))); // CRC over type+data
+    view.setUint32(17, crc32(chunk.subarray(4, 17))); // CRC over type+data
 
     const out = new Uint8Array(bytes.length + chunk.length);
     out.set(bytes.subarray(0, insertAt), 0);
@@ -1189,7 +2204,7 @@ export class PrintControl implements IControl {
   }
 
   /**
-   * Draw a colorbar on the export canvas.
+   * Draw the configured colorbar on the export canvas.
    */
   private _drawColorbar(
     ctx: CanvasRenderingContext2D,
@@ -1197,40 +2212,10 @@ export class PrintControl implements IControl {
     titleBarHeight: number,
   ): void {
     const config = this._state.colorbar;
-    const colormap = config.colormap ?? "viridis";
-    const vmin = config.vmin ?? 0;
-    const vmax = config.vmax ?? 1;
-    const label = config.label ?? "";
-    const units = config.units ?? "";
-    const orientation = config.orientation ?? "vertical";
     const position = config.position ?? "bottom-right";
-    const barThickness = config.barThickness ?? 20;
-    const barLength = config.barLength ?? 150;
-    const tickCount = config.tickCount ?? 5;
-
-    const isVertical = orientation === "vertical";
     const padding = 16;
-    const fontSize = 11;
-    const labelFontSize = 12;
-    const tickLength = 4;
-    // Inner padding for horizontal colorbar to prevent tick labels from being clipped
-    const horizontalInnerPadding = isVertical ? 0 : 24;
-
-    // Calculate total dimensions
-    const tickLabelWidth = 50;
-    const totalWidth = isVertical
-      ? barThickness +
-        tickLength +
-        tickLabelWidth +
-        (label ? labelFontSize + 6 : 0)
-      : barLength + horizontalInnerPadding * 2;
-    const totalHeight = isVertical
-      ? barLength + (label ? labelFontSize + 6 : 0)
-      : barThickness +
-        tickLength +
-        fontSize +
-        6 +
-        (label ? labelFontSize + 6 : 0);
+    const { width: totalWidth, height: totalHeight } =
+      this._colorbarSize(config);
 
     // Determine position (relative to the content rect)
     let x: number, y: number;
@@ -1245,6 +2230,70 @@ export class PrintControl implements IControl {
       y = content.y + content.h - totalHeight - padding;
     }
 
+    this._drawColorbarAt(ctx, config, x, y);
+  }
+
+  /**
+   * Measure a colorbar, excluding its background padding.
+   */
+  private _colorbarSize(config: PrintColorbarConfig): {
+    width: number;
+    height: number;
+  } {
+    const label = config.label ?? "";
+    const isVertical = (config.orientation ?? "vertical") === "vertical";
+    const barThickness = config.barThickness ?? 20;
+    const barLength = config.barLength ?? 150;
+    const fontSize = 11;
+    const labelFontSize = 12;
+    const tickLength = 4;
+    // Inner padding for horizontal colorbar to prevent tick labels from being clipped
+    const horizontalInnerPadding = isVertical ? 0 : 24;
+    const tickLabelWidth = 50;
+
+    return {
+      width: isVertical
+        ? barThickness +
+          tickLength +
+          tickLabelWidth +
+          (label ? labelFontSize + 6 : 0)
+        : barLength + horizontalInnerPadding * 2,
+      height: isVertical
+        ? barLength + (label ? labelFontSize + 6 : 0)
+        : barThickness +
+          tickLength +
+          fontSize +
+          6 +
+          (label ? labelFontSize + 6 : 0),
+    };
+  }
+
+  /**
+   * Draw a colorbar with its top-left corner (inside the background) at x, y.
+   */
+  private _drawColorbarAt(
+    ctx: CanvasRenderingContext2D,
+    config: PrintColorbarConfig,
+    x: number,
+    y: number,
+  ): void {
+    const colormap = config.colormap ?? "viridis";
+    const vmin = config.vmin ?? 0;
+    const vmax = config.vmax ?? 1;
+    const label = config.label ?? "";
+    const units = config.units ?? "";
+    const barThickness = config.barThickness ?? 20;
+    const barLength = config.barLength ?? 150;
+    const tickCount = config.tickCount ?? 5;
+
+    const isVertical = (config.orientation ?? "vertical") === "vertical";
+    const fontSize = 11;
+    const labelFontSize = 12;
+    const tickLength = 4;
+    const horizontalInnerPadding = isVertical ? 0 : 24;
+    const { width: totalWidth, height: totalHeight } =
+      this._colorbarSize(config);
+
     ctx.save();
 
     // Draw background
@@ -1469,6 +2518,12 @@ export class PrintControl implements IControl {
     if (this._copyBtn) {
       this._copyBtn.disabled = exporting;
     }
+    if (this._atlasBtn) {
+      this._atlasBtn.disabled = exporting;
+    }
+    if (this._animationBtn) {
+      this._animationBtn.disabled = exporting;
+    }
   }
 
   /**
@@ -1485,6 +2540,132 @@ export class PrintControl implements IControl {
     });
   }
 
+  /**
+   * Wait until the map has finished loading and rendering the current view.
+   */
+  private _waitForIdle(): Promise<void> {
+    return new Promise((resolve) => {
+      this._map!.once("idle", () => resolve());
+      this._map!.triggerRepaint();
+    });
+  }
+
+  /**
+   * Collect the pages of an atlas.
+   *
+   * @param atlas - The atlas configuration.
+   * @returns One page per bookmark or per feature with a non-empty extent.
+   */
+  private async _getAtlasPages(
+    atlas: Required<PrintAtlasOptions>,
+  ): Promise<AtlasPage[]> {
+    if (atlas.source === "bookmarks") {
+      if (!atlas.bookmarkControl) {
+        throw new Error("No BookmarkControl is connected to the atlas");
+      }
+      return atlas.bookmarkControl.getBookmarks().map((bookmark) => ({
+        name: bookmark.name,
+        properties: { ...bookmark.extra },
+        view: {
+          center: [bookmark.lng, bookmark.lat],
+          zoom: bookmark.zoom,
+          bearing: bookmark.bearing,
+          pitch: bookmark.pitch,
+        },
+        bounds: null,
+      }));
+    }
+
+    const features = await this._getLayerFeatures(
+      atlas.layerId,
+      atlas.nameProperty,
+    );
+    const pages: AtlasPage[] = [];
+    features.forEach((feature, i) => {
+      const bounds = geometryBounds(feature.geometry);
+      if (!bounds) return;
+      const properties = feature.properties ?? {};
+      const name = properties[atlas.nameProperty];
+      pages.push({
+        name:
+          name === undefined || name === null
+            ? `Feature ${i + 1}`
+            : String(name),
+        properties,
+        view: null,
+        bounds,
+      });
+    });
+    return pages;
+  }
+
+  /**
+   * Read the features of a layer's source: all of them for GeoJSON sources,
+   * the loaded ones for tiled sources.
+   *
+   * @param layerId - The layer ID.
+   * @param mergeProperty - Property identifying the tile pieces of one
+   *   feature when the tiled source has no feature IDs. When set, pieces with
+   *   neither are an error; otherwise they are kept as separate features.
+   * @returns The source features.
+   */
+  private async _getLayerFeatures(
+    layerId: string | undefined,
+    mergeProperty?: string,
+  ): Promise<GeoJSON.Feature[]> {
+    const map = this._map!;
+    const layer = layerId ? map.getLayer(layerId) : undefined;
+    if (!layer || !("source" in layer)) {
+      throw new Error(`Layer not found: ${layerId || "(none)"}`);
+    }
+
+    let features: GeoJSON.Feature[];
+    const source = map.getSource(layer.source);
+    if (source?.type === "geojson") {
+      const data = await (source as GeoJSONSource).getData();
+      features =
+        data.type === "FeatureCollection"
+          ? data.features
+          : data.type === "Feature"
+            ? [data]
+            : [];
+    } else {
+      // Tiled sources only expose loaded tiles, and a feature crossing tile
+      // boundaries comes back once per tile, so merge pieces by feature ID,
+      // or by the merge property when the source has no IDs.
+      const pieces = map.querySourceFeatures(layer.source, {
+        sourceLayer: layer.sourceLayer,
+      });
+      const merged = new Map<unknown, GeoJSON.Feature>();
+      pieces.forEach((piece, i) => {
+        const value = mergeProperty
+          ? piece.properties?.[mergeProperty]
+          : undefined;
+        const key = piece.id ?? value ?? (mergeProperty ? null : `piece-${i}`);
+        if (key === null) {
+          throw new Error(
+            `Features of layer ${layerId} have no ID or "${mergeProperty}" property; set promoteId on the source`,
+          );
+        }
+        const existing = merged.get(key);
+        const geometry = piece.geometry;
+        merged.set(key, {
+          type: "Feature",
+          id: piece.id,
+          properties: piece.properties,
+          geometry: existing
+            ? {
+                type: "GeometryCollection",
+                geometries: [existing.geometry, geometry],
+              }
+            : geometry,
+        });
+      });
+      features = Array.from(merged.values());
+    }
+    return features;
+  }
+
   /**
    * Draw a north arrow on the export canvas.
    */
@@ -1550,31 +2731,74 @@ export class PrintControl implements IControl {
     return niceFraction * 10 ** exponent;
   }
 
+  /**
+   * Ground meters covered by one CSS pixel of a Web Mercator map at a zoom
+   * level and latitude (MapLibre uses 512 px tiles).
+   */
+  private _metersPerCssPixel(zoom: number, lat: number): number {
+    return (
+      (EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) /
+      (512 * 2 ** zoom)
+    );
+  }
+
+  /**
+   * Ground meters covered by one export pixel: exact when printing at a
+   * fixed scale, otherwise derived from the on-screen map.
+   *
+   * @param scaleX - Export pixels per on-screen canvas pixel.
+   */
+  private _metersPerExportPixel(scaleX: number): number {
+    if (this._state.scale) {
+      return (this._state.scale * METERS_PER_INCH) / this._effectiveDpi();
+    }
+    const map = this._map!;
+    const perCssPixel = this._metersPerCssPixel(
+      map.getZoom(),
+      map.getCenter().lat,
+    );
+    return perCssPixel / map.getPixelRatio() / scaleX;
+  }
+
+  /**
+   * Size a scale bar: a round distance whose bar is roughly 16% of the given
+   * width.
+   *
+   * @param width - Available width in pixels.
+   * @param metersPerPixel - Ground meters per pixel.
+   * @returns The bar length in pixels and its label, or null when the scale
+   *   cannot be computed.
+   */
+  private _scaleBarSpec(
+    width: number,
+    metersPerPixel: number,
+  ): { barPx: number; label: string } | null {
+    if (!Number.isFinite(metersPerPixel) || metersPerPixel <= 0) return null;
+
+    const targetBarPx = Math.max(80, Math.min(160, width * 0.16));
+    const rawMeters = targetBarPx * metersPerPixel;
+    const niceMeters = this._niceDistance(rawMeters);
+    const barPx = Math.max(40, niceMeters / metersPerPixel);
+
+    const label =
+      niceMeters >= 1000
+        ? `${(niceMeters / 1000).toFixed(niceMeters % 1000 === 0 ? 0 : 1)} km`
+        : niceMeters >= 1
+          ? `${Math.round(niceMeters)} m`
+          : `${Math.round(niceMeters * 100)} cm`;
+    return { barPx, label };
+  }
+
   /**
    * Draw a scale bar on the export canvas.
    */
   private _drawScaleBar(
     ctx: CanvasRenderingContext2D,
     content: Rect,
-    scaleX: number,
+    metersPerPixel: number,
   ): void {
-    if (!this._map) return;
-
-    const center = this._map.getCenter();
-    const zoom = this._map.getZoom();
-
-    // Meters per pixel for Web Mercator at current latitude.
-    const metersPerPixel =
-      (156543.03392804097 * Math.cos((center.lat * Math.PI) / 180)) / 2 ** zoom;
-    if (!Number.isFinite(metersPerPixel) || metersPerPixel <= 0) return;
-
-    // Export pixels per source map pixel (uniform draw scale).
-    const pixelScale = scaleX;
-
-    const targetBarPx = Math.max(80, Math.min(160, content.w * 0.16));
-    const rawMeters = (targetBarPx / pixelScale) * metersPerPixel;
-    const niceMeters = this._niceDistance(rawMeters);
-    const barPx = Math.max(40, (niceMeters / metersPerPixel) * pixelScale);
+    const spec = this._scaleBarSpec(content.w, metersPerPixel);
+    if (!spec) return;
 
     const padding = 18;
     const barHeight = 10;
@@ -1585,6 +2809,21 @@ export class PrintControl implements IControl {
 
     const x = content.x + padding;
     const y = content.y + content.h - padding - 24;
+    this._drawScaleBarAt(ctx, x, y, spec);
+  }
+
+  /**
+   * Draw a scale bar with the bar's top-left corner at x, y. The background
+   * extends 8 pixels beyond it.
+   */
+  private _drawScaleBarAt(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    spec: { barPx: number; label: string },
+  ): void {
+    const { barPx, label } = spec;
+    const barHeight = 10;
 
     ctx.save();
 
@@ -1609,12 +2848,6 @@ export class PrintControl implements IControl {
     ctx.strokeRect(x, y, barPx, barHeight);
 
     // Label
-    const label =
-      niceMeters >= 1000
-        ? `${(niceMeters / 1000).toFixed(niceMeters % 1000 === 0 ? 0 : 1)} km`
-        : niceMeters >= 1
-          ? `${Math.round(niceMeters)} m`
-          : `${Math.round(niceMeters * 100)} cm`;
     ctx.fillStyle = "#111";
     ctx.font =
       '600 12px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
@@ -1625,6 +2858,569 @@ export class PrintControl implements IControl {
     ctx.restore();
   }
 
+  /**
+   * Draw the elements of the custom layout over the map. Elements keep their
+   * physical size at any DPI and are placed within the content area inset by
+   * a small margin. An element that cannot be drawn (e.g. an image that fails
+   * to load) is skipped.
+   *
+   * @param ctx - The export canvas context.
+   * @param content - The page content area.
+   * @param metersPerPixel - Ground meters per export pixel.
+   */
+  private async _drawLayout(
+    ctx: CanvasRenderingContext2D,
+    content: Rect,
+    metersPerPixel: number,
+  ): Promise<void> {
+    const unit = this._effectiveDpi() / 96;
+    const margin = 12 * unit;
+    const area: Rect = {
+      x: content.x + margin,
+      y: content.y + margin,
+      w: Math.max(0, content.w - margin * 2),
+      h: Math.max(0, content.h - margin * 2),
+    };
+
+    for (const element of this._state.layout?.elements ?? []) {
+      let block: LayoutBlock | null;
+      try {
+        block = await this._layoutBlock(
+          ctx,
+          element,
+          area,
+          unit,
+          metersPerPixel,
+        );
+      } catch (err) {
+        console.warn(`PrintControl: skipped ${element.type} element`, err);
+        continue;
+      }
+      if (!block) continue;
+
+      const left =
+        area.x + element.x * Math.max(0, area.w - block.width * unit);
+      const top =
+        area.y + element.y * Math.max(0, area.h - block.height * unit);
+      ctx.save();
+      ctx.translate(left, top);
+      ctx.scale(unit, unit);
+      block.draw(ctx);
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Measure a layout element and prepare its drawing.
+   *
+   * @param ctx - The export canvas context, used to measure text.
+   * @param element - The element.
+   * @param area - The area elements are placed in.
+   * @param unit - Export pixels per layout unit.
+   * @param metersPerPixel - Ground meters per export pixel.
+   * @returns The element block, or null when there is nothing to draw.
+   */
+  private async _layoutBlock(
+    ctx: CanvasRenderingContext2D,
+    element: PrintLayoutElement,
+    area: Rect,
+    unit: number,
+    metersPerPixel: number,
+  ): Promise<LayoutBlock | null> {
+    switch (element.type) {
+      case "title": {
+        const title = this._state.title.trim();
+        if (!title) return null;
+        return this._textBlock(ctx, [title], {
+          fontSize: element.fontSize ?? this._options.titleFontSize,
+          bold: true,
+          color: this._options.titleFontColor,
+          background: this._options.titleBackground,
+          width: element.width ? (element.width * area.w) / unit : undefined,
+        });
+      }
+      case "text": {
+        const text = fillTemplate(element.text ?? "", {
+          date: new Date().toLocaleDateString(),
+          title: this._state.title,
+        }).trim();
+        if (!text) return null;
+        return this._textBlock(ctx, text.split("\n"), {
+          fontSize: element.fontSize ?? 12,
+          bold: false,
+          color: element.color ?? "#333333",
+          background: element.background ?? "rgba(255,255,255,0.8)",
+          width: element.width ? (element.width * area.w) / unit : undefined,
+        });
+      }
+      case "northArrow": {
+        const size = 56;
+        const bearing = this._map?.getBearing() ?? 0;
+        return {
+          width: size,
+          height: size,
+          draw: (c) => this._drawNorthArrow(c, 0, 0, size, bearing),
+        };
+      }
+      case "scaleBar": {
+        const spec = this._scaleBarSpec(area.w / unit, metersPerPixel * unit);
+        if (!spec) return null;
+        return {
+          width: spec.barPx + 16,
+          height: 38,
+          draw: (c) => this._drawScaleBarAt(c, 8, 8, spec),
+        };
+      }
+      case "legend":
+        return this._legendBlock(ctx, this._layoutLegends());
+      case "colorbar":
+        return this._colorbarBlock(this._layoutColorbars());
+      case "inset": {
+        const width = ((element.width ?? 0.25) * area.w) / unit;
+        const height = ((element.height ?? 0.25) * area.h) / unit;
+        const inset = await this._renderInset(element, width, height, unit);
+        return {
+          width,
+          height,
+          draw: (c) => {
+            c.drawImage(inset, 0, 0, width, height);
+            c.strokeStyle = "rgba(0,0,0,0.5)";
+            c.lineWidth = 1;
+            c.strokeRect(0, 0, width, height);
+          },
+        };
+      }
+      case "image": {
+        if (!element.src) return null;
+        const image = await this._loadImage(element.src);
+        const width = ((element.width ?? 0.15) * area.w) / unit;
+        const height =
+          image.naturalWidth > 0
+            ? (width * image.naturalHeight) / image.naturalWidth
+            : width;
+        return {
+          width,
+          height,
+          draw: (c) => c.drawImage(image, 0, 0, width, height),
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Lay out lines of text in a box with an optional background.
+   */
+  private _textBlock(
+    ctx: CanvasRenderingContext2D,
+    lines: string[],
+    style: {
+      fontSize: number;
+      bold: boolean;
+      color: string;
+      background: string;
+      width?: number;
+    },
+  ): LayoutBlock {
+    const font = `${style.bold ? "bold " : ""}${style.fontSize}px ${EXPORT_FONT}`;
+    const padding = style.fontSize * 0.6;
+    const lineHeight = style.fontSize * 1.3;
+    ctx.save();
+    ctx.font = font;
+    const widths = lines.map((line) => ctx.measureText(line).width);
+    ctx.restore();
+
+    const width = style.width ?? Math.max(...widths) + padding * 2;
+    const height = lines.length * lineHeight + padding * 2;
+    return {
+      width,
+      height,
+      draw: (c) => {
+        if (style.background) {
+          c.fillStyle = style.background;
+          c.fillRect(0, 0, width, height);
+        }
+        c.fillStyle = style.color;
+        c.font = font;
+        c.textBaseline = "middle";
+        lines.forEach((line, i) => {
+          c.fillText(
+            line,
+            (width - widths[i]) / 2,
+            padding + lineHeight * (i + 0.5),
+          );
+        });
+      },
+    };
+  }
+
+  /**
+   * Lay out legend entries (title plus swatch rows) in one box.
+   */
+  private _legendBlock(
+    ctx: CanvasRenderingContext2D,
+    entries: LegendItemOptions[],
+  ): LayoutBlock | null {
+    const rows = entries.filter((e) => e.title || e.items?.length);
+    if (rows.length === 0) return null;
+
+    const padding = 8;
+    const titleSize = 12;
+    const labelSize = 11;
+    const rowHeight = 18;
+    const swatch = 12;
+    const titleFont = `600 ${titleSize}px ${EXPORT_FONT}`;
+    const labelFont = `${labelSize}px ${EXPORT_FONT}`;
+
+    let width = 0;
+    let height = 0;
+    ctx.save();
+    for (const entry of rows) {
+      if (entry.title) {
+        ctx.font = titleFont;
+        width = Math.max(width, ctx.measureText(entry.title).width);
+        height += titleSize + 6;
+      }
+      ctx.font = labelFont;
+      for (const item of entry.items ?? []) {
+        width = Math.max(width, swatch + 6 + ctx.measureText(item.label).width);
+        height += rowHeight;
+      }
+      height += padding;
+    }
+    ctx.restore();
+    width += padding * 2;
+    height += padding;
+
+    return {
+      width,
+      height,
+      draw: (c) => {
+        c.fillStyle = "rgba(255,255,255,0.9)";
+        c.strokeStyle = "rgba(0,0,0,0.2)";
+        c.lineWidth = 1;
+        c.beginPath();
+        c.roundRect(0, 0, width, height, 4);
+        c.fill();
+        c.stroke();
+
+        let y = padding;
+        c.textBaseline = "middle";
+        for (const entry of rows) {
+          if (entry.title) {
+            c.fillStyle = "#333";
+            c.font = titleFont;
+            c.fillText(entry.title, padding, y + titleSize / 2);
+            y += titleSize + 6;
+          }
+          c.font = labelFont;
+          for (const item of entry.items ?? []) {
+            const cy = y + rowHeight / 2;
+            c.fillStyle = item.color;
+            c.strokeStyle = item.strokeColor ?? "rgba(0,0,0,0.3)";
+            if (item.shape === "circle") {
+              c.beginPath();
+              c.arc(padding + swatch / 2, cy, swatch / 2, 0, Math.PI * 2);
+              c.fill();
+              c.stroke();
+            } else if (item.shape === "line") {
+              c.strokeStyle = item.color;
+              c.lineWidth = 3;
+              c.beginPath();
+              c.moveTo(padding, cy);
+              c.lineTo(padding + swatch, cy);
+              c.stroke();
+              c.lineWidth = 1;
+            } else {
+              c.fillRect(padding, cy - swatch / 2, swatch, swatch);
+              c.strokeRect(padding, cy - swatch / 2, swatch, swatch);
+            }
+            c.fillStyle = "#333";
+            c.fillText(item.label, padding + swatch + 6, cy);
+            y += rowHeight;
+          }
+          y += padding;
+        }
+      },
+    };
+  }
+
+  /**
+   * Stack colorbars vertically, each in its own box.
+   */
+  private _colorbarBlock(configs: PrintColorbarConfig[]): LayoutBlock | null {
+    if (configs.length === 0) return null;
+    const bgPadding = 8;
+    const gap = 8;
+    const sizes = configs.map((config) => this._colorbarSize(config));
+    const width = Math.max(...sizes.map((size) => size.width)) + bgPadding * 2;
+    const height =
+      sizes.reduce((sum, size) => sum + size.height + bgPadding * 2, 0) +
+      gap * (configs.length - 1);
+
+    return {
+      width,
+      height,
+      draw: (c) => {
+        let y = 0;
+        configs.forEach((config, i) => {
+          this._drawColorbarAt(c, config, bgPadding, y + bgPadding);
+          y += sizes[i].height + bgPadding * 2 + gap;
+        });
+      },
+    };
+  }
+
+  /**
+   * Legend entries of the visible `legendControls`.
+   */
+  private _layoutLegends(): LegendItemOptions[] {
+    return this._options.legendControls
+      .filter((legend) => legend.getState().visible)
+      .flatMap((legend) => legend.getLegends())
+      .filter((entry) => entry.visible !== false);
+  }
+
+  /**
+   * Colorbars of the visible `colorbarControls`, followed by the control's
+   * own colorbar when enabled.
+   */
+  private _layoutColorbars(): PrintColorbarConfig[] {
+    const configs: PrintColorbarConfig[] = this._options.colorbarControls
+      .filter((colorbar) => colorbar.getState().visible)
+      .flatMap((colorbar) => colorbar.getColorbars())
+      .filter((entry) => entry.visible !== false)
+      .map((entry) => ({
+        colormap: entry.colorStops?.length
+          ? entry.colorStops.map((stop) => stop.color)
+          : entry.colormap,
+        vmin: entry.vmin,
+        vmax: entry.vmax,
+        label: entry.label,
+        units: entry.units,
+        orientation: entry.orientation,
+        barThickness: entry.barThickness,
+        barLength: entry.barLength,
+        tickCount: entry.ticks?.count,
+      }));
+    if (this._state.colorbar.enabled) {
+      configs.push(this._state.colorbar);
+    }
+    return configs;
+  }
+
+  /**
+   * Render an overview map around the current view, outlining the view
+   * extent like MinimapControl does.
+   *
+   * @param element - The inset element (style and zoom offset).
+   * @param width - Inset width in layout units.
+   * @param height - Inset height in layout units.
+   * @param pixelRatio - Export pixels per layout unit.
+   * @returns A canvas holding the rendered inset.
+   */
+  private _renderInset(
+    element: PrintLayoutElement,
+    width: number,
+    height: number,
+    pixelRatio: number,
+  ): Promise<HTMLCanvasElement> {
+    const map = this._map!;
+    const bounds = map.getBounds();
+    return this._renderOffscreen({
+      style: element.style || INSET_STYLE,
+      width,
+      height,
+      pixelRatio,
+      center: map.getCenter().toArray(),
+      zoom: Math.max(0, map.getZoom() + (element.zoomOffset ?? -5)),
+      onLoad: (inset) => {
+        inset.addSource("print-inset-view", {
+          type: "geojson",
+          data: {
+            type: "Feature",
+            properties: {},
+            geometry: {
+              type: "Polygon",
+              coordinates: [
+                [
+                  bounds.getSouthWest().toArray(),
+                  bounds.getSouthEast().toArray(),
+                  bounds.getNorthEast().toArray(),
+                  bounds.getNorthWest().toArray(),
+                  bounds.getSouthWest().toArray(),
+                ],
+              ],
+            },
+          },
+        });
+        inset.addLayer({
+          id: "print-inset-view-fill",
+          type: "fill",
+          source: "print-inset-view",
+          paint: { "fill-color": "#0078d7", "fill-opacity": 0.2 },
+        });
+        inset.addLayer({
+          id: "print-inset-view-line",
+          type: "line",
+          source: "print-inset-view",
+          paint: { "line-color": "#0078d7", "line-width": 2 },
+        });
+      },
+    });
+  }
+
+  /**
+   * Render the current view into an offscreen map sized to the destination
+   * rectangle, so tiles and labels are drawn at the export resolution
+   * instead of being scaled up from the on-screen canvas. When printing at a
+   * fixed scale the zoom is derived from the scale and DPI; otherwise it is
+   * adjusted so the offscreen map shows the same extent as the screen.
+   *
+   * @param dest - Destination rectangle in export pixels.
+   * @returns A canvas of (about) the destination size.
+   */
+  private _renderMapOffscreen(dest: Rect): Promise<HTMLCanvasElement> {
+    const map = this._map!;
+    const pixelRatio = this._effectiveDpi() / 96;
+    const width = Math.max(1, Math.round(dest.w / pixelRatio));
+    const height = Math.max(1, Math.round(dest.h / pixelRatio));
+    const center = map.getCenter();
+
+    return this._renderOffscreen({
+      style: map.getStyle(),
+      width,
+      height,
+      pixelRatio,
+      center: center.toArray(),
+      zoom: this._offscreenZoom(width),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+      // Images added at runtime are not part of the style; copy them over
+      // on demand.
+      onLoad: (offscreen) => {
+        offscreen.on("styleimagemissing", (e: { id: string }) => {
+          const image = map.getImage(e.id);
+          if (!image || offscreen.hasImage(e.id)) return;
+          offscreen.addImage(
+            e.id,
+            {
+              width: image.data.width,
+              height: image.data.height,
+              data: image.data.data,
+            },
+            { pixelRatio: image.pixelRatio, sdf: image.sdf },
+          );
+        });
+      },
+    });
+  }
+
+  /**
+   * Zoom level of the offscreen export map.
+   *
+   * @param width - Offscreen map width in CSS pixels.
+   */
+  private _offscreenZoom(width: number): number {
+    const map = this._map!;
+    if (this._state.scale) {
+      // At 1:S, one CSS pixel (1/96 inch on paper) covers S/96 inches.
+      const metersPerCssPixel = (this._state.scale * METERS_PER_INCH) / 96;
+      const lat = map.getCenter().lat;
+      return Math.log2(
+        (EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) /
+          (512 * metersPerCssPixel),
+      );
+    }
+    const screenWidth = map.getCanvas().width / map.getPixelRatio();
+    return map.getZoom() + Math.log2(width / screenWidth);
+  }
+
+  /**
+   * Render a map in a hidden container and copy its canvas once everything
+   * has loaded. The map is removed afterwards.
+   *
+   * @param options - Style, size and camera of the map, plus an optional
+   *   callback to add sources and layers once the style has loaded.
+   * @returns A canvas holding the rendered map.
+   */
+  private async _renderOffscreen(options: {
+    style: StyleSpecification | string;
+    width: number;
+    height: number;
+    pixelRatio: number;
+    center: [number, number];
+    zoom: number;
+    bearing?: number;
+    pitch?: number;
+    onLoad?: (map: MapLibreMap) => void;
+  }): Promise<HTMLCanvasElement> {
+    const { width, height } = options;
+    const container = document.createElement("div");
+    container.style.cssText = `position:absolute;left:-100000px;top:0;width:${width}px;height:${height}px;`;
+    document.body.appendChild(container);
+
+    const offscreen = new MapLibreMap({
+      container,
+      style: options.style,
+      center: options.center,
+      zoom: options.zoom,
+      bearing: options.bearing ?? 0,
+      pitch: options.pitch ?? 0,
+      interactive: false,
+      attributionControl: false,
+      pixelRatio: options.pixelRatio,
+      maxCanvasSize: [MAX_EXPORT_CANVAS_SIZE, MAX_EXPORT_CANVAS_SIZE],
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new Error("Offscreen map timed out")),
+          OFFSCREEN_TIMEOUT_MS,
+        );
+        offscreen.once("load", () => {
+          options.onLoad?.(offscreen);
+          offscreen.once("idle", () => {
+            clearTimeout(timer);
+            resolve();
+          });
+        });
+      });
+
+      // Copy the WebGL canvas during a render, as for the main map
+      return await new Promise<HTMLCanvasElement>((resolve) => {
+        offscreen.once("render", () => {
+          const source = offscreen.getCanvas();
+          const copy = document.createElement("canvas");
+          copy.width = source.width;
+          copy.height = source.height;
+          copy.getContext("2d")?.drawImage(source, 0, 0);
+          resolve(copy);
+        });
+        offscreen.triggerRepaint();
+      });
+    } finally {
+      offscreen.remove();
+      container.remove();
+    }
+  }
+
+  /**
+   * Load an image for drawing on the export canvas.
+   */
+  private _loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      // Without CORS the image would taint the canvas and block the export
+      image.crossOrigin = "anonymous";
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+      image.src = src;
+    });
+  }
+
   /**
    * Compute the export page layout (pixel dimensions, content rect, and the
    * destination rectangle the map is drawn into) for the current state.
@@ -1711,9 +3507,23 @@ export class PrintControl implements IControl {
     if (!this._map) return null;
 
     try {
-      const mapCanvas = await this._captureMapCanvas();
-      const layout = this._getPageLayout(mapCanvas);
+      // Offscreen rendering only needs the on-screen canvas for its size
+      const offscreen = this._state.offscreen || this._state.scale !== null;
+      const screenCanvas = offscreen
+        ? this._map.getCanvas()
+        : await this._captureMapCanvas();
+      const layout = this._getPageLayout(screenCanvas);
+      if (this._state.scale) {
+        // The scale sets the extent, so the map fills the content area
+        layout.mapDest = { ...layout.content };
+        layout.clip = false;
+      }
       const { pageW, pageH, content, mapDest } = layout;
+      const mapCanvas = offscreen
+        ? await this._renderMapOffscreen(mapDest)
+        : screenCanvas;
+      const metersPerPixel = this._metersPerExportPixel(layout.scaleX);
+      this._geoReference = this._getGeoReference(layout, offscreen);
 
       const exportCanvas = document.createElement("canvas");
       exportCanvas.width = pageW;
@@ -1738,6 +3548,12 @@ export class PrintControl implements IControl {
       ctx.drawImage(mapCanvas, mapDest.x, mapDest.y, mapDest.w, mapDest.h);
       ctx.restore();
 
+      // A custom layout places every overlay itself.
+      if (this._state.layout) {
+        await this._drawLayout(ctx, content, metersPerPixel);
+        return exportCanvas;
+      }
+
       // Draw title overlay if set (spans the content area).
       const title = this._state.title.trim();
       let titleBarHeight = 0;
@@ -1776,7 +3592,7 @@ export class PrintControl implements IControl {
       }
 
       if (this._state.includeScaleBar) {
-        this._drawScaleBar(ctx, content, layout.scaleX);
+        this._drawScaleBar(ctx, content, metersPerPixel);
       }
 
       if (this._state.colorbar.enabled) {
@@ -1800,6 +3616,9 @@ export class PrintControl implements IControl {
     this._setExporting(true);
 
     try {
+      const georeferenced = GEO_FORMATS.includes(this._state.format);
+      if (georeferenced) this._assertNorthUp();
+
       const canvas = await this._createExportCanvas();
       if (!canvas) {
         this._showFeedback("Export failed");
@@ -1807,7 +3626,11 @@ export class PrintControl implements IControl {
         return;
       }
 
-      if (this._state.format === "pdf") {
+      if (georeferenced) {
+        await this._exportGeoreferenced(canvas);
+        this._showFeedback("Exported!");
+        this._emit("export");
+      } else if (this._state.format === "pdf") {
         await this._exportPdf(canvas);
         this._showFeedback("Exported!");
         this._emit("export");
@@ -1839,15 +3662,7 @@ export class PrintControl implements IControl {
           this._state.format === "jpeg" ? "jpeg" : "png",
         );
 
-        // Trigger download
-        const url = URL.createObjectURL(outBlob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `${this._state.filename}.${ext}`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        this._downloadBlob(outBlob, `${this._state.filename}.${ext}`);
 
         // Emit the same DPI-patched image that was downloaded.
         const dataUrl = await this._blobToDataUrl(outBlob);
@@ -2039,6 +3854,34 @@ export class PrintControl implements IControl {
     return this;
   }
 
+  /**
+   * Print at a fixed scale, e.g. `setScale(25000)` for 1:25,000. The zoom is
+   * derived from the page size and DPI and the export is rendered offscreen.
+   *
+   * @param scale - The scale denominator, or null to follow the on-screen view.
+   */
+  setScale(scale: number | null): this {
+    this._state.scale = scale && scale > 0 ? scale : null;
+    if (this._scaleInput) {
+      this._scaleInput.value = this._state.scale
+        ? String(this._state.scale)
+        : "";
+    }
+    this._updatePageOptionsDisabled();
+    this._emit("update");
+    return this;
+  }
+
+  /**
+   * Enable or disable offscreen rendering at the full export resolution.
+   */
+  setOffscreen(offscreen: boolean): this {
+    this._state.offscreen = offscreen;
+    this._updatePageOptionsDisabled();
+    this._emit("update");
+    return this;
+  }
+
   /**
    * Export the map programmatically and return a data URL.
    */
@@ -2058,6 +3901,8 @@ export class PrintControl implements IControl {
     margin?: number;
     pageBackground?: string;
     fitMode?: PrintFitMode;
+    offscreen?: boolean;
+    scale?: number | null;
   }): Promise<string> {
     // Apply temporary overrides
     const prevState = { ...this._state, colorbar: { ...this._state.colorbar } };
@@ -2084,13 +3929,26 @@ export class PrintControl implements IControl {
       this._state.pageBackground = options.pageBackground;
     }
     if (options?.fitMode) this._state.fitMode = options.fitMode;
+    if (options?.offscreen !== undefined) {
+      this._state.offscreen = options.offscreen;
+    }
+    if (options?.scale !== undefined) this._state.scale = options.scale;
 
     try {
+      const georeferenced = GEO_FORMATS.includes(this._state.format);
+      if (georeferenced) this._assertNorthUp();
+
       const canvas = await this._createExportCanvas();
       if (!canvas) {
         throw new Error("Failed to capture map canvas");
       }
 
+      if (georeferenced) {
+        await this._exportGeoreferenced(canvas);
+        this._emit("export");
+        return "";
+      }
+
       if (this._state.format === "pdf") {
         await this._exportPdf(canvas);
         this._emit("export");
@@ -2138,7 +3996,479 @@ export class PrintControl implements IControl {
       this._state.margin = prevState.margin;
       this._state.pageBackground = prevState.pageBackground;
       this._state.fitMode = prevState.fitMode;
+      this._state.offscreen = prevState.offscreen;
+      this._state.scale = prevState.scale;
+    }
+  }
+
+  /**
+   * Get a copy of the current page layout.
+   *
+   * @returns The layout, or null when the fixed layout is used.
+   */
+  getLayout(): PrintLayout | null {
+    return this._state.layout ? clonePrintLayout(this._state.layout) : null;
+  }
+
+  /**
+   * Set the page layout. Pass null to return to the fixed layout driven by
+   * the title, north arrow, scale bar and colorbar settings.
+   *
+   * @param layout - The layout to use.
+   * @returns This control instance for chaining.
+   */
+  setLayout(layout: PrintLayout | null): this {
+    this._state.layout = layout ? clonePrintLayout(layout) : null;
+    this._renderLayoutComposer();
+    this._emit("update");
+    return this;
+  }
+
+  /**
+   * Add an element to the page layout, starting from the default layout if
+   * none is set.
+   *
+   * @param element - The element. An ID is generated when omitted.
+   * @returns The element ID.
+   */
+  addLayoutElement(
+    element: Omit<PrintLayoutElement, "id"> & { id?: string },
+  ): string {
+    if (!this._state.layout) {
+      this._state.layout = clonePrintLayout(DEFAULT_PRINT_LAYOUT);
+    }
+    const id = element.id ?? generateId("print-element");
+    this._state.layout.elements.push({ ...element, id });
+    this._renderLayoutComposer();
+    this._emit("update");
+    return id;
+  }
+
+  /**
+   * Update an element of the page layout.
+   *
+   * @param id - The element ID.
+   * @param changes - Properties to change.
+   * @returns This control instance for chaining.
+   */
+  updateLayoutElement(
+    id: string,
+    changes: Partial<Omit<PrintLayoutElement, "id">>,
+  ): this {
+    const element = this._state.layout?.elements.find((el) => el.id === id);
+    if (element) {
+      Object.assign(element, changes);
+      this._renderLayoutComposer();
+      this._emit("update");
+    }
+    return this;
+  }
+
+  /**
+   * Remove an element from the page layout.
+   *
+   * @param id - The element ID.
+   * @returns This control instance for chaining.
+   */
+  removeLayoutElement(id: string): this {
+    if (!this._state.layout) return this;
+    this._state.layout.elements = this._state.layout.elements.filter(
+      (el) => el.id !== id,
+    );
+    this._renderLayoutComposer();
+    this._emit("update");
+    return this;
+  }
+
+  /**
+   * Save the page layout as a JSON template.
+   *
+   * @returns The template, or an empty string when no layout is set.
+   */
+  exportLayoutTemplate(): string {
+    return this._state.layout ? serializePrintLayout(this._state.layout) : "";
+  }
+
+  /**
+   * Load a JSON layout template and make it the page layout.
+   *
+   * @param template - Template JSON or an already parsed layout.
+   * @returns This control instance for chaining.
+   * @throws If the template is invalid.
+   */
+  loadLayoutTemplate(template: string | PrintLayout): this {
+    return this.setLayout(parsePrintLayout(template));
+  }
+
+  /**
+   * Update the atlas configuration.
+   *
+   * @param options - Atlas settings to merge into the current ones.
+   * @returns This control instance for chaining.
+   */
+  setAtlas(options: PrintAtlasOptions): this {
+    Object.assign(this._state.atlas, options);
+    if (this._panel) {
+      // Rebuild the panel so the atlas fields reflect the new settings
+      this._hidePanel();
+      this._showPanel();
+    }
+    this._emit("update");
+    return this;
+  }
+
+  /**
+   * Export an atlas: one page per bookmark or per layer feature, each with
+   * the title template filled in and the configured north arrow, scale bar
+   * and colorbar. The pages are combined into a single PDF or a zip of images
+   * (PNG, or JPEG when the format is 'jpeg'), which is downloaded and
+   * returned. The camera and title are restored afterwards.
+   *
+   * @param options - Atlas settings overriding the current ones.
+   * @returns The PDF or zip file.
+   */
+  async exportAtlas(options?: PrintAtlasOptions): Promise<Blob> {
+    if (!this._map) {
+      throw new Error("PrintControl is not added to a map");
+    }
+    if (this._state.exporting) {
+      throw new Error("An export is already in progress");
+    }
+    const map = this._map;
+    const atlas = {
+      ...DEFAULT_ATLAS,
+      ...this._state.atlas,
+      ...options,
+    } as Required<PrintAtlasOptions>;
+
+    const camera = {
+      center: map.getCenter(),
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+    };
+    const prevTitle = this._state.title;
+    this._setExporting(true);
+
+    try {
+      const pages = await this._getAtlasPages(atlas);
+      if (pages.length === 0) {
+        throw new Error("The atlas has no pages");
+      }
+
+      const imageFormat = this._state.format === "jpeg" ? "jpeg" : "png";
+      const entries: ZipEntry[] = [];
+      let pdf: jsPDF | null = null;
+
+      for (let i = 0; i < pages.length; i++) {
+        const page = pages[i];
+        if (page.view) {
+          map.jumpTo(page.view);
+        } else if (page.bounds) {
+          map.fitBounds(page.bounds, {
+            padding: atlas.padding,
+            maxZoom: atlas.maxZoom,
+            animate: false,
+          });
+        }
+        await this._waitForIdle();
+
+        this._state.title = fillTemplate(atlas.titleTemplate, {
+          ...page.properties,
+          name: page.name,
+          index: i + 1,
+          count: pages.length,
+        });
+        const canvas = await this._createExportCanvas();
+        if (!canvas) {
+          throw new Error("Failed to capture map canvas");
+        }
+
+        if (atlas.output === "pdf") {
+          pdf = await this._addPdfPage(pdf, canvas);
+        } else {
+          const blob = await new Promise<Blob | null>((resolve) => {
+            canvas.toBlob(
+              (b) => resolve(b),
+              `image/${imageFormat}`,
+              imageFormat === "jpeg" ? this._state.quality : undefined,
+            );
+          });
+          if (!blob) {
+            throw new Error("Failed to create image blob");
+          }
+          const outBlob = await this._embedDpi(blob, imageFormat);
+          const ext = imageFormat === "jpeg" ? "jpg" : "png";
+          entries.push({
+            name: `${String(i + 1).padStart(3, "0")}-${slugify(page.name)}.${ext}`,
+            data: new Uint8Array(await outBlob.arrayBuffer()),
+          });
+        }
+
+        this._showFeedback(`Page ${i + 1} of ${pages.length}`);
+        this._emit("atlaspage", { page: i + 1, pageCount: pages.length });
+      }
+
+      const file =
+        atlas.output === "pdf" ? pdf!.output("blob") : createZip(entries);
+      this._downloadBlob(file, `${this._state.filename}.${atlas.output}`);
+      this._showFeedback("Exported!");
+      this._emit("export");
+      return file;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Export failed";
+      this._showFeedback("Export failed");
+      this._emit("error", { error: errorMsg });
+      throw err;
+    } finally {
+      this._state.title = prevTitle;
+      map.jumpTo(camera);
+      this._setExporting(false);
+    }
+  }
+
+  /**
+   * Update the animation settings.
+   *
+   * @param options - Animation settings to merge into the current ones.
+   * @returns This control instance for chaining.
+   */
+  setAnimation(options: PrintAnimationOptions): this {
+    Object.assign(this._state.animation, options);
+    if (this._panel) {
+      // Rebuild the panel so the animation fields reflect the new settings
+      this._hidePanel();
+      this._showPanel();
+    }
+    this._emit("update");
+    return this;
+  }
+
+  /**
+   * Export an animation: frames recorded while the camera flies through the
+   * bookmarks, the globe spins or a layer steps through time, each composed
+   * like a regular export with the title, north arrow, scale bar and
+   * colorbar. The frames are encoded as an animated GIF or a WebM video,
+   * which is downloaded and returned. The camera, title, layer filter and
+   * globe spin are restored afterwards.
+   *
+   * @param options - Animation settings overriding the current ones.
+   * @returns The GIF or WebM file.
+   */
+  async exportAnimation(options?: PrintAnimationOptions): Promise<Blob> {
+    if (!this._map) {
+      throw new Error("PrintControl is not added to a map");
+    }
+    if (this._state.exporting) {
+      throw new Error("An export is already in progress");
+    }
+    const map = this._map;
+    const animation = {
+      ...DEFAULT_ANIMATION,
+      ...this._state.animation,
+      ...options,
+    } as Required<PrintAnimationOptions>;
+
+    const camera = {
+      center: map.getCenter(),
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+    };
+    const prevTitle = this._state.title;
+    const spin = animation.spinGlobeControl;
+    const wasSpinning = spin?.isSpinning() ?? false;
+    let restoreFilter: (() => void) | null = null;
+    this._setExporting(true);
+
+    try {
+      const fps = Math.max(1, Math.min(60, animation.fps));
+      const frameCount = Math.max(1, Math.round(fps * animation.duration));
+      const steps = await this._getAnimationSteps(animation, fps, frameCount);
+
+      // Frames are rendered one by one, so the control's own animation
+      // would fight the recorded camera
+      if (wasSpinning) spin!.stopSpin();
+      const time = animation.source === "time" ? animation.time : null;
+      const baseFilter = time ? map.getFilter(time.layerId) : undefined;
+      if (time) {
+        restoreFilter = () => map.setFilter(time.layerId, baseFilter ?? null);
+      }
+
+      let gif: GifEncoder | null = null;
+      let webm: WebmEncoder | null = null;
+      for (let i = 0; i < steps.length; i++) {
+        const step = steps[i];
+        if (step.view) {
+          map.jumpTo(step.view);
+        }
+        if (step.time !== undefined && time) {
+          const match = ["==", ["get", time.property], step.time];
+          map.setFilter(
+            time.layerId,
+            (baseFilter
+              ? ["all", baseFilter, match]
+              : match) as FilterSpecification,
+          );
+        }
+        await this._waitForIdle();
+
+        this._state.title = fillTemplate(animation.titleTemplate, {
+          title: prevTitle,
+          frame: i + 1,
+          count: steps.length,
+          name: step.name,
+          time: step.time,
+        });
+        const canvas = await this._createExportCanvas();
+        if (!canvas) {
+          throw new Error("Failed to capture map canvas");
+        }
+
+        // Encode right away so only one frame is held in memory
+        if (animation.format === "gif") {
+          const ctx = canvas.getContext("2d");
+          if (!ctx) {
+            throw new Error("Failed to read the export canvas");
+          }
+          gif ??= new GifEncoder(canvas.width, canvas.height, {
+            delay: 1000 / fps,
+          });
+          gif.addFrame(
+            ctx.getImageData(0, 0, canvas.width, canvas.height).data,
+          );
+        } else {
+          webm ??= new WebmEncoder(canvas.width, canvas.height, { fps });
+          await webm.addFrame(canvas);
+        }
+
+        this._showFeedback(`Frame ${i + 1} of ${steps.length}`);
+        this._emit("animationframe", {
+          frame: i + 1,
+          frameCount: steps.length,
+        });
+      }
+
+      const file = gif ? gif.finish() : await webm!.finish();
+      this._downloadBlob(file, `${this._state.filename}.${animation.format}`);
+      this._showFeedback("Exported!");
+      this._emit("export");
+      return file;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Export failed";
+      this._showFeedback("Export failed");
+      this._emit("error", { error: errorMsg });
+      throw err;
+    } finally {
+      this._state.title = prevTitle;
+      restoreFilter?.();
+      map.jumpTo(camera);
+      if (wasSpinning) spin!.startSpin();
+      this._setExporting(false);
+    }
+  }
+
+  /**
+   * Compute the camera and time step of every animation frame.
+   *
+   * @param animation - The animation configuration.
+   * @param fps - Frames per second.
+   * @param frameCount - Number of frames.
+   * @returns One step per frame.
+   */
+  private async _getAnimationSteps(
+    animation: Required<PrintAnimationOptions>,
+    fps: number,
+    frameCount: number,
+  ): Promise<AnimationStep[]> {
+    const map = this._map!;
+    const steps: AnimationStep[] = [];
+
+    if (animation.source === "spin") {
+      const speed =
+        animation.spinGlobeControl?.getState().speed ?? animation.spinSpeed;
+      const center = map.getCenter();
+      for (let i = 0; i < frameCount; i++) {
+        steps.push({
+          view: {
+            // Westward, like SpinGlobeControl
+            center: [center.lng - (speed * i) / fps, center.lat],
+            zoom: map.getZoom(),
+            bearing: map.getBearing(),
+            pitch: map.getPitch(),
+          },
+        });
+      }
+      return steps;
+    }
+
+    if (animation.source === "time") {
+      const time = animation.time;
+      if (!time?.layerId || !time.property) {
+        throw new Error("No time series layer and property are configured");
+      }
+      let values = time.values;
+      if (!values?.length) {
+        const features = await this._getLayerFeatures(time.layerId);
+        const distinct = new Set<string | number>();
+        for (const feature of features) {
+          const value = feature.properties?.[time.property];
+          if (typeof value === "string" || typeof value === "number") {
+            distinct.add(value);
+          }
+        }
+        values = Array.from(distinct).sort((a, b) =>
+          typeof a === "number" && typeof b === "number"
+            ? a - b
+            : String(a).localeCompare(String(b)),
+        );
+      }
+      if (values.length === 0) {
+        throw new Error(`No time steps found in "${time.property}"`);
+      }
+      // Spread the steps evenly over the duration
+      for (let i = 0; i < frameCount; i++) {
+        steps.push({
+          time: values[Math.floor((i * values.length) / frameCount)],
+        });
+      }
+      return steps;
+    }
+
+    if (!animation.bookmarkControl) {
+      throw new Error("No BookmarkControl is connected to the animation");
+    }
+    const bookmarks = animation.bookmarkControl.getBookmarks();
+    if (bookmarks.length < 2) {
+      throw new Error("A bookmark tour needs at least two bookmarks");
+    }
+    // Shortest way around for longitudes and bearings
+    const turn = (from: number, to: number) =>
+      ((((to - from) % 360) + 540) % 360) - 180;
+    const ease = (t: number) =>
+      t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+    for (let i = 0; i < frameCount; i++) {
+      const position =
+        frameCount > 1 ? (i / (frameCount - 1)) * (bookmarks.length - 1) : 0;
+      const segment = Math.min(Math.floor(position), bookmarks.length - 2);
+      const t = ease(position - segment);
+      const from = bookmarks[segment];
+      const to = bookmarks[segment + 1];
+      steps.push({
+        view: {
+          center: [
+            from.lng + turn(from.lng, to.lng) * t,
+            from.lat + (to.lat - from.lat) * t,
+          ],
+          zoom: from.zoom + (to.zoom - from.zoom) * t,
+          bearing: from.bearing + turn(from.bearing, to.bearing) * t,
+          pitch: from.pitch + (to.pitch - from.pitch) * t,
+        },
+        name: t < 1 ? to.name : from.name,
+      });
     }
+    return steps;
   }
 
   /**
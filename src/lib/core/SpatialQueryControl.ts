@@ -0,0 +1,938 @@
+import "../styles/common.css";
+import "../styles/spatial-query.css";
+import type {
+  ControlPosition,
+  FilterSpecification,
+  GeoJSONSource,
+  IControl,
+  Map as MapLibreMap,
+} from "maplibre-gl";
+import type {
+  SpatialQueryControlOptions,
+  SpatialQueryControlState,
+  SpatialQueryEvent,
+  SpatialQueryEventHandler,
+  SpatialQueryLayerInfo,
+} from "./types";
+import type { SpatialQueryResult } from "../converters/types";
+
+/**
+ * Default options for the SpatialQueryControl.
+ */
+const DEFAULT_OPTIONS: Required<SpatialQueryControlOptions> = {
+  position: "top-right",
+  className: "",
+  visible: true,
+  collapsed: true,
+  defaultQuery: "",
+  viewStateControl: null,
+  resultColor: "#e6550d",
+  maxTableRows: 500,
+  fitBounds: true,
+  panelWidth: 420,
+  minzoom: 0,
+  maxzoom: 24,
+};
+
+/**
+ * Source ID prefixes of helper sources that are never offered as tables.
+ */
+const HELPER_SOURCE_PREFIXES = [
+  "inspect-highlight-",
+  "attribute-table-highlight-",
+];
+
+/**
+ * SVG icon for the query button (a database cylinder).
+ */
+const QUERY_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><ellipse cx="12" cy="5" rx="9" ry="3"/><path d="M3 5v14c0 1.66 4 3 9 3s9-1.34 9-3V5"/><path d="M3 12c0 1.66 4 3 9 3s9-1.34 9-3"/></svg>`;
+
+/**
+ * Example shown in the empty SQL editor.
+ */
+const QUERY_PLACEHOLDER = `SELECT name, ST_Buffer(geom, 0.01) AS geom
+FROM my_layer
+WHERE ST_Intersects(geom, $bbox)`;
+
+/**
+ * Converts a map source ID to the table name it is queried by, e.g.
+ * `vector-dataset-1` becomes `vector_dataset_1`. Source IDs that only differ
+ * in other characters give the same name; the control numbers the later ones.
+ *
+ * @param sourceId - The map source ID.
+ * @returns A bare SQL identifier.
+ */
+export function toTableName(sourceId: string): string {
+  const name = sourceId.replace(/[^A-Za-z0-9_]/g, "_");
+  return /^[0-9]/.test(name) ? `t_${name}` : name;
+}
+
+/**
+ * Matches the `$bbox` and `$view` parameters, and the quoted strings,
+ * identifiers and comments they are not replaced in.
+ */
+const QUERY_PARAMETER_PATTERN =
+  /'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\/|\$(bbox|view)\b/gi;
+
+/**
+ * Replaces the `$bbox` and `$view` query parameters with envelope geometries.
+ * Text in string literals, quoted identifiers and comments is left as is.
+ *
+ * @param sql - The SQL to substitute into.
+ * @param params - The drawn bbox and the current view bounds, as
+ *   [west, south, east, north].
+ * @returns The SQL with parameters replaced.
+ * @throws If `$bbox` is used but no bbox has been drawn.
+ */
+export function substituteQueryParameters(
+  sql: string,
+  params: {
+    bbox?: [number, number, number, number] | null;
+    view?: [number, number, number, number] | null;
+  },
+): string {
+  const envelope = (b: [number, number, number, number]) =>
+    `ST_MakeEnvelope(${b.join(", ")})`;
+
+  return sql.replace(
+    QUERY_PARAMETER_PATTERN,
+    (match, name: string | undefined) => {
+      if (!name) return match;
+      const bounds = name.toLowerCase() === "bbox" ? params.bbox : params.view;
+      if (!bounds) {
+        throw new Error(
+          name.toLowerCase() === "bbox"
+            ? "Draw a bounding box with the view state control to use $bbox"
+            : "The current view is unavailable for $view",
+        );
+      }
+      return envelope(bounds);
+    },
+  );
+}
+
+/**
+ * A SQL console that runs DuckDB spatial queries against the vector data on
+ * the map and against registered files.
+ *
+ * Every GeoJSON source on the map (such as the layers added by
+ * VectorDatasetControl, AddVectorControl and ChoroplethControl) can be queried
+ * as a table named after its source ID; a source is loaded into DuckDB when a
+ * query mentions it. `$bbox` stands for the box drawn with a linked
+ * ViewStateControl and `$view` for the current map view. Results with a
+ * geometry column are added to the map as a new layer, and every result is
+ * listed in a table below the editor.
+ *
+ * @example
+ * ```typescript
+ * const viewState = new ViewStateControl({ enableBBox: true });
+ * const query = new SpatialQueryControl({ viewStateControl: viewState });
+ * map.addControl(viewState, 'bottom-left');
+ * map.addControl(query, 'top-right');
+ *
+ * await query.runQuery(
+ *   'SELECT * FROM counties WHERE ST_Intersects(geom, $bbox)',
+ * );
+ * ```
+ */
+export class SpatialQueryControl implements IControl {
+  private _container?: HTMLElement;
+  private _button?: HTMLButtonElement;
+  private _panel?: HTMLElement;
+  private _options: Required<SpatialQueryControlOptions>;
+  private _state: SpatialQueryControlState;
+  private _eventHandlers: Map<
+    SpatialQueryEvent,
+    Set<SpatialQueryEventHandler>
+  > = new Map();
+  private _map?: MapLibreMap;
+  private _handleZoom?: () => void;
+  private _zoomVisible: boolean = true;
+  private _resultCounter = 0;
+  private _sql: string;
+  private _lastResult: SpatialQueryResult | null = null;
+  /** Files registered with the DuckDB converter, refreshed on each use. */
+  private _registeredFiles: string[] = [];
+
+  // DOM elements
+  private _editor?: HTMLTextAreaElement;
+  private _tablesEl?: HTMLElement;
+  private _statusEl?: HTMLElement;
+  private _resultsEl?: HTMLElement;
+  private _layersEl?: HTMLElement;
+  private _runButton?: HTMLButtonElement;
+
+  /**
+   * Creates a new SpatialQueryControl instance.
+   *
+   * @param options - Configuration options for the control.
+   */
+  constructor(options?: SpatialQueryControlOptions) {
+    this._options = { ...DEFAULT_OPTIONS, ...options };
+    this._sql = this._options.defaultQuery;
+    this._state = {
+      visible: this._options.visible,
+      collapsed: this._options.collapsed,
+      running: false,
+      error: null,
+      layers: [],
+    };
+  }
+
+  /**
+   * Called when the control is added to the map.
+   *
+   * @param map - The MapLibre GL map instance.
+   * @returns The control's container element.
+   */
+  onAdd(map: MapLibreMap): HTMLElement {
+    this._map = map;
+    this._container = this._createContainer();
+    this._setupZoomHandler();
+
+    if (!this._state.collapsed) {
+      this._showPanel();
+    }
+
+    return this._container;
+  }
+
+  /**
+   * Called when the control is removed from the map.
+   */
+  onRemove(): void {
+    if (this._handleZoom && this._map) {
+      this._map.off("zoom", this._handleZoom);
+      this._handleZoom = undefined;
+    }
+    this.clearResults();
+    this._hidePanel();
+
+    this._container?.remove();
+    this._container = undefined;
+    this._button = undefined;
+    this._map = undefined;
+  }
+
+  /**
+   * Get the default position for this control.
+   */
+  getDefaultPosition(): ControlPosition {
+    return this._options.position as ControlPosition;
+  }
+
+  /**
+   * Register an event handler.
+   */
+  on(event: SpatialQueryEvent, handler: SpatialQueryEventHandler): this {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler);
+    return this;
+  }
+
+  /**
+   * Remove an event handler.
+   */
+  off(event: SpatialQueryEvent, handler: SpatialQueryEventHandler): this {
+    this._eventHandlers.get(event)?.delete(handler);
+    return this;
+  }
+
+  /**
+   * Emit an event to registered handlers.
+   */
+  private _emit(
+    event: SpatialQueryEvent,
+    extra?: {
+      sql?: string;
+      result?: SpatialQueryResult;
+      layer?: SpatialQueryLayerInfo;
+      error?: string;
+    },
+  ): void {
+    const handlers = this._eventHandlers.get(event);
+    if (handlers) {
+      const eventData = {
+        type: event,
+        state: this.getState(),
+        ...extra,
+      };
+      handlers.forEach((handler) => handler(eventData));
+    }
+  }
+
+  /**
+   * Create the control container.
+   */
+  private _createContainer(): HTMLElement {
+    const container = document.createElement("div");
+    container.className = `maplibregl-ctrl maplibre-gl-spatial-query ${this._options.className}`;
+
+    if (!this._state.visible) {
+      container.style.display = "none";
+    }
+
+    this._button = document.createElement("button");
+    this._button.type = "button";
+    this._button.className = "spatial-query-button";
+    this._button.title = "Spatial SQL query";
+    this._button.setAttribute("aria-label", "Spatial SQL query");
+    this._button.innerHTML = QUERY_ICON;
+    this._button.addEventListener("click", () => {
+      if (this._state.collapsed) {
+        this.expand();
+      } else {
+        this.collapse();
+      }
+    });
+    container.appendChild(this._button);
+
+    return container;
+  }
+
+  /**
+   * Create the panel: table list, SQL editor, actions, status and results.
+   */
+  private _createPanel(): HTMLElement {
+    const panel = document.createElement("div");
+    panel.className = `spatial-query-panel ${this._options.position.includes("left") ? "right" : "left"}`;
+    panel.style.width = `${this._options.panelWidth}px`;
+
+    this._tablesEl = document.createElement("div");
+    this._tablesEl.className = "spatial-query-tables";
+    panel.appendChild(this._tablesEl);
+
+    this._editor = document.createElement("textarea");
+    this._editor.className = "spatial-query-editor";
+    this._editor.placeholder = QUERY_PLACEHOLDER;
+    this._editor.spellcheck = false;
+    this._editor.rows = 6;
+    this._editor.value = this._sql;
+    this._editor.addEventListener("input", () => {
+      this._sql = this._editor!.value;
+    });
+    this._editor.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        void this.runQuery();
+      }
+    });
+    panel.appendChild(this._editor);
+
+    const hint = document.createElement("div");
+    hint.className = "spatial-query-hint";
+    hint.textContent =
+      "$bbox: drawn bounding box · $view: current map view · Ctrl+Enter to run";
+    panel.appendChild(hint);
+
+    const actions = document.createElement("div");
+    actions.className = "maplibre-gl-filter-actions";
+
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.multiple = true;
+    fileInput.style.display = "none";
+    fileInput.addEventListener("change", async () => {
+      for (const file of Array.from(fileInput.files ?? [])) {
+        await this.registerFile(file);
+      }
+      fileInput.value = "";
+    });
+    actions.appendChild(fileInput);
+
+    const registerButton = document.createElement("button");
+    registerButton.type = "button";
+    registerButton.className = "maplibre-gl-filter-btn";
+    registerButton.textContent = "Register file...";
+    registerButton.title =
+      "Make a local file queryable, e.g. SELECT * FROM ST_Read('parcels.gpkg')";
+    registerButton.addEventListener("click", () => fileInput.click());
+    actions.appendChild(registerButton);
+
+    this._runButton = document.createElement("button");
+    this._runButton.type = "button";
+    this._runButton.className =
+      "maplibre-gl-filter-btn maplibre-gl-filter-btn--primary";
+    this._runButton.textContent = "Run";
+    this._runButton.addEventListener("click", () => void this.runQuery());
+    actions.appendChild(this._runButton);
+
+    panel.appendChild(actions);
+
+    this._statusEl = document.createElement("div");
+    this._statusEl.className = "maplibre-gl-export-status";
+    panel.appendChild(this._statusEl);
+
+    this._resultsEl = document.createElement("div");
+    this._resultsEl.className = "spatial-query-results";
+    panel.appendChild(this._resultsEl);
+
+    this._layersEl = document.createElement("div");
+    this._layersEl.className = "spatial-query-layers";
+    panel.appendChild(this._layersEl);
+
+    return panel;
+  }
+
+  /**
+   * Show the panel.
+   */
+  private _showPanel(): void {
+    if (!this._panel && this._container) {
+      this._panel = this._createPanel();
+      this._container.appendChild(this._panel);
+      this._renderTables();
+      this._renderStatus();
+      this._renderResults();
+      this._renderLayers();
+    }
+    this._button?.classList.add("active");
+  }
+
+  /**
+   * Hide the panel.
+   */
+  private _hidePanel(): void {
+    this._panel?.remove();
+    this._panel = undefined;
+    this._editor = undefined;
+    this._tablesEl = undefined;
+    this._statusEl = undefined;
+    this._resultsEl = undefined;
+    this._layersEl = undefined;
+    this._runButton = undefined;
+    this._button?.classList.remove("active");
+  }
+
+  /**
+   * Render the queryable table and file names as chips that insert the name
+   * into the editor.
+   */
+  private _renderTables(): void {
+    const el = this._tablesEl;
+    if (!el) return;
+    el.innerHTML = "";
+
+    const names = [
+      ...this.getTableNames(),
+      ...this._registeredFiles.map((f) => `'${f}'`),
+    ];
+    const label = document.createElement("span");
+    label.className = "spatial-query-tables-label";
+    label.textContent = names.length ? "Tables:" : "No vector layers loaded";
+    el.appendChild(label);
+
+    for (const name of names) {
+      const chip = document.createElement("button");
+      chip.type = "button";
+      chip.className = "spatial-query-table";
+      chip.textContent = name;
+      chip.title = `Insert ${name}`;
+      chip.addEventListener("click", () => this._insertText(name));
+      el.appendChild(chip);
+    }
+  }
+
+  /**
+   * Insert text at the editor cursor.
+   */
+  private _insertText(text: string): void {
+    const editor = this._editor;
+    if (!editor) return;
+    const start = editor.selectionStart ?? editor.value.length;
+    const end = editor.selectionEnd ?? start;
+    editor.value =
+      editor.value.slice(0, start) + text + editor.value.slice(end);
+    editor.selectionStart = editor.selectionEnd = start + text.length;
+    this._sql = editor.value;
+    editor.focus();
+  }
+
+  /**
+   * Render the running / error / row-count status line.
+   */
+  private _renderStatus(): void {
+    const el = this._statusEl;
+    if (!el) return;
+    el.classList.toggle(
+      "maplibre-gl-export-status--error",
+      !!this._state.error,
+    );
+    if (this._runButton) this._runButton.disabled = this._state.running;
+
+    if (this._state.running) {
+      el.textContent = "Running query...";
+    } else if (this._state.error) {
+      el.textContent = this._state.error;
+    } else if (this._lastResult) {
+      const { rows, geojson } = this._lastResult;
+      el.textContent = `${rows.length} rows, ${geojson.features.length} features`;
+    } else {
+      el.textContent = "";
+    }
+  }
+
+  /**
+   * Render the last result as a table.
+   */
+  private _renderResults(): void {
+    const el = this._resultsEl;
+    if (!el) return;
+    el.innerHTML = "";
+    const result = this._lastResult;
+    if (!result || result.columns.length === 0) return;
+
+    const table = document.createElement("table");
+    const head = table.createTHead().insertRow();
+    for (const column of result.columns) {
+      const th = document.createElement("th");
+      th.textContent = column.name;
+      th.title = column.type;
+      head.appendChild(th);
+    }
+
+    const body = table.createTBody();
+    for (const row of result.rows.slice(0, this._options.maxTableRows)) {
+      const tr = body.insertRow();
+      for (const column of result.columns) {
+        const value = row[column.name];
+        const text =
+          value === null || value === undefined
+            ? ""
+            : typeof value === "object"
+              ? JSON.stringify(value)
+              : String(value);
+        const td = tr.insertCell();
+        td.textContent = text;
+        td.title = text;
+      }
+    }
+    el.appendChild(table);
+
+    if (result.rows.length > this._options.maxTableRows) {
+      const more = document.createElement("div");
+      more.className = "spatial-query-hint";
+      more.textContent = `Showing the first ${this._options.maxTableRows} of ${result.rows.length} rows`;
+      el.appendChild(more);
+    }
+  }
+
+  /**
+   * Render the list of result layers with remove buttons.
+   */
+  private _renderLayers(): void {
+    const el = this._layersEl;
+    if (!el) return;
+    el.innerHTML = "";
+
+    for (const layer of this._state.layers) {
+      const item = document.createElement("div");
+      item.className = "spatial-query-layer";
+      item.title = layer.sql;
+
+      const name = document.createElement("span");
+      name.className = "spatial-query-layer-name";
+      name.textContent = `${layer.id} (${layer.featureCount})`;
+      item.appendChild(name);
+
+      const remove = document.createElement("button");
+      remove.type = "button";
+      remove.className = "maplibre-gl-filter-remove";
+      remove.textContent = "×";
+      remove.title = "Remove layer";
+      remove.addEventListener("click", () => this.removeResult(layer.id));
+      item.appendChild(remove);
+
+      el.appendChild(item);
+    }
+  }
+
+  /**
+   * Returns the IDs of the GeoJSON sources on the map keyed by table name.
+   */
+  private _getTables(): Map<string, string> {
+    const tables = new Map<string, string>();
+    const sources = this._map?.getStyle()?.sources ?? {};
+    for (const [sourceId, source] of Object.entries(sources)) {
+      if (
+        source.type === "geojson" &&
+        !HELPER_SOURCE_PREFIXES.some((p) => sourceId.startsWith(p))
+      ) {
+        const base = toTableName(sourceId);
+        let name = base;
+        for (let i = 2; tables.has(name); i++) name = `${base}_${i}`;
+        tables.set(name, sourceId);
+      }
+    }
+    return tables;
+  }
+
+  /**
+   * Load the map sources mentioned in the SQL into DuckDB tables.
+   */
+  private async _registerTables(
+    sql: string,
+    converter: {
+      registerGeoJSON(
+        name: string,
+        geojson: GeoJSON.FeatureCollection,
+      ): Promise<void>;
+    },
+  ): Promise<void> {
+    for (const [tableName, sourceId] of this._getTables()) {
+      if (!new RegExp(`\\b${tableName}\\b`, "i").test(sql)) continue;
+      const source = this._map?.getSource(sourceId) as
+        GeoJSONSource | undefined;
+      if (!source) continue;
+      const data = await source.getData();
+      const features =
+        data.type === "FeatureCollection"
+          ? data.features
+          : data.type === "Feature"
+            ? [data]
+            : [];
+      await converter.registerGeoJSON(tableName, {
+        type: "FeatureCollection",
+        features,
+      });
+    }
+  }
+
+  /**
+   * Add a query result to the map as a new GeoJSON layer.
+   */
+  private _addResultLayer(
+    sql: string,
+    geojson: GeoJSON.FeatureCollection,
+  ): SpatialQueryLayerInfo | null {
+    if (!this._map || geojson.features.length === 0) return null;
+    const map = this._map;
+
+    this._resultCounter += 1;
+    const id = `query_${this._resultCounter}`;
+    const sourceId = `spatial-query-${this._resultCounter}`;
+    map.addSource(sourceId, { type: "geojson", data: geojson });
+
+    const types = new Set(geojson.features.map((f) => f.geometry?.type));
+    const color = this._options.resultColor;
+    const typeFilter = (...names: string[]): FilterSpecification => [
+      "match",
+      ["geometry-type"],
+      names,
+      true,
+      false,
+    ];
+    const layerIds: string[] = [];
+
+    if (types.has("Polygon") || types.has("MultiPolygon")) {
+      map.addLayer({
+        id: `${sourceId}-fill`,
+        type: "fill",
+        source: sourceId,
+        filter: typeFilter("Polygon", "MultiPolygon"),
+        paint: { "fill-color": color, "fill-opacity": 0.35 },
+      });
+      layerIds.push(`${sourceId}-fill`);
+    }
+    if (
+      types.has("Polygon") ||
+      types.has("MultiPolygon") ||
+      types.has("LineString") ||
+      types.has("MultiLineString")
+    ) {
+      map.addLayer({
+        id: `${sourceId}-line`,
+        type: "line",
+        source: sourceId,
+        filter: typeFilter(
+          "Polygon",
+          "MultiPolygon",
+          "LineString",
+          "MultiLineString",
+        ),
+        paint: { "line-color": color, "line-width": 2 },
+      });
+      layerIds.push(`${sourceId}-line`);
+    }
+    if (types.has("Point") || types.has("MultiPoint")) {
+      map.addLayer({
+        id: `${sourceId}-circle`,
+        type: "circle",
+        source: sourceId,
+        filter: typeFilter("Point", "MultiPoint"),
+        paint: {
+          "circle-radius": 5,
+          "circle-color": color,
+          "circle-stroke-color": "#ffffff",
+          "circle-stroke-width": 1,
+        },
+      });
+      layerIds.push(`${sourceId}-circle`);
+    }
+
+    const info: SpatialQueryLayerInfo = {
+      id,
+      sourceId,
+      layerIds,
+      sql,
+      featureCount: geojson.features.length,
+    };
+    this._state.layers.push(info);
+
+    if (this._options.fitBounds) {
+      this._fitToData(geojson);
+    }
+    return info;
+  }
+
+  /**
+   * Fits the map view to a result's bounds.
+   */
+  private _fitToData(geojson: GeoJSON.FeatureCollection): void {
+    if (!this._map) return;
+    let minLng = Infinity,
+      minLat = Infinity,
+      maxLng = -Infinity,
+      maxLat = -Infinity;
+
+    const visit = (coords: unknown): void => {
+      if (!Array.isArray(coords)) return;
+      if (typeof coords[0] === "number") {
+        minLng = Math.min(minLng, coords[0]);
+        maxLng = Math.max(maxLng, coords[0]);
+        minLat = Math.min(minLat, coords[1] as number);
+        maxLat = Math.max(maxLat, coords[1] as number);
+        return;
+      }
+      for (const item of coords) visit(item);
+    };
+
+    for (const feature of geojson.features) {
+      if (feature.geometry && "coordinates" in feature.geometry) {
+        visit(feature.geometry.coordinates);
+      }
+    }
+
+    if (minLng !== Infinity) {
+      this._map.fitBounds(
+        [
+          [minLng, minLat],
+          [maxLng, maxLat],
+        ],
+        { padding: 50, maxZoom: 16 },
+      );
+    }
+  }
+
+  /**
+   * Set up zoom-based visibility handling.
+   */
+  private _setupZoomHandler(): void {
+    if (!this._map) return;
+
+    this._handleZoom = () => {
+      const zoom = this._map!.getZoom();
+      const shouldShow =
+        zoom >= this._options.minzoom && zoom <= this._options.maxzoom;
+
+      if (shouldShow !== this._zoomVisible) {
+        this._zoomVisible = shouldShow;
+        if (this._container) {
+          this._container.style.display =
+            shouldShow && this._state.visible ? "" : "none";
+        }
+      }
+    };
+
+    this._map.on("zoom", this._handleZoom);
+    this._handleZoom();
+  }
+
+  // Public API methods
+
+  /**
+   * Show the control.
+   */
+  show(): this {
+    this._state.visible = true;
+    if (this._container && this._zoomVisible) {
+      this._container.style.display = "";
+    }
+    this._emit("show");
+    return this;
+  }
+
+  /**
+   * Hide the control.
+   */
+  hide(): this {
+    this._state.visible = false;
+    if (this._container) {
+      this._container.style.display = "none";
+    }
+    this._emit("hide");
+    return this;
+  }
+
+  /**
+   * Expand the panel.
+   */
+  expand(): this {
+    if (!this._state.collapsed) return this;
+    this._state.collapsed = false;
+    this._showPanel();
+    this._emit("expand");
+    return this;
+  }
+
+  /**
+   * Collapse the panel.
+   */
+  collapse(): this {
+    if (this._state.collapsed) return this;
+    this._state.collapsed = true;
+    this._hidePanel();
+    this._emit("collapse");
+    return this;
+  }
+
+  /**
+   * Get the current state.
+   */
+  getState(): SpatialQueryControlState {
+    return { ...this._state, layers: [...this._state.layers] };
+  }
+
+  /**
+   * Returns the table names of the GeoJSON sources on the map.
+   */
+  getTableNames(): string[] {
+    return [...this._getTables().keys()];
+  }
+
+  /**
+   * Returns the result of the last successful query, if any.
+   */
+  getLastResult(): SpatialQueryResult | null {
+    return this._lastResult;
+  }
+
+  /**
+   * Make a local file queryable by its name, e.g.
+   * `SELECT * FROM ST_Read('parcels.gpkg')` or `read_parquet('trees.parquet')`.
+   *
+   * @param file - The file to register.
+   */
+  async registerFile(file: File): Promise<void> {
+    const { getDuckDBConverter } =
+      await import("../converters/DuckDBConverter");
+    const converter = getDuckDBConverter();
+    try {
+      await converter.registerFile(file.name, await file.arrayBuffer());
+      this._state.error = null;
+    } catch (err) {
+      this._state.error = err instanceof Error ? err.message : String(err);
+      this._emit("error", { error: this._state.error });
+    }
+    this._registeredFiles = converter.getRegisteredFiles();
+    this._renderTables();
+    this._renderStatus();
+  }
+
+  /**
+   * Run a SQL query. Map sources mentioned by table name are loaded into
+   * DuckDB first, and `$bbox` / `$view` are replaced by envelopes. A result
+   * with a geometry column is added to the map as a new layer.
+   *
+   * @param sql - The SQL to run. Defaults to the editor contents.
+   * @returns The query result, or null if the query failed.
+   */
+  async runQuery(sql: string = this._sql): Promise<SpatialQueryResult | null> {
+    if (!sql.trim() || this._state.running) return null;
+    if (sql !== this._sql) {
+      this._sql = sql;
+      if (this._editor) this._editor.value = sql;
+    }
+
+    this._state.running = true;
+    this._state.error = null;
+    this._renderStatus();
+    this._emit("querystart", { sql });
+
+    let result: SpatialQueryResult | null = null;
+    try {
+      const bounds = this._map?.getBounds();
+      const statement = substituteQueryParameters(sql, {
+        bbox: this._options.viewStateControl?.getState().drawnBBox ?? null,
+        view: bounds
+          ? [
+              bounds.getWest(),
+              bounds.getSouth(),
+              bounds.getEast(),
+              bounds.getNorth(),
+            ]
+          : null,
+      });
+
+      const { getDuckDBConverter } =
+        await import("../converters/DuckDBConverter");
+      const converter = getDuckDBConverter();
+      await this._registerTables(statement, converter);
+      result = await converter.query(statement);
+      this._registeredFiles = converter.getRegisteredFiles();
+    } catch (err) {
+      this._state.error = err instanceof Error ? err.message : String(err);
+    }
+
+    this._state.running = false;
+    if (result) {
+      this._lastResult = result;
+      const layer = this._addResultLayer(sql, result.geojson);
+      this._emit("queryend", { sql, result });
+      if (layer) this._emit("layeradd", { layer });
+    } else {
+      this._emit("error", { sql, error: this._state.error ?? undefined });
+    }
+
+    this._renderTables();
+    this._renderStatus();
+    this._renderResults();
+    this._renderLayers();
+    return result;
+  }
+
+  /**
+   * Remove a result layer from the map.
+   *
+   * @param id - The result ID (e.g. 'query_1').
+   */
+  removeResult(id: string): this {
+    const index = this._state.layers.findIndex((l) => l.id === id);
+    if (index === -1) return this;
+    const [layer] = this._state.layers.splice(index, 1);
+
+    if (this._map) {
+      for (const layerId of layer.layerIds) {
+        if (this._map.getLayer(layerId)) this._map.removeLayer(layerId);
+      }
+      if (this._map.getSource(layer.sourceId)) {
+        this._map.removeSource(layer.sourceId);
+      }
+    }
+    this._renderLayers();
+    this._emit("layerremove", { layer });
+    return this;
+  }
+
+  /**
+   * Remove all result layers from the map.
+   */
+  clearResults(): this {
+    for (const layer of [...this._state.layers]) {
+      this.removeResult(layer.id);
+    }
+    return this;
+  }
+}
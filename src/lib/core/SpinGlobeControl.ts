@@ -215,7 +215,11 @@ export class SpinGlobeControl implements IControl {
    * Get the current control state.
    */
   getState(): SpinGlobeControlState {
-    return { spinning: this._spinning, collapsed: this._collapsed };
+    return {
+      spinning: this._spinning,
+      speed: this._options.speed,
+      collapsed: this._collapsed,
+    };
   }
 
   /**
@@ -8,10 +8,12 @@ import {
   type Map as MapLibreMap,
 } from "maplibre-gl";
 import type {
+  StacLayerAddOptions,
   StacLayerControlOptions,
   StacLayerControlState,
   StacLayerEvent,
   StacLayerEventHandler,
+  StacLayerInfo,
   StacAssetInfo,
   ColormapName,
   ColorStop,
@@ -282,6 +284,7 @@ export class StacLayerControl implements IControl {
       pickable: this._options.defaultPickable,
       hasLayer: false,
       layerCount: 0,
+      layers: [],
       loading: false,
       error: null,
       status: null,
@@ -420,6 +423,31 @@ export class StacLayerControl implements IControl {
     await this._fetchStacItem();
   }
 
+  /**
+   * Programmatically add a layer from the loaded STAC item (see
+   * {@link loadStacUrl}). Any {@link StacLayerAddOptions} field sets the
+   * matching panel value first; three asset keys add an RGB composite.
+   */
+  async addLayer(options?: StacLayerAddOptions): Promise<void> {
+    if (options?.assets?.length === 3) {
+      const [r, g, b] = options.assets;
+      this._state.rgbMode = true;
+      this._state.rgbAssets = [r, g, b];
+    } else if (options?.assets?.length) {
+      this._state.rgbMode = false;
+      this._state.selectedAsset = options.assets[0];
+    }
+    if (options?.name !== undefined) this._state.layerName = options.name;
+    if (options?.colormap) this._state.colormap = options.colormap;
+    if (options?.rescaleMin !== undefined)
+      this._state.rescaleMin = options.rescaleMin;
+    if (options?.rescaleMax !== undefined)
+      this._state.rescaleMax = options.rescaleMax;
+    if (options?.opacity !== undefined)
+      this._state.layerOpacity = options.opacity;
+    await this._addLayer(options?.fitBounds ?? true);
+  }
+
   /**
    * Remove a specific layer by ID, or all layers if no ID is provided.
    */
@@ -1267,7 +1295,7 @@ export class StacLayerControl implements IControl {
     map.on("click", this._mapClickHandler);
   }
 
-  private async _addLayer(): Promise<void> {
+  private async _addLayer(fitBounds = true): Promise<void> {
     if (!this._map) {
       this._state.error = "Map not available.";
       this._render();
@@ -1350,6 +1378,8 @@ export class StacLayerControl implements IControl {
           _rescaleMin: rescaleMin,
           _rescaleMax: rescaleMax,
           _isRgb: true,
+          _stacUrl: this._state.stacUrl,
+          _assetKeys: [r, g, b],
           _preRescaled: true, // Mark as pre-rescaled to skip shader processing
           // Custom getTileData to load all 3 bands and combine into RGB
           getTileData: async (
@@ -1473,7 +1503,7 @@ export class StacLayerControl implements IControl {
         });
 
         // Fit to bounds if available
-        if (this._state.stacItem?.bbox) {
+        if (fitBounds && this._state.stacItem?.bbox) {
           const [west, south, east, north] = this._state.stacItem.bbox;
           this._map.fitBounds(
             [
@@ -1486,6 +1516,7 @@ export class StacLayerControl implements IControl {
 
         this._state.hasLayer = this._cogLayers.size > 0;
         this._state.layerCount = this._cogLayers.size;
+        this._state.layers = this._buildLayerInfoList();
         this._state.loading = false;
         this._state.status = `Added RGB layer: ${r}, ${g}, ${b}`;
         this._state.layerName = "";
@@ -1543,6 +1574,8 @@ export class StacLayerControl implements IControl {
         _rescaleMin: this._state.rescaleMin,
         _rescaleMax: this._state.rescaleMax,
         _colormap: this._state.colormap,
+        _stacUrl: this._state.stacUrl,
+        _assetKeys: [asset.key],
       };
 
       // Store custom layer name if provided
@@ -1565,7 +1598,7 @@ export class StacLayerControl implements IControl {
       });
 
       // Fit to bounds if available
-      if (this._state.stacItem?.bbox) {
+      if (fitBounds && this._state.stacItem?.bbox) {
         const [west, south, east, north] = this._state.stacItem.bbox;
         this._map.fitBounds(
           [
@@ -1578,6 +1611,7 @@ export class StacLayerControl implements IControl {
 
       this._state.hasLayer = this._cogLayers.size > 0;
       this._state.layerCount = this._cogLayers.size;
+      this._state.layers = this._buildLayerInfoList();
       this._state.loading = false;
       this._state.status = `Added layer: ${asset.title || asset.key}`;
       this._state.layerName = "";
@@ -1651,6 +1685,7 @@ export class StacLayerControl implements IControl {
 
     this._state.hasLayer = this._cogLayers.size > 0;
     this._state.layerCount = this._cogLayers.size;
+    this._state.layers = this._buildLayerInfoList();
     this._state.status = null;
     this._state.error = null;
     this._emit("layerremove", { layerId });
@@ -2091,4 +2126,21 @@ export class StacLayerControl implements IControl {
       return null;
     }
   }
+
+  private _buildLayerInfoList(): StacLayerInfo[] {
+    const list: StacLayerInfo[] = [];
+    for (const [layerId, props] of this._cogLayerPropsMap) {
+      list.push({
+        id: layerId,
+        name: (props._layerName as string) || undefined,
+        stacUrl: (props._stacUrl as string) ?? "",
+        assets: (props._assetKeys as string[]) ?? [],
+        colormap: (props._colormap as ColormapName | "none") || "none",
+        rescaleMin: (props._rescaleMin as number) ?? 0,
+        rescaleMax: (props._rescaleMax as number) ?? 255,
+        opacity: (props.opacity as number) ?? 1,
+      });
+    }
+    return list;
+  }
 }
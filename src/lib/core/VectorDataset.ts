@@ -1,6 +1,10 @@
 import "../styles/common.css";
 import "../styles/vector-dataset.css";
-import type { IControl, Map as MapLibreMap } from "maplibre-gl";
+import type {
+  ExpressionSpecification,
+  IControl,
+  Map as MapLibreMap,
+} from "maplibre-gl";
 import type {
   VectorDatasetControlOptions,
   VectorDatasetControlState,
@@ -8,9 +12,22 @@ import type {
   VectorDatasetEventHandler,
   LoadedDataset,
   VectorLayerStyle,
+  VectorAttributeStyle,
   VectorFormat,
+  VectorExportFormat,
+  VectorExportOptions,
+  ColormapName,
 } from "./types";
 import { generateId } from "../utils/helpers";
+import { getColorAtPosition } from "../utils/color";
+import { getColormap, getColormapNames } from "../colormaps";
+import { collectColumns } from "./filterBuilder";
+import {
+  createExportForm,
+  downloadBlob,
+  exportFeatures,
+  selectFeatures,
+} from "./vectorExport";
 import {
   detectFormat,
   requiresConversion,
@@ -26,7 +43,7 @@ import type { ShapefileConverter } from "../converters/ShapefileConverter";
 /**
  * Default style for vector layers.
  */
-const DEFAULT_STYLE: Required<VectorLayerStyle> = {
+const DEFAULT_STYLE: Required<Omit<VectorLayerStyle, "attributeStyle">> = {
   fillColor: "#3388ff",
   fillOpacity: 0.3,
   strokeColor: "#3388ff",
@@ -38,6 +55,12 @@ const DEFAULT_STYLE: Required<VectorLayerStyle> = {
   circleStrokeWidth: 2,
 };
 
+/**
+ * Categories beyond this count keep the fixed color when styling by a
+ * categorical attribute.
+ */
+const MAX_STYLE_CATEGORIES = 20;
+
 /**
  * Default options for the VectorDatasetControl.
  */
@@ -72,6 +95,87 @@ const DEFAULT_OPTIONS: Required<
  */
 const UPLOAD_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>`;
 
+/**
+ * Palette icon SVG for the dataset style button.
+ */
+const STYLE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 22a10 10 0 1 1 10-10c0 2.8-2.2 4-4 4h-2a2 2 0 0 0-1.4 3.4A1.7 1.7 0 0 1 12 22z"/><circle cx="7.5" cy="10.5" r="1.5"/><circle cx="11.5" cy="6.5" r="1.5"/><circle cx="16.5" cy="9.5" r="1.5"/></svg>`;
+
+/**
+ * Sample n evenly spaced colors from a built-in colormap.
+ */
+function sampleColormap(name: ColormapName, n: number): string[] {
+  const stops = getColormap(name);
+  return Array.from({ length: n }, (_, i) =>
+    getColorAtPosition(stops, n === 1 ? 0.5 : i / (n - 1)),
+  );
+}
+
+/**
+ * Build a MapLibre color expression that colors features by an attribute.
+ * Categorical styles map each distinct value (up to 20, by first appearance)
+ * to a colormap color; graduated styles split the numeric range into
+ * equal-interval classes. Features without a usable value get the fallback
+ * color, which is also returned when the data has no usable values at all.
+ *
+ * @param features - Features of the dataset, used to find values and range.
+ * @param attributeStyle - The attribute style to apply.
+ * @param fallback - Color for features the style does not cover.
+ * @returns A color expression, or the fallback color.
+ */
+export function buildAttributeColorExpression(
+  features: GeoJSON.Feature[],
+  attributeStyle: VectorAttributeStyle,
+  fallback: string,
+): ExpressionSpecification | string {
+  const { column, type } = attributeStyle;
+  const colormap = attributeStyle.colormap ?? "viridis";
+
+  if (type === "categorical") {
+    const categories: string[] = [];
+    for (const f of features) {
+      const v = f.properties?.[column];
+      if (v === null || v === undefined) continue;
+      const key = String(v);
+      if (!categories.includes(key)) {
+        categories.push(key);
+        if (categories.length === MAX_STYLE_CATEGORIES) break;
+      }
+    }
+    if (categories.length === 0) return fallback;
+    const colors = sampleColormap(colormap, categories.length);
+    return [
+      "match",
+      ["to-string", ["get", column]],
+      ...categories.flatMap((c, i) => [c, colors[i]]),
+      fallback,
+    ] as unknown as ExpressionSpecification;
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (const f of features) {
+    const v = f.properties?.[column];
+    if (typeof v === "number" && Number.isFinite(v)) {
+      min = Math.min(min, v);
+      max = Math.max(max, v);
+    }
+  }
+  if (min === Infinity) return fallback;
+
+  const classes = min === max ? 1 : Math.max(2, attributeStyle.classes ?? 5);
+  const colors = sampleColormap(colormap, classes);
+  const step: unknown[] = ["step", ["get", column], colors[0]];
+  for (let i = 1; i < classes; i++) {
+    step.push(min + ((max - min) * i) / classes, colors[i]);
+  }
+  return [
+    "case",
+    ["==", ["typeof", ["get", column]], "number"],
+    step,
+    fallback,
+  ] as unknown as ExpressionSpecification;
+}
+
 /**
  * A vector dataset upload control for MapLibre GL maps.
  *
@@ -123,6 +227,12 @@ export class VectorDatasetControl implements IControl {
   private _loadingOverlay?: HTMLElement;
   private _loadingText?: HTMLElement;
   private _loadingProgress?: HTMLElement;
+  private _styleButton?: HTMLButtonElement;
+  private _panel?: HTMLElement;
+  private _panelOpen: boolean = false;
+  private _editingDatasetId: string | null = null;
+  private _exportDatasetId: string | null = null;
+  private _datasetData: Map<string, GeoJSON.FeatureCollection> = new Map();
 
   /**
    * Creates a new VectorDatasetControl instance.
@@ -205,6 +315,8 @@ export class VectorDatasetControl implements IControl {
     this._container?.parentNode?.removeChild(this._container);
     this._container = undefined;
     this._button = undefined;
+    this._styleButton = undefined;
+    this._panel = undefined;
     this._fileInput = undefined;
     this._dropZone = undefined;
     this._eventHandlers.clear();
@@ -276,6 +388,14 @@ export class VectorDatasetControl implements IControl {
       this._state.loadedDatasets = this._state.loadedDatasets.filter(
         (d) => d.id !== datasetId,
       );
+      this._datasetData.delete(datasetId);
+      if (this._editingDatasetId === datasetId) {
+        this._editingDatasetId = null;
+      }
+      if (this._exportDatasetId === datasetId) {
+        this._exportDatasetId = null;
+      }
+      this._renderPanel();
       this._emit("update");
     } catch (error) {
       console.error("Failed to remove dataset:", error);
@@ -287,6 +407,26 @@ export class VectorDatasetControl implements IControl {
    */
   removeAllDatasets(): void {
     this._removeAllDatasets();
+    this._renderPanel();
+    this._emit("update");
+  }
+
+  /**
+   * Updates the style of a loaded dataset in place. The given properties are
+   * merged into the dataset's current style; pass `attributeStyle: undefined`
+   * to go back to fixed colors.
+   *
+   * @param datasetId - The ID of the dataset to restyle.
+   * @param style - Style properties to change.
+   */
+  setDatasetStyle(datasetId: string, style: VectorLayerStyle): void {
+    const dataset = this._state.loadedDatasets.find((d) => d.id === datasetId);
+    if (!dataset) return;
+
+    dataset.style = { ...dataset.style, ...style };
+    this._applyDatasetStyle(dataset);
+    this._renderPanel();
+    this._emit("stylechange", dataset);
     this._emit("update");
   }
 
@@ -304,6 +444,46 @@ export class VectorDatasetControl implements IControl {
     return this._processGeoJSON(geojson, filename, "geojson");
   }
 
+  /**
+   * Exports a loaded dataset and downloads the file. GeoJSON and CSV are
+   * written directly; GeoPackage, Shapefile and FlatGeobuf load DuckDB WASM.
+   *
+   * @param datasetId - The ID of the dataset to export.
+   * @param format - The output format.
+   * @param options - Which features to export and the output filename.
+   * @returns The exported file, or null if the dataset is not loaded.
+   */
+  async exportDataset(
+    datasetId: string,
+    format: VectorExportFormat,
+    options: VectorExportOptions = {},
+  ): Promise<Blob | null> {
+    const dataset = this._state.loadedDatasets.find((d) => d.id === datasetId);
+    const data = this._datasetData.get(datasetId);
+    if (!dataset || !data) return null;
+
+    const bounds = this._map?.getBounds();
+    const features = selectFeatures(data.features, options.scope ?? "all", {
+      bounds: bounds
+        ? [
+            bounds.getWest(),
+            bounds.getSouth(),
+            bounds.getEast(),
+            bounds.getNorth(),
+          ]
+        : undefined,
+    });
+    const { blob, filename } = await exportFeatures(
+      features,
+      format,
+      options.filename ?? dataset.filename.replace(/\.[^.]+$/, ""),
+      this._duckdbConverter,
+    );
+    downloadBlob(blob, filename);
+    this._emit("export", dataset);
+    return blob;
+  }
+
   /**
    * Registers an event handler.
    *
@@ -425,6 +605,28 @@ export class VectorDatasetControl implements IControl {
     this._button.addEventListener("click", () => this._fileInput?.click());
     container.appendChild(this._button);
 
+    // Create dataset style button (shown once a dataset is loaded)
+    this._styleButton = document.createElement("button");
+    this._styleButton.type = "button";
+    this._styleButton.className = "maplibre-gl-vector-dataset-button";
+    this._styleButton.title = "Style and export loaded datasets";
+    this._styleButton.setAttribute(
+      "aria-label",
+      "Style and export loaded datasets",
+    );
+    this._styleButton.innerHTML = STYLE_ICON;
+    this._styleButton.style.display = "none";
+    this._styleButton.addEventListener("click", () => {
+      this._panelOpen = !this._panelOpen;
+      this._renderPanel();
+    });
+    container.appendChild(this._styleButton);
+
+    this._panel = document.createElement("div");
+    this._panel.className = "maplibre-gl-vector-dataset-panel";
+    this._panel.style.display = "none";
+    container.appendChild(this._panel);
+
     return container;
   }
 
@@ -886,6 +1088,7 @@ export class VectorDatasetControl implements IControl {
 
       // Create dataset record
       const dataset: LoadedDataset = {
+        style: { ...style },
         id: datasetId,
         filename,
         sourceId,
@@ -899,6 +1102,8 @@ export class VectorDatasetControl implements IControl {
       };
 
       this._state.loadedDatasets.push(dataset);
+      this._datasetData.set(datasetId, featureCollection);
+      this._renderPanel();
 
       // Fit bounds if enabled
       if (this._options.fitBounds && featureCollection.features.length > 0) {
@@ -992,6 +1197,331 @@ export class VectorDatasetControl implements IControl {
       }
     }
     this._state.loadedDatasets = [];
+    this._datasetData.clear();
+    this._editingDatasetId = null;
+    this._exportDatasetId = null;
+  }
+
+  /**
+   * Applies a dataset's current style to its existing layers.
+   *
+   * @param dataset - The dataset to restyle.
+   */
+  private _applyDatasetStyle(dataset: LoadedDataset): void {
+    if (!this._map) return;
+
+    const style = {
+      ...DEFAULT_STYLE,
+      ...this._options.defaultStyle,
+      ...dataset.style,
+    };
+    const features = this._datasetData.get(dataset.id)?.features ?? [];
+    const colorFor = (fallback: string) =>
+      style.attributeStyle
+        ? buildAttributeColorExpression(
+            features,
+            style.attributeStyle,
+            fallback,
+          )
+        : fallback;
+
+    for (const layerId of dataset.layerIds) {
+      if (!this._map.getLayer(layerId)) continue;
+
+      if (layerId.endsWith("-fill")) {
+        this._map.setPaintProperty(
+          layerId,
+          "fill-color",
+          colorFor(style.fillColor),
+        );
+        this._map.setPaintProperty(layerId, "fill-opacity", style.fillOpacity);
+      } else if (layerId.endsWith("-outline") || layerId.endsWith("-line")) {
+        // Polygon outlines keep the stroke color; lines follow the attribute
+        this._map.setPaintProperty(
+          layerId,
+          "line-color",
+          layerId.endsWith("-line")
+            ? colorFor(style.strokeColor)
+            : style.strokeColor,
+        );
+        this._map.setPaintProperty(layerId, "line-width", style.strokeWidth);
+        this._map.setPaintProperty(
+          layerId,
+          "line-opacity",
+          style.strokeOpacity,
+        );
+      } else if (layerId.endsWith("-point")) {
+        this._map.setPaintProperty(
+          layerId,
+          "circle-color",
+          colorFor(style.circleColor),
+        );
+        this._map.setPaintProperty(
+          layerId,
+          "circle-radius",
+          style.circleRadius,
+        );
+        this._map.setPaintProperty(
+          layerId,
+          "circle-stroke-color",
+          style.circleStrokeColor,
+        );
+        this._map.setPaintProperty(
+          layerId,
+          "circle-stroke-width",
+          style.circleStrokeWidth,
+        );
+      }
+    }
+  }
+
+  /**
+   * Renders the loaded-datasets panel with its per-dataset style editors.
+   */
+  private _renderPanel(): void {
+    if (!this._panel || !this._styleButton) return;
+
+    const datasets = this._state.loadedDatasets;
+    this._styleButton.style.display = datasets.length > 0 ? "" : "none";
+    if (datasets.length === 0) this._panelOpen = false;
+    this._styleButton.classList.toggle(
+      "maplibre-gl-vector-dataset-button--active",
+      this._panelOpen,
+    );
+    this._panel.style.display = this._panelOpen ? "block" : "none";
+    this._panel.innerHTML = "";
+    if (!this._panelOpen) return;
+
+    const header = document.createElement("div");
+    header.className = "maplibre-gl-vector-dataset-panel-header";
+    header.textContent = `Datasets (${datasets.length})`;
+    this._panel.appendChild(header);
+
+    for (const dataset of datasets) {
+      const item = document.createElement("div");
+      item.className = "maplibre-gl-vector-dataset-item";
+
+      const label = document.createElement("span");
+      label.className = "maplibre-gl-vector-dataset-item-label";
+      label.textContent = dataset.filename;
+      label.title = `${dataset.filename} (${dataset.featureCount} features)`;
+      item.appendChild(label);
+
+      const editing = this._editingDatasetId === dataset.id;
+      const styleBtn = document.createElement("button");
+      styleBtn.type = "button";
+      styleBtn.className = `maplibre-gl-vector-dataset-item-btn${editing ? " maplibre-gl-vector-dataset-item-btn--active" : ""}`;
+      styleBtn.textContent = "Style";
+      styleBtn.addEventListener("click", () => {
+        this._editingDatasetId = editing ? null : dataset.id;
+        this._renderPanel();
+      });
+      item.appendChild(styleBtn);
+
+      const exporting = this._exportDatasetId === dataset.id;
+      const exportBtn = document.createElement("button");
+      exportBtn.type = "button";
+      exportBtn.className = `maplibre-gl-vector-dataset-item-btn${exporting ? " maplibre-gl-vector-dataset-item-btn--active" : ""}`;
+      exportBtn.textContent = "Export";
+      exportBtn.title = "Export as...";
+      exportBtn.addEventListener("click", () => {
+        this._exportDatasetId = exporting ? null : dataset.id;
+        this._renderPanel();
+      });
+      item.appendChild(exportBtn);
+
+      const removeBtn = document.createElement("button");
+      removeBtn.type = "button";
+      removeBtn.className = "maplibre-gl-vector-dataset-item-btn";
+      removeBtn.innerHTML = "&times;";
+      removeBtn.title = "Remove dataset";
+      removeBtn.addEventListener("click", () => this.removeDataset(dataset.id));
+      item.appendChild(removeBtn);
+
+      this._panel.appendChild(item);
+      if (editing) {
+        this._panel.appendChild(this._createStyleEditor(dataset));
+      }
+      if (exporting) {
+        this._panel.appendChild(
+          createExportForm({
+            onExport: async (format, scope) => {
+              await this.exportDataset(dataset.id, format, { scope });
+            },
+          }),
+        );
+      }
+    }
+  }
+
+  /**
+   * Creates the style editor for one dataset. Every change is applied to the
+   * map immediately.
+   *
+   * @param dataset - The dataset to edit.
+   * @returns The editor element.
+   */
+  private _createStyleEditor(dataset: LoadedDataset): HTMLElement {
+    const style = {
+      ...DEFAULT_STYLE,
+      ...this._options.defaultStyle,
+      ...dataset.style,
+    };
+    const types = dataset.geometryTypes;
+    const hasPolygons =
+      types.includes("Polygon") || types.includes("MultiPolygon");
+    const hasLines =
+      hasPolygons ||
+      types.includes("LineString") ||
+      types.includes("MultiLineString");
+    const hasPoints = types.includes("Point") || types.includes("MultiPoint");
+
+    const editor = document.createElement("div");
+    editor.className = "maplibre-gl-vector-dataset-style-editor";
+
+    const addRow = (labelText: string, ...inputs: HTMLElement[]) => {
+      const row = document.createElement("label");
+      row.className = "maplibre-gl-vector-dataset-style-row";
+      const text = document.createElement("span");
+      text.textContent = labelText;
+      row.appendChild(text);
+      inputs.forEach((input) => row.appendChild(input));
+      editor.appendChild(row);
+    };
+    const colorInput = (value: string, key: keyof VectorLayerStyle) => {
+      const input = document.createElement("input");
+      input.type = "color";
+      input.value = value;
+      input.addEventListener("change", () =>
+        this.setDatasetStyle(dataset.id, { [key]: input.value }),
+      );
+      return input;
+    };
+    const numberInput = (
+      value: number,
+      key: keyof VectorLayerStyle,
+      min: number,
+      max: number,
+      step: number,
+    ) => {
+      const input = document.createElement("input");
+      input.type = "number";
+      input.className = "maplibre-gl-vector-dataset-style-number";
+      input.min = String(min);
+      input.max = String(max);
+      input.step = String(step);
+      input.value = String(value);
+      input.addEventListener("change", () => {
+        const n = Number(input.value);
+        if (!Number.isFinite(n)) return;
+        this.setDatasetStyle(dataset.id, {
+          [key]: Math.min(max, Math.max(min, n)),
+        });
+      });
+      return input;
+    };
+
+    if (hasPolygons) {
+      addRow(
+        "Fill",
+        colorInput(style.fillColor, "fillColor"),
+        numberInput(style.fillOpacity, "fillOpacity", 0, 1, 0.1),
+      );
+    }
+    if (hasLines) {
+      addRow(
+        "Stroke",
+        colorInput(style.strokeColor, "strokeColor"),
+        numberInput(style.strokeWidth, "strokeWidth", 0, 20, 0.5),
+      );
+    }
+    if (hasPoints) {
+      addRow(
+        "Circle",
+        colorInput(style.circleColor, "circleColor"),
+        numberInput(style.circleRadius, "circleRadius", 1, 50, 1),
+      );
+    }
+
+    // Style by attribute
+    const attributeStyle = style.attributeStyle;
+    const columns = collectColumns(
+      this._datasetData.get(dataset.id)?.features ?? [],
+    );
+    const columnSelect = document.createElement("select");
+    columnSelect.className = "maplibre-gl-vector-dataset-style-select";
+    for (const col of ["", ...columns]) {
+      const option = document.createElement("option");
+      option.value = col;
+      option.textContent = col || "None (fixed colors)";
+      option.selected = col === (attributeStyle?.column ?? "");
+      columnSelect.appendChild(option);
+    }
+    columnSelect.addEventListener("change", () => {
+      this.setDatasetStyle(dataset.id, {
+        attributeStyle: columnSelect.value
+          ? attributeStyle
+            ? { ...attributeStyle, column: columnSelect.value }
+            : { column: columnSelect.value, type: "categorical" }
+          : undefined,
+      });
+    });
+    addRow("Style by", columnSelect);
+
+    if (attributeStyle) {
+      const update = (changes: Partial<VectorAttributeStyle>) =>
+        this.setDatasetStyle(dataset.id, {
+          attributeStyle: { ...attributeStyle, ...changes },
+        });
+
+      const typeSelect = document.createElement("select");
+      typeSelect.className = "maplibre-gl-vector-dataset-style-select";
+      for (const [value, text] of [
+        ["categorical", "Categorical"],
+        ["graduated", "Graduated"],
+      ]) {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = text;
+        option.selected = value === attributeStyle.type;
+        typeSelect.appendChild(option);
+      }
+      typeSelect.addEventListener("change", () =>
+        update({ type: typeSelect.value as VectorAttributeStyle["type"] }),
+      );
+      addRow("Ramp", typeSelect);
+
+      const colormapSelect = document.createElement("select");
+      colormapSelect.className = "maplibre-gl-vector-dataset-style-select";
+      for (const name of getColormapNames()) {
+        const option = document.createElement("option");
+        option.value = name;
+        option.textContent = name;
+        option.selected = name === (attributeStyle.colormap ?? "viridis");
+        colormapSelect.appendChild(option);
+      }
+      colormapSelect.addEventListener("change", () =>
+        update({ colormap: colormapSelect.value as ColormapName }),
+      );
+      addRow("Colormap", colormapSelect);
+
+      if (attributeStyle.type === "graduated") {
+        const classesInput = document.createElement("input");
+        classesInput.type = "number";
+        classesInput.className = "maplibre-gl-vector-dataset-style-number";
+        classesInput.min = "2";
+        classesInput.max = "12";
+        classesInput.value = String(attributeStyle.classes ?? 5);
+        classesInput.addEventListener("change", () =>
+          update({
+            classes: Math.max(2, Math.min(12, Number(classesInput.value) || 5)),
+          }),
+        );
+        addRow("Classes", classesInput);
+      }
+    }
+
+    return editor;
   }
 
   /**
@@ -13,6 +13,11 @@ import type {
   ViewStateEventHandler,
 } from "./types";
 import { generateId } from "../utils/helpers";
+import {
+  findSnapPoint,
+  removeSnapIndicator,
+  showSnapIndicator,
+} from "./snapping";
 
 /**
  * Default options for the ViewStateControl.
@@ -35,6 +40,10 @@ const DEFAULT_OPTIONS: Required<ViewStateControlOptions> = {
   bboxFillColor: "rgba(0, 120, 215, 0.1)",
   bboxStrokeColor: "#0078d7",
   bboxStrokeWidth: 2,
+  snap: false,
+  snapTolerance: 10,
+  snapIncludeLayers: [],
+  snapExcludeLayers: [],
   panelWidth: 280,
   maxHeight: 500,
   backgroundColor: "",
@@ -132,8 +141,10 @@ export class ViewStateControl implements IControl {
   private _bboxSourceId: string = "";
   private _bboxLayerFillId: string = "";
   private _bboxLayerLineId: string = "";
+  private _bboxSnapLayerId: string = "";
   private _bboxDrawStart?: { lng: number; lat: number };
   private _boundBBoxMouseDown?: (e: MapMouseEvent) => void;
+  private _boundBBoxHover?: (e: MapMouseEvent) => void;
   private _boundBBoxMouseMove?: (e: MouseEvent) => void;
   private _boundBBoxMouseUp?: (e: MouseEvent) => void;
   private _boundBBoxDragStart?: (e: DragEvent) => void;
@@ -157,11 +168,13 @@ export class ViewStateControl implements IControl {
       bearing: 0,
       drawingBBox: false,
       drawnBBox: null,
+      snap: this._options.snap,
     };
     const uid = generateId("viewstate");
     this._bboxSourceId = `${uid}-bbox-src`;
     this._bboxLayerFillId = `${uid}-bbox-fill`;
     this._bboxLayerLineId = `${uid}-bbox-line`;
+    this._bboxSnapLayerId = `${uid}-bbox-snap`;
   }
 
   /**
@@ -321,6 +334,21 @@ export class ViewStateControl implements IControl {
     this._emit("drawend");
   }
 
+  /**
+   * Turns snapping of bbox corners to rendered features on or off.
+   */
+  setSnap(enabled: boolean): this {
+    this._state.snap = enabled;
+    if (!enabled && this._map) {
+      removeSnapIndicator(this._map, this._bboxSnapLayerId);
+    }
+    const checkbox = this._panel?.querySelector(
+      ".maplibre-gl-view-state-bbox-snap input",
+    ) as HTMLInputElement | null;
+    if (checkbox) checkbox.checked = enabled;
+    return this;
+  }
+
   /**
    * Clears the drawn bounding box.
    */
@@ -745,6 +773,19 @@ export class ViewStateControl implements IControl {
     });
     section.appendChild(this._bboxToggleBtn);
 
+    // Snapping toggle
+    const snapLabel = document.createElement("label");
+    snapLabel.className = "maplibre-gl-view-state-bbox-snap";
+    const snapCheckbox = document.createElement("input");
+    snapCheckbox.type = "checkbox";
+    snapCheckbox.checked = this._state.snap;
+    snapCheckbox.addEventListener("change", () =>
+      this.setSnap(snapCheckbox.checked),
+    );
+    snapLabel.appendChild(snapCheckbox);
+    snapLabel.appendChild(document.createTextNode("Snap to features"));
+    section.appendChild(snapLabel);
+
     // Result container (initially hidden)
     this._bboxResultEl = document.createElement("div");
     this._bboxResultEl.className = "maplibre-gl-view-state-bbox-result";
@@ -872,7 +913,8 @@ export class ViewStateControl implements IControl {
   }
 
   /**
-   * Converts a native MouseEvent to map lng/lat using map.unproject().
+   * Converts a native MouseEvent to map lng/lat using map.unproject(),
+   * snapped to rendered features when snapping is on.
    */
   private _mouseEventToLngLat(e: MouseEvent): { lng: number; lat: number } {
     const canvas = this._map!.getCanvas();
@@ -880,7 +922,37 @@ export class ViewStateControl implements IControl {
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
     const lngLat = this._map!.unproject([x, y]);
-    return { lng: lngLat.lng, lat: lngLat.lat };
+    return this._snapBBoxCorner({ x, y }, { lng: lngLat.lng, lat: lngLat.lat });
+  }
+
+  /**
+   * Snaps a bbox corner at a screen position to the vertices and edges of
+   * rendered features, and moves the snap indicator to match. Returns the
+   * unsnapped position when snapping is off or nothing is within tolerance.
+   */
+  private _snapBBoxCorner(
+    point: { x: number; y: number },
+    lngLat: { lng: number; lat: number },
+  ): { lng: number; lat: number } {
+    if (!this._map || !this._state.snap) return lngLat;
+
+    const snap = findSnapPoint(this._map, point, {
+      tolerance: this._options.snapTolerance,
+      includeLayers: this._options.snapIncludeLayers,
+      excludeLayers: [
+        ...this._options.snapExcludeLayers,
+        this._bboxLayerFillId,
+        this._bboxLayerLineId,
+        this._bboxSnapLayerId,
+      ],
+    });
+    showSnapIndicator(
+      this._map,
+      this._bboxSnapLayerId,
+      snap,
+      this._options.bboxStrokeColor,
+    );
+    return snap ? { lng: snap.lng, lat: snap.lat } : lngLat;
   }
 
   /**
@@ -897,6 +969,12 @@ export class ViewStateControl implements IControl {
     this._boundBBoxMouseDown = (e: MapMouseEvent) => this._onBBoxMouseDown(e);
     this._map.on("mousedown", this._boundBBoxMouseDown);
 
+    // Preview where the first corner will snap before the button is pressed.
+    this._boundBBoxHover = (e: MapMouseEvent) => {
+      if (!this._bboxDrawStart) this._snapBBoxCorner(e.point, e.lngLat);
+    };
+    this._map.on("mousemove", this._boundBBoxHover);
+
     // Prevent native drag behavior on the canvas, which can swallow mousemove/mouseup events.
     this._boundBBoxDragStart = (e: DragEvent) => e.preventDefault();
     canvas.addEventListener("dragstart", this._boundBBoxDragStart);
@@ -917,6 +995,11 @@ export class ViewStateControl implements IControl {
       this._map.off("mousedown", this._boundBBoxMouseDown);
       this._boundBBoxMouseDown = undefined;
     }
+    if (this._boundBBoxHover) {
+      this._map.off("mousemove", this._boundBBoxHover);
+      this._boundBBoxHover = undefined;
+    }
+    removeSnapIndicator(this._map, this._bboxSnapLayerId);
     if (this._boundBBoxMouseMove) {
       document.removeEventListener("mousemove", this._boundBBoxMouseMove);
       this._boundBBoxMouseMove = undefined;
@@ -944,8 +1027,7 @@ export class ViewStateControl implements IControl {
     e.originalEvent.preventDefault();
     e.originalEvent.stopPropagation();
 
-    const lng = e.lngLat.lng;
-    const lat = e.lngLat.lat;
+    const { lng, lat } = this._snapBBoxCorner(e.point, e.lngLat);
     this._bboxDrawStart = { lng, lat };
 
     // Remove any existing bbox layers before drawing a new one
@@ -1479,7 +1479,7 @@ export class ZarrLayerControl implements IControl {
       delete layerProps.store;
       delete layerProps.transformRequest;
       // Store custom layer name if provided
-      const customName = this._state.layerName?.trim();
+      const customName = (overrides?.name ?? this._state.layerName)?.trim();
       if (customName) {
         layerProps._layerName = customName;
       }
@@ -0,0 +1,491 @@
+/**
+ * Import, export and sharing helpers for BookmarkControl. Bookmarks are
+ * written as the control's own JSON, as GeoJSON Point features whose
+ * properties carry the camera, or as KML Placemarks with a `LookAt`, and read
+ * back from any of those. Folders become a `folder` property in GeoJSON and
+ * `<Folder>` elements in KML. Share tokens pack bookmarks (and optionally
+ * their folder) into a URL-safe string.
+ */
+import { decodeBase64Url, encodeBase64Url, generateId } from "../utils/helpers";
+import {
+  escapeXml,
+  kmlDocument,
+  kmlExtendedData,
+  parseKmlPlacemarks,
+} from "../utils/kml";
+import type {
+  BookmarkExportFormat,
+  MapBookmark,
+  MapBookmarkGroup,
+} from "./types";
+
+/**
+ * Bookmarks read from a file or share link, with the folders they belong to.
+ */
+export interface BookmarkCollection {
+  /** The bookmarks, in file order. */
+  bookmarks: MapBookmark[];
+  /** Folders referenced by the bookmarks' `groupId`. */
+  groups: MapBookmarkGroup[];
+}
+
+/**
+ * Bookmark export formats offered in the BookmarkControl panel.
+ */
+export const BOOKMARK_EXPORT_FORMATS: {
+  value: BookmarkExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  {
+    value: "json",
+    label: "JSON",
+    extension: ".json",
+    mimeType: "application/json",
+  },
+  {
+    value: "geojson",
+    label: "GeoJSON",
+    extension: ".geojson",
+    mimeType: "application/geo+json",
+  },
+  {
+    value: "kml",
+    label: "KML",
+    extension: ".kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+  },
+];
+
+/** Equatorial circumference of the Web Mercator sphere in meters. */
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+/**
+ * Camera distance in meters for a zoom level, assuming MapLibre's default
+ * field of view and a 512-pixel tall viewport.
+ */
+function zoomToRange(zoom: number, lat: number): number {
+  return (
+    (1.5 * EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) /
+    Math.pow(2, zoom)
+  );
+}
+
+/**
+ * Inverse of {@link zoomToRange}.
+ */
+function rangeToZoom(range: number, lat: number): number {
+  return Math.log2(
+    (1.5 * EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) / range,
+  );
+}
+
+/**
+ * Whether a value looks like a bookmark in the control's own JSON schema.
+ */
+function isBookmark(value: unknown): value is MapBookmark {
+  const b = value as MapBookmark;
+  return (
+    !!b &&
+    typeof b.name === "string" &&
+    typeof b.lng === "number" &&
+    typeof b.lat === "number" &&
+    typeof b.zoom === "number"
+  );
+}
+
+/**
+ * Read a finite number from a property value, which may be a numeric string.
+ */
+function toNumber(value: unknown, fallback: number): number {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Convert bookmarks to a GeoJSON FeatureCollection of Points. The camera
+ * (zoom, pitch, bearing), the folder name and the tour caption and dwell are
+ * feature properties.
+ * Thumbnails are not written.
+ *
+ * @param bookmarks - The bookmarks to convert.
+ * @param groups - Folders, for writing the `folder` property.
+ * @returns The feature collection.
+ */
+export function bookmarksToGeoJSON(
+  bookmarks: MapBookmark[],
+  groups: MapBookmarkGroup[] = [],
+): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  const groupById = new Map(groups.map((g) => [g.id, g]));
+  return {
+    type: "FeatureCollection",
+    features: bookmarks.map((b) => {
+      const folder = b.groupId ? groupById.get(b.groupId)?.name : undefined;
+      return {
+        type: "Feature",
+        properties: {
+          id: b.id,
+          name: b.name,
+          zoom: b.zoom,
+          pitch: b.pitch,
+          bearing: b.bearing,
+          createdAt: b.createdAt,
+          ...(folder !== undefined ? { folder } : {}),
+          ...(b.caption ? { caption: b.caption } : {}),
+          ...(b.dwell !== undefined ? { dwell: b.dwell } : {}),
+          ...(b.extra ? { extra: b.extra } : {}),
+        },
+        geometry: { type: "Point", coordinates: [b.lng, b.lat] },
+      };
+    }),
+  };
+}
+
+/**
+ * Write one bookmark as a KML Placemark.
+ */
+function bookmarkToPlacemark(b: MapBookmark, indent: string): string {
+  const data: [string, string][] = [
+    ["id", b.id],
+    ["zoom", String(b.zoom)],
+    ["createdAt", String(b.createdAt)],
+  ];
+  if (b.dwell !== undefined) data.push(["dwell", String(b.dwell)]);
+  if (b.extra) data.push(["extra", JSON.stringify(b.extra)]);
+  return [
+    `${indent}<Placemark>`,
+    `${indent}  <name>${escapeXml(b.name)}</name>`,
+    ...(b.caption
+      ? [`${indent}  <description>${escapeXml(b.caption)}</description>`]
+      : []),
+    `${indent}  <LookAt>`,
+    `${indent}    <longitude>${b.lng}</longitude>`,
+    `${indent}    <latitude>${b.lat}</latitude>`,
+    `${indent}    <altitude>0</altitude>`,
+    `${indent}    <heading>${b.bearing}</heading>`,
+    `${indent}    <tilt>${b.pitch}</tilt>`,
+    `${indent}    <range>${zoomToRange(b.zoom, b.lat).toFixed(1)}</range>`,
+    `${indent}  </LookAt>`,
+    `${indent}  <ExtendedData>${data
+      .map(
+        ([key, value]) =>
+          `<Data name="${key}"><value>${escapeXml(value)}</value></Data>`,
+      )
+      .join("")}</ExtendedData>`,
+    `${indent}  <Point><coordinates>${b.lng},${b.lat}</coordinates></Point>`,
+    `${indent}</Placemark>`,
+  ].join("\n");
+}
+
+/**
+ * Convert bookmarks to a KML document. Each bookmark is a Placemark whose
+ * `LookAt` holds the camera (zoom is converted to a range in meters and also
+ * kept in ExtendedData for an exact round trip) and whose `description` is
+ * the tour caption; bookmarks in a folder are written inside a `<Folder>`.
+ *
+ * @param bookmarks - The bookmarks to convert.
+ * @param groups - Folders the bookmarks may belong to.
+ * @returns The KML text.
+ */
+export function bookmarksToKML(
+  bookmarks: MapBookmark[],
+  groups: MapBookmarkGroup[] = [],
+): string {
+  const groupById = new Map(groups.map((g) => [g.id, g]));
+  const lines: string[] = [];
+  const folders = new Map<string, MapBookmark[]>();
+  for (const b of bookmarks) {
+    if (b.groupId && groupById.has(b.groupId)) {
+      if (!folders.has(b.groupId)) folders.set(b.groupId, []);
+      folders.get(b.groupId)!.push(b);
+    } else {
+      lines.push(bookmarkToPlacemark(b, "    "));
+    }
+  }
+  for (const [groupId, members] of folders) {
+    lines.push(
+      "    <Folder>",
+      `      <name>${escapeXml(groupById.get(groupId)!.name)}</name>`,
+      ...members.map((b) => bookmarkToPlacemark(b, "      ")),
+      "    </Folder>",
+    );
+  }
+  return kmlDocument("Bookmarks", lines);
+}
+
+/**
+ * Convert bookmarks to text in one of the export formats.
+ *
+ * @param bookmarks - The bookmarks to convert.
+ * @param format - The output format.
+ * @param groups - Folders, written by GeoJSON and KML.
+ * @returns The file contents.
+ */
+export function exportBookmarksAs(
+  bookmarks: MapBookmark[],
+  format: BookmarkExportFormat,
+  groups: MapBookmarkGroup[] = [],
+): string {
+  switch (format) {
+    case "geojson":
+      return JSON.stringify(bookmarksToGeoJSON(bookmarks, groups), null, 2);
+    case "kml":
+      return bookmarksToKML(bookmarks, groups);
+    default:
+      return JSON.stringify(bookmarks, null, 2);
+  }
+}
+
+/**
+ * Collects bookmarks into folders by name while parsing.
+ */
+class FolderCollector {
+  groups: MapBookmarkGroup[] = [];
+
+  /** The id of the folder with the given name, created on first use. */
+  idFor(name: string | undefined): string | undefined {
+    if (!name) return undefined;
+    let group = this.groups.find((g) => g.name === name);
+    if (!group) {
+      group = { id: generateId("bookmark-group"), name, collapsed: false };
+      this.groups.push(group);
+    }
+    return group.id;
+  }
+}
+
+/**
+ * Read bookmarks from GeoJSON Point features.
+ */
+function featuresToCollection(features: GeoJSON.Feature[]): BookmarkCollection {
+  const folders = new FolderCollector();
+  const bookmarks: MapBookmark[] = [];
+  features.forEach((feature, index) => {
+    if (feature?.geometry?.type !== "Point") return;
+    const [lng, lat] = feature.geometry.coordinates;
+    if (typeof lng !== "number" || typeof lat !== "number") return;
+    const p = (feature.properties ?? {}) as Record<string, unknown>;
+    const bookmark: MapBookmark = {
+      id: typeof p.id === "string" ? p.id : generateId("bookmark"),
+      name:
+        typeof p.name === "string"
+          ? p.name
+          : `Bookmark ${bookmarks.length + 1}`,
+      lng,
+      lat,
+      zoom: toNumber(p.zoom, 10),
+      pitch: toNumber(p.pitch, 0),
+      bearing: toNumber(p.bearing, 0),
+      createdAt: toNumber(p.createdAt, Date.now() + index),
+    };
+    const groupId = folders.idFor(
+      typeof p.folder === "string" ? p.folder : undefined,
+    );
+    if (groupId) bookmark.groupId = groupId;
+    if (typeof p.caption === "string") bookmark.caption = p.caption;
+    if (typeof p.dwell === "number") bookmark.dwell = p.dwell;
+    if (p.extra && typeof p.extra === "object") {
+      bookmark.extra = p.extra as Record<string, unknown>;
+    }
+    bookmarks.push(bookmark);
+  });
+  return { bookmarks, groups: folders.groups };
+}
+
+/**
+ * Text content of the first direct child element with the given tag.
+ */
+function childText(parent: Element, tag: string): string | undefined {
+  for (const child of Array.from(parent.children)) {
+    if (child.localName === tag) return child.textContent?.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Read bookmarks from KML Placemarks. The camera comes from the `LookAt`,
+ * falling back to the Point coordinates; the folder is the nearest enclosing
+ * `<Folder>`.
+ */
+function kmlToCollection(text: string): BookmarkCollection {
+  const placemarks = parseKmlPlacemarks(text);
+  const folders = new FolderCollector();
+  const bookmarks: MapBookmark[] = [];
+  placemarks.forEach((placemark, index) => {
+    const data = kmlExtendedData(placemark);
+
+    const lookAt = placemark.getElementsByTagName("LookAt")[0];
+    const [pointLng, pointLat] = (
+      placemark.getElementsByTagName("coordinates")[0]?.textContent ?? ""
+    )
+      .trim()
+      .split(/\s+/)[0]
+      .split(",")
+      .map(parseFloat);
+    const lng = toNumber(lookAt && childText(lookAt, "longitude"), pointLng);
+    const lat = toNumber(lookAt && childText(lookAt, "latitude"), pointLat);
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return;
+
+    const range = lookAt ? toNumber(childText(lookAt, "range"), NaN) : NaN;
+    const bookmark: MapBookmark = {
+      id: data.id || generateId("bookmark"),
+      name: childText(placemark, "name") || `Bookmark ${bookmarks.length + 1}`,
+      lng,
+      lat,
+      zoom: toNumber(
+        data.zoom,
+        range > 0 ? Math.max(0, rangeToZoom(range, lat)) : 10,
+      ),
+      pitch: toNumber(lookAt && childText(lookAt, "tilt"), 0),
+      bearing: toNumber(lookAt && childText(lookAt, "heading"), 0),
+      createdAt: toNumber(data.createdAt, Date.now() + index),
+    };
+
+    let folder: Element | null = placemark.parentElement;
+    while (folder && folder.localName !== "Folder") {
+      folder = folder.parentElement;
+    }
+    const groupId = folders.idFor(folder ? childText(folder, "name") : "");
+    if (groupId) bookmark.groupId = groupId;
+    const description = childText(placemark, "description");
+    if (description) bookmark.caption = description;
+    if (data.dwell) bookmark.dwell = toNumber(data.dwell, 0);
+    if (data.extra) {
+      try {
+        bookmark.extra = JSON.parse(data.extra);
+      } catch {
+        // Not written by this module; ignore
+      }
+    }
+    bookmarks.push(bookmark);
+  });
+  return { bookmarks, groups: folders.groups };
+}
+
+/**
+ * Guess the format of bookmark file contents.
+ */
+function detectFormat(text: string): BookmarkExportFormat {
+  const start = text.trimStart();
+  if (start.startsWith("<")) return "kml";
+  if (start.startsWith("[")) return "json";
+  return /"type"\s*:\s*"Feature/.test(text) ? "geojson" : "json";
+}
+
+/**
+ * Read bookmarks from the control's JSON (a bare array or the
+ * `{ bookmarks, groups }` storage envelope), GeoJSON or KML. Entries that do
+ * not describe a bookmark are skipped.
+ *
+ * @param text - The file contents.
+ * @param format - The format; detected from the contents when omitted.
+ * @returns The bookmarks and their folders.
+ * @throws If the text cannot be parsed in the format.
+ */
+export function parseBookmarks(
+  text: string,
+  format: BookmarkExportFormat = detectFormat(text),
+): BookmarkCollection {
+  if (format === "kml") return kmlToCollection(text);
+
+  const data = JSON.parse(text);
+  if (format === "geojson") {
+    const collection = data as GeoJSON.FeatureCollection | GeoJSON.Feature;
+    return featuresToCollection(
+      collection.type === "FeatureCollection"
+        ? collection.features
+        : [collection],
+    );
+  }
+  if (Array.isArray(data)) {
+    return { bookmarks: data.filter(isBookmark), groups: [] };
+  }
+  if (data && Array.isArray(data.bookmarks)) {
+    return {
+      bookmarks: data.bookmarks.filter(isBookmark),
+      groups: Array.isArray(data.groups) ? data.groups : [],
+    };
+  }
+  throw new Error("Invalid bookmark file");
+}
+
+/**
+ * Round a number for a share token; URLs should stay short.
+ */
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Pack bookmarks into a URL-safe (base64url) token. Only the name, camera,
+ * tour caption and dwell, and host state are kept: IDs, timestamps and
+ * thumbnails are dropped so the link stays short, and the receiver assigns
+ * its own.
+ *
+ * @param bookmarks - The bookmarks to share.
+ * @param folder - Folder name, when sharing a whole folder.
+ * @returns The token.
+ */
+export function encodeBookmarkShare(
+  bookmarks: MapBookmark[],
+  folder?: string,
+): string {
+  const payload = {
+    ...(folder !== undefined ? { folder } : {}),
+    bookmarks: bookmarks.map((b) => ({
+      name: b.name,
+      lng: round(b.lng, 6),
+      lat: round(b.lat, 6),
+      zoom: round(b.zoom, 2),
+      pitch: round(b.pitch, 1),
+      bearing: round(b.bearing, 1),
+      ...(b.caption ? { caption: b.caption } : {}),
+      ...(b.dwell !== undefined ? { dwell: b.dwell } : {}),
+      ...(b.extra ? { extra: b.extra } : {}),
+    })),
+  };
+  return encodeBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Unpack a token written by {@link encodeBookmarkShare}. The bookmarks get
+ * fresh IDs and, for a shared folder, a fresh folder.
+ *
+ * @param token - The token.
+ * @returns The bookmarks and their folder.
+ * @throws If the token is not a bookmark share.
+ */
+export function decodeBookmarkShare(token: string): BookmarkCollection {
+  const data = JSON.parse(decodeBase64Url(token));
+  if (!data || !Array.isArray(data.bookmarks)) {
+    throw new Error("Invalid bookmark share link");
+  }
+
+  const folders = new FolderCollector();
+  const groupId = folders.idFor(
+    typeof data.folder === "string" ? data.folder : undefined,
+  );
+  const now = Date.now();
+  const bookmarks = (data.bookmarks as unknown[])
+    .filter(isBookmark)
+    .map((b, index): MapBookmark => {
+      const bookmark: MapBookmark = {
+        id: generateId("bookmark"),
+        name: b.name,
+        lng: b.lng,
+        lat: b.lat,
+        zoom: b.zoom,
+        pitch: toNumber(b.pitch, 0),
+        bearing: toNumber(b.bearing, 0),
+        createdAt: now + index,
+      };
+      if (groupId) bookmark.groupId = groupId;
+      if (typeof b.caption === "string") bookmark.caption = b.caption;
+      if (typeof b.dwell === "number") bookmark.dwell = b.dwell;
+      if (b.extra && typeof b.extra === "object") bookmark.extra = b.extra;
+      return bookmark;
+    });
+  return { bookmarks, groups: folders.groups };
+}
@@ -0,0 +1,338 @@
+/**
+ * Storage backends for BookmarkControl and the merge used to reconcile a
+ * stored bookmark set with the local one. Adapters only load, save and delete
+ * whole bookmark sets; the control merges before every save, so concurrent
+ * edits from several tabs or devices resolve per bookmark by timestamp.
+ */
+import type {
+  BookmarkStorageAdapter,
+  BookmarkStorageData,
+  MapBookmark,
+} from "./types";
+
+/**
+ * Options for {@link IndexedDBBookmarkStorage}.
+ */
+export interface IndexedDBBookmarkStorageOptions {
+  /** Database name. Default: 'maplibre-gl-bookmarks'. */
+  dbName?: string;
+  /** Object store name. Default: 'bookmarks'. */
+  storeName?: string;
+}
+
+/**
+ * Options for {@link RestBookmarkStorage}.
+ */
+export interface RestBookmarkStorageOptions {
+  /**
+   * Base URL of the bookmark service. A bookmark set is read with
+   * `GET {baseUrl}/{key}`, written with `PUT` and removed with `DELETE`.
+   */
+  baseUrl: string;
+  /**
+   * Extra request headers, such as `Authorization`, or a function returning
+   * them (e.g. to refresh a token before each request).
+   */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Fetch implementation. Default: the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Thrown by {@link BookmarkStorageAdapter.save} when the stored set changed
+ * since it was last loaded. BookmarkControl then loads, merges and saves again.
+ */
+export class BookmarkStorageConflictError extends Error {
+  constructor(message = "Bookmark set changed in storage") {
+    super(message);
+    this.name = "BookmarkStorageConflictError";
+  }
+}
+
+/**
+ * When a bookmark last changed.
+ */
+function modifiedAt(bookmark: MapBookmark): number {
+  return Math.max(bookmark.createdAt ?? 0, bookmark.updatedAt ?? 0);
+}
+
+/**
+ * Merge a stored bookmark set into the local one. A bookmark present in both
+ * keeps the newer copy (by `updatedAt`, else `createdAt`). A bookmark or
+ * folder deleted after its last change is dropped; for folders, the last
+ * change is their `updatedAt`. The local order is kept and items only present
+ * in storage are appended in their stored order.
+ *
+ * @param local - The control's bookmark set.
+ * @param remote - The stored bookmark set, or null if nothing is stored.
+ * @returns The merged set.
+ */
+export function mergeBookmarkData(
+  local: BookmarkStorageData,
+  remote: BookmarkStorageData | null,
+): BookmarkStorageData {
+  if (!remote) {
+    return {
+      bookmarks: [...local.bookmarks],
+      groups: [...local.groups],
+      deleted: { ...local.deleted },
+    };
+  }
+
+  const deleted: Record<string, number> = { ...remote.deleted };
+  for (const [id, time] of Object.entries(local.deleted ?? {})) {
+    deleted[id] = Math.max(deleted[id] ?? 0, time);
+  }
+
+  const remoteById = new Map(remote.bookmarks.map((b) => [b.id, b]));
+  const localIds = new Set(local.bookmarks.map((b) => b.id));
+  const bookmarks: MapBookmark[] = [];
+  for (const b of [
+    ...local.bookmarks,
+    ...remote.bookmarks.filter((r) => !localIds.has(r.id)),
+  ]) {
+    const other = remoteById.get(b.id);
+    const newest = other && modifiedAt(other) > modifiedAt(b) ? other : b;
+    if (deleted[b.id] !== undefined && deleted[b.id] >= modifiedAt(newest)) {
+      continue;
+    }
+    // Edited after it was deleted elsewhere: keep it
+    delete deleted[b.id];
+    bookmarks.push(newest);
+  }
+
+  // The local copy of a folder wins; a deletion applies unless the folder
+  // was added again afterwards
+  const localGroupIds = new Set(local.groups.map((g) => g.id));
+  const groups = [
+    ...local.groups,
+    ...remote.groups.filter((g) => !localGroupIds.has(g.id)),
+  ].filter((g) => {
+    if (deleted[g.id] === undefined) return true;
+    if ((g.updatedAt ?? 0) <= deleted[g.id]) return false;
+    delete deleted[g.id];
+    return true;
+  });
+
+  return { bookmarks, groups, deleted };
+}
+
+/**
+ * Stores bookmark sets in IndexedDB, which holds far more than localStorage
+ * (including thumbnails) but stays on the current device.
+ *
+ * @example
+ * ```typescript
+ * const control = new BookmarkControl({
+ *   storageKey: 'my-map',
+ *   storage: new IndexedDBBookmarkStorage(),
+ * });
+ * ```
+ */
+export class IndexedDBBookmarkStorage implements BookmarkStorageAdapter {
+  private _dbName: string;
+  private _storeName: string;
+  private _db?: Promise<IDBDatabase>;
+
+  /**
+   * Creates a new IndexedDB storage backend.
+   *
+   * @param options - Database and object store names.
+   */
+  constructor(options?: IndexedDBBookmarkStorageOptions) {
+    this._dbName = options?.dbName ?? "maplibre-gl-bookmarks";
+    this._storeName = options?.storeName ?? "bookmarks";
+  }
+
+  /**
+   * Read the bookmark set stored under a key.
+   */
+  async load(key: string): Promise<BookmarkStorageData | null> {
+    const data = await this._request<BookmarkStorageData | undefined>(
+      "readonly",
+      (store) => store.get(key),
+    );
+    return data ?? null;
+  }
+
+  /**
+   * Write the bookmark set under a key.
+   */
+  async save(key: string, data: BookmarkStorageData): Promise<void> {
+    await this._request("readwrite", (store) => store.put(data, key));
+  }
+
+  /**
+   * Remove the bookmark set stored under a key.
+   */
+  async delete(key: string): Promise<void> {
+    await this._request("readwrite", (store) => store.delete(key));
+  }
+
+  /**
+   * Open the database once, creating the object store on first use.
+   */
+  private _open(): Promise<IDBDatabase> {
+    if (!this._db) {
+      this._db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+          reject(new Error("IndexedDB is not available"));
+          return;
+        }
+        const request = indexedDB.open(this._dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this._storeName)) {
+            request.result.createObjectStore(this._storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failed open
+      this._db.catch(() => {
+        this._db = undefined;
+      });
+    }
+    return this._db;
+  }
+
+  /**
+   * Run a single request in its own transaction.
+   */
+  private async _request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this._open();
+    return new Promise((resolve, reject) => {
+      const request = run(
+        db.transaction(this._storeName, mode).objectStore(this._storeName),
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Stores bookmark sets on a REST service so they follow the user across
+ * devices. The service keeps one JSON document per key:
+ *
+ * - `GET {baseUrl}/{key}` returns the set, or 404 if there is none
+ * - `PUT {baseUrl}/{key}` stores the JSON request body
+ * - `DELETE {baseUrl}/{key}` removes the set
+ *
+ * If the service sends an `ETag` with the set, the next `PUT` carries it in
+ * `If-Match` (or `If-None-Match: *` when there was no set), and a
+ * `412 Precondition Failed` answer makes the control merge again, so
+ * concurrent writers do not overwrite each other.
+ *
+ * @example
+ * ```typescript
+ * const control = new BookmarkControl({
+ *   storageKey: 'team-views',
+ *   storage: new RestBookmarkStorage({
+ *     baseUrl: 'https://example.com/api/bookmarks',
+ *     headers: { Authorization: `Bearer ${token}` },
+ *   }),
+ * });
+ * ```
+ */
+export class RestBookmarkStorage implements BookmarkStorageAdapter {
+  private _options: RestBookmarkStorageOptions;
+  /** ETag of each set as last loaded or saved; null when there was none. */
+  private _etags: Map<string, string | null> = new Map();
+
+  /**
+   * Creates a new REST storage backend.
+   *
+   * @param options - Service URL, headers and fetch implementation.
+   */
+  constructor(options: RestBookmarkStorageOptions) {
+    this._options = options;
+  }
+
+  /**
+   * Read the bookmark set stored under a key.
+   */
+  async load(key: string): Promise<BookmarkStorageData | null> {
+    const response = await this._fetch(key, { method: "GET" });
+    if (response.status === 404) {
+      this._etags.set(key, null);
+      return null;
+    }
+    this._rememberEtag(key, response);
+    return (await response.json()) as BookmarkStorageData;
+  }
+
+  /**
+   * Write the bookmark set under a key.
+   */
+  async save(key: string, data: BookmarkStorageData): Promise<void> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    const etag = this._etags.get(key);
+    if (etag) headers["If-Match"] = etag;
+    else if (etag === null) headers["If-None-Match"] = "*";
+    const response = await this._fetch(key, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify(data),
+    });
+    this._rememberEtag(key, response);
+  }
+
+  /**
+   * Remove the bookmark set stored under a key.
+   */
+  async delete(key: string): Promise<void> {
+    await this._fetch(key, { method: "DELETE" });
+    this._etags.delete(key);
+  }
+
+  /**
+   * Keep the ETag of a response for the next save, or forget the key's ETag
+   * when the service sent none.
+   */
+  private _rememberEtag(key: string, response: Response): void {
+    const etag = response.headers.get("ETag");
+    if (etag) this._etags.set(key, etag);
+    else this._etags.delete(key);
+  }
+
+  /**
+   * Send a request for a key with the configured headers.
+   *
+   * @throws If the service answers with an error.
+   */
+  private async _fetch(key: string, init: RequestInit): Promise<Response> {
+    const { baseUrl, headers } = this._options;
+    const extra = typeof headers === "function" ? await headers() : headers;
+    const fetchFn = this._options.fetch ?? fetch;
+    const response = await fetchFn(
+      `${baseUrl.replace(/\/+$/, "")}/${encodeURIComponent(key)}`,
+      {
+        ...init,
+        headers: {
+          Accept: "application/json",
+          ...(init.headers as Record<string, string>),
+          ...extra,
+        },
+      },
+    );
+    if (response.status === 412) {
+      this._etags.delete(key);
+      throw new BookmarkStorageConflictError();
+    }
+    // A missing set is not an error when reading or deleting it
+    if (!response.ok && (response.status !== 404 || init.method === "PUT")) {
+      throw new Error(
+        `Bookmark storage request failed: ${response.status} ${response.statusText}`,
+      );
+    }
+    return response;
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Shared attribute filter builder used by the vector layer controls
+ * (AddVector, Choropleth). Turns an {@link AttributeFilter} into a MapLibre
+ * filter expression, evaluates it against plain feature properties, and
+ * renders the column / operator / value editor shown in a layer's row.
+ */
+import type { FilterSpecification, Map as MapLibreMap } from "maplibre-gl";
+import type {
+  AttributeFilter,
+  AttributeFilterClause,
+  AttributeFilterOperator,
+} from "./types";
+
+/**
+ * Funnel icon for the per-layer filter toggle button.
+ */
+export const FILTER_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 4h18l-7 8v6l-4 2v-8z"/></svg>`;
+
+/**
+ * Operators offered in the builder, with their display labels.
+ */
+export const FILTER_OPERATORS: {
+  value: AttributeFilterOperator;
+  label: string;
+}[] = [
+  { value: "==", label: "=" },
+  { value: "!=", label: "≠" },
+  { value: ">", label: ">" },
+  { value: ">=", label: "≥" },
+  { value: "<", label: "<" },
+  { value: "<=", label: "≤" },
+  { value: "contains", label: "contains" },
+  { value: "starts_with", label: "starts with" },
+  { value: "is_null", label: "is empty" },
+  { value: "not_null", label: "is not empty" },
+];
+
+/**
+ * Whether an operator compares against a value (the null checks do not).
+ */
+function needsValue(operator: AttributeFilterOperator): boolean {
+  return operator !== "is_null" && operator !== "not_null";
+}
+
+/**
+ * Build the MapLibre expression for a single clause. Equality and text
+ * operators compare the stringified property so codes stored as numbers
+ * match what users type; ordering operators compare numerically and never
+ * match missing values, values that are not numbers, or a value to compare
+ * with that is not a number.
+ */
+function buildClauseExpression(clause: AttributeFilterClause): unknown[] {
+  const get = ["get", clause.column];
+  const text = ["to-string", get];
+  const value = clause.value ?? "";
+  switch (clause.operator) {
+    case "==":
+      return ["==", text, String(value)];
+    case "!=":
+      return ["!=", text, String(value)];
+    case ">":
+    case ">=":
+    case "<":
+    case "<=": {
+      const n = Number(value);
+      if (!Number.isFinite(n)) return ["boolean", false];
+      // to-number turns null into 0, so missing values are excluded first.
+      // Text that is not a number falls back to a value that fails the
+      // comparison; unlike NaN, a finite fallback survives JSON.
+      const fallback =
+        clause.operator === ">" || clause.operator === "<"
+          ? n
+          : clause.operator === ">="
+            ? n - 1
+            : n + 1;
+      return [
+        "all",
+        ["!=", get, null],
+        [clause.operator, ["to-number", get, fallback], n],
+      ];
+    }
+    case "contains":
+      return ["in", String(value).toLowerCase(), ["downcase", text]];
+    case "starts_with": {
+      const prefix = String(value).toLowerCase();
+      return ["==", ["slice", ["downcase", text], 0, prefix.length], prefix];
+    }
+    case "is_null":
+      return ["==", get, null];
+    case "not_null":
+      return ["!=", get, null];
+  }
+}
+
+/**
+ * Build a MapLibre filter expression from an attribute filter.
+ *
+ * @param filter - The attribute filter.
+ * @returns The expression, or null when the filter has no usable clauses.
+ */
+export function buildFilterExpression(
+  filter: AttributeFilter | null | undefined,
+): FilterSpecification | null {
+  const clauses = (filter?.clauses ?? []).filter(
+    (c) =>
+      c.column &&
+      (!needsValue(c.operator) ||
+        (c.value !== undefined && String(c.value) !== "")),
+  );
+  if (clauses.length === 0) return null;
+  const expressions = clauses.map(buildClauseExpression);
+  if (expressions.length === 1) {
+    return expressions[0] as FilterSpecification;
+  }
+  return [
+    filter?.combine === "or" ? "any" : "all",
+    ...expressions,
+  ] as FilterSpecification;
+}
+
+/**
+ * Evaluate an attribute filter against feature properties, mirroring the
+ * semantics of {@link buildFilterExpression}.
+ *
+ * @param properties - The feature properties.
+ * @param filter - The attribute filter. An empty filter matches everything.
+ * @returns True if the feature passes the filter.
+ */
+export function matchesFilter(
+  properties: Record<string, unknown> | null | undefined,
+  filter: AttributeFilter | null | undefined,
+): boolean {
+  if (!buildFilterExpression(filter)) return true;
+  const props = properties ?? {};
+  const results = filter!.clauses
+    .filter(
+      (c) =>
+        c.column &&
+        (!needsValue(c.operator) ||
+          (c.value !== undefined && String(c.value) !== "")),
+    )
+    .map((clause) => {
+      const raw = props[clause.column];
+      const isNull = raw === null || raw === undefined;
+      const text = isNull ? "" : String(raw);
+      const value = String(clause.value ?? "");
+      // Number(null) is 0; missing values never pass an ordering operator
+      const num = isNull ? NaN : Number(raw);
+      switch (clause.operator) {
+        case "==":
+          return text === value;
+        case "!=":
+          return text !== value;
+        case ">":
+          return num > Number(value);
+        case ">=":
+          return num >= Number(value);
+        case "<":
+          return num < Number(value);
+        case "<=":
+          return num <= Number(value);
+        case "contains":
+          return text.toLowerCase().includes(value.toLowerCase());
+        case "starts_with":
+          return text.toLowerCase().startsWith(value.toLowerCase());
+        case "is_null":
+          return isNull;
+        case "not_null":
+          return !isNull;
+      }
+    });
+  return filter!.combine === "or"
+    ? results.some(Boolean)
+    : results.every(Boolean);
+}
+
+/**
+ * Apply an attribute filter to a set of map layers, keeping each layer's own
+ * base filter (e.g. its geometry-type filter). Base filters are captured in
+ * `baseFilters` the first time a layer is filtered so they can be restored.
+ *
+ * @param map - The map.
+ * @param layerIds - The MapLibre layer IDs to filter.
+ * @param filter - The attribute filter, or null to clear it.
+ * @param baseFilters - Cache of each layer's original filter.
+ */
+export function applyAttributeFilter(
+  map: MapLibreMap,
+  layerIds: string[],
+  filter: AttributeFilter | null,
+  baseFilters: Map<string, FilterSpecification | undefined>,
+): void {
+  const expression = buildFilterExpression(filter);
+  for (const layerId of layerIds) {
+    if (!map.getLayer(layerId)) continue;
+    if (!baseFilters.has(layerId)) {
+      baseFilters.set(
+        layerId,
+        map.getFilter(layerId) as FilterSpecification | undefined,
+      );
+    }
+    const base = baseFilters.get(layerId);
+    let combined: FilterSpecification | null = null;
+    if (base && expression) {
+      combined = ["all", base, expression] as FilterSpecification;
+    } else {
+      combined = base ?? expression;
+    }
+    map.setFilter(layerId, combined);
+  }
+}
+
+/**
+ * Collect the property names used by a sample of features.
+ *
+ * @param features - The features to inspect.
+ * @param sampleSize - Maximum number of features to look at.
+ * @returns Sorted property names.
+ */
+export function collectColumns(
+  features: GeoJSON.Feature[],
+  sampleSize = 100,
+): string[] {
+  const columns = new Set<string>();
+  const n = Math.min(features.length, sampleSize);
+  for (let i = 0; i < n; i++) {
+    for (const key of Object.keys(features[i]?.properties ?? {})) {
+      columns.add(key);
+    }
+  }
+  return [...columns].sort();
+}
+
+/**
+ * Options for {@link createFilterBuilder}.
+ */
+export interface FilterBuilderOptions {
+  /** Columns offered in the column dropdown. */
+  columns: string[];
+  /** The currently active filter, if any. */
+  filter?: AttributeFilter | null;
+  /** Called with the edited filter, or null when it is cleared. */
+  onApply: (filter: AttributeFilter | null) => void;
+}
+
+/**
+ * Builds the filter editor: an AND/OR selector, one row per clause, and
+ * add / apply / clear buttons. Edits stay local until "Apply" is pressed.
+ *
+ * @param options - Columns, the active filter and the apply callback.
+ * @returns The filter builder element.
+ */
+export function createFilterBuilder(
+  options: FilterBuilderOptions,
+): HTMLElement {
+  const draft: AttributeFilter = {
+    combine: options.filter?.combine ?? "and",
+    clauses: options.filter?.clauses.map((c) => ({ ...c })) ?? [],
+  };
+  if (draft.clauses.length === 0) {
+    draft.clauses.push({
+      column: options.columns[0] ?? "",
+      operator: "==",
+      value: "",
+    });
+  }
+
+  const wrap = document.createElement("div");
+  wrap.className = "maplibre-gl-filter-builder";
+
+  const combineRow = document.createElement("div");
+  combineRow.className = "maplibre-gl-filter-combine";
+  const combineLabel = document.createElement("span");
+  combineLabel.textContent = "Match";
+  const combineSelect = document.createElement("select");
+  combineSelect.className = "maplibre-gl-filter-select";
+  for (const [value, label] of [
+    ["and", "all clauses (AND)"],
+    ["or", "any clause (OR)"],
+  ]) {
+    const option = document.createElement("option");
+    option.value = value;
+    option.textContent = label;
+    option.selected = value === draft.combine;
+    combineSelect.appendChild(option);
+  }
+  combineSelect.addEventListener("change", () => {
+    draft.combine = combineSelect.value === "or" ? "or" : "and";
+  });
+  combineRow.appendChild(combineLabel);
+  combineRow.appendChild(combineSelect);
+  wrap.appendChild(combineRow);
+
+  const clauseList = document.createElement("div");
+  clauseList.className = "maplibre-gl-filter-clauses";
+  wrap.appendChild(clauseList);
+
+  const renderClauses = (): void => {
+    clauseList.innerHTML = "";
+    draft.clauses.forEach((clause, index) => {
+      const row = document.createElement("div");
+      row.className = "maplibre-gl-filter-clause";
+
+      const columnSelect = document.createElement("select");
+      columnSelect.className = "maplibre-gl-filter-select";
+      for (const col of options.columns) {
+        const option = document.createElement("option");
+        option.value = col;
+        option.textContent = col;
+        option.selected = col === clause.column;
+        columnSelect.appendChild(option);
+      }
+      columnSelect.addEventListener("change", () => {
+        clause.column = columnSelect.value;
+      });
+      row.appendChild(columnSelect);
+
+      const operatorSelect = document.createElement("select");
+      operatorSelect.className = "maplibre-gl-filter-select";
+      for (const op of FILTER_OPERATORS) {
+        const option = document.createElement("option");
+        option.value = op.value;
+        option.textContent = op.label;
+        option.selected = op.value === clause.operator;
+        operatorSelect.appendChild(option);
+      }
+      row.appendChild(operatorSelect);
+
+      const valueInput = document.createElement("input");
+      valueInput.type = "text";
+      valueInput.className = "maplibre-gl-filter-value";
+      valueInput.placeholder = "value";
+      valueInput.value = clause.value === undefined ? "" : String(clause.value);
+      valueInput.disabled = !needsValue(clause.operator);
+      valueInput.addEventListener("input", () => {
+        clause.value = valueInput.value;
+      });
+      operatorSelect.addEventListener("change", () => {
+        clause.operator = operatorSelect.value as AttributeFilterOperator;
+        valueInput.disabled = !needsValue(clause.operator);
+      });
+      row.appendChild(valueInput);
+
+      const removeBtn = document.createElement("button");
+      removeBtn.type = "button";
+      removeBtn.className = "maplibre-gl-filter-remove";
+      removeBtn.innerHTML = "&times;";
+      removeBtn.title = "Remove clause";
+      removeBtn.addEventListener("click", () => {
+        draft.clauses.splice(index, 1);
+        renderClauses();
+      });
+      row.appendChild(removeBtn);
+
+      clauseList.appendChild(row);
+    });
+  };
+  renderClauses();
+
+  const actions = document.createElement("div");
+  actions.className = "maplibre-gl-filter-actions";
+
+  const addBtn = document.createElement("button");
+  addBtn.type = "button";
+  addBtn.className = "maplibre-gl-filter-btn";
+  addBtn.textContent = "+ Clause";
+  addBtn.addEventListener("click", () => {
+    draft.clauses.push({
+      column: options.columns[0] ?? "",
+      operator: "==",
+      value: "",
+    });
+    renderClauses();
+  });
+  actions.appendChild(addBtn);
+
+  const clearBtn = document.createElement("button");
+  clearBtn.type = "button";
+  clearBtn.className = "maplibre-gl-filter-btn";
+  clearBtn.textContent = "Clear";
+  clearBtn.addEventListener("click", () => options.onApply(null));
+  actions.appendChild(clearBtn);
+
+  const applyBtn = document.createElement("button");
+  applyBtn.type = "button";
+  applyBtn.className = "maplibre-gl-filter-btn maplibre-gl-filter-btn--primary";
+  applyBtn.textContent = "Apply";
+  applyBtn.addEventListener("click", () => {
+    const filter: AttributeFilter = {
+      combine: draft.combine,
+      clauses: draft.clauses.map((c) => ({ ...c })),
+    };
+    options.onApply(buildFilterExpression(filter) ? filter : null);
+  });
+  actions.appendChild(applyBtn);
+
+  wrap.appendChild(actions);
+  return wrap;
+}
@@ -0,0 +1,185 @@
+/**
+ * Spherical geometry shared by MeasureControl and its import/export helpers:
+ * distances, areas, bearings and geodesic circles, and the values and map
+ * geometry of a measurement's points under each mode.
+ */
+import type { MeasureMode, MeasurePoint, Measurement } from "./types";
+
+/**
+ * Calculate the distance between two points using the Haversine formula.
+ */
+export function haversineDistance(p1: MeasurePoint, p2: MeasurePoint): number {
+  const R = 6371000; // Earth's radius in meters
+  const lat1 = (p1.lat * Math.PI) / 180;
+  const lat2 = (p2.lat * Math.PI) / 180;
+  const deltaLat = ((p2.lat - p1.lat) * Math.PI) / 180;
+  const deltaLng = ((p2.lng - p1.lng) * Math.PI) / 180;
+
+  const a =
+    Math.sin(deltaLat / 2) * Math.sin(deltaLat / 2) +
+    Math.cos(lat1) *
+      Math.cos(lat2) *
+      Math.sin(deltaLng / 2) *
+      Math.sin(deltaLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+/**
+ * Calculate the area of a polygon using the Shoelace formula (spherical approximation).
+ */
+export function calculatePolygonArea(points: MeasurePoint[]): number {
+  if (points.length < 3) return 0;
+
+  const R = 6371000; // Earth's radius in meters
+  let area = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    const lat1 = (points[i].lat * Math.PI) / 180;
+    const lat2 = (points[j].lat * Math.PI) / 180;
+    const lng1 = (points[i].lng * Math.PI) / 180;
+    const lng2 = (points[j].lng * Math.PI) / 180;
+
+    area += (lng2 - lng1) * (2 + Math.sin(lat1) + Math.sin(lat2));
+  }
+
+  area = Math.abs((area * R * R) / 2);
+  return area;
+}
+
+/**
+ * Earth's mean radius in meters, shared by the spherical formulas below.
+ */
+export const EARTH_RADIUS = 6371000;
+
+/**
+ * Calculate the initial (forward) bearing from p1 to p2 in degrees clockwise
+ * from north, normalized to 0-360.
+ */
+export function initialBearing(p1: MeasurePoint, p2: MeasurePoint): number {
+  const lat1 = (p1.lat * Math.PI) / 180;
+  const lat2 = (p2.lat * Math.PI) / 180;
+  const deltaLng = ((p2.lng - p1.lng) * Math.PI) / 180;
+
+  const y = Math.sin(deltaLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Calculate the point reached by travelling a distance in meters from an
+ * origin along a great circle with the given initial bearing.
+ */
+export function destinationPoint(
+  origin: MeasurePoint,
+  distance: number,
+  bearing: number,
+): MeasurePoint {
+  const delta = distance / EARTH_RADIUS;
+  const theta = (bearing * Math.PI) / 180;
+  const lat1 = (origin.lat * Math.PI) / 180;
+  const lng1 = (origin.lng * Math.PI) / 180;
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(delta) +
+      Math.cos(lat1) * Math.sin(delta) * Math.cos(theta),
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+      Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2),
+    );
+  return { lng: (lng2 * 180) / Math.PI, lat: (lat2 * 180) / Math.PI };
+}
+
+/**
+ * Build the ring of a geodesic circle as a closed list of coordinates.
+ */
+export function geodesicCircle(
+  center: MeasurePoint,
+  radius: number,
+  steps = 64,
+): number[][] {
+  const ring: number[][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const p = destinationPoint(center, radius, (360 * i) / steps);
+    ring.push([p.lng, p.lat]);
+  }
+  return ring;
+}
+
+/**
+ * Compute the measured values of a set of points under a mode.
+ */
+export function computeMeasurementValues(
+  mode: MeasureMode,
+  points: MeasurePoint[],
+): Pick<
+  Measurement,
+  "distance" | "area" | "segments" | "radius" | "circumference" | "bearing"
+> {
+  switch (mode) {
+    case "area":
+      return { area: calculatePolygonArea(points), segments: [] };
+    case "radius": {
+      if (points.length < 2) return { radius: 0, circumference: 0, area: 0 };
+      const radius = haversineDistance(points[0], points[1]);
+      const angle = radius / EARTH_RADIUS;
+      return {
+        radius,
+        circumference: 2 * Math.PI * EARTH_RADIUS * Math.sin(angle),
+        // Area of the spherical cap enclosed by the circle.
+        area: 2 * Math.PI * EARTH_RADIUS ** 2 * (1 - Math.cos(angle)),
+      };
+    }
+    case "bearing":
+      if (points.length < 2) return { bearing: 0, distance: 0 };
+      return {
+        bearing: initialBearing(points[0], points[1]),
+        distance: haversineDistance(points[0], points[1]),
+      };
+    case "point":
+      return {};
+    default: {
+      const segments: number[] = [];
+      for (let i = 1; i < points.length; i++) {
+        segments.push(haversineDistance(points[i - 1], points[i]));
+      }
+      return {
+        distance: segments.reduce((sum, d) => sum + d, 0),
+        segments,
+      };
+    }
+  }
+}
+
+/**
+ * Build the map geometry drawn for a set of points under a mode.
+ */
+export function measurementGeometries(
+  mode: MeasureMode,
+  points: MeasurePoint[],
+): GeoJSON.Geometry[] {
+  const coords = points.map((p) => [p.lng, p.lat]);
+  if (mode === "point") {
+    return coords.map((c) => ({ type: "Point", coordinates: c }));
+  }
+  if (points.length < 2) return [];
+  if (mode === "radius") {
+    const radius = haversineDistance(points[0], points[1]);
+    return [
+      { type: "Polygon", coordinates: [geodesicCircle(points[0], radius)] },
+      { type: "LineString", coordinates: coords.slice(0, 2) },
+    ];
+  }
+  if (mode === "area" && points.length >= 3) {
+    return [{ type: "Polygon", coordinates: [[...coords, coords[0]]] }];
+  }
+  // Lines for distance, profile and bearing, and for an area with < 3 points
+  return [{ type: "LineString", coordinates: coords }];
+}
@@ -0,0 +1,382 @@
+/**
+ * Import and export helpers for MeasureControl. Measurements are written as
+ * GeoJSON, KML or CSV (WKT geometry) features whose properties carry the
+ * measured values in meters, square meters and degrees, and read back from
+ * any of those formats.
+ */
+import { featuresToCSV } from "./vectorExport";
+import { parseCSV } from "../utils/csv";
+import {
+  escapeXml,
+  kmlDocument,
+  kmlExtendedData,
+  parseKmlPlacemarks,
+} from "../utils/kml";
+import { destinationPoint, measurementGeometries } from "./measureGeometry";
+import type {
+  MeasureExportFormat,
+  MeasureMode,
+  MeasurePoint,
+  Measurement,
+} from "./types";
+
+/**
+ * A measurement read from a file: its mode and points, before its values are
+ * computed.
+ */
+export type MeasurementInput = Pick<Measurement, "mode" | "points">;
+
+/**
+ * Measurement export formats offered in the MeasureControl panel.
+ */
+export const MEASURE_EXPORT_FORMATS: {
+  value: MeasureExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  {
+    value: "geojson",
+    label: "GeoJSON",
+    extension: ".geojson",
+    mimeType: "application/geo+json",
+  },
+  {
+    value: "kml",
+    label: "KML",
+    extension: ".kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+  },
+  {
+    value: "csv",
+    label: "CSV (WKT geometry)",
+    extension: ".csv",
+    mimeType: "text/csv",
+  },
+];
+
+/**
+ * Every measurement mode, for validating imported `mode` properties.
+ */
+const MEASURE_MODES: MeasureMode[] = [
+  "distance",
+  "area",
+  "profile",
+  "radius",
+  "bearing",
+  "point",
+];
+
+/**
+ * Measured values copied to feature properties when present.
+ */
+const VALUE_KEYS = [
+  "distance",
+  "area",
+  "radius",
+  "circumference",
+  "bearing",
+] as const;
+
+/**
+ * Build the feature properties of a measurement.
+ */
+function measurementProperties(m: Measurement): Record<string, unknown> {
+  const properties: Record<string, unknown> = { id: m.id, mode: m.mode };
+  for (const key of VALUE_KEYS) {
+    if (m[key] !== undefined) properties[key] = m[key];
+  }
+  // A circle is exported as its polygon; keep the center so it can be
+  // restored as a radius measurement.
+  if (m.mode === "radius") {
+    properties.center_lng = m.points[0].lng;
+    properties.center_lat = m.points[0].lat;
+  }
+  if (m.profile) {
+    properties.gain = m.profile.gain;
+    properties.loss = m.profile.loss;
+    properties.min_elevation = m.profile.min;
+    properties.max_elevation = m.profile.max;
+  }
+  return properties;
+}
+
+/**
+ * Convert measurements to a GeoJSON FeatureCollection. Lines, bearings and
+ * profiles become LineStrings, areas and circles Polygons, and points Points.
+ *
+ * @param measurements - The measurements to convert.
+ * @returns The feature collection.
+ */
+export function measurementsToGeoJSON(
+  measurements: Measurement[],
+): GeoJSON.FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: measurements.map((m) => ({
+      type: "Feature",
+      properties: measurementProperties(m),
+      geometry: measurementGeometries(m.mode, m.points)[0],
+    })),
+  };
+}
+
+/**
+ * Format a coordinate list as KML `lng,lat` tuples.
+ */
+function kmlCoords(coords: GeoJSON.Position[]): string {
+  return `<coordinates>${coords.map((c) => `${c[0]},${c[1]}`).join(" ")}</coordinates>`;
+}
+
+/**
+ * Convert a Point, LineString or Polygon geometry to KML.
+ */
+function geometryToKML(geometry: GeoJSON.Geometry): string {
+  switch (geometry.type) {
+    case "Point":
+      return `<Point>${kmlCoords([geometry.coordinates])}</Point>`;
+    case "LineString":
+      return `<LineString>${kmlCoords(geometry.coordinates)}</LineString>`;
+    case "Polygon":
+      return `<Polygon><outerBoundaryIs><LinearRing>${kmlCoords(geometry.coordinates[0])}</LinearRing></outerBoundaryIs></Polygon>`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Convert measurements to a KML document with one Placemark per measurement.
+ * The measured values are stored as ExtendedData.
+ *
+ * @param measurements - The measurements to convert.
+ * @returns The KML text.
+ */
+export function measurementsToKML(measurements: Measurement[]): string {
+  const placemarks = measurementsToGeoJSON(measurements).features.map((f) => {
+    const data = Object.entries(f.properties ?? {})
+      .map(
+        ([key, value]) =>
+          `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`,
+      )
+      .join("");
+    return [
+      "    <Placemark>",
+      `      <name>${escapeXml(String(f.properties?.mode))}</name>`,
+      `      <ExtendedData>${data}</ExtendedData>`,
+      `      ${geometryToKML(f.geometry)}`,
+      "    </Placemark>",
+    ].join("\n");
+  });
+  return kmlDocument("Measurements", placemarks);
+}
+
+/**
+ * Convert measurements to text in one of the export formats.
+ *
+ * @param measurements - The measurements to convert.
+ * @param format - The output format.
+ * @returns The file contents.
+ */
+export function exportMeasurementsAs(
+  measurements: Measurement[],
+  format: MeasureExportFormat,
+): string {
+  switch (format) {
+    case "kml":
+      return measurementsToKML(measurements);
+    case "csv":
+      return featuresToCSV(measurementsToGeoJSON(measurements).features);
+    default:
+      return JSON.stringify(measurementsToGeoJSON(measurements), null, 2);
+  }
+}
+
+/**
+ * Parse coordinate text into positions. KML separates tuples with whitespace
+ * and their values with commas; WKT does the opposite.
+ */
+function parsePositions(
+  text: string,
+  style: "kml" | "wkt",
+): GeoJSON.Position[] {
+  const [tuples, values] = style === "kml" ? [/\s+/, ","] : [",", /\s+/];
+  return text
+    .trim()
+    .split(tuples)
+    .filter(Boolean)
+    .map((tuple) => tuple.trim().split(values).map(Number));
+}
+
+/**
+ * Read the Placemarks of a KML document as GeoJSON features.
+ */
+function kmlToFeatures(text: string): GeoJSON.Feature[] {
+  const features: GeoJSON.Feature[] = [];
+  for (const placemark of parseKmlPlacemarks(text)) {
+    const properties: Record<string, unknown> = kmlExtendedData(placemark);
+
+    const coords = (el: Element | undefined) =>
+      parsePositions(
+        el?.getElementsByTagName("coordinates")[0]?.textContent ?? "",
+        "kml",
+      );
+    const point = placemark.getElementsByTagName("Point")[0];
+    const line = placemark.getElementsByTagName("LineString")[0];
+    const polygon = placemark.getElementsByTagName("Polygon")[0];
+    let geometry: GeoJSON.Geometry | null = null;
+    if (point) {
+      geometry = { type: "Point", coordinates: coords(point)[0] };
+    } else if (line) {
+      geometry = { type: "LineString", coordinates: coords(line) };
+    } else if (polygon) {
+      const outer = polygon.getElementsByTagName("outerBoundaryIs")[0];
+      geometry = { type: "Polygon", coordinates: [coords(outer ?? polygon)] };
+    }
+    if (geometry) features.push({ type: "Feature", properties, geometry });
+  }
+  return features;
+}
+
+/**
+ * Parse a Point, LineString or Polygon from Well-Known Text.
+ */
+function wktToGeometry(wkt: string): GeoJSON.Geometry | null {
+  const match = /^\s*(POINT|LINESTRING|POLYGON)\s*(?:Z\s*)?\((.*)\)\s*$/i.exec(
+    wkt,
+  );
+  if (!match) return null;
+
+  const body = match[2];
+  switch (match[1].toUpperCase()) {
+    case "POINT":
+      return { type: "Point", coordinates: parsePositions(body, "wkt")[0] };
+    case "LINESTRING":
+      return { type: "LineString", coordinates: parsePositions(body, "wkt") };
+    default:
+      return {
+        type: "Polygon",
+        coordinates: (body.match(/\(([^()]*)\)/g) ?? []).map((ring) =>
+          parsePositions(ring.slice(1, -1), "wkt"),
+        ),
+      };
+  }
+}
+
+/**
+ * Read the rows of a CSV with a WKT geometry column as GeoJSON features.
+ */
+function csvToFeatures(text: string): GeoJSON.Feature[] {
+  const [header, ...rows] = parseCSV(text);
+  const wktIndex = header?.findIndex((h) => h.toUpperCase() === "WKT") ?? -1;
+  if (wktIndex === -1) {
+    throw new Error("CSV has no WKT geometry column");
+  }
+
+  const features: GeoJSON.Feature[] = [];
+  for (const row of rows) {
+    const geometry = wktToGeometry(row[wktIndex] ?? "");
+    if (!geometry) continue;
+    const properties: Record<string, unknown> = {};
+    header.forEach((name, i) => {
+      if (i !== wktIndex && row[i] !== undefined) properties[name] = row[i];
+    });
+    features.push({ type: "Feature", properties, geometry });
+  }
+  return features;
+}
+
+/**
+ * Convert a position to a measurement point.
+ */
+function toPoint(position: GeoJSON.Position): MeasurePoint {
+  return { lng: position[0], lat: position[1] };
+}
+
+/**
+ * Read a measurement from a feature. The `mode` property picks between modes
+ * that share a geometry type; without it Points are read as points,
+ * LineStrings as distances and Polygons as areas.
+ */
+function featureToInput(feature: GeoJSON.Feature): MeasurementInput | null {
+  const geometry = feature.geometry;
+  const properties = feature.properties ?? {};
+  const declared = MEASURE_MODES.includes(properties.mode)
+    ? (properties.mode as MeasureMode)
+    : null;
+
+  switch (geometry?.type) {
+    case "Point":
+      return { mode: "point", points: [toPoint(geometry.coordinates)] };
+    case "LineString": {
+      const points = geometry.coordinates.map(toPoint);
+      if (points.length < 2) return null;
+      if (
+        declared === "profile" ||
+        (declared === "bearing" && points.length === 2)
+      ) {
+        return { mode: declared, points };
+      }
+      return { mode: "distance", points };
+    }
+    case "Polygon": {
+      const lng = Number(properties.center_lng);
+      const lat = Number(properties.center_lat);
+      const radius = Number(properties.radius);
+      if (
+        declared === "radius" &&
+        Number.isFinite(lng) &&
+        Number.isFinite(lat) &&
+        Number.isFinite(radius)
+      ) {
+        const center = { lng, lat };
+        return {
+          mode: "radius",
+          points: [center, destinationPoint(center, radius, 90)],
+        };
+      }
+      // Drop the closing coordinate of the ring.
+      const points = (geometry.coordinates[0] ?? []).slice(0, -1).map(toPoint);
+      return points.length >= 3 ? { mode: "area", points } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Guess the format of measurement file contents.
+ */
+function detectFormat(text: string): MeasureExportFormat {
+  const start = text.trimStart();
+  if (start.startsWith("{")) return "geojson";
+  if (start.startsWith("<")) return "kml";
+  return "csv";
+}
+
+/**
+ * Read measurements from GeoJSON, KML or CSV (WKT geometry) text. Features
+ * that do not describe a measurement are skipped.
+ *
+ * @param text - The file contents.
+ * @param format - The format; detected from the contents when omitted.
+ * @returns The mode and points of each measurement.
+ * @throws If the text cannot be parsed in the format.
+ */
+export function parseMeasurements(
+  text: string,
+  format: MeasureExportFormat = detectFormat(text),
+): MeasurementInput[] {
+  let features: GeoJSON.Feature[];
+  if (format === "kml") {
+    features = kmlToFeatures(text);
+  } else if (format === "csv") {
+    features = csvToFeatures(text);
+  } else {
+    const data = JSON.parse(text) as
+      GeoJSON.FeatureCollection | GeoJSON.Feature;
+    features = data.type === "FeatureCollection" ? data.features : [data];
+  }
+  return features
+    .map(featureToInput)
+    .filter((m): m is MeasurementInput => m !== null);
+}
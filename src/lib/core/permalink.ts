@@ -0,0 +1,668 @@
+/**
+ * URL hash permalinks for a whole map: the camera, the basemap, terrain and
+ * the layers added through the layer controls. The state is written to the
+ * hash as `map=zoom/lat/lng/bearing/pitch`, `basemap=id`, `terrain=factor`
+ * (`0` when off) and `layers=token`, where the token is base64url JSON; any
+ * other hash parameters (such as bookmark share links) are left untouched.
+ * Layers loaded from local files have no URL to share and are skipped.
+ */
+import type { Map as MapLibreMap } from "maplibre-gl";
+import type { AddVectorControl } from "./AddVector";
+import type { BasemapControl } from "./Basemap";
+import type { CogLayerControl } from "./CogLayer";
+import type { PMTilesLayerControl } from "./PMTilesLayer";
+import type { StacLayerControl } from "./StacLayer";
+import type { TerrainControl } from "./Terrain";
+import type { ZarrLayerControl } from "./ZarrLayer";
+import type {
+  AddVectorLayerAddOptions,
+  AddVectorLayerInfo,
+  CogLayerAddOptions,
+  CogLayerInfo,
+  PMTilesLayerAddOptions,
+  PMTilesLayerInfo,
+  RemoteVectorFormat,
+  StacLayerAddOptions,
+  StacLayerInfo,
+  ZarrLayerAddOptions,
+  ZarrLayerInfo,
+} from "./types";
+import { debounce, decodeBase64Url, encodeBase64Url } from "../utils/helpers";
+
+/**
+ * Controls whose state goes into the permalink. All are optional; state of a
+ * control that is not given is neither written nor restored.
+ */
+export interface PermalinkControls {
+  basemap?: BasemapControl;
+  terrain?: TerrainControl;
+  cog?: CogLayerControl;
+  zarr?: ZarrLayerControl;
+  pmtiles?: PMTilesLayerControl;
+  vector?: AddVectorControl;
+  stac?: StacLayerControl;
+}
+
+/**
+ * A layer in a permalink: the control that owns it, its source and the
+ * options to add it again with.
+ */
+export type PermalinkLayer =
+  | { type: "cog"; url: string; options: CogLayerAddOptions }
+  | {
+      type: "zarr";
+      url: string;
+      variable: string;
+      options: Omit<ZarrLayerAddOptions, "store" | "transformRequest">;
+    }
+  | { type: "pmtiles"; url: string; options: PMTilesLayerAddOptions }
+  | {
+      type: "vector";
+      url: string;
+      format: RemoteVectorFormat;
+      options: AddVectorLayerAddOptions;
+    }
+  | { type: "stac"; url: string; options: StacLayerAddOptions };
+
+/**
+ * Layer info as reported by the layer controls' `getState().layers`.
+ */
+export interface PermalinkLayerInfo {
+  cog?: CogLayerInfo[];
+  zarr?: ZarrLayerInfo[];
+  pmtiles?: PMTilesLayerInfo[];
+  vector?: AddVectorLayerInfo[];
+  stac?: StacLayerInfo[];
+}
+
+/**
+ * The map state a permalink carries. Missing parts are left as they are on
+ * restore.
+ */
+export interface PermalinkState {
+  /** Camera position. */
+  camera?: {
+    center: [number, number];
+    zoom: number;
+    bearing: number;
+    pitch: number;
+  };
+  /** Selected basemap ID. */
+  basemap?: string;
+  /** Terrain exaggeration, or 0 when terrain is off. */
+  terrain?: number;
+  /** Layers in the order they were added. */
+  layers?: PermalinkLayer[];
+}
+
+/**
+ * Options for {@link PermalinkManager}.
+ */
+export interface PermalinkManagerOptions {
+  /** Controls whose state goes into the permalink. */
+  controls?: PermalinkControls;
+  /** Whether to restore the state in the URL hash on creation. Default: true. */
+  restoreOnLoad?: boolean;
+  /** Delay before the hash is rewritten after a change, in ms. Default: 500. */
+  debounce?: number;
+}
+
+/**
+ * PermalinkManager event types.
+ */
+export type PermalinkEvent = "update" | "restore" | "error";
+
+/**
+ * PermalinkManager event handler function type.
+ */
+export type PermalinkEventHandler = (event: {
+  type: PermalinkEvent;
+  state: PermalinkState;
+  error?: string;
+}) => void;
+
+/** Hash parameters written by the permalink. */
+const PARAMS = ["map", "basemap", "terrain", "layers"] as const;
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Whether a layer source can be shared: not a local file or folder, and not
+ * GeoJSON pasted into the panel.
+ *
+ * @param url - The layer's source URL.
+ */
+export function isSharableUrl(url: string | undefined): url is string {
+  return (
+    !!url &&
+    url !== "inline-geojson" &&
+    !/^(blob|data|file|local-zarr):/i.test(url)
+  );
+}
+
+/**
+ * Drop undefined fields so they do not end up in the token as `null`.
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as T;
+}
+
+/**
+ * Read the layers of the given controls, in control order and then in the
+ * order each control added them.
+ *
+ * @param controls - The layer controls to read.
+ * @returns The layers that have a shareable URL.
+ */
+export function captureLayers(controls: PermalinkControls): PermalinkLayer[] {
+  return layersFromInfo({
+    cog: controls.cog?.getState().layers,
+    zarr: controls.zarr?.getState().layers,
+    pmtiles: controls.pmtiles?.getState().layers,
+    vector: controls.vector?.getState().layers,
+    stac: controls.stac?.getState().layers,
+  }).filter((layer) => isSharableUrl(layer.url));
+}
+
+/**
+ * Turn the layer info the controls report into layers that can be added
+ * again with {@link restoreLayers}. Only the source and render options are
+ * kept.
+ *
+ * @param source - Layer info, by control.
+ * @returns The layers, control by control.
+ */
+export function layersFromInfo(source: PermalinkLayerInfo): PermalinkLayer[] {
+  const layers: PermalinkLayer[] = [];
+  for (const info of source.cog ?? []) {
+    layers.push({
+      type: "cog",
+      url: info.url,
+      options: compact({
+        name: info.name,
+        colormap: info.colormap,
+        rescaleMin: info.rescaleMin,
+        rescaleMax: info.rescaleMax,
+        nodata: info.nodata,
+        opacity: info.opacity,
+      }),
+    });
+  }
+  for (const info of source.zarr ?? []) {
+    layers.push({
+      type: "zarr",
+      url: info.url,
+      variable: info.variable,
+      options: compact({
+        name: info.name,
+        colormap: info.colormap,
+        clim: info.clim,
+        selector: info.selector,
+        opacity: info.opacity,
+        crs: info.crs,
+        proj4: info.proj4,
+        bounds: info.bounds,
+      }),
+    });
+  }
+  for (const info of source.pmtiles ?? []) {
+    // Source-layer colors are not stored: they are assigned by position among
+    // the rendered source layers, so the same selection gets the same colors
+    const rendered = Object.keys(info.sourceLayerColors ?? {});
+    layers.push({
+      type: "pmtiles",
+      url: info.url,
+      options: compact({
+        name: info.name,
+        opacity: info.opacity,
+        pickable: info.pickable,
+        // Only list source layers when some were left out
+        sourceLayers:
+          rendered.length && rendered.length < info.sourceLayers.length
+            ? rendered
+            : undefined,
+      }),
+    });
+  }
+  for (const info of source.vector ?? []) {
+    layers.push({
+      type: "vector",
+      url: info.url,
+      format: info.format,
+      options: compact({
+        name: info.id,
+        opacity: info.opacity,
+        fillColor: info.fillColor,
+        strokeColor: info.strokeColor,
+        circleColor: info.circleColor,
+        pickable: info.pickable,
+        viewportLoading: info.viewportLoading,
+        viewportMinZoom: info.viewportMinZoom,
+      }),
+    });
+  }
+  for (const info of source.stac ?? []) {
+    layers.push({
+      type: "stac",
+      url: info.stacUrl,
+      options: compact({
+        assets: info.assets,
+        name: info.name,
+        colormap: info.assets.length === 3 ? undefined : info.colormap,
+        rescaleMin: info.rescaleMin,
+        rescaleMax: info.rescaleMax,
+        opacity: info.opacity,
+      }),
+    });
+  }
+  return layers;
+}
+
+/**
+ * Add layers to their controls one after another. Layers are added without
+ * zooming to them; layers whose control is missing are skipped.
+ *
+ * @param controls - The layer controls to add to.
+ * @param layers - The layers, as written by {@link captureLayers}.
+ * @returns How many layers were added.
+ */
+export async function restoreLayers(
+  controls: PermalinkControls,
+  layers: PermalinkLayer[],
+): Promise<number> {
+  let added = 0;
+  for (const layer of layers) {
+    switch (layer.type) {
+      case "cog":
+        if (!controls.cog) continue;
+        await controls.cog.addLayer(layer.url, {
+          ...layer.options,
+          fitBounds: false,
+        });
+        break;
+      case "zarr":
+        if (!controls.zarr) continue;
+        await controls.zarr.addLayer(layer.url, layer.variable, layer.options);
+        break;
+      case "pmtiles":
+        if (!controls.pmtiles) continue;
+        await controls.pmtiles.addLayer(layer.url, {
+          ...layer.options,
+          fitBounds: false,
+        });
+        break;
+      case "vector":
+        if (!controls.vector) continue;
+        await controls.vector.addLayer(layer.url, layer.format, {
+          ...layer.options,
+          fitBounds: false,
+        });
+        break;
+      case "stac":
+        if (!controls.stac) continue;
+        await controls.stac.loadStacUrl(layer.url);
+        await controls.stac.addLayer({ ...layer.options, fitBounds: false });
+        break;
+      default:
+        continue;
+    }
+    added++;
+  }
+  return added;
+}
+
+/**
+ * Read the camera, the selected basemap and terrain.
+ *
+ * @param map - The map.
+ * @param controls - The basemap and terrain controls to read.
+ * @returns The view, without layers.
+ */
+export function captureView(
+  map: MapLibreMap,
+  controls: PermalinkControls,
+): PermalinkState {
+  const center = map.getCenter();
+  const state: PermalinkState = {
+    camera: {
+      center: [center.lng, center.lat],
+      zoom: map.getZoom(),
+      bearing: map.getBearing(),
+      pitch: map.getPitch(),
+    },
+  };
+  const basemap = controls.basemap?.getSelectedBasemap();
+  if (basemap) state.basemap = basemap.id;
+  if (controls.terrain) {
+    state.terrain = controls.terrain.isEnabled()
+      ? controls.terrain.getExaggeration()
+      : 0;
+  }
+  return state;
+}
+
+/**
+ * Move the camera and switch the basemap and terrain. When the basemap switch
+ * replaces the map's style, resolves once the new style has loaded, so layers
+ * can be added right after; otherwise resolves at once.
+ *
+ * @param map - The map.
+ * @param controls - The basemap and terrain controls to update.
+ * @param state - The view to restore; layers are ignored.
+ */
+export function restoreView(
+  map: MapLibreMap,
+  controls: PermalinkControls,
+  state: PermalinkState,
+): Promise<void> {
+  if (state.camera) map.jumpTo(state.camera);
+  const { basemap, terrain } = controls;
+  // Raster basemaps are added as a source; only style basemaps call setStyle,
+  // which starts loading a new style right away
+  let styleReplaced = false;
+  const onStyleLoading = () => {
+    styleReplaced = true;
+  };
+  if (
+    basemap &&
+    state.basemap &&
+    basemap.getSelectedBasemap()?.id !== state.basemap
+  ) {
+    map.on("styledataloading", onStyleLoading);
+    try {
+      basemap.setBasemap(state.basemap);
+    } finally {
+      map.off("styledataloading", onStyleLoading);
+    }
+  }
+  if (terrain && state.terrain !== undefined) {
+    if (state.terrain > 0) {
+      terrain.setExaggeration(state.terrain);
+      terrain.enable();
+    } else {
+      terrain.disable();
+    }
+  }
+  // isStyleLoaded() is also false while sources load, when style.load never
+  // fires, so only wait for a style that is actually being replaced
+  if (!styleReplaced) return Promise.resolve();
+  return new Promise((resolve) => map.once("style.load", () => resolve()));
+}
+
+/**
+ * Write map state as URL hash parameters, keeping any other parameters
+ * already in the hash.
+ *
+ * @param state - The state to write.
+ * @param hash - The current hash, with or without the leading `#`.
+ * @returns The new hash, without the leading `#`.
+ */
+export function serializePermalink(state: PermalinkState, hash = ""): string {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  for (const param of PARAMS) params.delete(param);
+  if (state.camera) {
+    const { center, zoom, bearing, pitch } = state.camera;
+    params.set(
+      "map",
+      [
+        round(zoom, 2),
+        round(center[1], 5),
+        round(center[0], 5),
+        round(bearing, 1),
+        round(pitch, 1),
+      ].join("/"),
+    );
+  }
+  if (state.basemap) params.set("basemap", state.basemap);
+  if (state.terrain !== undefined) {
+    params.set("terrain", String(round(state.terrain, 2)));
+  }
+  if (state.layers?.length) {
+    params.set("layers", encodeBase64Url(JSON.stringify(state.layers)));
+  }
+  // URLSearchParams escapes "/", which would make the camera hard to read
+  return params.toString().replace(/%2F/g, "/");
+}
+
+/**
+ * Read map state from URL hash parameters. Malformed parameters are ignored.
+ *
+ * @param hash - The hash, with or without the leading `#`.
+ * @returns The state found in the hash.
+ */
+export function parsePermalink(hash: string): PermalinkState {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const state: PermalinkState = {};
+
+  const camera = params.get("map")?.split("/").map(Number);
+  if (
+    camera &&
+    camera.length >= 3 &&
+    camera.every((value) => Number.isFinite(value))
+  ) {
+    const [zoom, lat, lng, bearing = 0, pitch = 0] = camera;
+    state.camera = { center: [lng, lat], zoom, bearing, pitch };
+  }
+
+  const basemap = params.get("basemap");
+  if (basemap) state.basemap = basemap;
+
+  const terrain = Number(params.get("terrain") ?? NaN);
+  if (Number.isFinite(terrain) && terrain >= 0) state.terrain = terrain;
+
+  const layers = params.get("layers");
+  if (layers) {
+    try {
+      const parsed = JSON.parse(decodeBase64Url(layers));
+      if (Array.isArray(parsed)) {
+        state.layers = parsed.filter(
+          (l): l is PermalinkLayer =>
+            !!l &&
+            typeof l.type === "string" &&
+            typeof l.url === "string" &&
+            typeof l.options === "object",
+        );
+      }
+    } catch {
+      // Not a layer token; leave the layers alone
+    }
+  }
+  return state;
+}
+
+/**
+ * Keeps the URL hash in sync with the map and its controls, so the current
+ * view, basemap, terrain and layers can be shared as a link, and rebuilds
+ * that state when the page is opened from such a link.
+ *
+ * @example
+ * ```typescript
+ * const permalink = new PermalinkManager(map, {
+ *   controls: { basemap: basemapControl, terrain: terrainControl, cog: cogControl },
+ * });
+ * permalink.on('restore', (e) => console.log('Restored', e.state));
+ * ```
+ */
+export class PermalinkManager {
+  private _map: MapLibreMap;
+  private _controls: PermalinkControls;
+  private _options: Required<Omit<PermalinkManagerOptions, "controls">>;
+  private _eventHandlers: Map<PermalinkEvent, Set<PermalinkEventHandler>> =
+    new Map();
+  private _restoring = false;
+  private _scheduleUpdate: () => void;
+  private _unsubscribers: (() => void)[] = [];
+
+  /**
+   * Creates a new permalink manager and starts following the map.
+   *
+   * @param map - The map.
+   * @param options - Controls to include and update behavior.
+   */
+  constructor(map: MapLibreMap, options?: PermalinkManagerOptions) {
+    this._map = map;
+    this._controls = options?.controls ?? {};
+    this._options = {
+      restoreOnLoad: options?.restoreOnLoad ?? true,
+      debounce: options?.debounce ?? 500,
+    };
+    this._scheduleUpdate = debounce(() => {
+      if (!this._restoring) this.update();
+    }, this._options.debounce);
+    this._subscribe();
+
+    if (
+      this._options.restoreOnLoad &&
+      Object.keys(parsePermalink(location.hash)).length
+    ) {
+      this.restore().catch(() => {
+        // Reported through the "error" event
+      });
+    }
+  }
+
+  /**
+   * Stop following the map. The hash is left as it is.
+   */
+  destroy(): void {
+    for (const unsubscribe of this._unsubscribers) unsubscribe();
+    this._unsubscribers = [];
+    this._eventHandlers.clear();
+  }
+
+  /**
+   * Read the current map state.
+   */
+  getState(): PermalinkState {
+    return {
+      ...captureView(this._map, this._controls),
+      layers: captureLayers(this._controls),
+    };
+  }
+
+  /**
+   * Build a link to the current map state.
+   *
+   * @param baseUrl - Page URL to link to. Default: the current page.
+   */
+  getUrl(baseUrl: string = location.href): string {
+    const [page, hash = ""] = baseUrl.split("#");
+    return `${page}#${serializePermalink(this.getState(), hash)}`;
+  }
+
+  /**
+   * Write the current map state to the URL hash now. The history entry is
+   * replaced, so panning does not flood the back button.
+   */
+  update(): void {
+    const state = this.getState();
+    const hash = serializePermalink(state, location.hash);
+    if (hash !== location.hash.replace(/^#/, "")) {
+      history.replaceState(
+        history.state,
+        "",
+        `${location.pathname}${location.search}#${hash}`,
+      );
+    }
+    this._emit("update", { state });
+  }
+
+  /**
+   * Rebuild a map state: the camera, basemap and terrain first, then the
+   * layers, one after another.
+   *
+   * @param source - A state, or a hash to read it from. Default: the current
+   *   URL hash.
+   */
+  async restore(
+    source: PermalinkState | string = location.hash,
+  ): Promise<void> {
+    const state = typeof source === "string" ? parsePermalink(source) : source;
+    this._restoring = true;
+    try {
+      await restoreView(this._map, this._controls, state);
+      if (state.layers?.length) {
+        await restoreLayers(this._controls, state.layers);
+      }
+      this._emit("restore", { state });
+    } catch (err) {
+      const error = `Failed to restore permalink: ${err instanceof Error ? err.message : String(err)}`;
+      console.warn(`PermalinkManager: ${error}`);
+      this._emit("error", { state, error });
+      throw err;
+    } finally {
+      this._restoring = false;
+    }
+    this.update();
+  }
+
+  /**
+   * Register an event handler.
+   */
+  on(event: PermalinkEvent, handler: PermalinkEventHandler): void {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler);
+  }
+
+  /**
+   * Remove an event handler.
+   */
+  off(event: PermalinkEvent, handler: PermalinkEventHandler): void {
+    this._eventHandlers.get(event)?.delete(handler);
+  }
+
+  private _emit(
+    event: PermalinkEvent,
+    payload: { state: PermalinkState; error?: string },
+  ): void {
+    const handlers = this._eventHandlers.get(event);
+    if (handlers) {
+      for (const handler of handlers) {
+        handler({ type: event, ...payload });
+      }
+    }
+  }
+
+  /**
+   * Rewrite the hash whenever the camera, basemap, terrain or a layer
+   * changes.
+   */
+  private _subscribe(): void {
+    const schedule = () => this._scheduleUpdate();
+    this._map.on("moveend", schedule);
+    this._unsubscribers.push(() => this._map.off("moveend", schedule));
+
+    const { basemap, terrain, cog, zarr, pmtiles, vector, stac } =
+      this._controls;
+    if (basemap) {
+      basemap.on("basemapchange", schedule);
+      this._unsubscribers.push(() => basemap.off("basemapchange", schedule));
+    }
+    if (terrain) {
+      terrain.on("update", schedule);
+      this._unsubscribers.push(() => terrain.off("update", schedule));
+    }
+    // The layer controls share event names but not handler types
+    type LayerEvents = {
+      on(event: "layeradd" | "layerremove", handler: () => void): void;
+      off(event: "layeradd" | "layerremove", handler: () => void): void;
+    };
+    for (const control of [cog, zarr, pmtiles, vector, stac]) {
+      if (!control) continue;
+      const events = control as unknown as LayerEvents;
+      events.on("layeradd", schedule);
+      events.on("layerremove", schedule);
+      this._unsubscribers.push(() => {
+        events.off("layeradd", schedule);
+        events.off("layerremove", schedule);
+      });
+    }
+  }
+}
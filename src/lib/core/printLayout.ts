@@ -0,0 +1,117 @@
+/**
+ * Print layout templates for PrintControl. A layout lists the elements drawn
+ * over the exported map and where they sit on the page; it is plain JSON so
+ * it can be saved and loaded as a reusable template.
+ */
+import type {
+  PrintLayout,
+  PrintLayoutElement,
+  PrintLayoutElementType,
+} from "./types";
+import { generateId } from "../utils/helpers";
+
+/**
+ * Every layout element type with the label shown in the composer.
+ */
+export const PRINT_LAYOUT_ELEMENT_TYPES: {
+  value: PrintLayoutElementType;
+  label: string;
+}[] = [
+  { value: "title", label: "Title" },
+  { value: "northArrow", label: "North arrow" },
+  { value: "scaleBar", label: "Scale bar" },
+  { value: "legend", label: "Legend" },
+  { value: "colorbar", label: "Colorbar" },
+  { value: "inset", label: "Overview inset" },
+  { value: "text", label: "Text box" },
+  { value: "image", label: "Logo / image" },
+];
+
+/**
+ * The layout used when the composer is first enabled. It matches the fixed
+ * placement of the title, north arrow and scale bar, plus the map legends.
+ */
+export const DEFAULT_PRINT_LAYOUT: PrintLayout = {
+  name: "Default",
+  elements: [
+    { id: "title", type: "title", x: 0.5, y: 0 },
+    { id: "north-arrow", type: "northArrow", x: 1, y: 0 },
+    { id: "scale-bar", type: "scaleBar", x: 0, y: 1 },
+    { id: "legend", type: "legend", x: 1, y: 1 },
+  ],
+};
+
+/**
+ * Deep-copy a layout.
+ *
+ * @param layout - The layout to copy.
+ * @returns An independent copy.
+ */
+export function clonePrintLayout(layout: PrintLayout): PrintLayout {
+  return {
+    ...layout,
+    elements: layout.elements.map((element) => ({ ...element })),
+  };
+}
+
+/**
+ * Serialize a layout as a JSON template.
+ *
+ * @param layout - The layout to save.
+ * @returns Pretty-printed JSON.
+ */
+export function serializePrintLayout(layout: PrintLayout): string {
+  return JSON.stringify(layout, null, 2);
+}
+
+/**
+ * Parse and validate a layout template. Positions are clamped to 0-1,
+ * missing IDs are generated and unknown properties are dropped.
+ *
+ * @param input - A JSON string or an already parsed object.
+ * @returns The validated layout.
+ * @throws If the input is not a layout or contains an unknown element type.
+ */
+export function parsePrintLayout(input: string | unknown): PrintLayout {
+  const data = typeof input === "string" ? JSON.parse(input) : input;
+  if (!data || typeof data !== "object" || !Array.isArray(data.elements)) {
+    throw new Error("Invalid print layout: missing elements");
+  }
+
+  const types = PRINT_LAYOUT_ELEMENT_TYPES.map((t) => t.value);
+  const unit = (value: unknown): number =>
+    typeof value === "number" && Number.isFinite(value)
+      ? Math.min(1, Math.max(0, value))
+      : 0;
+
+  const elements = (data.elements as Record<string, unknown>[]).map(
+    (raw): PrintLayoutElement => {
+      const type = raw?.type as PrintLayoutElementType;
+      if (!types.includes(type)) {
+        throw new Error(`Invalid print layout: unknown element "${type}"`);
+      }
+      const { width, height, fontSize, zoomOffset } = raw;
+      const { text, color, background, src, style } = raw;
+      return {
+        id: typeof raw.id === "string" ? raw.id : generateId("print-element"),
+        type,
+        x: unit(raw.x),
+        y: unit(raw.y),
+        ...(typeof width === "number" ? { width } : {}),
+        ...(typeof height === "number" ? { height } : {}),
+        ...(typeof fontSize === "number" ? { fontSize } : {}),
+        ...(typeof zoomOffset === "number" ? { zoomOffset } : {}),
+        ...(typeof text === "string" ? { text } : {}),
+        ...(typeof color === "string" ? { color } : {}),
+        ...(typeof background === "string" ? { background } : {}),
+        ...(typeof src === "string" ? { src } : {}),
+        ...(typeof style === "string" ? { style } : {}),
+      };
+    },
+  );
+
+  return {
+    ...(typeof data.name === "string" ? { name: data.name } : {}),
+    elements,
+  };
+}
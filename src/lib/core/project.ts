@@ -0,0 +1,547 @@
+/**
+ * Project files: one JSON document holding a whole map session — the view,
+ * the ControlGrid layout, every layer with its styling, the colorbars and
+ * legends of the GUI controls, bookmarks and measurements. GeoJSON that only
+ * exists in the browser (pasted into AddVectorControl) is embedded; local
+ * archives such as PMTiles files are referenced by file name and must be
+ * picked again when the project is opened.
+ */
+import type { Map as MapLibreMap } from "maplibre-gl";
+import type { BookmarkControl } from "./BookmarkControl";
+import type { ChoroplethControl } from "./ChoroplethControl";
+import type { ColorbarGuiControl } from "./ColorbarGuiControl";
+import type { ControlGrid } from "./ControlGrid";
+import type { LegendGuiControl } from "./LegendGuiControl";
+import type { MeasureControl } from "./MeasureControl";
+import {
+  captureView,
+  isSharableUrl,
+  layersFromInfo,
+  restoreLayers,
+  restoreView,
+  type PermalinkControls,
+  type PermalinkLayer,
+  type PermalinkState,
+} from "./permalink";
+import { exportMeasurementsAs } from "./measureIO";
+import { downloadBlob } from "./vectorExport";
+import type {
+  AddVectorLayerInfo,
+  ChoroplethLayerInfo,
+  CogLayerInfo,
+  ColorbarGuiEntryState,
+  ControlGridLayout,
+  ControlGridState,
+  LegendGuiEntryState,
+  MapBookmark,
+  MapBookmarkGroup,
+  Measurement,
+  PMTilesLayerInfo,
+  StacLayerInfo,
+  ZarrLayerInfo,
+} from "./types";
+
+/** Value of {@link MapProject.type}, used to recognise project files. */
+export const PROJECT_FILE_TYPE = "maplibre-gl-components-project";
+
+/**
+ * A layer as stored in a project: the control's layer info, plus the data of
+ * a layer that only exists in the browser or the name of the local file it
+ * was read from.
+ */
+export type ProjectLayer<T> = T & {
+  /** Embedded GeoJSON, for layers without a URL to load from. */
+  data?: GeoJSON.FeatureCollection;
+  /** Name of the local file to read the layer from when opening. */
+  file?: string;
+};
+
+/**
+ * A saved map session.
+ */
+export interface MapProject {
+  /** Always {@link PROJECT_FILE_TYPE}. */
+  type: typeof PROJECT_FILE_TYPE;
+  /** File format version. */
+  version: 1;
+  /** When the project was saved (ms since epoch). */
+  savedAt: number;
+  /** Camera, basemap and terrain. */
+  view: Omit<PermalinkState, "layers">;
+  /** ControlGrid size and state, and its cell order and hidden controls. */
+  grid?: ControlGridState & { layout?: ControlGridLayout };
+  /** Layers by control, each in the order it was added. */
+  layers: {
+    cog?: ProjectLayer<CogLayerInfo>[];
+    zarr?: ProjectLayer<ZarrLayerInfo>[];
+    pmtiles?: ProjectLayer<PMTilesLayerInfo>[];
+    vector?: ProjectLayer<AddVectorLayerInfo>[];
+    stac?: ProjectLayer<StacLayerInfo>[];
+    choropleth?: ProjectLayer<ChoroplethLayerInfo>[];
+  };
+  /** Colorbars of the ColorbarGuiControl. */
+  colorbars?: ColorbarGuiEntryState[];
+  /** Legends of the LegendGuiControl. */
+  legends?: LegendGuiEntryState[];
+  /** Bookmarks and their folders. */
+  bookmarks?: { bookmarks: MapBookmark[]; groups: MapBookmarkGroup[] };
+  /** Measurements. */
+  measurements?: Measurement[];
+}
+
+/**
+ * Controls whose state goes into a project. All are optional.
+ */
+export interface ProjectControls extends PermalinkControls {
+  grid?: ControlGrid;
+  choropleth?: ChoroplethControl;
+  colorbarGui?: ColorbarGuiControl;
+  legendGui?: LegendGuiControl;
+  bookmark?: BookmarkControl;
+  measure?: MeasureControl;
+}
+
+/**
+ * Options for {@link ProjectManager}.
+ */
+export interface ProjectManagerOptions {
+  /** Controls whose state goes into the project. */
+  controls?: ProjectControls;
+  /**
+   * Embed GeoJSON that only exists in the browser. When false such layers are
+   * referenced as `<layer id>.geojson` and read from a file of that name on
+   * open. Default: true.
+   */
+  embedLocalData?: boolean;
+  /** File name used by {@link ProjectManager.save}, without extension. Default: 'map-project'. */
+  filename?: string;
+}
+
+/**
+ * Result of {@link ProjectManager.open}.
+ */
+export interface ProjectOpenResult {
+  /** Number of layers added. */
+  layers: number;
+  /** Referenced local files that were not supplied; their layers are skipped. */
+  missingFiles: string[];
+}
+
+/**
+ * ProjectManager event types.
+ */
+export type ProjectEvent = "save" | "open" | "error";
+
+/**
+ * ProjectManager event handler function type.
+ */
+export type ProjectEventHandler = (event: {
+  type: ProjectEvent;
+  project?: MapProject;
+  result?: ProjectOpenResult;
+  error?: string;
+}) => void;
+
+/**
+ * Read a project file.
+ *
+ * @param text - The file contents.
+ * @returns The project.
+ * @throws If the text is not a project file.
+ */
+export function parseProject(text: string): MapProject {
+  const data = JSON.parse(text);
+  if (!data || data.type !== PROJECT_FILE_TYPE || !data.layers) {
+    throw new Error("Invalid project file");
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported project version: ${data.version}`);
+  }
+  return data as MapProject;
+}
+
+/**
+ * The name a local Zarr folder was picked under, from its `local-zarr:` URL.
+ */
+function localZarrName(url: string): string {
+  const match = /^local-zarr:([^?]*)/.exec(url);
+  return match ? decodeURIComponent(match[1]) : url;
+}
+
+/**
+ * Saves the state of a map and its controls as a project file and restores
+ * it from one.
+ *
+ * @example
+ * ```typescript
+ * const projects = new ProjectManager(map, {
+ *   controls: { grid, basemap: basemapControl, cog: cogControl, bookmark: bookmarkControl },
+ * });
+ * saveButton.onclick = () => projects.save();
+ * openButton.onclick = () => projects.openFile();
+ * ```
+ */
+export class ProjectManager {
+  private _map: MapLibreMap;
+  private _controls: ProjectControls;
+  private _options: Required<Omit<ProjectManagerOptions, "controls">>;
+  private _eventHandlers: Map<ProjectEvent, Set<ProjectEventHandler>> =
+    new Map();
+
+  /**
+   * Creates a new project manager.
+   *
+   * @param map - The map.
+   * @param options - Controls to include and how to store local data.
+   */
+  constructor(map: MapLibreMap, options?: ProjectManagerOptions) {
+    this._map = map;
+    this._controls = options?.controls ?? {};
+    this._options = {
+      embedLocalData: options?.embedLocalData ?? true,
+      filename: options?.filename ?? "map-project",
+    };
+  }
+
+  /**
+   * Capture the current session.
+   */
+  getProject(): MapProject {
+    const { grid, cog, zarr, pmtiles, vector, stac, choropleth } =
+      this._controls;
+    const project: MapProject = {
+      type: PROJECT_FILE_TYPE,
+      version: 1,
+      savedAt: Date.now(),
+      view: captureView(this._map, this._controls),
+      layers: {},
+    };
+    if (grid) project.grid = { ...grid.getState(), layout: grid.getLayout() };
+
+    if (cog) project.layers.cog = cog.getState().layers;
+    if (zarr) {
+      project.layers.zarr = zarr
+        .getState()
+        .layers.map((info) =>
+          isSharableUrl(info.url)
+            ? info
+            : { ...info, file: localZarrName(info.url) },
+        );
+    }
+    if (pmtiles) {
+      project.layers.pmtiles = pmtiles
+        .getState()
+        .layers.map((info) =>
+          isSharableUrl(info.url)
+            ? info
+            : { ...info, file: info.fileName ?? info.name ?? info.id },
+        );
+    }
+    if (vector) {
+      project.layers.vector = vector
+        .getState()
+        .layers.map((info) =>
+          isSharableUrl(info.url) ? info : this._localVectorLayer(info),
+        );
+    }
+    if (stac) project.layers.stac = stac.getState().layers;
+    if (choropleth) project.layers.choropleth = choropleth.getState().layers;
+
+    const { colorbarGui, legendGui, bookmark, measure } = this._controls;
+    if (colorbarGui) project.colorbars = colorbarGui.getState().colorbars;
+    if (legendGui) project.legends = legendGui.getState().legends;
+    if (bookmark) {
+      project.bookmarks = {
+        bookmarks: bookmark.getBookmarks(),
+        groups: bookmark.getGroups(),
+      };
+    }
+    if (measure) project.measurements = measure.getMeasurements();
+    return project;
+  }
+
+  /**
+   * Capture the current session as project file text.
+   */
+  exportProject(): string {
+    return JSON.stringify(this.getProject(), null, 2);
+  }
+
+  /**
+   * Download the current session as a project file.
+   *
+   * @param filename - File name without extension. Default: the `filename` option.
+   */
+  save(filename: string = this._options.filename): MapProject {
+    const project = this.getProject();
+    downloadBlob(
+      new Blob([JSON.stringify(project, null, 2)], {
+        type: "application/json",
+      }),
+      `${filename}.json`,
+    );
+    this._emit("save", { project });
+    return project;
+  }
+
+  /**
+   * Replace the current session with a project: layers, colorbars, legends,
+   * bookmarks and measurements of the included controls are cleared first.
+   *
+   * @param source - A project, or project file text.
+   * @param files - Local files referenced by the project, by file name.
+   * @returns How many layers were added and which files were missing.
+   * @throws If the project cannot be read; the error is also emitted.
+   */
+  async open(
+    source: MapProject | string,
+    files: Record<string, Blob> = {},
+  ): Promise<ProjectOpenResult> {
+    try {
+      const project =
+        typeof source === "string" ? parseProject(source) : source;
+      const result = await this._apply(project, files);
+      this._emit("open", { project, result });
+      return result;
+    } catch (err) {
+      const error = `Failed to open project: ${err instanceof Error ? err.message : String(err)}`;
+      console.warn(`ProjectManager: ${error}`);
+      this._emit("error", { error });
+      throw err;
+    }
+  }
+
+  /**
+   * Open a project from files picked by the user. The picker accepts several
+   * files: the project file and the local files it references.
+   *
+   * @returns The open result, or null if nothing was picked.
+   */
+  openFile(): Promise<ProjectOpenResult | null> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.multiple = true;
+      input.addEventListener("change", () => {
+        const picked = Array.from(input.files ?? []);
+        this.openFiles(picked).then(resolve, reject);
+      });
+      input.click();
+    });
+  }
+
+  /**
+   * Open a project from a set of files: the first `.json` file is the
+   * project, the others are the local files it references.
+   *
+   * @param picked - The files.
+   * @returns The open result, or null if there is no project file.
+   */
+  async openFiles(picked: File[]): Promise<ProjectOpenResult | null> {
+    const projectFile = picked.find((f) => /\.json$/i.test(f.name));
+    if (!projectFile) return null;
+    const files: Record<string, Blob> = {};
+    for (const file of picked) {
+      if (file !== projectFile) files[file.name] = file;
+    }
+    return this.open(await projectFile.text(), files);
+  }
+
+  /**
+   * Register an event handler.
+   */
+  on(event: ProjectEvent, handler: ProjectEventHandler): void {
+    if (!this._eventHandlers.has(event)) {
+      this._eventHandlers.set(event, new Set());
+    }
+    this._eventHandlers.get(event)!.add(handler);
+  }
+
+  /**
+   * Remove an event handler.
+   */
+  off(event: ProjectEvent, handler: ProjectEventHandler): void {
+    this._eventHandlers.get(event)?.delete(handler);
+  }
+
+  private _emit(
+    event: ProjectEvent,
+    payload: Omit<Parameters<ProjectEventHandler>[0], "type">,
+  ): void {
+    const handlers = this._eventHandlers.get(event);
+    if (handlers) {
+      for (const handler of handlers) {
+        handler({ type: event, ...payload });
+      }
+    }
+  }
+
+  /**
+   * Embed a vector layer's GeoJSON, or reference it by file name. Either way
+   * the layer is read back as GeoJSON.
+   */
+  private _localVectorLayer(
+    info: AddVectorLayerInfo,
+  ): ProjectLayer<AddVectorLayerInfo> {
+    const layer = {
+      ...info,
+      format: "geojson" as const,
+      viewportLoading: false,
+      viewportMinZoom: undefined,
+    };
+    if (this._options.embedLocalData) {
+      const source = this._map.getSource(info.sourceId) as
+        { serialize?: () => { data?: unknown } } | undefined;
+      const data = source?.serialize?.().data;
+      if (data && typeof data === "object") {
+        return { ...layer, data: data as GeoJSON.FeatureCollection };
+      }
+    }
+    return { ...layer, file: `${info.id}.geojson` };
+  }
+
+  private async _apply(
+    project: MapProject,
+    files: Record<string, Blob>,
+  ): Promise<ProjectOpenResult> {
+    const controls = this._controls;
+    const missingFiles: string[] = [];
+
+    // Object URLs of layers that are read whole when added, revoked after.
+    // COGs and PMTiles archives keep reading their URL, so theirs are kept.
+    const loadedUrls: string[] = [];
+
+    // Give a local layer a URL to load from, or record its file as missing
+    const resolve = <T extends { url: string }>(
+      info: ProjectLayer<T>,
+      readWhole: boolean,
+    ): ProjectLayer<T> | null => {
+      let url: string;
+      if (info.data) {
+        const blob = new Blob([JSON.stringify(info.data)], {
+          type: "application/geo+json",
+        });
+        url = URL.createObjectURL(blob);
+      } else if (info.file) {
+        const file = files[info.file];
+        if (!file) {
+          missingFiles.push(info.file);
+          return null;
+        }
+        url = URL.createObjectURL(file);
+      } else {
+        return info;
+      }
+      if (readWhole) loadedUrls.push(url);
+      return { ...info, url };
+    };
+    const resolveAll = <T extends { url: string }>(
+      infos: ProjectLayer<T>[] | undefined,
+      readWhole: (info: ProjectLayer<T>) => boolean = () => false,
+    ): T[] | undefined =>
+      infos
+        ?.map((info) => resolve(info, readWhole(info)))
+        .filter((info): info is ProjectLayer<T> => !!info);
+
+    if (project.grid && controls.grid) {
+      const { grid } = controls;
+      grid.setRows(project.grid.rows);
+      grid.setColumns(project.grid.columns);
+      if (project.grid.layout) grid.setLayout(project.grid.layout);
+      if (project.grid.collapsed) grid.collapse();
+      else grid.expand();
+    }
+
+    for (const control of [
+      controls.cog,
+      controls.zarr,
+      controls.pmtiles,
+      controls.vector,
+      controls.stac,
+      controls.choropleth,
+    ]) {
+      control?.removeLayer();
+    }
+    await restoreView(this._map, controls, project.view);
+
+    const { layers } = project;
+    // Local Zarr folders cannot be reopened from a file
+    for (const info of layers.zarr ?? []) {
+      if (info.file) missingFiles.push(info.file);
+    }
+    const vectorLayers = resolveAll(layers.vector, () => true);
+    const restorable: PermalinkLayer[] = layersFromInfo({
+      cog: resolveAll(layers.cog),
+      zarr: layers.zarr?.filter((info) => !info.file),
+      pmtiles: resolveAll(layers.pmtiles),
+      vector: vectorLayers,
+      stac: layers.stac,
+    });
+    let added = 0;
+    try {
+      added += await restoreLayers(controls, restorable);
+
+      // Attribute filters are not part of the add options
+      for (const info of vectorLayers ?? []) {
+        if (info.filter) controls.vector?.setLayerFilter(info.id, info.filter);
+      }
+
+      if (controls.choropleth) {
+        for (const info of resolveAll(layers.choropleth, () => true) ?? []) {
+          await controls.choropleth.addLayer(info.url, info.column, {
+            colormap: info.colormap,
+            scheme: info.scheme,
+            k: info.k,
+            breaks:
+              info.scheme === "manual" ? info.breaks.slice(1, -1) : undefined,
+            normalization: info.normalization ?? null,
+            renderMode: info.renderMode,
+            columnY: info.columnY,
+            bivariatePalette: info.bivariatePalette,
+            name: info.id,
+            opacity: info.opacity,
+            extrude: info.extrude,
+            scaleFactor: info.scaleFactor,
+            fitBounds: false,
+          });
+          for (const [category, color] of Object.entries(
+            info.categoryColors ?? {},
+          )) {
+            controls.choropleth.setCategoryColor(info.id, category, color);
+          }
+          if (info.filter) {
+            controls.choropleth.setLayerFilter(info.id, info.filter);
+          }
+          added++;
+        }
+      }
+    } finally {
+      loadedUrls.forEach((url) => URL.revokeObjectURL(url));
+    }
+
+    if (project.colorbars && controls.colorbarGui) {
+      controls.colorbarGui.setState({ colorbars: project.colorbars });
+    }
+    if (project.legends && controls.legendGui) {
+      controls.legendGui.setState({ legends: project.legends });
+    }
+    if (project.bookmarks && controls.bookmark) {
+      controls.bookmark.clear();
+      controls.bookmark.importBookmarksFrom(
+        JSON.stringify(project.bookmarks),
+        "json",
+      );
+    }
+    if (project.measurements && controls.measure) {
+      controls.measure.clear();
+      if (project.measurements.length) {
+        controls.measure.importMeasurements(
+          exportMeasurementsAs(project.measurements, "geojson"),
+          "geojson",
+        );
+      }
+    }
+
+    return { layers: added, missingFiles };
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Snapping helpers shared by the drawing tools. The cursor snaps to the
+ * nearest vertex of a rendered feature within a pixel tolerance, or else to
+ * the nearest point on one of its edges. Distances are measured on screen so
+ * the tolerance feels the same at every zoom level.
+ *
+ * Rendered features come from the loaded tiles, so their coordinates are
+ * rounded to the tile grid, and features are cut at tile boundaries (with a
+ * buffer). The vertices and edges those cuts add are skipped, and a feature
+ * split over several tiles snaps like one; features outside the loaded tiles
+ * cannot be snapped to.
+ */
+import type {
+  GeoJSONSource,
+  MapGeoJSONFeature,
+  Map as MapLibreMap,
+} from "maplibre-gl";
+import type { SnapOptions, SnapResult } from "./types";
+
+interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * The vertex chains of a geometry: lines and rings, with points as
+ * single-vertex chains.
+ */
+function geometryChains(geometry: GeoJSON.Geometry): GeoJSON.Position[][] {
+  switch (geometry.type) {
+    case "Point":
+      return [[geometry.coordinates]];
+    case "MultiPoint":
+      return geometry.coordinates.map((c) => [c]);
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+    case "Polygon":
+      return geometry.coordinates;
+    case "MultiPolygon":
+      return geometry.coordinates.flat();
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(geometryChains);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Tolerance in degrees for positions on a tile edge.
+ */
+const TILE_EDGE_EPSILON = 1e-7;
+
+/**
+ * Bounds of the tile a rendered feature was read from, as [west, south,
+ * east, north] widened by {@link TILE_EDGE_EPSILON}, or null for features
+ * without tile coordinates. Geometry outside them is either repeated by the
+ * neighboring tile or was added by cutting the feature at the tile's buffer.
+ */
+function featureTileBounds(
+  feature: MapGeoJSONFeature,
+): [number, number, number, number] | null {
+  const { _x: x, _y: y, _z: z } = feature;
+  if (typeof z !== "number") return null;
+  const n = 2 ** z;
+  const tileLng = (tx: number) => (tx / n) * 360 - 180;
+  const tileLat = (ty: number) =>
+    (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / n))) * 180) / Math.PI;
+  return [
+    tileLng(x) - TILE_EDGE_EPSILON,
+    tileLat(y + 1) - TILE_EDGE_EPSILON,
+    tileLng(x + 1) + TILE_EDGE_EPSILON,
+    tileLat(y) + TILE_EDGE_EPSILON,
+  ];
+}
+
+/**
+ * Whether a position is within bounds given as [west, south, east, north].
+ */
+function inBounds(
+  [west, south, east, north]: [number, number, number, number],
+  lng: number,
+  lat: number,
+): boolean {
+  return lng >= west && lng <= east && lat >= south && lat <= north;
+}
+
+/**
+ * Find the closest point on segment ab to p.
+ */
+function closestOnSegment(
+  p: ScreenPoint,
+  a: ScreenPoint,
+  b: ScreenPoint,
+): ScreenPoint {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq),
+        );
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+/**
+ * Snap a screen position to the nearest vertex or edge of the rendered
+ * features around it. Vertices win over edges whenever one is within the
+ * tolerance. Vertices and edges added by cutting features into tiles are
+ * ignored.
+ *
+ * @param map - The map to query.
+ * @param point - Cursor position in pixels.
+ * @param options - Tolerance and layers to snap to.
+ * @returns The snapped position, or null when nothing is within tolerance.
+ */
+export function findSnapPoint(
+  map: MapLibreMap,
+  point: ScreenPoint,
+  options: SnapOptions,
+): SnapResult | null {
+  const { tolerance, includeLayers, excludeLayers } = options;
+  const queryOptions: { layers?: string[] } = {};
+
+  // If includeLayers is specified, only query those layers that exist
+  if (includeLayers.length > 0) {
+    queryOptions.layers = includeLayers.filter((id) => map.getLayer(id));
+    if (queryOptions.layers.length === 0) return null;
+  }
+
+  const features = map
+    .queryRenderedFeatures(
+      [
+        [point.x - tolerance, point.y - tolerance],
+        [point.x + tolerance, point.y + tolerance],
+      ],
+      queryOptions,
+    )
+    .filter((f) => f.layer && !excludeLayers.includes(f.layer.id));
+
+  let vertex: { position: GeoJSON.Position; layerId: string } | null = null;
+  let vertexDistance = tolerance;
+  let edge: { point: ScreenPoint; layerId: string } | null = null;
+  let edgeDistance = tolerance;
+
+  for (const feature of features) {
+    const layerId = feature.layer.id;
+    const bounds = featureTileBounds(feature);
+    for (const chain of geometryChains(feature.geometry)) {
+      const projected = chain.map((c) => map.project([c[0], c[1]]));
+      for (let i = 0; i < projected.length; i++) {
+        const p = projected[i];
+        const d = Math.hypot(p.x - point.x, p.y - point.y);
+        if (
+          d <= vertexDistance &&
+          (!bounds || inBounds(bounds, chain[i][0], chain[i][1]))
+        ) {
+          vertexDistance = d;
+          vertex = { position: chain[i], layerId };
+        }
+        if (i === 0) continue;
+        const closest = closestOnSegment(point, projected[i - 1], p);
+        const e = Math.hypot(closest.x - point.x, closest.y - point.y);
+        if (e > edgeDistance) continue;
+        if (bounds) {
+          const lngLat = map.unproject([closest.x, closest.y]);
+          if (!inBounds(bounds, lngLat.lng, lngLat.lat)) continue;
+        }
+        edgeDistance = e;
+        edge = { point: closest, layerId };
+      }
+    }
+  }
+
+  if (vertex) {
+    const { position, layerId } = vertex;
+    return { lng: position[0], lat: position[1], type: "vertex", layerId };
+  }
+  if (edge) {
+    const { point: closest, layerId } = edge;
+    const lngLat = map.unproject([closest.x, closest.y]);
+    return { lng: lngLat.lng, lat: lngLat.lat, type: "edge", layerId };
+  }
+  return null;
+}
+
+/**
+ * Show a ring at a snapped position, adding the indicator source and layer on
+ * first use. Pass null to hide it.
+ *
+ * @param map - The map to draw on.
+ * @param id - ID of the indicator source and layer.
+ * @param snap - The snapped position, or null.
+ * @param color - Ring color.
+ */
+export function showSnapIndicator(
+  map: MapLibreMap,
+  id: string,
+  snap: SnapResult | null,
+  color: string,
+): void {
+  const data: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features: snap
+      ? [
+          {
+            type: "Feature",
+            properties: { type: snap.type },
+            geometry: { type: "Point", coordinates: [snap.lng, snap.lat] },
+          },
+        ]
+      : [],
+  };
+
+  const source = map.getSource(id) as GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+  if (!snap) return;
+
+  map.addSource(id, { type: "geojson", data });
+  map.addLayer({
+    id,
+    type: "circle",
+    source: id,
+    paint: {
+      "circle-radius": ["case", ["==", ["get", "type"], "vertex"], 8, 6],
+      "circle-opacity": 0,
+      "circle-stroke-color": color,
+      "circle-stroke-width": 2,
+    },
+  });
+}
+
+/**
+ * Remove the snap indicator source and layer.
+ *
+ * @param map - The map to remove the indicator from.
+ * @param id - ID of the indicator source and layer.
+ */
+export function removeSnapIndicator(map: MapLibreMap, id: string): void {
+  if (map.getLayer(id)) map.removeLayer(id);
+  if (map.getSource(id)) map.removeSource(id);
+}
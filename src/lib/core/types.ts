@@ -1,6 +1,12 @@
 import type { IControl, Map } from "maplibre-gl";
 import type { StreetViewControlOptions } from "maplibre-gl-streetview";
 import type { MaplibreSampleDataset } from "./sampleDropdown";
+import type { ViewStateControl } from "./ViewStateControl";
+import type { BookmarkControl } from "./BookmarkControl";
+import type { SpinGlobeControl } from "./SpinGlobeControl";
+import type { Legend } from "./Legend";
+import type { Colorbar } from "./Colorbar";
+import type { SpatialQueryResult } from "../converters/types";
 
 export type { MaplibreSampleDataset } from "./sampleDropdown";
 
@@ -185,6 +191,11 @@ export interface LegendItem {
   strokeColor?: string;
   /** Shape of the swatch. */
   shape?: "square" | "circle" | "line";
+  /**
+   * Optional swatch size in pixels for this item, overriding the legend's
+   * `swatchSize`. Useful for graduated symbol legends.
+   */
+  size?: number;
   /** Optional icon URL to display instead of color swatch. */
   icon?: string;
 }
@@ -770,6 +781,29 @@ export interface LoadedDataset {
   loadedAt: Date;
   /** Original file format (geojson, shapefile, geopackage). */
   originalFormat?: VectorFormat;
+  /**
+   * Style currently applied to the dataset's layers. Hosts can persist it and
+   * restore it later with `setDatasetStyle`. Without one, the control's
+   * default style applies.
+   */
+  style?: VectorLayerStyle;
+}
+
+/**
+ * Data-driven coloring of a VectorDatasetControl dataset by one attribute.
+ */
+export interface VectorAttributeStyle {
+  /** Property whose values drive the colors. */
+  column: string;
+  /**
+   * `categorical` gives each distinct value its own color; `graduated` splits
+   * numeric values into equal-interval classes along the ramp.
+   */
+  type: "categorical" | "graduated";
+  /** Built-in colormap used for the ramp. Default: 'viridis'. */
+  colormap?: ColormapName;
+  /** Number of classes for the `graduated` type. Default: 5. */
+  classes?: number;
 }
 
 /**
@@ -794,6 +828,11 @@ export interface VectorLayerStyle {
   circleStrokeColor?: string;
   /** Circle stroke width for points. */
   circleStrokeWidth?: number;
+  /**
+   * Color features by an attribute instead of the fixed fill, line and circle
+   * colors. Features without a usable value keep the fixed color.
+   */
+  attributeStyle?: VectorAttributeStyle;
 }
 
 /**
@@ -884,6 +923,8 @@ export interface VectorDatasetControlReactProps extends VectorDatasetControlOpti
 export type VectorDatasetEvent =
   | ComponentEvent
   | "load"
+  | "stylechange"
+  | "export"
   | "error"
   | "dragenter"
   | "dragleave";
@@ -1035,6 +1076,32 @@ export type InspectEventHandler = (event: {
   features?: InspectedFeature[];
 }) => void;
 
+/**
+ * Options for snapping the cursor to vertices and edges of rendered features.
+ */
+export interface SnapOptions {
+  /** Snap distance in pixels. */
+  tolerance: number;
+  /** Only snap to features from these layers. If empty, snap to all. */
+  includeLayers: string[];
+  /** Never snap to features from these layers. */
+  excludeLayers: string[];
+}
+
+/**
+ * A cursor position snapped to a rendered feature.
+ */
+export interface SnapResult {
+  /** Snapped longitude. */
+  lng: number;
+  /** Snapped latitude. */
+  lat: number;
+  /** Whether a vertex or the nearest point on an edge was snapped to. */
+  type: "vertex" | "edge";
+  /** ID of the layer of the snapped feature. */
+  layerId: string;
+}
+
 /**
  * Options for configuring the ViewStateControl.
  */
@@ -1077,6 +1144,17 @@ export interface ViewStateControlOptions {
   bboxStrokeColor?: string;
   /** Stroke width for drawn bounding box. Default: 2. */
   bboxStrokeWidth?: number;
+  /**
+   * Whether bbox corners snap to vertices and edges of rendered features.
+   * Can be toggled in the panel. Default: false.
+   */
+  snap?: boolean;
+  /** Snap distance in pixels. Default: 10. */
+  snapTolerance?: number;
+  /** Only snap to features from these layers. If empty, snap to all. */
+  snapIncludeLayers?: string[];
+  /** Never snap to features from these layers. */
+  snapExcludeLayers?: string[];
   /** Width of the info panel in pixels. Default: 280. */
   panelWidth?: number;
   /** Maximum height of the panel in pixels before scrolling. Default: 500. */
@@ -1125,6 +1203,8 @@ export interface ViewStateControlState {
   drawingBBox: boolean;
   /** Drawn bounding box [west, south, east, north], or null if none. */
   drawnBBox: [number, number, number, number] | null;
+  /** Whether bbox corners snap to rendered features. */
+  snap: boolean;
 }
 
 /**
@@ -1501,6 +1581,12 @@ export interface ControlGridOptions {
   showRowColumnControls?: boolean;
   /** Initial controls to display in the grid (IControl instances). */
   controls?: IControl[];
+  /**
+   * Stable layout keys for `controls`, by position. Controls without a key
+   * are identified by `control-<n>`, which changes when controls are added
+   * or removed in the host code.
+   */
+  controlKeys?: string[];
   /** Built-in controls to create and add automatically (e.g. ['globe', 'terrain', 'search']). */
   defaultControls?: DefaultControlName[];
   /** Background color of the container. */
@@ -1544,6 +1630,31 @@ export interface ControlGridOptions {
    * ```
    */
   bookmarkOptions?: Partial<BookmarkControlOptions>;
+  /** Let users rearrange cells by dragging them. Default: true. */
+  reorderable?: boolean;
+  /** Show a menu in the header for hiding and showing default controls. Default: true. */
+  customizable?: boolean;
+  /** Initial cell order and hidden default controls. */
+  layout?: ControlGridLayout;
+  /**
+   * localStorage key under which the layout persists. A stored layout takes
+   * precedence over `layout`. Default: '' (off).
+   */
+  storageKey?: string;
+}
+
+/**
+ * Order and visibility of the cells of a ControlGrid.
+ */
+export interface ControlGridLayout {
+  /**
+   * Cell keys in display order: the name of a default control, the key
+   * given in `controlKeys` or to `addControl`, or `control-<n>` for the n-th
+   * control passed or added without a key (counting from 0).
+   */
+  order: string[];
+  /** Default controls hidden by the user. */
+  hidden: DefaultControlName[];
 }
 
 /**
@@ -1573,7 +1684,11 @@ export interface ControlGridReactProps extends ControlGridOptions {
 /**
  * ControlGrid-specific event types.
  */
-export type ControlGridEvent = ComponentEvent | "controladd" | "controlremove";
+export type ControlGridEvent =
+  | ComponentEvent
+  | "controladd"
+  | "controlremove"
+  | "layoutchange";
 
 /**
  * ControlGrid event handler function type.
@@ -1582,6 +1697,8 @@ export type ControlGridEventHandler = (event: {
   type: ControlGridEvent;
   state: ControlGridState;
   control?: IControl;
+  /** The new layout, for `layoutchange`. */
+  layout?: ControlGridLayout;
 }) => void;
 
 /**
@@ -1608,6 +1725,27 @@ export interface CogLayerInfo {
   opacity: number;
 }
 
+/**
+ * Options accepted by {@link CogLayerControl.addLayer}. Each field sets the
+ * matching panel value before the layer is added.
+ */
+export interface CogLayerAddOptions {
+  /** Custom display name. */
+  name?: string;
+  /** Colormap name. */
+  colormap?: ColormapName | "none";
+  /** Rescale minimum. */
+  rescaleMin?: number;
+  /** Rescale maximum. */
+  rescaleMax?: number;
+  /** Nodata value. */
+  nodata?: number;
+  /** Layer opacity (0-1). */
+  opacity?: number;
+  /** Whether to zoom to the layer once it loads. Default: true. */
+  fitBounds?: boolean;
+}
+
 /**
  * Options for configuring the CogLayerControl.
  */
@@ -1913,6 +2051,8 @@ export interface ZarrLayerAddOptions {
   bounds?: [number, number, number, number];
   /** Override the names used to identify spatial (lat/lon) dimensions. */
   spatialDimensions?: { lat?: string; lon?: string };
+  /** Custom display name. Overrides the panel's layer name. */
+  name?: string;
   /** Dimension selector, e.g. `{ time: 0 }`. Overrides the panel's selector. */
   selector?: Record<string, number | string>;
   /** Colormap (array of hex colors). Overrides the panel's colormap. */
@@ -2023,6 +2163,8 @@ export interface PMTilesLayerInfo {
   name?: string;
   /** PMTiles URL. */
   url: string;
+  /** Name of the local file the archive was read from, if any. */
+  fileName?: string;
   /** Tile type (vector or raster). */
   tileType: PMTilesTileType;
   /** Source layers available (for vector tiles). */
@@ -2037,6 +2179,23 @@ export interface PMTilesLayerInfo {
   sourceLayerColors?: Record<string, string>;
 }
 
+/**
+ * Options accepted by {@link PMTilesLayerControl.addLayer}. Each field sets
+ * the matching panel value before the layer is added.
+ */
+export interface PMTilesLayerAddOptions {
+  /** Custom display name. */
+  name?: string;
+  /** Layer opacity (0-1). */
+  opacity?: number;
+  /** Source layers to render (vector archives). Default: all. */
+  sourceLayers?: string[];
+  /** Whether features are pickable (clickable). */
+  pickable?: boolean;
+  /** Whether to zoom to the archive's extent. Default: true. */
+  fitBounds?: boolean;
+}
+
 /**
  * Options for configuring the PMTilesLayerControl.
  */
@@ -2169,6 +2328,71 @@ export type PMTilesLayerEventHandler = (event: {
 // AddVectorControl Types
 // =============================================================================
 
+/**
+ * Comparison operators available in an attribute filter clause.
+ */
+export type AttributeFilterOperator =
+  | "=="
+  | "!="
+  | ">"
+  | ">="
+  | "<"
+  | "<="
+  | "contains"
+  | "starts_with"
+  | "is_null"
+  | "not_null";
+
+/**
+ * A single `column operator value` condition of an attribute filter.
+ */
+export interface AttributeFilterClause {
+  /** Feature property to test. */
+  column: string;
+  /** Comparison operator. */
+  operator: AttributeFilterOperator;
+  /** Value to compare against (ignored by `is_null` / `not_null`). */
+  value?: string | number;
+}
+
+/**
+ * Attribute filter applied to a vector layer with `setFilter`.
+ */
+export interface AttributeFilter {
+  /** How clauses are combined. */
+  combine: "and" | "or";
+  /** The filter clauses. */
+  clauses: AttributeFilterClause[];
+}
+
+/**
+ * File formats a loaded vector layer can be exported to. GeoJSON and CSV
+ * (geometry as WKT) are written natively; GeoPackage, zipped Shapefile and
+ * FlatGeobuf are written by DuckDB WASM with the spatial extension.
+ */
+export type VectorExportFormat =
+  | "geojson"
+  | "csv"
+  | "geopackage"
+  | "shapefile"
+  | "flatgeobuf";
+
+/**
+ * Which features of a layer to export: all of them, those intersecting the
+ * current viewport, or those matching the layer's active attribute filter.
+ */
+export type VectorExportScope = "all" | "viewport" | "filter";
+
+/**
+ * Options for exporting a loaded vector layer.
+ */
+export interface VectorExportOptions {
+  /** Features to export. Default: 'all'. */
+  scope?: VectorExportScope;
+  /** Output filename without extension. Defaults to the layer name. */
+  filename?: string;
+}
+
 /**
  * Supported remote vector format types for AddVectorControl.
  */
@@ -2202,6 +2426,8 @@ export interface AddVectorLayerInfo {
   fillColor: string;
   /** Stroke color. */
   strokeColor: string;
+  /** Circle/point color. */
+  circleColor?: string;
   /** Whether the layer is pickable (clickable). */
   pickable?: boolean;
   /** Whether viewport-based loading is enabled for this layer. */
@@ -2216,6 +2442,33 @@ export interface AddVectorLayerInfo {
   propertyColumns?: string[];
   /** Minimum zoom level for viewport loading (layer will be hidden below this). */
   viewportMinZoom?: number;
+  /** Active attribute filter, if any. */
+  filter?: AttributeFilter;
+}
+
+/**
+ * Options accepted by {@link AddVectorControl.addLayer}. Each field sets the
+ * matching panel value before the layer is added.
+ */
+export interface AddVectorLayerAddOptions {
+  /** Layer name, used as the layer ID. */
+  name?: string;
+  /** Layer opacity (0-1). */
+  opacity?: number;
+  /** Fill color. */
+  fillColor?: string;
+  /** Stroke color. */
+  strokeColor?: string;
+  /** Circle/point color. */
+  circleColor?: string;
+  /** Whether the layer is pickable (clickable). */
+  pickable?: boolean;
+  /** Load GeoParquet features for the current view only, instead of the whole file. */
+  viewportLoading?: boolean;
+  /** Minimum zoom level for viewport loading. */
+  viewportMinZoom?: number;
+  /** Whether to zoom to the data. Default: the control's `fitBounds` option. */
+  fitBounds?: boolean;
 }
 
 /**
@@ -2378,6 +2631,8 @@ export type AddVectorEvent =
   | ComponentEvent
   | "layeradd"
   | "layerremove"
+  | "filterchange"
+  | "export"
   | "error";
 
 /**
@@ -2403,7 +2658,44 @@ export type ChoroplethClassificationScheme =
   | "equal_interval"
   | "natural_breaks"
   | "std_mean"
-  | "head_tail";
+  | "head_tail"
+  | "unique_values"
+  | "manual";
+
+/**
+ * How a ChoroplethControl layer symbolizes the classified column.
+ * - `choropleth`: features are filled with the class color.
+ * - `proportional`: point features are drawn as graduated circles whose
+ *   radius grows with the class; polygons and lines keep the class color.
+ * - `bivariate`: two columns are classified into an n x n grid and features
+ *   are colored from a 2D palette. Needs the `quantile`, `equal_interval` or
+ *   `natural_breaks` scheme.
+ */
+export type ChoroplethRenderMode = "choropleth" | "proportional" | "bivariate";
+
+/**
+ * Built-in 2D palettes for bivariate choropleth maps.
+ */
+export type ChoroplethBivariatePalette =
+  | "pink_blue"
+  | "red_blue"
+  | "green_purple";
+
+/**
+ * Normalization applied to a ChoroplethControl column before classification.
+ * The classified value is `value / denominator * scale`.
+ */
+export interface ChoroplethNormalization {
+  /**
+   * Denominator: another column (`'column'`) or the feature's area in square
+   * kilometers computed from its geometry (`'area'`).
+   */
+  by: "column" | "area";
+  /** Denominator column when `by` is `'column'`. */
+  column?: string;
+  /** Multiplier applied to the ratio, e.g. 100000 for "per 100,000". Default: 1. */
+  scale?: number;
+}
 
 /**
  * Information about a single choropleth layer.
@@ -2423,6 +2715,11 @@ export interface ChoroplethLayerInfo {
   geometryTypes: string[];
   /** Column used for classification. */
   column: string;
+  /**
+   * Normalization applied to `column`; `breaks` are in normalized units when
+   * set. Not used by the `unique_values` scheme.
+   */
+  normalization?: ChoroplethNormalization;
   /** Classification scheme used. */
   scheme: ChoroplethClassificationScheme;
   /** Number of classes. */
@@ -2433,7 +2730,10 @@ export interface ChoroplethLayerInfo {
   breaks: number[];
   /** Colors for legend. */
   legendColors: string[];
-  /** Labels for legend. */
+  /**
+   * Labels for legend. For the `unique_values` scheme these are the category
+   * names, with the grouped long tail last as "Other".
+   */
   legendLabels: string[];
   /** Layer opacity. */
   opacity: number;
@@ -2441,6 +2741,39 @@ export interface ChoroplethLayerInfo {
   extrude: boolean;
   /** Scale factor for extrusion. */
   scaleFactor: number;
+  /**
+   * Colors keyed by category value for the `unique_values` scheme. Values
+   * outside this map are drawn with `otherColor`, and missing values with
+   * `noDataColor`.
+   */
+  categoryColors?: Record<string, string>;
+  /** Color of the grouped "Other" categories for the `unique_values` scheme. */
+  otherColor?: string;
+  /**
+   * Color of features without a value to classify, shown as a "No data"
+   * legend entry. Only set when the layer has such features.
+   */
+  noDataColor?: string;
+  /** Symbolization mode used for the layer. */
+  renderMode: ChoroplethRenderMode;
+  /**
+   * Circle radius in pixels for each class, aligned with `legendLabels`.
+   * Only set when `renderMode` is `'proportional'`.
+   */
+  legendSizes?: number[];
+  /** Second column used for classification in bivariate mode. */
+  columnY?: string;
+  /** Break values for the second column in bivariate mode. */
+  breaksY?: number[];
+  /** Bivariate palette used. */
+  bivariatePalette?: ChoroplethBivariatePalette;
+  /**
+   * Bivariate color grid indexed as `[yClass][xClass]`, from low to high.
+   * Only set when `renderMode` is `'bivariate'`.
+   */
+  bivariateColors?: string[][];
+  /** Active attribute filter, if any. */
+  filter?: AttributeFilter;
 }
 
 /**
@@ -2467,20 +2800,56 @@ export interface ChoroplethControlOptions {
   defaultFormat?: RemoteVectorFormat;
   /** Default column for classification. */
   defaultColumn?: string;
+  /** Default normalization of the classified column. Default: null (raw values). */
+  defaultNormalization?: ChoroplethNormalization | null;
   /** Default colormap. Default: 'viridis'. */
   defaultColormap?: ColormapName;
   /** Default classification scheme. Default: 'quantile'. */
   defaultScheme?: ChoroplethClassificationScheme;
   /** Default number of classes. Default: 5. */
   defaultK?: number;
+  /**
+   * Default class thresholds for the `manual` scheme. Each value is the upper
+   * bound of a class; the data minimum and maximum close the outer classes.
+   */
+  defaultBreaks?: number[];
+  /** Whether to show the column histogram with draggable breaks. Default: true. */
+  showHistogram?: boolean;
   /** Default opacity (0-1). Default: 0.8. */
   defaultOpacity?: number;
   /** Default outline color. Default: '#ffffff'. */
   defaultOutlineColor?: string;
-  /** Default extrusion mode. Default: false. */
+  /**
+   * Default extrusion mode. Only numeric choropleth maps are extruded, not
+   * bivariate or unique values ones. Default: false.
+   */
   defaultExtrude?: boolean;
   /** Default scale factor for extrusion height. Default: 1.0. */
   defaultScaleFactor?: number;
+  /** Default symbolization mode. Default: 'choropleth'. */
+  defaultRenderMode?: ChoroplethRenderMode;
+  /** Default smallest circle radius in pixels for proportional symbols. Default: 4. */
+  defaultMinRadius?: number;
+  /** Default largest circle radius in pixels for proportional symbols. Default: 24. */
+  defaultMaxRadius?: number;
+  /** Default second column for bivariate mode. */
+  defaultColumnY?: string;
+  /** Default bivariate grid size (classes per column). Default: 3. */
+  defaultBivariateK?: 3 | 4;
+  /** Default bivariate palette. Default: 'pink_blue'. */
+  defaultBivariatePalette?: ChoroplethBivariatePalette;
+  /**
+   * Maximum number of categories colored individually by the
+   * `unique_values` scheme; the rest are grouped as "Other". Default: 10.
+   */
+  defaultMaxCategories?: number;
+  /** Color used for the grouped "Other" category. Default: '#bdbdbd'. */
+  defaultOtherColor?: string;
+  /**
+   * Color of features without a value to classify, such as missing values or
+   * ratios with a zero denominator. Default: '#808080'.
+   */
+  defaultNoDataColor?: string;
   /** Whether features are pickable. Default: true. */
   defaultPickable?: boolean;
   /** Whether to fit map bounds to data. Default: true. */
@@ -2530,12 +2899,16 @@ export interface ChoroplethControlState {
   format: RemoteVectorFormat;
   /** Selected column for classification. */
   column: string;
+  /** Normalization of the selected column, or null for raw values. */
+  normalization: ChoroplethNormalization | null;
   /** Current colormap. */
   colormap: ColormapName;
   /** Current classification scheme. */
   scheme: ChoroplethClassificationScheme;
   /** Number of classes. */
   k: number;
+  /** Class thresholds used by the `manual` scheme. */
+  breaks: number[];
   /** Current opacity. */
   opacity: number;
   /** Whether to show outline. */
@@ -2546,6 +2919,20 @@ export interface ChoroplethControlState {
   extrude: boolean;
   /** Scale factor for extrusion. */
   scaleFactor: number;
+  /** Current symbolization mode. */
+  renderMode: ChoroplethRenderMode;
+  /** Smallest circle radius in pixels for proportional symbols. */
+  minRadius: number;
+  /** Largest circle radius in pixels for proportional symbols. */
+  maxRadius: number;
+  /** Second column for bivariate mode. */
+  columnY: string;
+  /** Bivariate grid size (classes per column). */
+  bivariateK: 3 | 4;
+  /** Current bivariate palette. */
+  bivariatePalette: ChoroplethBivariatePalette;
+  /** Maximum number of individually colored categories. */
+  maxCategories: number;
   /** Whether features are pickable. */
   pickable: boolean;
   /** Whether any layer is active. */
@@ -2562,6 +2949,11 @@ export interface ChoroplethControlState {
   status: string | null;
   /** Available numeric columns from loaded data. */
   availableColumns: string[];
+  /**
+   * Available categorical columns (string or integer values) from loaded
+   * data, usable with the `unique_values` scheme.
+   */
+  categoricalColumns: string[];
 }
 
 /**
@@ -2571,6 +2963,7 @@ export type ChoroplethEvent =
   | ComponentEvent
   | "layeradd"
   | "layerremove"
+  | "filterchange"
   | "error";
 
 /**
@@ -2614,6 +3007,49 @@ export interface StacAssetInfo {
   commonName?: string;
 }
 
+/**
+ * Information about a single added STAC layer.
+ */
+export interface StacLayerInfo {
+  /** Unique layer identifier. */
+  id: string;
+  /** Optional custom display name. */
+  name?: string;
+  /** URL of the STAC item the layer was added from. */
+  stacUrl: string;
+  /** Asset keys: one for a single band, three for an RGB composite. */
+  assets: string[];
+  /** Colormap name (single band only). */
+  colormap: ColormapName | "none";
+  /** Rescale minimum. */
+  rescaleMin: number;
+  /** Rescale maximum. */
+  rescaleMax: number;
+  /** Layer opacity. */
+  opacity: number;
+}
+
+/**
+ * Options accepted by {@link StacLayerControl.addLayer}. Each field sets the
+ * matching panel value before the layer is added from the loaded STAC item.
+ */
+export interface StacLayerAddOptions {
+  /** Asset keys: one for a single band, three for an RGB composite. */
+  assets?: string[];
+  /** Custom display name. */
+  name?: string;
+  /** Colormap name (single band only). */
+  colormap?: ColormapName | "none";
+  /** Rescale minimum. */
+  rescaleMin?: number;
+  /** Rescale maximum. */
+  rescaleMax?: number;
+  /** Layer opacity (0-1). */
+  opacity?: number;
+  /** Whether to zoom to the item's bounding box. Default: true. */
+  fitBounds?: boolean;
+}
+
 /**
  * Options for configuring the StacLayerControl.
  */
@@ -2701,6 +3137,8 @@ export interface StacLayerControlState {
   hasLayer: boolean;
   /** Number of active layers. */
   layerCount: number;
+  /** Information about all active layers. */
+  layers: StacLayerInfo[];
   /** Whether the control is loading. */
   loading: boolean;
   /** Error message if any. */
@@ -2927,9 +3365,18 @@ export type AreaUnit =
   | "square-feet";
 
 /**
- * Measurement mode.
+ * Measurement mode. `profile` measures a line like `distance` and also
+ * samples an elevation profile along it. `radius` measures a geodesic circle
+ * from its center and an edge point, `bearing` the forward azimuth between two
+ * points, and `point` records a single coordinate.
  */
-export type MeasureMode = "distance" | "area";
+export type MeasureMode =
+  | "distance"
+  | "area"
+  | "profile"
+  | "radius"
+  | "bearing"
+  | "point";
 
 /**
  * Options for configuring the MeasureControl.
@@ -2965,6 +3412,34 @@ export interface MeasureControlOptions {
   showTotal?: boolean;
   /** Number of decimal places for measurements. Default: 2. */
   precision?: number;
+  /**
+   * ID of the raster-dem source sampled in profile mode. When unset (default),
+   * the source of the map's active terrain (e.g. from TerrainControl) is used.
+   * Any other source is shown as the map's terrain while a profile is sampled.
+   */
+  demSource?: string;
+  /** Number of elevation samples taken along a profile line. Default: 200. */
+  profileSamples?: number;
+  /** Height of the elevation profile chart in pixels. Default: 120. */
+  profileHeight?: number;
+  /**
+   * Whether completed measurements can be reshaped by dragging, inserting and
+   * deleting vertices. Default: true.
+   */
+  editable?: boolean;
+  /** localStorage key under which measurements persist. Default: '' (off). */
+  storageKey?: string;
+  /**
+   * Whether points snap to vertices and edges of rendered features. Can be
+   * toggled in the panel. Default: false.
+   */
+  snap?: boolean;
+  /** Snap distance in pixels. Default: 10. */
+  snapTolerance?: number;
+  /** Only snap to features from these layers. If empty, snap to all. */
+  snapIncludeLayers?: string[];
+  /** Never snap to features from these layers. */
+  snapExcludeLayers?: string[];
   /** Panel width in pixels. Default: 240. */
   panelWidth?: number;
   /** Maximum height of the panel in pixels before scrolling. Default: 500. */
@@ -2991,6 +3466,11 @@ export interface MeasureControlOptions {
   maxzoom?: number;
 }
 
+/**
+ * File format for importing and exporting measurements.
+ */
+export type MeasureExportFormat = "geojson" | "kml" | "csv";
+
 /**
  * A single measurement point.
  */
@@ -3001,6 +3481,36 @@ export interface MeasurePoint {
   lat: number;
 }
 
+/**
+ * A single elevation sample along a profile line.
+ */
+export interface ElevationSample {
+  /** Longitude. */
+  lng: number;
+  /** Latitude. */
+  lat: number;
+  /** Cumulative distance from the start of the line in meters. */
+  distance: number;
+  /** Elevation in meters, or null where the DEM has no data. */
+  elevation: number | null;
+}
+
+/**
+ * Elevation profile sampled along a profile measurement.
+ */
+export interface ElevationProfile {
+  /** Samples in order along the line. */
+  samples: ElevationSample[];
+  /** Total ascent in meters. */
+  gain: number;
+  /** Total descent in meters. */
+  loss: number;
+  /** Lowest sampled elevation in meters. */
+  min: number;
+  /** Highest sampled elevation in meters. */
+  max: number;
+}
+
 /**
  * A completed measurement.
  */
@@ -3009,14 +3519,25 @@ export interface Measurement {
   id: string;
   /** Measurement mode. */
   mode: MeasureMode;
-  /** Points that define the measurement. */
+  /**
+   * Points that define the measurement. For radius mode these are the center
+   * and a point on the circle; for bearing mode the start and end points.
+   */
   points: MeasurePoint[];
-  /** Total distance in meters (for distance mode). */
+  /** Total distance in meters (for distance, profile and bearing modes). */
   distance?: number;
-  /** Total area in square meters (for area mode). */
+  /** Total area in square meters (for area and radius modes). */
   area?: number;
   /** Segment distances in meters. */
   segments?: number[];
+  /** Circle radius in meters (for radius mode). */
+  radius?: number;
+  /** Circle circumference in meters (for radius mode). */
+  circumference?: number;
+  /** Forward bearing in degrees clockwise from north, 0-360 (for bearing mode). */
+  bearing?: number;
+  /** Elevation profile (for profile mode), once sampled. */
+  profile?: ElevationProfile;
 }
 
 /**
@@ -3037,12 +3558,16 @@ export interface MeasureControlState {
   isDrawing: boolean;
   /** Current drawing points. */
   currentPoints: MeasurePoint[];
-  /** Current measurement value (distance or area). */
+  /** Current measurement value (distance, area, radius or bearing). */
   currentValue: number;
   /** Segment distances for current drawing. */
   currentSegments: number[];
   /** Completed measurements. */
   measurements: Measurement[];
+  /** ID of the measurement whose vertices are being edited, if any. */
+  editingId: string | null;
+  /** Whether points snap to rendered features. */
+  snap: boolean;
 }
 
 /**
@@ -3057,7 +3582,10 @@ export type MeasureEvent =
   | "drawend"
   | "clear"
   | "measurementadd"
-  | "measurementremove";
+  | "measurementremove"
+  | "measurementupdate"
+  | "import"
+  | "profile";
 
 /**
  * MeasureControl event handler function type.
@@ -3173,6 +3701,12 @@ export interface MapBookmark {
   bearing: number;
   /** Timestamp when created. */
   createdAt: number;
+  /**
+   * Timestamp of the last change (rename, move to a folder). When a storage
+   * backend merges concurrent edits, the newer of `updatedAt` and `createdAt`
+   * wins.
+   */
+  updatedAt?: number;
   /** Optional thumbnail data URL. */
   thumbnail?: string;
   /**
@@ -3189,6 +3723,23 @@ export interface MapBookmark {
    * bookmark is opened. The control treats it as opaque and only persists it.
    */
   extra?: Record<string, unknown>;
+  /**
+   * Set on bookmarks imported from a share link until the host accepts them
+   * with `BookmarkControl.acceptSharedBookmarks`. Their `extra` is not passed
+   * to `restoreState` while it is set.
+   */
+  shared?: boolean;
+  /**
+   * Optional narration shown in the tour panel while this bookmark is the
+   * current tour step. Rendered as HTML after removing scripts, event
+   * handlers and unsafe URLs (see `sanitizeHtml`).
+   */
+  caption?: string;
+  /**
+   * How long a playing tour stays on this bookmark after arriving, in
+   * milliseconds. Overrides {@link BookmarkControlOptions.tourDwellTime}.
+   */
+  dwell?: number;
 }
 
 /**
@@ -3204,6 +3755,12 @@ export interface MapBookmarkGroup {
   name: string;
   /** Whether the folder is collapsed (its members hidden) in the panel. */
   collapsed: boolean;
+  /**
+   * Timestamp of the folder being added again (e.g. by an import) after it
+   * was deleted. A storage merge keeps the folder when this is newer than the
+   * deletion.
+   */
+  updatedAt?: number;
 }
 
 /**
@@ -3213,6 +3770,49 @@ export interface MapBookmarkGroup {
  */
 export type BookmarkExportMode = "auto" | "all" | "selected";
 
+/**
+ * File format for importing and exporting bookmarks. "json" is the control's
+ * own schema; "geojson" writes each bookmark as a Point feature with the
+ * camera as properties; "kml" writes Placemarks with a `LookAt`.
+ */
+export type BookmarkExportFormat = "json" | "geojson" | "kml";
+
+/**
+ * A bookmark set as persisted by a {@link BookmarkStorageAdapter}.
+ */
+export interface BookmarkStorageData {
+  /** The bookmarks, in list order. */
+  bookmarks: MapBookmark[];
+  /** The folders. */
+  groups: MapBookmarkGroup[];
+  /**
+   * Deletion timestamps by bookmark or folder ID, so a merge does not bring
+   * back items deleted on another device.
+   */
+  deleted?: Record<string, number>;
+}
+
+/**
+ * A storage backend for {@link BookmarkControlOptions.storage}. Each method
+ * works on the bookmark set stored under `key` (the control's `storageKey`).
+ */
+export interface BookmarkStorageAdapter {
+  /**
+   * Read the stored bookmark set.
+   *
+   * @returns The stored data, or null if nothing is stored under the key.
+   */
+  load(key: string): Promise<BookmarkStorageData | null>;
+  /**
+   * Write the bookmark set, replacing what is stored under the key. May
+   * reject with `BookmarkStorageConflictError` when the stored set changed
+   * since it was loaded; the control then merges and saves again.
+   */
+  save(key: string, data: BookmarkStorageData): Promise<void>;
+  /** Remove the bookmark set stored under the key. */
+  delete(key: string): Promise<void>;
+}
+
 /**
  * Options for configuring the BookmarkControl.
  */
@@ -3227,7 +3827,10 @@ export interface BookmarkControlOptions {
   collapsed?: boolean;
   /** Initial bookmarks. Default: []. */
   bookmarks?: MapBookmark[];
-  /** localStorage key for persistence. Default: null (no persistence). */
+  /**
+   * localStorage key for persistence, or the key passed to `storage` when a
+   * storage backend is set. Default: null (no persistence).
+   */
   storageKey?: string;
   /** Maximum number of bookmarks. Default: 20. */
   maxBookmarks?: number;
@@ -3340,6 +3943,75 @@ export interface BookmarkControlOptions {
    * appended (e.g. "Folder 1", "Folder 2"). Default: 'Folder'.
    */
   defaultFolderName?: string;
+  /**
+   * Format written by the footer's Export button, also selectable in the
+   * panel. Default: 'json'.
+   */
+  exportFormat?: BookmarkExportFormat;
+  /**
+   * Show a "Copy share link" action on each bookmark and folder. The link
+   * encodes the bookmark (or the whole folder) so another BookmarkControl can
+   * open and import it. Default: false.
+   */
+  shareable?: boolean;
+  /**
+   * URL hash parameter that carries shared bookmarks. Default: undefined
+   * ('bookmarks' is used).
+   */
+  shareParam?: string;
+  /**
+   * Import the bookmarks of a share link in the page URL when the control is
+   * added, go to the first one and remove the parameter from the URL. The
+   * bookmarks are marked `shared` until the host accepts them. Only enable
+   * this when links come from users you trust. Default: false.
+   */
+  openSharedOnLoad?: boolean;
+  /**
+   * Page URL that share links point at. Default: '' (the current page).
+   */
+  shareBaseUrl?: string;
+  /**
+   * Storage backend used instead of localStorage, such as
+   * `IndexedDBBookmarkStorage` or `RestBookmarkStorage`. Bookmarks are stored
+   * under `storageKey` (or 'bookmarks' when it is empty). Every change loads
+   * the stored set, merges it with the local one and saves the result.
+   * Default: null.
+   */
+  storage?: BookmarkStorageAdapter | null;
+  /**
+   * Show a "Play tour" button on each folder (and in the footer, for all
+   * bookmarks) that presents the bookmarks in order with a caption panel.
+   * Tours can also be started with `startTour()`. Default: false.
+   */
+  tourable?: boolean;
+  /**
+   * Time a playing tour stays on each bookmark after flying to it, in
+   * milliseconds, unless the bookmark sets its own `dwell`. Default: 5000.
+   */
+  tourDwellTime?: number;
+  /** Start over from the first bookmark after the last. Default: false. */
+  tourLoop?: boolean;
+  /**
+   * Keyboard shortcuts during a tour: Right/Page Down for next, Left/Page Up
+   * for previous, Space to pause or resume and Escape to end. Default: true.
+   */
+  tourKeyboard?: boolean;
+}
+
+/**
+ * Progress of a bookmark tour, from `BookmarkControl.getTourState()`.
+ */
+export interface BookmarkTourState {
+  /** Whether a tour is open. */
+  active: boolean;
+  /** Whether the tour advances by itself (false while paused). */
+  playing: boolean;
+  /** Index of the current step. */
+  index: number;
+  /** IDs of the bookmarks in the tour, in order. */
+  bookmarkIds: string[];
+  /** Folder being toured, or null for all bookmarks. */
+  groupId: string | null;
 }
 
 /**
@@ -3374,7 +4046,14 @@ export type BookmarkEvent =
   | "group-add"
   | "group-remove"
   | "group-rename"
-  | "group-move";
+  | "group-move"
+  | "share"
+  | "sync"
+  | "tour-start"
+  | "tour-step"
+  | "tour-pause"
+  | "tour-resume"
+  | "tour-end";
 
 /**
  * BookmarkControl event handler function type.
@@ -3444,9 +4123,19 @@ export type PrintOrientation = "auto" | "portrait" | "landscape";
 export type PrintFitMode = "contain" | "cover";
 
 /**
- * Supported export formats for the PrintControl.
+ * Supported export formats for the PrintControl. The georeferenced formats
+ * carry EPSG:3857 coordinates and require a north-up map without pitch:
+ * `'geotiff'` writes a GeoTIFF, `'png-world'` a zip of a PNG with its `.pgw`
+ * world file and `.prj`, and `'geopdf'` a PDF with a geospatial viewport.
  */
-export type PrintFormat = "png" | "jpeg" | "pdf" | "svg";
+export type PrintFormat =
+  | "png"
+  | "jpeg"
+  | "pdf"
+  | "svg"
+  | "geotiff"
+  | "png-world"
+  | "geopdf";
 
 /**
  * Panel theme for the PrintControl.
@@ -3458,6 +4147,169 @@ export type PrintFormat = "png" | "jpeg" | "pdf" | "svg";
  */
 export type PrintTheme = "auto" | "light" | "dark";
 
+/**
+ * Where atlas pages come from: the bookmarks of a BookmarkControl or the
+ * features of a map layer.
+ */
+export type PrintAtlasSource = "bookmarks" | "features";
+
+/**
+ * Atlas output: a single multi-page PDF or a zip of page images.
+ */
+export type PrintAtlasOutput = "pdf" | "zip";
+
+/**
+ * Atlas configuration for the PrintControl. An atlas renders one page per
+ * bookmark or feature with the control's title, north arrow, scale bar and
+ * colorbar settings.
+ */
+export interface PrintAtlasOptions {
+  /** Where pages come from. Default: 'bookmarks'. */
+  source?: PrintAtlasSource;
+  /** BookmarkControl whose bookmarks become pages. */
+  bookmarkControl?: BookmarkControl | null;
+  /**
+   * Layer whose features become pages (GeoJSON or vector tile source). For
+   * vector tiles only the features of loaded tiles are found, so fit the map
+   * to the whole layer first. Their tile pieces are merged by feature ID
+   * (see the source's `promoteId`), or else by `nameProperty`.
+   */
+  layerId?: string;
+  /**
+   * Page title. `{name}`, `{index}` and `{count}` are replaced per page, as
+   * is `{prop}` for any feature property. Default: '{name}'.
+   */
+  titleTemplate?: string;
+  /**
+   * Feature property used as the page name, and to merge the tile pieces of
+   * features without an ID. Default: 'name'.
+   */
+  nameProperty?: string;
+  /** Padding in pixels around each feature extent. Default: 40. */
+  padding?: number;
+  /** Maximum zoom when fitting small features such as points. Default: 16. */
+  maxZoom?: number;
+  /** Output container. Default: 'pdf'. */
+  output?: PrintAtlasOutput;
+}
+
+/**
+ * What drives an animation: a camera tour through bookmarks, a spinning
+ * globe, or a layer stepping through time.
+ */
+export type PrintAnimationSource = "bookmarks" | "spin" | "time";
+
+/**
+ * Animation file format.
+ */
+export type PrintAnimationFormat = "gif" | "webm";
+
+/**
+ * A time series shown one step per frame range by filtering a layer on a
+ * time property.
+ */
+export interface PrintAnimationTimeSeries {
+  /** Layer to filter. */
+  layerId: string;
+  /** Feature property holding the time step. */
+  property: string;
+  /**
+   * Time steps in playback order. Default: the distinct property values of
+   * the layer's features, sorted.
+   */
+  values?: (string | number)[];
+}
+
+/**
+ * Animation configuration for the PrintControl. Every frame is composed like
+ * a regular export, with the title, north arrow, scale bar and colorbar.
+ */
+export interface PrintAnimationOptions {
+  /** What drives the animation. Default: 'bookmarks'. */
+  source?: PrintAnimationSource;
+  /** BookmarkControl whose bookmarks the camera flies through. */
+  bookmarkControl?: BookmarkControl | null;
+  /**
+   * SpinGlobeControl whose speed is used for the 'spin' source. Without
+   * one, `spinSpeed` applies.
+   */
+  spinGlobeControl?: SpinGlobeControl | null;
+  /** Rotation speed in degrees per second for the 'spin' source. Default: 10. */
+  spinSpeed?: number;
+  /** Time series for the 'time' source. */
+  time?: PrintAnimationTimeSeries | null;
+  /**
+   * Frame title. `{title}` is the control's title, `{frame}` and `{count}`
+   * number the frames, `{name}` is the bookmark being approached and
+   * `{time}` the current time step. Default: '{title}'.
+   */
+  titleTemplate?: string;
+  /** File format. Default: 'gif'. */
+  format?: PrintAnimationFormat;
+  /** Frames per second. Default: 10. */
+  fps?: number;
+  /** Length of the animation in seconds. Default: 5. */
+  duration?: number;
+}
+
+/**
+ * Kinds of element a print layout can place on the page.
+ */
+export type PrintLayoutElementType =
+  | "title"
+  | "northArrow"
+  | "scaleBar"
+  | "legend"
+  | "colorbar"
+  | "inset"
+  | "text"
+  | "image";
+
+/**
+ * An element placed on a print layout. `x` and `y` position the element
+ * within the free space of the page content area: 0 is flush left (top), 1 is
+ * flush right (bottom) and 0.5 is centered, so a layout fits any page size.
+ */
+export interface PrintLayoutElement {
+  /** Unique element ID. */
+  id: string;
+  /** What the element draws. */
+  type: PrintLayoutElementType;
+  /** Horizontal position (0-1). */
+  x: number;
+  /** Vertical position (0-1). */
+  y: number;
+  /** Width as a fraction of the content width (inset, image). */
+  width?: number;
+  /** Height as a fraction of the content height (inset). */
+  height?: number;
+  /** Text box contents. `{date}` and `{title}` are filled in on export. */
+  text?: string;
+  /** Font size in pixels (title, text). */
+  fontSize?: number;
+  /** Text color (text). */
+  color?: string;
+  /** Background color (text). Empty for none. */
+  background?: string;
+  /** Image URL or data URL (image). */
+  src?: string;
+  /** Zoom difference between the inset and the map (inset). Default: -5. */
+  zoomOffset?: number;
+  /** Style URL of the inset map (inset). */
+  style?: string;
+}
+
+/**
+ * A print layout. Layouts are plain JSON and can be saved as reusable
+ * templates.
+ */
+export interface PrintLayout {
+  /** Template name. */
+  name?: string;
+  /** Elements drawn over the map, in drawing order. */
+  elements: PrintLayoutElement[];
+}
+
 /**
  * Options for configuring the PrintControl.
  */
@@ -3529,8 +4381,44 @@ export interface PrintControlOptions {
    * `'fit'`.
    */
   fitMode?: PrintFitMode;
+  /**
+   * Render the export in an offscreen map at the target pixel size, so tiles
+   * and labels are drawn at full resolution instead of being scaled up from
+   * the on-screen canvas. Custom (e.g. deck.gl) layers are not part of the
+   * style and are left out. Default: false.
+   */
+  offscreen?: boolean;
+  /**
+   * Print at a fixed scale, given as the denominator (25000 for 1:25,000).
+   * The zoom is derived from the page size and DPI, so the map fills the
+   * page content area and printed distances are exact. Implies `offscreen`.
+   * Default: null (follow the on-screen view).
+   */
+  scale?: number | null;
   /** Whether to show the page options (size/orientation/DPI) in the panel. Default: false. */
   showPageOptions?: boolean;
+  /** Atlas configuration used by {@link PrintControl.exportAtlas}. */
+  atlas?: PrintAtlasOptions;
+  /** Whether to show the atlas options in the panel. Default: false. */
+  showAtlasOptions?: boolean;
+  /** Animation configuration used by {@link PrintControl.exportAnimation}. */
+  animation?: PrintAnimationOptions;
+  /** Whether to show the animation options in the panel. Default: false. */
+  showAnimationOptions?: boolean;
+  /**
+   * Page layout. When set, its elements replace the fixed title, north
+   * arrow, scale bar and colorbar placement. Default: null.
+   */
+  layout?: PrintLayout | null;
+  /** Whether to show the layout composer in the panel. Default: false. */
+  showLayoutOptions?: boolean;
+  /** Legend controls drawn by a layout's `legend` element. Default: []. */
+  legendControls?: Legend[];
+  /**
+   * Colorbar controls drawn by a layout's `colorbar` element, before the
+   * `colorbar` option. Default: [].
+   */
+  colorbarControls?: Colorbar[];
   /** Panel width in pixels. Default: 280. */
   panelWidth?: number;
   /** Maximum height of the panel in pixels before scrolling. Default: 500. */
@@ -3597,12 +4485,28 @@ export interface PrintControlState {
   pageBackground: string;
   /** How the map is fitted into the page content area. */
   fitMode: PrintFitMode;
+  /** Whether the export is rendered in an offscreen map. */
+  offscreen: boolean;
+  /** Fixed print scale denominator, or null to follow the on-screen view. */
+  scale: number | null;
+  /** Atlas configuration. */
+  atlas: PrintAtlasOptions;
+  /** Animation configuration. */
+  animation: PrintAnimationOptions;
+  /** Page layout, or null for the fixed layout. */
+  layout: PrintLayout | null;
 }
 
 /**
  * PrintControl event types.
  */
-export type PrintEvent = ComponentEvent | "export" | "copy" | "error";
+export type PrintEvent =
+  | ComponentEvent
+  | "export"
+  | "copy"
+  | "error"
+  | "atlaspage"
+  | "animationframe";
 
 /**
  * PrintControl event handler function type.
@@ -3612,6 +4516,14 @@ export type PrintEventHandler = (event: {
   state: PrintControlState;
   dataUrl?: string;
   error?: string;
+  /** 1-based page number (atlaspage events). */
+  page?: number;
+  /** Total number of atlas pages (atlaspage events). */
+  pageCount?: number;
+  /** 1-based frame number (animationframe events). */
+  frame?: number;
+  /** Total number of animation frames (animationframe events). */
+  frameCount?: number;
 }) => void;
 
 // ============================================================================
@@ -3705,6 +4617,8 @@ export interface SpinGlobeControlOptions {
 export interface SpinGlobeControlState {
   /** Whether the globe is currently spinning. */
   spinning: boolean;
+  /** Rotation speed in degrees per second. */
+  speed: number;
   /** Whether the settings panel is collapsed. */
   collapsed: boolean;
 }
@@ -3814,3 +4728,207 @@ export interface TileLayerEventData {
  * TileLayerControl event handler function type.
  */
 export type TileLayerEventHandler = (event: TileLayerEventData) => void;
+
+// ============================================================================
+// AttributeTableControl Types
+// ============================================================================
+
+/**
+ * Sort direction of an attribute table column.
+ */
+export type AttributeTableSortDirection = "asc" | "desc";
+
+/**
+ * Options for configuring the AttributeTableControl.
+ */
+export interface AttributeTableControlOptions {
+  /** Position on the map. Default: 'top-right'. */
+  position?: ControlPosition;
+  /** Custom CSS class name. */
+  className?: string;
+  /** Whether the control is initially visible. Default: true. */
+  visible?: boolean;
+  /** Whether the panel starts collapsed. Default: true. */
+  collapsed?: boolean;
+  /**
+   * Layer IDs offered in the layer picker. When empty (default), every layer
+   * backed by a GeoJSON source is offered, one entry per source, which covers
+   * the layers added by VectorDatasetControl, AddVectorControl and
+   * ChoroplethControl.
+   */
+  layers?: string[];
+  /** Layers never offered in the layer picker. */
+  excludeLayers?: string[];
+  /** Properties never shown as columns (e.g., internal IDs). */
+  excludeProperties?: string[];
+  /** Highlight style for the selected feature. */
+  highlightStyle?: InspectHighlightStyle;
+  /** Whether selecting a row zooms the map to the feature. Default: true. */
+  zoomToFeature?: boolean;
+  /** Maximum zoom used when zooming to a feature. Default: 16. */
+  maxZoomToFeature?: number;
+  /** Panel width in pixels. Default: 480. */
+  panelWidth?: number;
+  /** Height of the scrollable grid in pixels. Default: 300. */
+  tableHeight?: number;
+  /** Height of a grid row in pixels. Default: 24. */
+  rowHeight?: number;
+  /** Width of a grid column in pixels. Default: 120. */
+  columnWidth?: number;
+  /** Minimum zoom level at which the control is visible. */
+  minzoom?: number;
+  /** Maximum zoom level at which the control is visible. */
+  maxzoom?: number;
+}
+
+/**
+ * Internal state of the AttributeTableControl.
+ */
+export interface AttributeTableControlState {
+  /** Whether the control is visible. */
+  visible: boolean;
+  /** Whether the panel is collapsed. */
+  collapsed: boolean;
+  /** ID of the layer whose features are listed, if any. */
+  layerId: string | null;
+  /** Column the rows are sorted by, if any. */
+  sortColumn: string | null;
+  /** Direction of the sort. */
+  sortDirection: AttributeTableSortDirection;
+  /** Case-insensitive text the rows are filtered by. */
+  filterText: string;
+  /** Index (in the source data) of the selected feature, if any. */
+  selectedIndex: number | null;
+}
+
+/**
+ * AttributeTableControl event types.
+ */
+export type AttributeTableEvent =
+  | ComponentEvent
+  | "layerchange"
+  | "select"
+  | "sort"
+  | "filter";
+
+/**
+ * Data passed to AttributeTableControl event handlers.
+ */
+export interface AttributeTableEventData {
+  /** The event type. */
+  type: AttributeTableEvent;
+  /** Current control state at the time of the event. */
+  state: AttributeTableControlState;
+  /** The selected feature (for select events). */
+  feature?: GeoJSON.Feature;
+}
+
+/**
+ * AttributeTableControl event handler function type.
+ */
+export type AttributeTableEventHandler = (
+  event: AttributeTableEventData,
+) => void;
+
+// ============================================================================
+// SpatialQueryControl Types
+// ============================================================================
+
+/**
+ * A query result added to the map by the SpatialQueryControl.
+ */
+export interface SpatialQueryLayerInfo {
+  /** Unique identifier of the result (also its display name). */
+  id: string;
+  /** GeoJSON source ID holding the result features. */
+  sourceId: string;
+  /** Map layer IDs drawing the result. */
+  layerIds: string[];
+  /** The SQL that produced the result. */
+  sql: string;
+  /** Number of features in the result. */
+  featureCount: number;
+}
+
+/**
+ * Options for configuring the SpatialQueryControl.
+ */
+export interface SpatialQueryControlOptions {
+  /** Position on the map. Default: 'top-right'. */
+  position?: ControlPosition;
+  /** Custom CSS class name. */
+  className?: string;
+  /** Whether the control is initially visible. Default: true. */
+  visible?: boolean;
+  /** Whether the panel starts collapsed. Default: true. */
+  collapsed?: boolean;
+  /** SQL pre-filled in the editor. Default: ''. */
+  defaultQuery?: string;
+  /**
+   * ViewStateControl whose drawn bounding box is substituted for `$bbox` in
+   * queries. Default: null (`$bbox` is unavailable).
+   */
+  viewStateControl?: ViewStateControl | null;
+  /** Color used to draw result layers. Default: '#e6550d'. */
+  resultColor?: string;
+  /** Maximum number of rows shown in the results table. Default: 500. */
+  maxTableRows?: number;
+  /** Whether to zoom to a query result. Default: true. */
+  fitBounds?: boolean;
+  /** Panel width in pixels. Default: 420. */
+  panelWidth?: number;
+  /** Minimum zoom level at which the control is visible. */
+  minzoom?: number;
+  /** Maximum zoom level at which the control is visible. */
+  maxzoom?: number;
+}
+
+/**
+ * Internal state of the SpatialQueryControl.
+ */
+export interface SpatialQueryControlState {
+  /** Whether the control is visible. */
+  visible: boolean;
+  /** Whether the panel is collapsed. */
+  collapsed: boolean;
+  /** Whether a query is running. */
+  running: boolean;
+  /** Error message of the last query, if it failed. */
+  error: string | null;
+  /** Result layers added to the map. */
+  layers: SpatialQueryLayerInfo[];
+}
+
+/**
+ * SpatialQueryControl event types.
+ */
+export type SpatialQueryEvent =
+  | ComponentEvent
+  | "querystart"
+  | "queryend"
+  | "error"
+  | "layeradd"
+  | "layerremove";
+
+/**
+ * Data passed to SpatialQueryControl event handlers.
+ */
+export interface SpatialQueryEventData {
+  /** The event type. */
+  type: SpatialQueryEvent;
+  /** Current control state at the time of the event. */
+  state: SpatialQueryControlState;
+  /** The SQL that was run (query events). */
+  sql?: string;
+  /** The query result (for queryend events). */
+  result?: SpatialQueryResult;
+  /** The result layer affected by this event (if applicable). */
+  layer?: SpatialQueryLayerInfo;
+  /** Error message (for error events). */
+  error?: string;
+}
+
+/**
+ * SpatialQueryControl event handler function type.
+ */
+export type SpatialQueryEventHandler = (event: SpatialQueryEventData) => void;
@@ -0,0 +1,337 @@
+/**
+ * Shared export helpers used by the vector layer controls (VectorDataset,
+ * AddVector). GeoJSON and CSV are written natively; GeoPackage, zipped
+ * Shapefile and FlatGeobuf go through DuckDB WASM's spatial `COPY ... TO`.
+ */
+import type { DuckDBConverter } from "../converters/DuckDBConverter";
+import { matchesFilter } from "./filterBuilder";
+import { geometryBounds } from "../utils/helpers";
+import { createZip } from "../utils/zip";
+import type {
+  AttributeFilter,
+  VectorExportFormat,
+  VectorExportScope,
+} from "./types";
+
+/**
+ * Download icon for the per-layer export toggle button.
+ */
+export const EXPORT_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>`;
+
+/**
+ * Export formats with their display labels, output extensions and, for the
+ * DuckDB-written ones, the GDAL driver and sidecar files.
+ */
+export const VECTOR_EXPORT_FORMATS: {
+  value: VectorExportFormat;
+  label: string;
+  extension: string;
+  driver?: string;
+  sidecars?: string[];
+}[] = [
+  { value: "geojson", label: "GeoJSON", extension: ".geojson" },
+  { value: "csv", label: "CSV (WKT geometry)", extension: ".csv" },
+  {
+    value: "geopackage",
+    label: "GeoPackage",
+    extension: ".gpkg",
+    driver: "GPKG",
+  },
+  {
+    value: "shapefile",
+    label: "Shapefile (zipped)",
+    extension: ".shp",
+    driver: "ESRI Shapefile",
+    sidecars: [".shx", ".dbf", ".prj", ".cpg"],
+  },
+  {
+    value: "flatgeobuf",
+    label: "FlatGeobuf",
+    extension: ".fgb",
+    driver: "FlatGeobuf",
+  },
+];
+
+/**
+ * Export scopes with their display labels.
+ */
+const EXPORT_SCOPES: { value: VectorExportScope; label: string }[] = [
+  { value: "all", label: "All features" },
+  { value: "viewport", label: "Features in current view" },
+  { value: "filter", label: "Features matching filter" },
+];
+
+/**
+ * Format a coordinate list as WKT.
+ */
+function wktCoords(coords: GeoJSON.Position[]): string {
+  return coords.map((c) => c.join(" ")).join(", ");
+}
+
+/**
+ * Convert a GeoJSON geometry to Well-Known Text.
+ *
+ * @param geometry - The geometry, or null.
+ * @returns The WKT string, or an empty string for a null geometry.
+ */
+export function geometryToWKT(geometry: GeoJSON.Geometry | null): string {
+  if (!geometry) return "";
+  const rings = (r: GeoJSON.Position[][]) =>
+    r.map((ring) => `(${wktCoords(ring)})`).join(", ");
+  switch (geometry.type) {
+    case "Point":
+      return `POINT (${geometry.coordinates.join(" ")})`;
+    case "MultiPoint":
+      return `MULTIPOINT (${geometry.coordinates.map((c) => `(${c.join(" ")})`).join(", ")})`;
+    case "LineString":
+      return `LINESTRING (${wktCoords(geometry.coordinates)})`;
+    case "MultiLineString":
+      return `MULTILINESTRING (${rings(geometry.coordinates)})`;
+    case "Polygon":
+      return `POLYGON (${rings(geometry.coordinates)})`;
+    case "MultiPolygon":
+      return `MULTIPOLYGON (${geometry.coordinates.map((p) => `(${rings(p)})`).join(", ")})`;
+    case "GeometryCollection":
+      return `GEOMETRYCOLLECTION (${geometry.geometries.map(geometryToWKT).join(", ")})`;
+  }
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break.
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write features as CSV with a leading WKT geometry column followed by the
+ * union of all property columns.
+ *
+ * @param features - The features to write.
+ * @returns The CSV text.
+ */
+export function featuresToCSV(features: GeoJSON.Feature[]): string {
+  const columns: string[] = [];
+  for (const f of features) {
+    for (const key of Object.keys(f.properties ?? {})) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+  const lines = [["WKT", ...columns].map(csvField).join(",")];
+  for (const f of features) {
+    lines.push(
+      [geometryToWKT(f.geometry), ...columns.map((c) => f.properties?.[c])]
+        .map(csvField)
+        .join(","),
+    );
+  }
+  return lines.join("\r\n");
+}
+
+/**
+ * Pick the features to export for a scope. `viewport` keeps features whose
+ * bounding box intersects the given bounds; `filter` keeps features matching
+ * the attribute filter. Without bounds or a filter the scope keeps all.
+ *
+ * @param features - All features of the layer.
+ * @param scope - Which features to keep.
+ * @param context - The map bounds [west, south, east, north] and the active filter.
+ * @returns The selected features.
+ */
+export function selectFeatures(
+  features: GeoJSON.Feature[],
+  scope: VectorExportScope,
+  context: {
+    bounds?: [number, number, number, number];
+    filter?: AttributeFilter | null;
+  } = {},
+): GeoJSON.Feature[] {
+  const { bounds, filter } = context;
+  if (scope === "viewport" && bounds) {
+    const [west, south, east, north] = bounds;
+    return features.filter((f) => {
+      const bbox = geometryBounds(f.geometry);
+      if (!bbox) return false;
+      const [minX, minY, maxX, maxY] = bbox;
+      return minX <= east && maxX >= west && minY <= north && maxY >= south;
+    });
+  }
+  if (scope === "filter" && filter) {
+    return features.filter((f) => matchesFilter(f.properties ?? {}, filter));
+  }
+  return features;
+}
+
+/**
+ * Write features to a file in the given format.
+ *
+ * @param features - The features to export.
+ * @param format - The output format.
+ * @param baseName - Output filename without extension.
+ * @param converter - DuckDB converter for GeoPackage, Shapefile and
+ *   FlatGeobuf. The shared instance is loaded on demand when omitted.
+ * @returns The exported file and its filename.
+ */
+export async function exportFeatures(
+  features: GeoJSON.Feature[],
+  format: VectorExportFormat,
+  baseName: string,
+  converter?: DuckDBConverter,
+): Promise<{ blob: Blob; filename: string }> {
+  const spec = VECTOR_EXPORT_FORMATS.find((f) => f.value === format);
+  if (!spec) {
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+  // DuckDB file names are used inside SQL, so keep them plain
+  const name = baseName.replace(/[^\w.-]+/g, "_") || "export";
+  const geojson: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features,
+  };
+
+  if (format === "geojson") {
+    return {
+      blob: new Blob([JSON.stringify(geojson)], {
+        type: "application/geo+json",
+      }),
+      filename: `${name}.geojson`,
+    };
+  }
+  if (format === "csv") {
+    return {
+      blob: new Blob([featuresToCSV(features)], { type: "text/csv" }),
+      filename: `${name}.csv`,
+    };
+  }
+
+  if (!converter) {
+    const { getDuckDBConverter } =
+      await import("../converters/DuckDBConverter");
+    converter = getDuckDBConverter();
+  }
+  const files = await converter.exportGeoJSON(
+    geojson,
+    spec.driver!,
+    `${name}${spec.extension}`,
+    spec.sidecars,
+  );
+
+  if (format === "shapefile") {
+    return {
+      blob: createZip(
+        Object.entries(files).map(([name, data]) => ({ name, data })),
+      ),
+      filename: `${name}.zip`,
+    };
+  }
+  const data = files[`${name}${spec.extension}`];
+  if (!data) {
+    throw new Error(`DuckDB did not write ${name}${spec.extension}`);
+  }
+  return {
+    blob: new Blob([data as BlobPart], { type: "application/octet-stream" }),
+    filename: `${name}${spec.extension}`,
+  };
+}
+
+/**
+ * Trigger a browser download of a blob.
+ *
+ * @param blob - The file contents.
+ * @param filename - The download filename.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Options for {@link createExportForm}.
+ */
+export interface ExportFormOptions {
+  /** Whether the layer has an active filter to offer the `filter` scope. */
+  hasFilter?: boolean;
+  /** Called when Export is clicked; errors are shown in the form. */
+  onExport: (
+    format: VectorExportFormat,
+    scope: VectorExportScope,
+  ) => Promise<void>;
+}
+
+/**
+ * Render the "Export as…" form shown in a layer's row: a format and scope
+ * dropdown and an Export button that reports progress and errors inline.
+ *
+ * @param options - The export callback and whether a filter is active.
+ * @returns The form element.
+ */
+export function createExportForm(options: ExportFormOptions): HTMLElement {
+  const form = document.createElement("div");
+  form.className = "maplibre-gl-export-form";
+
+  const formatSelect = document.createElement("select");
+  formatSelect.className = "maplibre-gl-export-select";
+  formatSelect.title = "Format";
+  for (const f of VECTOR_EXPORT_FORMATS) {
+    const option = document.createElement("option");
+    option.value = f.value;
+    option.textContent = f.label;
+    formatSelect.appendChild(option);
+  }
+  form.appendChild(formatSelect);
+
+  const scopeSelect = document.createElement("select");
+  scopeSelect.className = "maplibre-gl-export-select";
+  scopeSelect.title = "Features";
+  for (const s of EXPORT_SCOPES) {
+    if (s.value === "filter" && !options.hasFilter) continue;
+    const option = document.createElement("option");
+    option.value = s.value;
+    option.textContent = s.label;
+    scopeSelect.appendChild(option);
+  }
+  form.appendChild(scopeSelect);
+
+  const status = document.createElement("div");
+  status.className = "maplibre-gl-export-status";
+
+  const exportBtn = document.createElement("button");
+  exportBtn.type = "button";
+  exportBtn.className =
+    "maplibre-gl-filter-btn maplibre-gl-filter-btn--primary";
+  exportBtn.textContent = "Export";
+  exportBtn.addEventListener("click", async () => {
+    exportBtn.disabled = true;
+    status.textContent = "Exporting...";
+    status.classList.remove("maplibre-gl-export-status--error");
+    try {
+      await options.onExport(
+        formatSelect.value as VectorExportFormat,
+        scopeSelect.value as VectorExportScope,
+      );
+      status.textContent = "";
+    } catch (err) {
+      status.textContent = `Export failed: ${err instanceof Error ? err.message : String(err)}`;
+      status.classList.add("maplibre-gl-export-status--error");
+    } finally {
+      exportBtn.disabled = false;
+    }
+  });
+
+  const actions = document.createElement("div");
+  actions.className = "maplibre-gl-filter-actions";
+  actions.appendChild(exportBtn);
+  form.appendChild(actions);
+  form.appendChild(status);
+
+  return form;
+}
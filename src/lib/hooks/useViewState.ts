@@ -11,6 +11,7 @@ const DEFAULT_STATE: ViewStateControlState = {
   bearing: 0,
   drawingBBox: false,
   drawnBBox: null,
+  snap: false,
 };
 
 /**
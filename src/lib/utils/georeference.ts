@@ -0,0 +1,205 @@
+/**
+ * Affine georeferencing of an image in Web Mercator (EPSG:3857): the
+ * coordinates of the top-left corner of the top-left pixel and the size of
+ * one pixel, in meters.
+ */
+export interface GeoTransform {
+  /** Easting of the image's left edge. */
+  originX: number;
+  /** Northing of the image's top edge. */
+  originY: number;
+  /** Pixel width in meters. */
+  pixelWidth: number;
+  /** Pixel height in meters (positive; rows go south). */
+  pixelHeight: number;
+}
+
+/** Web Mercator sphere radius in meters. */
+const EARTH_RADIUS = 6378137;
+
+/**
+ * WKT of EPSG:3857, as written to `.prj` files and GeoPDF measures.
+ */
+export const EPSG_3857_WKT =
+  'PROJCS["WGS 84 / Pseudo-Mercator",GEOGCS["WGS 84",DATUM["WGS_1984",' +
+  'SPHEROID["WGS 84",6378137,298.257223563]],PRIMEM["Greenwich",0],' +
+  'UNIT["degree",0.0174532925199433]],PROJECTION["Mercator_1SP"],' +
+  'PARAMETER["central_meridian",0],PARAMETER["scale_factor",1],' +
+  'PARAMETER["false_easting",0],PARAMETER["false_northing",0],' +
+  'UNIT["metre",1],AUTHORITY["EPSG","3857"]]';
+
+/**
+ * Project a longitude/latitude to Web Mercator meters.
+ */
+export function lngLatToMercator(lng: number, lat: number): [number, number] {
+  const phi =
+    (Math.max(-85.05112878, Math.min(85.05112878, lat)) * Math.PI) / 180;
+  return [
+    (EARTH_RADIUS * lng * Math.PI) / 180,
+    EARTH_RADIUS * Math.log(Math.tan(Math.PI / 4 + phi / 2)),
+  ];
+}
+
+/**
+ * Unproject Web Mercator meters to a longitude/latitude.
+ */
+export function mercatorToLngLat(x: number, y: number): [number, number] {
+  return [
+    (x / EARTH_RADIUS) * (180 / Math.PI),
+    (2 * Math.atan(Math.exp(y / EARTH_RADIUS)) - Math.PI / 2) * (180 / Math.PI),
+  ];
+}
+
+/**
+ * Write an ESRI world file (`.pgw`, `.jgw`). World files reference the
+ * center of the top-left pixel.
+ *
+ * @param transform - The image georeferencing.
+ * @returns The six-line world file.
+ */
+export function createWorldFile(transform: GeoTransform): string {
+  const { originX, originY, pixelWidth, pixelHeight } = transform;
+  return (
+    [
+      pixelWidth,
+      0,
+      0,
+      -pixelHeight,
+      originX + pixelWidth / 2,
+      originY - pixelHeight / 2,
+    ]
+      .map((value) => value.toFixed(10))
+      .join("\n") + "\n"
+  );
+}
+
+/** TIFF field types used by {@link createGeoTiff}. */
+const SHORT = 3;
+const LONG = 4;
+const DOUBLE = 12;
+
+/**
+ * Encode an RGBA image as an uncompressed GeoTIFF in EPSG:3857.
+ *
+ * @param width - Image width in pixels.
+ * @param height - Image height in pixels.
+ * @param rgba - Pixel data, four bytes per pixel (as from `getImageData`).
+ * @param transform - The image georeferencing.
+ * @returns The GeoTIFF file.
+ */
+export function createGeoTiff(
+  width: number,
+  height: number,
+  rgba: Uint8Array | Uint8ClampedArray,
+  transform: GeoTransform,
+): Blob {
+  // Tags in ascending order, as TIFF requires
+  const tags: [number, number, number[]][] = [
+    [256, LONG, [width]], // ImageWidth
+    [257, LONG, [height]], // ImageLength
+    [258, SHORT, [8, 8, 8, 8]], // BitsPerSample
+    [259, SHORT, [1]], // Compression: none
+    [262, SHORT, [2]], // PhotometricInterpretation: RGB
+    [273, LONG, [0]], // StripOffsets, patched below
+    [277, SHORT, [4]], // SamplesPerPixel
+    [278, LONG, [height]], // RowsPerStrip
+    [279, LONG, [width * height * 4]], // StripByteCounts
+    [284, SHORT, [1]], // PlanarConfiguration: chunky
+    [338, SHORT, [2]], // ExtraSamples: unassociated alpha
+    [33550, DOUBLE, [transform.pixelWidth, transform.pixelHeight, 0]], // ModelPixelScale
+    [33922, DOUBLE, [0, 0, 0, transform.originX, transform.originY, 0]], // ModelTiepoint
+    [
+      34735, // GeoKeyDirectory
+      SHORT,
+      [
+        ...[1, 1, 0, 3], // version 1.1.0, three keys
+        ...[1024, 0, 1, 1], // GTModelType: projected
+        ...[1025, 0, 1, 1], // GTRasterType: pixel is area
+        ...[3072, 0, 1, 3857], // ProjectedCSType: EPSG:3857
+      ],
+    ],
+  ];
+
+  const typeSize = (type: number) =>
+    type === SHORT ? 2 : type === LONG ? 4 : 8;
+  const ifdOffset = 8;
+  const ifdSize = 2 + tags.length * 12 + 4;
+  let dataOffset = ifdOffset + ifdSize;
+  const valueOffsets = tags.map(([, type, values]) => {
+    const size = typeSize(type) * values.length;
+    if (size <= 4) return -1;
+    const offset = dataOffset;
+    dataOffset += size + (size % 2);
+    return offset;
+  });
+  const pixelOffset = dataOffset;
+  tags[5][2][0] = pixelOffset;
+
+  const header = new Uint8Array(pixelOffset);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, 0x4949); // "II": little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+  view.setUint16(ifdOffset, tags.length, true);
+
+  const writeValues = (offset: number, type: number, values: number[]) => {
+    values.forEach((value, i) => {
+      const at = offset + i * typeSize(type);
+      if (type === SHORT) view.setUint16(at, value, true);
+      else if (type === LONG) view.setUint32(at, value, true);
+      else view.setFloat64(at, value, true);
+    });
+  };
+
+  tags.forEach(([tag, type, values], i) => {
+    const entry = ifdOffset + 2 + i * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+    if (valueOffsets[i] < 0) {
+      writeValues(entry + 8, type, values);
+    } else {
+      view.setUint32(entry + 8, valueOffsets[i], true);
+      writeValues(valueOffsets[i], type, values);
+    }
+  });
+  // The next-IFD offset stays 0: there is a single image
+
+  return new Blob([header, rgba] as BlobPart[], { type: "image/tiff" });
+}
+
+/**
+ * Build the `/VP` entry of a GeoPDF page: a viewport over the map area
+ * with a geospatial measure dictionary, as read by GDAL and QGIS.
+ *
+ * @param bbox - Map area in PDF user space (points, origin bottom-left) as
+ *   [left, bottom, right, top].
+ * @param extent - Map area in EPSG:3857 meters as [west, south, east, north].
+ * @returns The page dictionary entry.
+ */
+export function createGeoPdfViewport(
+  bbox: [number, number, number, number],
+  extent: [number, number, number, number],
+): string {
+  const [west, south, east, north] = extent;
+  // Unit-square corners of the viewport (lower-left first, clockwise) and
+  // their latitude/longitude
+  const corners: [number, number][] = [
+    [west, south],
+    [west, north],
+    [east, north],
+    [east, south],
+  ];
+  const gpts = corners.flatMap(([x, y]) => {
+    const [lng, lat] = mercatorToLngLat(x, y);
+    return [lat.toFixed(9), lng.toFixed(9)];
+  });
+  const box = bbox.map((value) => value.toFixed(3)).join(" ");
+  return (
+    `/VP [<< /Type /Viewport /Name (Map) /BBox [${box}] ` +
+    `/Measure << /Type /Measure /Subtype /GEO ` +
+    `/Bounds [0 0 0 1 1 1 1 0] /LPTS [0 0 0 1 1 1 1 0] ` +
+    `/GPTS [${gpts.join(" ")}] /PDU [/M /SQM /DEG] ` +
+    `/GCS << /Type /PROJCS /EPSG 3857 /WKT (${EPSG_3857_WKT}) >> >> >>]`
+  );
+}
@@ -0,0 +1,297 @@
+/**
+ * Options for {@link GifEncoder}.
+ */
+export interface GifEncoderOptions {
+  /** Delay between frames in milliseconds. Default: 100. */
+  delay?: number;
+  /** Number of repeats, or 0 to loop forever. Default: 0. */
+  repeat?: number;
+}
+
+/** Colors per frame palette; the last palette slot is kept for transparency. */
+const MAX_COLORS = 255;
+const TRANSPARENT_INDEX = 255;
+
+/**
+ * A color box of the median-cut quantizer: a set of 15-bit colors with their
+ * pixel counts.
+ */
+interface ColorBox {
+  colors: number[];
+  count: number;
+}
+
+/**
+ * Builds an animated GIF frame by frame, so frames can be discarded as soon
+ * as they are added. Each frame gets its own 255-color palette (median cut
+ * over 15-bit colors); pixels with alpha below 128 become transparent.
+ *
+ * @example
+ * ```typescript
+ * const gif = new GifEncoder(320, 240, { delay: 100 });
+ * gif.addFrame(ctx.getImageData(0, 0, 320, 240).data);
+ * const blob = gif.finish();
+ * ```
+ */
+export class GifEncoder {
+  private _width: number;
+  private _height: number;
+  private _delay: number;
+  private _parts: Uint8Array[] = [];
+
+  /**
+   * Creates a new encoder.
+   *
+   * @param width - Frame width in pixels.
+   * @param height - Frame height in pixels.
+   * @param options - Frame delay and repeat count.
+   */
+  constructor(width: number, height: number, options?: GifEncoderOptions) {
+    this._width = width;
+    this._height = height;
+    this._delay = Math.max(2, Math.round((options?.delay ?? 100) / 10));
+
+    const header = new Uint8Array(13 + 19);
+    header.set(ascii("GIF89a"), 0);
+    const view = new DataView(header.buffer);
+    view.setUint16(6, width, true);
+    view.setUint16(8, height, true);
+    // No global color table; each frame has its own
+    // NETSCAPE2.0 application extension: loop count
+    header.set([0x21, 0xff, 0x0b], 13);
+    header.set(ascii("NETSCAPE2.0"), 16);
+    header.set([0x03, 0x01], 27);
+    view.setUint16(29, options?.repeat ?? 0, true);
+    header[31] = 0;
+    this._parts.push(header);
+  }
+
+  /**
+   * Append a frame.
+   *
+   * @param rgba - Pixel data, four bytes per pixel (as from `getImageData`).
+   */
+  addFrame(rgba: Uint8Array | Uint8ClampedArray): void {
+    const pixelCount = this._width * this._height;
+    if (rgba.length < pixelCount * 4) {
+      throw new Error("GIF frame is smaller than the image size");
+    }
+    const { palette, lookup, transparent } = quantize(rgba, pixelCount);
+
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      const p = i * 4;
+      indices[i] =
+        rgba[p + 3] < 128
+          ? TRANSPARENT_INDEX
+          : lookup[
+              ((rgba[p] >> 3) << 10) |
+                ((rgba[p + 1] >> 3) << 5) |
+                (rgba[p + 2] >> 3)
+            ];
+    }
+
+    const frame = new Uint8Array(8 + 10 + 768);
+    const view = new DataView(frame.buffer);
+    // Graphic control extension: disposal, delay and transparency
+    frame.set([0x21, 0xf9, 0x04], 0);
+    frame[3] = transparent ? (2 << 2) | 1 : 1 << 2;
+    view.setUint16(4, this._delay, true);
+    frame[6] = TRANSPARENT_INDEX;
+    frame[7] = 0;
+    // Image descriptor with a 256-entry local color table
+    frame[8] = 0x2c;
+    view.setUint16(13, this._width, true);
+    view.setUint16(15, this._height, true);
+    frame[17] = 0x80 | 7;
+    frame.set(palette, 18);
+
+    this._parts.push(frame, lzwEncode(indices, 8));
+  }
+
+  /**
+   * Finish the animation.
+   *
+   * @returns The GIF file.
+   */
+  finish(): Blob {
+    return new Blob([...this._parts, new Uint8Array([0x3b])] as BlobPart[], {
+      type: "image/gif",
+    });
+  }
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Reduce a frame to at most 255 colors with median cut.
+ *
+ * @returns The 256-entry RGB palette, a 15-bit color to palette index lookup
+ *   and whether the frame has transparent pixels.
+ */
+function quantize(
+  rgba: Uint8Array | Uint8ClampedArray,
+  pixelCount: number,
+): { palette: Uint8Array; lookup: Uint8Array; transparent: boolean } {
+  const histogram = new Uint32Array(32768);
+  let transparent = false;
+  for (let i = 0; i < pixelCount; i++) {
+    const p = i * 4;
+    if (rgba[p + 3] < 128) {
+      transparent = true;
+      continue;
+    }
+    histogram[
+      ((rgba[p] >> 3) << 10) | ((rgba[p + 1] >> 3) << 5) | (rgba[p + 2] >> 3)
+    ]++;
+  }
+
+  const colors: number[] = [];
+  let count = 0;
+  for (let color = 0; color < 32768; color++) {
+    if (histogram[color]) {
+      colors.push(color);
+      count += histogram[color];
+    }
+  }
+
+  const boxes: ColorBox[] = colors.length ? [{ colors, count }] : [];
+  while (boxes.length < MAX_COLORS) {
+    // Split the most populated box that still has several colors
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (
+        boxes[i].colors.length > 1 &&
+        (target < 0 || boxes[i].count > boxes[target].count)
+      ) {
+        target = i;
+      }
+    }
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const shift = widestChannel(box.colors);
+    box.colors.sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+    let half = 0;
+    let split = 1;
+    for (; split < box.colors.length - 1; split++) {
+      half += histogram[box.colors[split - 1]];
+      if (half * 2 >= box.count) break;
+    }
+    const lower = box.colors.slice(0, split);
+    const upper = box.colors.slice(split);
+    const lowerCount = lower.reduce((sum, c) => sum + histogram[c], 0);
+    boxes.splice(
+      target,
+      1,
+      { colors: lower, count: lowerCount },
+      { colors: upper, count: box.count - lowerCount },
+    );
+  }
+
+  const palette = new Uint8Array(768);
+  const lookup = new Uint8Array(32768);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const color of box.colors) {
+      const n = histogram[color];
+      r += ((color >> 10) & 31) * n;
+      g += ((color >> 5) & 31) * n;
+      b += (color & 31) * n;
+      lookup[color] = index;
+    }
+    // Scale 5-bit channels back to 8 bits, centered in their bucket
+    palette[index * 3] = Math.min(255, Math.round((r / box.count) * 8 + 4));
+    palette[index * 3 + 1] = Math.min(255, Math.round((g / box.count) * 8 + 4));
+    palette[index * 3 + 2] = Math.min(255, Math.round((b / box.count) * 8 + 4));
+  });
+  return { palette, lookup, transparent };
+}
+
+/**
+ * Bit offset (10, 5 or 0) of the channel with the widest range.
+ */
+function widestChannel(colors: number[]): number {
+  let best = 0;
+  let bestRange = -1;
+  for (const shift of [10, 5, 0]) {
+    let min = 31;
+    let max = 0;
+    for (const color of colors) {
+      const value = (color >> shift) & 31;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > bestRange) {
+      bestRange = max - min;
+      best = shift;
+    }
+  }
+  return best;
+}
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks.
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [minCodeSize];
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    out.push(block.length, ...block);
+    block.length = 0;
+  };
+  const write = (code: number, size: number) => {
+    bits |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      if (block.length === 255) flushBlock();
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  write(clearCode, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix, codeSize);
+    if (nextCode < 4096) {
+      table.set(key, nextCode);
+      // The decoder widens its codes one step later than it adds entries
+      if (nextCode === 1 << codeSize) codeSize++;
+      nextCode++;
+    } else {
+      write(clearCode, codeSize);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = index;
+  }
+  write(prefix, codeSize);
+  write(endCode, codeSize);
+  if (bitCount > 0) block.push(bits & 0xff);
+  if (block.length) flushBlock();
+  out.push(0);
+  return new Uint8Array(out);
+}
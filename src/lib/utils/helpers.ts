@@ -89,3 +89,200 @@ export function classNames(
 ): string {
   return classes.filter(Boolean).join(" ");
 }
+
+/**
+ * Computes the [west, south, east, north] extent of a geometry.
+ *
+ * @param geometry - The geometry to measure.
+ * @returns The extent, or null for an empty geometry.
+ */
+export function geometryBounds(
+  geometry: GeoJSON.Geometry | null,
+): [number, number, number, number] | null {
+  if (!geometry) return null;
+  let minLng = Infinity,
+    minLat = Infinity,
+    maxLng = -Infinity,
+    maxLat = -Infinity;
+
+  const visit = (coords: unknown): void => {
+    if (!Array.isArray(coords)) return;
+    if (typeof coords[0] === "number") {
+      minLng = Math.min(minLng, coords[0]);
+      maxLng = Math.max(maxLng, coords[0]);
+      minLat = Math.min(minLat, coords[1] as number);
+      maxLat = Math.max(maxLat, coords[1] as number);
+      return;
+    }
+    for (const item of coords) visit(item);
+  };
+
+  if (geometry.type === "GeometryCollection") {
+    for (const g of geometry.geometries) {
+      const b = geometryBounds(g);
+      if (b) visit([b.slice(0, 2), b.slice(2)]);
+    }
+  } else {
+    visit(geometry.coordinates);
+  }
+
+  return minLng === Infinity ? null : [minLng, minLat, maxLng, maxLat];
+}
+
+/**
+ * Encodes text as URL-safe base64 (base64url without padding).
+ *
+ * @param text - The text to encode.
+ * @returns The encoded token.
+ */
+export function encodeBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decodes a token written by {@link encodeBase64Url}.
+ *
+ * @param token - The encoded token.
+ * @returns The decoded text.
+ * @throws If the token is not valid base64.
+ */
+export function decodeBase64Url(token: string): string {
+  const base64 = token.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/** Elements kept by {@link sanitizeHtml}; others are replaced by their content. */
+const SAFE_TAGS = new Set([
+  "a",
+  "abbr",
+  "b",
+  "blockquote",
+  "br",
+  "code",
+  "div",
+  "em",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hr",
+  "i",
+  "img",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "s",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "table",
+  "tbody",
+  "td",
+  "th",
+  "thead",
+  "tr",
+  "u",
+  "ul",
+]);
+
+/** Elements removed by {@link sanitizeHtml} together with their content. */
+const DROPPED_TAGS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "template",
+  "noscript",
+  "svg",
+  "math",
+  "form",
+  "textarea",
+  "select",
+  "button",
+]);
+
+/** Attributes kept by {@link sanitizeHtml}, for any allowed element. */
+const SAFE_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "alt",
+  "title",
+  "width",
+  "height",
+  "colspan",
+  "rowspan",
+  "target",
+  "rel",
+]);
+
+/**
+ * Whether a URL is safe in an `href` or `src`: http(s), mailto, relative,
+ * fragment, and (for images) `data:image/`.
+ */
+function isSafeUrl(value: string, attribute: string): boolean {
+  const url = value.trim().toLowerCase();
+  if (/^(https?:|mailto:|#|\/|\.)/.test(url)) return true;
+  if (attribute === "src" && url.startsWith("data:image/")) return true;
+  // Relative URL without a scheme
+  return !/^[a-z][a-z0-9+.-]*:/.test(url);
+}
+
+/**
+ * Removes markup that could run script from untrusted HTML. Keeps basic text
+ * formatting, lists, tables, links and images; drops other elements, event
+ * handler and style attributes, and `javascript:` (or other non-web) URLs.
+ *
+ * @param html - The HTML to clean.
+ * @returns The cleaned HTML.
+ */
+export function sanitizeHtml(html: string): string {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+
+  const clean = (parent: Node): void => {
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === Node.COMMENT_NODE) {
+        node.remove();
+        continue;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+      const element = node as Element;
+      const tag = element.tagName.toLowerCase();
+      if (DROPPED_TAGS.has(tag)) {
+        element.remove();
+        continue;
+      }
+      clean(element);
+      if (!SAFE_TAGS.has(tag)) {
+        element.replaceWith(...Array.from(element.childNodes));
+        continue;
+      }
+      for (const { name, value } of Array.from(element.attributes)) {
+        const isUrl = name === "href" || name === "src";
+        if (!SAFE_ATTRIBUTES.has(name) || (isUrl && !isSafeUrl(value, name))) {
+          element.removeAttribute(name);
+        }
+      }
+      if (tag === "a" && element.getAttribute("target") === "_blank") {
+        element.setAttribute("rel", "noopener noreferrer");
+      }
+    }
+  };
+
+  clean(template.content);
+  return template.innerHTML;
+}
@@ -5,6 +5,7 @@ export {
   debounce,
   throttle,
   classNames,
+  sanitizeHtml,
 } from "./helpers";
 
 export {
@@ -0,0 +1,60 @@
+/**
+ * Escape text for use in XML content or attribute values.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Wrap Placemark and Folder lines in a KML document.
+ *
+ * @param name - The document name.
+ * @param lines - The document's contents, indented by four spaces.
+ * @returns The KML text.
+ */
+export function kmlDocument(name: string, lines: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(name)}</name>`,
+    ...lines,
+    "  </Document>",
+    "</kml>",
+  ].join("\n");
+}
+
+/**
+ * Parse KML text and return its Placemarks.
+ *
+ * @param text - The KML text.
+ * @returns The Placemark elements, in document order.
+ * @throws If the text is not well-formed XML.
+ */
+export function parseKmlPlacemarks(text: string): Element[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid KML document");
+  }
+  return Array.from(doc.getElementsByTagName("Placemark"));
+}
+
+/**
+ * Read the `<Data name="..."><value>` pairs of a Placemark's ExtendedData.
+ *
+ * @param placemark - The Placemark element.
+ * @returns The values keyed by name.
+ */
+export function kmlExtendedData(placemark: Element): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const el of Array.from(placemark.getElementsByTagName("Data"))) {
+    const name = el.getAttribute("name");
+    const value = el.getElementsByTagName("value")[0]?.textContent;
+    if (name && value !== undefined && value !== null) data[name] = value;
+  }
+  return data;
+}
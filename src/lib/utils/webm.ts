@@ -0,0 +1,113 @@
+/**
+ * Options for {@link WebmEncoder}.
+ */
+export interface WebmEncoderOptions {
+  /** Frames per second. Default: 10. */
+  fps?: number;
+  /** Target video bitrate in bits per second. Default: 8000000. */
+  videoBitsPerSecond?: number;
+}
+
+/** Container types to try, best codec first. */
+const MIME_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+/**
+ * Records a WebM video frame by frame, so frames can be discarded as soon as
+ * they are added. MediaRecorder records in real time: each frame is shown on
+ * a canvas stream for one frame interval and the recorder is paused in
+ * between, so the time spent producing the next frame is not recorded.
+ *
+ * @example
+ * ```typescript
+ * const webm = new WebmEncoder(320, 240, { fps: 10 });
+ * await webm.addFrame(canvas);
+ * const blob = await webm.finish();
+ * ```
+ */
+export class WebmEncoder {
+  private _interval: number;
+  private _ctx: CanvasRenderingContext2D;
+  private _stream: MediaStream;
+  private _track: CanvasCaptureMediaStreamTrack;
+  private _recorder: MediaRecorder;
+  private _chunks: Blob[] = [];
+  private _stopped: Promise<unknown>;
+
+  /**
+   * Creates a new encoder.
+   *
+   * @param width - Frame width in pixels.
+   * @param height - Frame height in pixels.
+   * @param options - Frame rate and bitrate.
+   * @throws If the browser cannot record WebM video.
+   */
+  constructor(width: number, height: number, options?: WebmEncoderOptions) {
+    const mimeType =
+      typeof MediaRecorder === "undefined"
+        ? undefined
+        : MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error("WebM recording is not supported by this browser");
+    }
+    this._interval = 1000 / (options?.fps ?? 10);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Failed to create the recording canvas");
+    }
+    this._ctx = ctx;
+
+    // Frame rate 0: frames are only captured on requestFrame()
+    this._stream = canvas.captureStream(0);
+    this._track =
+      this._stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    this._recorder = new MediaRecorder(this._stream, {
+      mimeType,
+      videoBitsPerSecond: options?.videoBitsPerSecond ?? 8_000_000,
+    });
+    this._recorder.ondataavailable = (e) => {
+      if (e.data.size) this._chunks.push(e.data);
+    };
+    this._stopped = new Promise((resolve) => {
+      this._recorder.onstop = resolve;
+    });
+  }
+
+  /**
+   * Record a frame for one frame interval.
+   *
+   * @param frame - The frame, drawn at the top left of the video.
+   */
+  async addFrame(frame: CanvasImageSource): Promise<void> {
+    this._ctx.drawImage(frame, 0, 0);
+    if (this._recorder.state === "inactive") {
+      this._recorder.start();
+    } else {
+      this._recorder.resume();
+    }
+    this._track.requestFrame();
+    await new Promise((resolve) => setTimeout(resolve, this._interval));
+    this._recorder.pause();
+  }
+
+  /**
+   * Finish recording and return the video.
+   *
+   * @returns The WebM file.
+   */
+  async finish(): Promise<Blob> {
+    if (this._recorder.state !== "inactive") {
+      this._recorder.stop();
+      await this._stopped;
+    }
+    this._stream.getTracks().forEach((track) => track.stop());
+    return new Blob(this._chunks, { type: "video/webm" });
+  }
+}
@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, type Mock } from "vitest";
+import { AttributeTableControl } from "../src/lib/core/AttributeTableControl";
+
+const cities: GeoJSON.FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { name: "Oslo", pop: 700000 },
+      geometry: { type: "Point", coordinates: [10.75, 59.91] },
+    },
+    {
+      type: "Feature",
+      properties: { name: "Bergen", pop: 285000 },
+      geometry: { type: "Point", coordinates: [5.32, 60.39] },
+    },
+    {
+      type: "Feature",
+      properties: { name: "Tromsø", pop: null },
+      geometry: { type: "Point", coordinates: [18.96, 69.65] },
+    },
+  ],
+};
+
+function createMapMock() {
+  const styleLayers: { id: string; type: string; source: string }[] = [
+    { id: "background", type: "background", source: "" },
+    { id: "cities-circle", type: "circle", source: "cities" },
+    { id: "tiles-fill", type: "fill", source: "tiles" },
+  ];
+  const sources: Record<string, unknown> = {
+    cities: {
+      type: "geojson",
+      getData: vi.fn(async () => cities),
+      serialize: vi.fn(() => ({ type: "geojson", generateId: true })),
+    },
+    tiles: { type: "vector" },
+  };
+  const handlers: Record<string, (e: unknown) => void> = {};
+  return {
+    handlers,
+    on: vi.fn((event: string, handler: (e: unknown) => void) => {
+      handlers[event] = handler;
+    }),
+    off: vi.fn(),
+    getZoom: vi.fn().mockReturnValue(5),
+    getStyle: vi.fn(() => ({ layers: styleLayers })),
+    getLayer: vi.fn((id: string) => styleLayers.find((l) => l.id === id)),
+    getSource: vi.fn((id: string) => sources[id]),
+    addSource: vi.fn((id: string, source: unknown) => {
+      sources[id] = source;
+    }),
+    removeSource: vi.fn((id: string) => delete sources[id]),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    fitBounds: vi.fn(),
+    queryRenderedFeatures: vi.fn(() => [{ id: 1 }]),
+  };
+}
+
+async function createTable() {
+  const map = createMapMock();
+  const control = new AttributeTableControl({ collapsed: false });
+  const container = control.onAdd(map as any);
+  await control.setLayer("cities-circle");
+  return { map, control, container };
+}
+
+describe("AttributeTableControl", () => {
+  it("offers one layer per GeoJSON source", () => {
+    const map = createMapMock();
+    const control = new AttributeTableControl();
+    control.onAdd(map as any);
+
+    expect(control.getLayerIds()).toEqual(["cities-circle"]);
+  });
+
+  it("lists the features and columns of the chosen layer", async () => {
+    const { control, container } = await createTable();
+
+    expect(control.getColumns()).toEqual(["name", "pop"]);
+    expect(control.getFeatures()).toHaveLength(3);
+    expect(container.querySelectorAll(".attribute-table-row")).toHaveLength(3);
+    expect(
+      container.querySelector(".attribute-table-count")?.textContent,
+    ).toBe("3 features");
+  });
+
+  it("sorts numerically with empty values last", async () => {
+    const { control } = await createTable();
+
+    control.sortBy("pop", "asc");
+    expect(control.getFeatures().map((f) => f.properties?.name)).toEqual([
+      "Bergen",
+      "Oslo",
+      "Tromsø",
+    ]);
+
+    control.sortBy("pop", "desc");
+    expect(control.getFeatures().map((f) => f.properties?.name)).toEqual([
+      "Oslo",
+      "Bergen",
+      "Tromsø",
+    ]);
+  });
+
+  it("toggles the sort direction from the column header", async () => {
+    const { control, container } = await createTable();
+    const header = () =>
+      container.querySelector(
+        '.attribute-table-header-cell[data-column="name"]',
+      ) as HTMLButtonElement;
+
+    header().click();
+    expect(control.getState().sortDirection).toBe("asc");
+    header().click();
+    expect(control.getState()).toMatchObject({
+      sortColumn: "name",
+      sortDirection: "desc",
+    });
+  });
+
+  it("filters rows by text in any column", async () => {
+    const { control, container } = await createTable();
+
+    control.setFilter("berg");
+    expect(control.getFeatures().map((f) => f.properties?.name)).toEqual([
+      "Bergen",
+    ]);
+    expect(
+      container.querySelector(".attribute-table-count")?.textContent,
+    ).toBe("1 of 3 features");
+  });
+
+  it("renders only the rows in view", async () => {
+    const map = createMapMock();
+    const many: GeoJSON.FeatureCollection = {
+      type: "FeatureCollection",
+      features: Array.from({ length: 1000 }, (_, i) => ({
+        type: "Feature" as const,
+        properties: { n: i },
+        geometry: { type: "Point" as const, coordinates: [0, 0] },
+      })),
+    };
+    (map.getSource("cities") as any).getData = async () => many;
+    const control = new AttributeTableControl({
+      collapsed: false,
+      tableHeight: 240,
+      rowHeight: 24,
+    });
+    const container = control.onAdd(map as any);
+    await control.setLayer("cities-circle");
+
+    const rows = container.querySelectorAll(".attribute-table-row");
+    expect(rows.length).toBeLessThan(30);
+    expect(
+      (container.querySelector(".attribute-table-rows") as HTMLElement).style
+        .height,
+    ).toBe("24000px");
+  });
+
+  it("highlights and zooms to the feature of a selected row", async () => {
+    const { map, control, container } = await createTable();
+    const onSelect = vi.fn();
+    control.on("select", onSelect);
+
+    (container.querySelectorAll(".attribute-table-row")[1] as HTMLElement).click();
+
+    expect(control.getState().selectedIndex).toBe(1);
+    expect(map.addSource).toHaveBeenCalledWith(
+      expect.stringMatching(/^attribute-table-highlight-/),
+      { type: "geojson", data: cities.features[1] },
+    );
+    expect(map.fitBounds).toHaveBeenCalled();
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ feature: cities.features[1] }),
+    );
+    expect(
+      container.querySelector(".attribute-table-row.selected")?.textContent,
+    ).toContain("Bergen");
+  });
+
+  it("selects the row of a feature clicked on the map", async () => {
+    const { map, control } = await createTable();
+    control.setFilter("oslo");
+
+    map.handlers.click({ point: { x: 0, y: 0 } });
+
+    // generateId sources render the feature index as its ID.
+    expect(map.queryRenderedFeatures).toHaveBeenCalledWith(
+      { x: 0, y: 0 },
+      { layers: ["cities-circle"] },
+    );
+    expect(control.getState()).toMatchObject({
+      selectedIndex: 1,
+      filterText: "",
+    });
+    expect(map.fitBounds).not.toHaveBeenCalled();
+  });
+
+  it("matches clicked features by position, not by their own IDs", async () => {
+    const map = createMapMock();
+    const withIds: GeoJSON.FeatureCollection = {
+      ...cities,
+      features: cities.features.map((f, i) => ({ ...f, id: [1, 0, 2][i] })),
+    };
+    (map.getSource("cities") as { getData: Mock }).getData.mockResolvedValue(
+      withIds,
+    );
+    const control = new AttributeTableControl({ collapsed: false });
+    control.onAdd(map as any);
+    await control.setLayer("cities-circle");
+
+    // The rendered ID 1 is Bergen's position, though Oslo carries ID 1.
+    map.handlers.click({ point: { x: 0, y: 0 } });
+
+    expect(control.getState().selectedIndex).toBe(1);
+  });
+
+  it("matches clicked features by their own IDs without generateId", async () => {
+    const map = createMapMock();
+    const source = map.getSource("cities") as {
+      getData: Mock;
+      serialize: Mock;
+    };
+    source.serialize.mockReturnValue({ type: "geojson" });
+    source.getData.mockResolvedValue({
+      ...cities,
+      features: cities.features.map((f, i) => ({ ...f, id: [7, 8, 9][i] })),
+    });
+    const control = new AttributeTableControl({ collapsed: false });
+    control.onAdd(map as any);
+    await control.setLayer("cities-circle");
+
+    map.queryRenderedFeatures.mockReturnValue([{ id: 8 }]);
+    map.handlers.click({ point: { x: 0, y: 0 } });
+
+    expect(control.getState().selectedIndex).toBe(1);
+  });
+
+  it("matches clicked features by their properties when they have no ID", async () => {
+    const map = createMapMock();
+    const source = map.getSource("cities") as { serialize: Mock };
+    source.serialize.mockReturnValue({ type: "geojson" });
+    const control = new AttributeTableControl({ collapsed: false });
+    control.onAdd(map as any);
+    await control.setLayer("cities-circle");
+
+    map.queryRenderedFeatures.mockReturnValue([
+      { properties: { name: "Bergen", pop: 285000 } },
+    ] as any);
+    map.handlers.click({ point: { x: 0, y: 0 } });
+
+    expect(control.getState().selectedIndex).toBe(1);
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { BookmarkControl } from "../src/lib/core/BookmarkControl";
-import type { MapBookmark } from "../src/lib/core/types";
+import { BookmarkStorageConflictError } from "../src/lib/core/bookmarkStorage";
+import type {
+  BookmarkStorageAdapter,
+  BookmarkStorageData,
+  MapBookmark,
+} from "../src/lib/core/types";
 import {
   PANEL_RESIZE_HANDLE_CLASS,
   PANEL_RESIZE_LEFT_CLASS,
@@ -532,4 +537,428 @@ describe("BookmarkControl", () => {
       expect(names).toContain("Folder 2");
     });
   });
+
+  describe("GeoJSON/KML export and share links", () => {
+    it("exports and imports GeoJSON and KML, recreating folders", () => {
+      const { control } = mount({ groupable: true });
+      control.addBookmark("a");
+      const groupId = control.addGroup("Region A")!;
+      control.moveToGroup(control.getBookmarks()[0].id, groupId);
+
+      const geojson = JSON.parse(control.exportBookmarks("all", "geojson"));
+      expect(geojson.type).toBe("FeatureCollection");
+      expect(geojson.features[0].properties.folder).toBe("Region A");
+      const kml = control.exportBookmarks("all", "kml");
+      expect(kml).toContain("<LookAt>");
+
+      const target = new BookmarkControl({ groupable: true });
+      target.onAdd(map as never);
+      const imported = target.importBookmarksFrom(kml);
+      expect(imported).toHaveLength(1);
+      expect(target.getGroups().map((g) => g.name)).toEqual(["Region A"]);
+      expect(target.getBookmarks()[0].groupId).toBe(target.getGroups()[0].id);
+
+      // Importing the same file again reuses the folder and the IDs stay unique
+      target.importBookmarksFrom(kml);
+      expect(target.getGroups()).toHaveLength(1);
+      const ids = target.getBookmarks().map((b) => b.id);
+      expect(new Set(ids).size).toBe(2);
+    });
+
+    it("shows copy share link actions only when shareable", () => {
+      const plain = mount({ groupable: true });
+      plain.control.addBookmark("a");
+      plain.control.addGroup("Region A");
+      expect(plain.container.querySelector(".share")).toBeNull();
+
+      const { control, container } = mount({
+        groupable: true,
+        shareable: true,
+      });
+      control.addBookmark("a");
+      control.addGroup("Region A");
+      expect(
+        container.querySelector(".bookmark-action-btn.share"),
+      ).not.toBeNull();
+      expect(
+        container.querySelector(".bookmark-group-btn.share"),
+      ).not.toBeNull();
+    });
+
+    it("opens a shared bookmark in another control", () => {
+      const { control } = mount();
+      control.addBookmark("Shared view");
+      const url = control.getShareUrl(control.getBookmarks()[0].id)!;
+      expect(url).toContain("#bookmarks=");
+      expect(control.getShareUrl("missing")).toBeNull();
+
+      const receiver = new BookmarkControl();
+      receiver.onAdd(map as never);
+      map.flyTo.mockClear();
+      const imported = receiver.openShareUrl(url);
+      expect(imported.map((b) => b.name)).toEqual(["Shared view"]);
+      expect(map.flyTo).toHaveBeenCalledWith(
+        expect.objectContaining({ center: [-98, 38.5], zoom: 5 }),
+      );
+      expect(receiver.openShareUrl("https://example.com/#5/38/-98")).toEqual(
+        [],
+      );
+    });
+
+    it("shares a whole folder", () => {
+      const { control } = mount({ groupable: true });
+      control.addBookmark("a");
+      control.addBookmark("b");
+      const groupId = control.addGroup("Trip")!;
+      for (const b of control.getBookmarks())
+        control.moveToGroup(b.id, groupId);
+
+      const receiver = new BookmarkControl({ groupable: true });
+      receiver.onAdd(map as never);
+      receiver.openShareUrl(control.getGroupShareUrl(groupId)!);
+      expect(receiver.getBookmarks()).toHaveLength(2);
+      expect(receiver.getGroups().map((g) => g.name)).toEqual(["Trip"]);
+      expect(
+        receiver
+          .getBookmarks()
+          .every((b) => b.groupId === receiver.getGroups()[0].id),
+      ).toBe(true);
+    });
+
+    it("imports a share link from the page URL only when opted in", () => {
+      const { control } = mount();
+      control.addBookmark("From link");
+      const url = new URL(control.getShareUrl(control.getBookmarks()[0].id)!);
+      window.history.replaceState(null, "", `/${url.hash}`);
+
+      const ignoring = new BookmarkControl();
+      ignoring.onAdd(map as never);
+      expect(ignoring.getBookmarks()).toEqual([]);
+      expect(window.location.hash).toBe(url.hash);
+
+      const receiver = new BookmarkControl({ openSharedOnLoad: true });
+      receiver.onAdd(map as never);
+      expect(receiver.getBookmarks().map((b) => b.name)).toEqual(["From link"]);
+      expect(window.location.hash).toBe("");
+    });
+
+    it("holds back the state of shared bookmarks until accepted", () => {
+      const { control } = mount({ captureState: () => ({ layers: ["dem"] }) });
+      control.addBookmark("With state");
+      const url = control.getShareUrl(control.getBookmarks()[0].id)!;
+
+      const restoreState = vi.fn();
+      const receiver = new BookmarkControl({ restoreState });
+      receiver.onAdd(map as never);
+      const [shared] = receiver.openShareUrl(url);
+      expect(shared.shared).toBe(true);
+      expect(receiver.getSharedBookmarks()).toHaveLength(1);
+      expect(restoreState).not.toHaveBeenCalled();
+
+      receiver.acceptSharedBookmarks();
+      expect(receiver.getSharedBookmarks()).toEqual([]);
+      receiver.goTo(shared.id);
+      expect(restoreState).toHaveBeenCalledWith({ layers: ["dem"] });
+    });
+  });
+
+  describe("storage backends", () => {
+    function memoryStorage() {
+      const sets = new Map<string, string>();
+      const storage: BookmarkStorageAdapter = {
+        load: async (key) =>
+          sets.has(key)
+            ? (JSON.parse(sets.get(key)!) as BookmarkStorageData)
+            : null,
+        save: async (key, data) => void sets.set(key, JSON.stringify(data)),
+        delete: async (key) => void sets.delete(key),
+      };
+      return { storage, sets };
+    }
+
+    it("loads bookmarks from the backend instead of localStorage", async () => {
+      const { storage, sets } = memoryStorage();
+      sets.set(
+        "team",
+        JSON.stringify({
+          bookmarks: [
+            {
+              id: "b1",
+              name: "Stored",
+              lng: 1,
+              lat: 2,
+              zoom: 3,
+              pitch: 0,
+              bearing: 0,
+              createdAt: 1,
+            },
+          ],
+          groups: [],
+        }),
+      );
+      const { control } = mount({ storageKey: "team", storage });
+      await control.sync();
+      expect(control.getBookmarks().map((b) => b.name)).toEqual(["Stored"]);
+      expect(localStorage.getItem("team")).toBeNull();
+    });
+
+    it("merges concurrent edits from two controls", async () => {
+      const { storage, sets } = memoryStorage();
+      const first = mount({ storage });
+      first.control.addBookmark("a");
+      first.control.addBookmark("b");
+      await first.control.sync();
+
+      const second = mount({ storage });
+      await second.control.sync();
+      expect(second.control.getBookmarks()).toHaveLength(2);
+
+      // One control deletes a bookmark while the other adds one
+      const [b, a] = first.control.getBookmarks();
+      expect(a.name).toBe("a");
+      first.control.removeBookmark(b.id);
+      second.control.addBookmark("c");
+      await first.control.sync();
+      await second.control.sync();
+      await first.control.sync();
+
+      const names = (c: BookmarkControl) =>
+        c
+          .getBookmarks()
+          .map((m) => m.name)
+          .sort();
+      expect(names(first.control)).toEqual(["a", "c"]);
+      expect(names(second.control)).toEqual(["a", "c"]);
+      const stored = JSON.parse(sets.get("bookmarks")!) as BookmarkStorageData;
+      expect(stored.deleted).toHaveProperty(b.id);
+    });
+
+    it("keeps bookmarks imported after a clear", async () => {
+      const { storage, sets } = memoryStorage();
+      const { control } = mount({ storage, groupable: true });
+      control.addBookmark("a");
+      const groupId = control.addGroup("Trip")!;
+      control.moveToGroup(control.getBookmarks()[0].id, groupId);
+      await control.sync();
+      const exported = control.exportBookmarks("all", "geojson");
+
+      control.clear();
+      await control.sync();
+      control.importBookmarksFrom(exported, "geojson");
+      await control.sync();
+
+      expect(control.getBookmarks().map((b) => b.name)).toEqual(["a"]);
+      expect(control.getGroups().map((g) => g.name)).toEqual(["Trip"]);
+      const stored = JSON.parse(sets.get("bookmarks")!) as BookmarkStorageData;
+      expect(stored.bookmarks.map((b) => b.name)).toEqual(["a"]);
+      expect(stored.groups.map((g) => g.name)).toEqual(["Trip"]);
+      for (const item of [...stored.bookmarks, ...stored.groups]) {
+        expect(stored.deleted).not.toHaveProperty(item.id);
+      }
+    });
+
+    it("merges again when the stored set changed before saving", async () => {
+      const { storage, sets } = memoryStorage();
+      let conflicts = 1;
+      const racing: BookmarkStorageAdapter = {
+        ...storage,
+        save: async (key, data) => {
+          if (conflicts-- > 0) {
+            // Another client writes between our load and save
+            sets.set(
+              key,
+              JSON.stringify({
+                bookmarks: [
+                  {
+                    id: "other",
+                    name: "Other client",
+                    lng: 0,
+                    lat: 0,
+                    zoom: 1,
+                    pitch: 0,
+                    bearing: 0,
+                    createdAt: 1,
+                  },
+                ],
+                groups: [],
+              }),
+            );
+            throw new BookmarkStorageConflictError();
+          }
+          return storage.save(key, data);
+        },
+      };
+      const { control } = mount({ storage: racing });
+      control.addBookmark("mine");
+      await control.sync();
+
+      const stored = JSON.parse(sets.get("bookmarks")!) as BookmarkStorageData;
+      expect(stored.bookmarks.map((b) => b.name).sort()).toEqual([
+        "Other client",
+        "mine",
+      ]);
+    });
+
+    it("keeps local bookmarks and warns when the backend fails", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const storage: BookmarkStorageAdapter = {
+        load: () => Promise.reject(new Error("offline")),
+        save: () => Promise.resolve(),
+        delete: () => Promise.resolve(),
+      };
+      const { control } = mount({ storage });
+      control.addBookmark("a");
+      await control.sync();
+      expect(control.getBookmarks()).toHaveLength(1);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("tour mode", () => {
+    beforeEach(() => {
+      // The tour panel is added to the map container
+      Object.assign(map, { getContainer: () => document.body });
+    });
+
+    function seed(control: BookmarkControl, names: string[]) {
+      // addBookmark prepends; add in reverse so the list reads in order
+      for (const name of [...names].reverse()) control.addBookmark(name);
+      return control.getBookmarks();
+    }
+
+    it("strips script from captions", () => {
+      const { control } = mount({ flyToDuration: 0 });
+      const [a] = seed(control, ["a"]);
+      control.updateBookmark(a.id, {
+        caption: '<p onclick="alert(1)">Hi<script>alert(2)</script></p>',
+      });
+      control.startTour();
+      const caption = document.querySelector(".bookmark-tour-caption")!;
+      expect(caption.innerHTML).toBe("<p>Hi</p>");
+      control.endTour();
+    });
+
+    it("plays a folder in order with dwell times and restores state", () => {
+      vi.useFakeTimers();
+      try {
+        const restoreState = vi.fn();
+        const { control } = mount({
+          groupable: true,
+          flyToDuration: 1000,
+          tourDwellTime: 2000,
+          restoreState,
+          captureState: () => ({ layer: "visible" }),
+        });
+        const [a, b, c] = seed(control, ["a", "b", "c"]);
+        const groupId = control.addGroup("Briefing")!;
+        control.moveToGroup(a.id, groupId);
+        control.moveToGroup(c.id, groupId);
+        control.updateBookmark(c.id, { caption: "<b>Finale</b>", dwell: 500 });
+        const steps: string[] = [];
+        control.on("tour-step", (e) => steps.push(e.bookmark!.name));
+
+        control.startTour(groupId);
+        expect(control.getTourState()).toMatchObject({
+          active: true,
+          playing: true,
+          index: 0,
+          bookmarkIds: [a.id, c.id],
+        });
+        expect(restoreState).toHaveBeenCalledWith({ layer: "visible" });
+        const panel = document.querySelector(".maplibre-gl-bookmark-tour")!;
+        expect(panel.querySelector(".bookmark-tour-step")?.textContent).toBe(
+          "1 / 2",
+        );
+
+        vi.advanceTimersByTime(2999);
+        expect(steps).toEqual(["a"]);
+        vi.advanceTimersByTime(1);
+        expect(steps).toEqual(["a", "c"]);
+        expect(panel.querySelector(".bookmark-tour-caption")?.innerHTML).toBe(
+          "<b>Finale</b>",
+        );
+        expect(b.id).not.toBe(control.getTourState().bookmarkIds[1]);
+
+        // The last step pauses instead of ending the tour
+        vi.advanceTimersByTime(1500);
+        expect(control.getTourState()).toMatchObject({
+          active: true,
+          playing: false,
+          index: 1,
+        });
+
+        control.endTour();
+        expect(document.querySelector(".maplibre-gl-bookmark-tour")).toBeNull();
+        expect(control.getTourState().active).toBe(false);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("steps, pauses and ends with keyboard shortcuts", () => {
+      vi.useFakeTimers();
+      try {
+        const { control } = mount();
+        seed(control, ["a", "b", "c"]);
+        control.startTour();
+        const press = (key: string) =>
+          document.dispatchEvent(new KeyboardEvent("keydown", { key }));
+
+        press("ArrowRight");
+        expect(control.getTourState().index).toBe(1);
+        press("ArrowLeft");
+        expect(control.getTourState().index).toBe(0);
+        press(" ");
+        expect(control.getTourState().playing).toBe(false);
+        vi.advanceTimersByTime(60000);
+        expect(control.getTourState().index).toBe(0);
+        press(" ");
+        expect(control.getTourState().playing).toBe(true);
+        press("Escape");
+        expect(control.getTourState().active).toBe(false);
+        press("ArrowRight");
+        expect(control.getTourState().index).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("loops when tourLoop is set", () => {
+      vi.useFakeTimers();
+      try {
+        const { control } = mount({
+          tourLoop: true,
+          flyToDuration: 0,
+          tourDwellTime: 100,
+        });
+        seed(control, ["a", "b"]);
+        control.startTour();
+        vi.advanceTimersByTime(200);
+        expect(control.getTourState()).toMatchObject({
+          index: 0,
+          playing: true,
+        });
+        control.endTour();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("shows tour buttons only when tourable", () => {
+      const plain = mount({ groupable: true });
+      plain.control.addGroup("A");
+      expect(plain.container.querySelector(".bookmark-tour-btn")).toBeNull();
+      expect(
+        plain.container.querySelector(".bookmark-group-btn.tour"),
+      ).toBeNull();
+
+      const { control, container } = mount({ groupable: true, tourable: true });
+      control.addGroup("A");
+      expect(container.querySelector(".bookmark-tour-btn")).not.toBeNull();
+      expect(
+        container.querySelector(".bookmark-group-btn.tour"),
+      ).not.toBeNull();
+    });
+  });
 });
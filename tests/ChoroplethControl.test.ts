@@ -0,0 +1,533 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  BIVARIATE_PALETTES,
+  ChoroplethControl,
+  generateBivariateColors,
+  generateCategoryColors,
+  rankCategories,
+} from "../src/lib/core/ChoroplethControl";
+import type {
+  ChoroplethBivariatePalette,
+  ChoroplethControlOptions,
+} from "../src/lib/core/types";
+import { hexToRgb, interpolateColor } from "../src/lib/utils/color";
+
+const DATA_URL = "https://example.com/data.geojson";
+
+/** A row of unit squares, one per properties object. */
+function squares(
+  properties: Record<string, unknown>[],
+): GeoJSON.FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: properties.map((props, i) => ({
+      type: "Feature",
+      properties: props,
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [i, 0],
+            [i + 1, 0],
+            [i + 1, 1],
+            [i, 1],
+            [i, 0],
+          ],
+        ],
+      },
+    })),
+  };
+}
+
+/**
+ * Build a map stub that keeps the added sources, layers and controls so
+ * tests can inspect the styling the control applied.
+ */
+function createMapMock() {
+  const sources: Record<string, { data: GeoJSON.FeatureCollection }> = {};
+  const layers: Record<
+    string,
+    { id: string; type: string; paint: Record<string, unknown> }
+  > = {};
+  // Elements of the controls added to the map, such as legends
+  const controls: HTMLElement[] = [];
+  const map = {
+    sources,
+    layers,
+    controls,
+    on: vi.fn(),
+    off: vi.fn(),
+    getZoom: vi.fn().mockReturnValue(5),
+    getCanvas: vi.fn().mockReturnValue({ style: {} }),
+    addSource: vi.fn(
+      (id: string, source: { data: GeoJSON.FeatureCollection }) => {
+        sources[id] = source;
+      },
+    ),
+    getSource: vi.fn((id: string) => sources[id]),
+    removeSource: vi.fn((id: string) => delete sources[id]),
+    addLayer: vi.fn(
+      (layer: { id: string; type: string; paint: Record<string, unknown> }) => {
+        layers[layer.id] = { ...layer, paint: { ...layer.paint } };
+      },
+    ),
+    getLayer: vi.fn((id: string) => layers[id]),
+    removeLayer: vi.fn((id: string) => delete layers[id]),
+    setPaintProperty: vi.fn((id: string, name: string, value: unknown) => {
+      layers[id].paint[name] = value;
+    }),
+    addControl: vi.fn((control: { onAdd: (map: unknown) => HTMLElement }) => {
+      controls.push(control.onAdd(map));
+    }),
+    removeControl: vi.fn(),
+    fitBounds: vi.fn(),
+  };
+  return map;
+}
+
+/** The expression the control uses to read a numeric property. */
+function valueOf(property: string, fallback: number) {
+  return [
+    "case",
+    ["==", ["typeof", ["get", property]], "number"],
+    ["get", property],
+    fallback,
+  ];
+}
+
+function mount(
+  data: GeoJSON.FeatureCollection,
+  options: ChoroplethControlOptions = {},
+) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => ({ ok: true, json: async () => data })),
+  );
+  const map = createMapMock();
+  const control = new ChoroplethControl({
+    collapsed: false,
+    fitBounds: false,
+    ...options,
+  });
+  const container = control.onAdd(map as never);
+  return { map, control, container };
+}
+
+describe("rankCategories", () => {
+  it("ranks by frequency, then name, and skips missing values", () => {
+    const values = ["b", "a", "c", "b", null, "a", "", undefined, 3, "b"];
+    expect(rankCategories(values, 10)).toEqual({
+      categories: ["b", "a", "3", "c"],
+      hasOther: false,
+    });
+    expect(rankCategories(values, 2)).toEqual({
+      categories: ["b", "a"],
+      hasOther: true,
+    });
+    expect(rankCategories([null, ""], 10)).toEqual({
+      categories: [],
+      hasOther: false,
+    });
+  });
+});
+
+describe("generateCategoryColors", () => {
+  it("gives every category its own color", () => {
+    const categories = Array.from({ length: 14 }, (_, i) => `c${i}`);
+    const colors = generateCategoryColors(categories);
+    expect(Object.keys(colors)).toEqual(categories);
+    expect(colors.c0).toBe("#4e79a7");
+    expect(new Set(Object.values(colors)).size).toBe(14);
+  });
+});
+
+describe("generateBivariateColors", () => {
+  it.each(Object.keys(BIVARIATE_PALETTES) as ChoroplethBivariatePalette[])(
+    "spans the %s corners over a 3x3 grid",
+    (palette) => {
+      const [lowLow, highX, highY, highHigh] =
+        BIVARIATE_PALETTES[palette].corners;
+      const grid = generateBivariateColors(palette, 3, 3);
+
+      expect(grid).toHaveLength(3);
+      grid.forEach((row) => expect(row).toHaveLength(3));
+      // Rows are classes of the second column, cells of the first
+      expect(grid[0][0]).toBe(lowLow);
+      expect(grid[0][2]).toBe(highX);
+      expect(grid[2][0]).toBe(highY);
+      expect(grid[2][2]).toBe(highHigh);
+      expect(grid[1][1]).toBe(
+        interpolateColor(
+          interpolateColor(lowLow, highX, 0.5),
+          interpolateColor(highY, highHigh, 0.5),
+          0.5,
+        ),
+      );
+    },
+  );
+});
+
+describe("ChoroplethControl", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe("histogram breaks", () => {
+    const data = squares([1, 2, 3, 4, 5, 6].map((value) => ({ value })));
+
+    it("restyles the layer with breaks adopted from the histogram", async () => {
+      const { map, control, container } = mount(data);
+      await control.addLayer(DATA_URL, "value", { scheme: "quantile", k: 3 });
+      expect(control.getState().layers[0].breaks).toEqual([1, 3, 5, 6]);
+
+      // Double-clicking the first break line removes it
+      const lines = container.querySelectorAll(
+        ".maplibre-gl-choropleth-histogram-break",
+      );
+      expect(lines).toHaveLength(2);
+      lines[0].dispatchEvent(new MouseEvent("dblclick"));
+
+      const [info] = control.getState().layers;
+      expect(control.getState().scheme).toBe("manual");
+      expect(info.scheme).toBe("manual");
+      expect(info.breaks).toEqual([1, 5, 6]);
+      expect(info.legendLabels).toEqual(["1.00 – 5.00", "5.00 – 6.00"]);
+      expect(info.legendColors).toHaveLength(2);
+      expect(map.layers["data-value-fill"].paint["fill-color"]).toEqual([
+        "step",
+        valueOf("value", 1),
+        info.legendColors[0],
+        5,
+        info.legendColors[1],
+      ]);
+      // The outline keeps its own color
+      expect(map.layers["data-value-outline"].paint["line-color"]).toBe(
+        "#ffffff",
+      );
+    });
+
+    it("refreshes the map legend and emits an update", async () => {
+      const { map, control, container } = mount(data);
+      await control.addLayer(DATA_URL, "value", { scheme: "quantile", k: 3 });
+      const addToMap = Array.from(container.querySelectorAll("button")).find(
+        (b) => b.textContent === "Add to Map",
+      )!;
+      addToMap.click();
+      expect(map.controls).toHaveLength(1);
+      const onUpdate = vi.fn();
+      control.on("update", onUpdate);
+
+      control.setLayerBreaks("data-value", [2, 4]);
+
+      const labels = Array.from(
+        map.controls[0].querySelectorAll(".maplibre-gl-legend-label"),
+      ).map((el) => el.textContent);
+      expect(labels).toEqual(["1.00 – 2.00", "2.00 – 4.00", "4.00 – 6.00"]);
+      expect(onUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ layerId: "data-value" }),
+      );
+    });
+
+    it("steps circle radii of proportional symbols with the new breaks", async () => {
+      const points: GeoJSON.FeatureCollection = {
+        type: "FeatureCollection",
+        features: [10, 20, 30, 40].map((value, i) => ({
+          type: "Feature",
+          properties: { value },
+          geometry: { type: "Point", coordinates: [i, 0] },
+        })),
+      };
+      const { map, control } = mount(points);
+      await control.addLayer(DATA_URL, "value", {
+        renderMode: "proportional",
+        minRadius: 4,
+        maxRadius: 12,
+        k: 3,
+      });
+
+      control.setLayerBreaks("data-value", [25]);
+
+      const [info] = control.getState().layers;
+      expect(info.legendSizes).toEqual([4, 12]);
+      expect(map.layers["data-value-point"].paint["circle-radius"]).toEqual([
+        "step",
+        valueOf("value", 10),
+        4,
+        25,
+        12,
+      ]);
+    });
+  });
+
+  describe("bivariate", () => {
+    // Every combination of three x and three y classes
+    const data = squares(
+      [10, 20, 30].flatMap((y) => [1, 2, 3].map((x) => ({ x, y }))),
+    );
+    const options = {
+      scheme: "equal_interval" as const,
+      renderMode: "bivariate" as const,
+      columnY: "y",
+      bivariateK: 3 as const,
+    };
+
+    it("colors each feature by its class in both columns", async () => {
+      const { map, control } = mount(data);
+      await control.addLayer(DATA_URL, "x", options);
+
+      const [info] = control.getState().layers;
+      expect(info.id).toBe("data-x-y");
+      const grid = info.bivariateColors!;
+      expect(grid).toEqual(generateBivariateColors("pink_blue", 3, 3));
+      const colors = map.sources["data-x-y-source"].data.features.map(
+        (f) => f.properties!._choropleth_color,
+      );
+      expect(colors).toEqual(grid.flat());
+    });
+
+    it("nests the class steps of both columns in the paint expression", async () => {
+      const { map, control } = mount(data);
+      await control.addLayer(DATA_URL, "x", options);
+
+      control.setLayerBreaks("data-x-y", [2]);
+
+      const [info] = control.getState().layers;
+      const grid = info.bivariateColors!;
+      expect(grid).toEqual(generateBivariateColors("pink_blue", 2, 3));
+      const [, y1, y2] = info.breaksY!;
+      const row = (colors: string[]) => [
+        "step",
+        valueOf("x", 1),
+        colors[0],
+        2,
+        colors[1],
+      ];
+      expect(map.layers["data-x-y-fill"].paint["fill-color"]).toEqual([
+        "step",
+        valueOf("y", 10),
+        row(grid[0]),
+        y1,
+        row(grid[1]),
+        y2,
+        row(grid[2]),
+      ]);
+    });
+
+    it("draws the square legend with the second column upwards", async () => {
+      const { control, container } = mount(data);
+      await control.addLayer(DATA_URL, "x", options);
+
+      const [info] = control.getState().layers;
+      const cells = Array.from(
+        container.querySelectorAll<HTMLElement>(
+          ".maplibre-gl-choropleth-bivariate-cell",
+        ),
+      );
+      expect(cells).toHaveLength(9);
+      const rgb = (hex: string) => {
+        const { r, g, b } = hexToRgb(hex)!;
+        return `rgb(${r}, ${g}, ${b})`;
+      };
+      const [lowLow, highX, highY, highHigh] =
+        BIVARIATE_PALETTES.pink_blue.corners;
+      expect(cells[0].style.backgroundColor).toBe(rgb(highY));
+      expect(cells[2].style.backgroundColor).toBe(rgb(highHigh));
+      expect(cells[6].style.backgroundColor).toBe(rgb(lowLow));
+      expect(cells[8].style.backgroundColor).toBe(rgb(highX));
+      expect(cells[6].title).toBe(info.legendLabels[0]);
+      expect(cells[6].title).toBe("x: 1.00 – 1.67, y: 10.00 – 16.67");
+      expect(
+        container.querySelector(".maplibre-gl-choropleth-bivariate-x")!
+          .textContent,
+      ).toBe("x →");
+      expect(
+        container.querySelector(".maplibre-gl-choropleth-bivariate-y")!
+          .textContent,
+      ).toBe("y →");
+    });
+
+    it("rejects schemes that do not give bivariateK classes", async () => {
+      const { control } = mount(data);
+      await control.addLayer(DATA_URL, "x", {
+        ...options,
+        scheme: "head_tail",
+      });
+      expect(control.getState().layers).toHaveLength(0);
+      expect(control.getState().error).toMatch(/quantile, equal interval/);
+    });
+
+    it("draws flat layers and says so when asked to extrude", async () => {
+      const { map, control, container } = mount(data);
+      await control.addLayer(DATA_URL, "x", { ...options, extrude: true });
+      const [info] = control.getState().layers;
+      expect(info.extrude).toBe(false);
+      expect(map.layers["data-x-y-extrusion"]).toBeUndefined();
+      expect(control.getState().status).toMatch(/3D extrusion is only/);
+      const extrudeGroup = container
+        .querySelector("#choropleth-extrude")!
+        .closest<HTMLElement>(".maplibre-gl-choropleth-form-group")!;
+      expect(extrudeGroup.style.display).toBe("none");
+    });
+  });
+
+  describe("unique values", () => {
+    it("keeps a real Other category apart from the grouped long tail", async () => {
+      const data = squares(
+        ["Other", "Other", "Other", "Park", "Park", "Farm", null].map(
+          (use) => ({ use }),
+        ),
+      );
+      const { map, control, container } = mount(data, {
+        defaultMaxCategories: 2,
+      });
+      await control.addLayer(DATA_URL, "use", { scheme: "unique_values" });
+      const [info] = control.getState().layers;
+      expect(info.legendLabels).toEqual(["Other", "Park", "Other"]);
+      const props = map.sources["data-use-source"].data.features.map(
+        (f) => f.properties!._choropleth_category,
+      );
+      expect(props).toEqual([
+        "Other",
+        "Other",
+        "Other",
+        "Park",
+        "Park",
+        "__choropleth_other__",
+        null,
+      ]);
+      expect(info.noDataColor).toBe("#808080");
+
+      // Recolor the grouped tail from the panel legend
+      const inputs = Array.from(
+        container.querySelectorAll<HTMLInputElement>(
+          ".maplibre-gl-choropleth-legend-color",
+        ),
+      );
+      expect(inputs).toHaveLength(3);
+      inputs[2].value = "#000000";
+      inputs[2].dispatchEvent(new Event("change"));
+
+      const [recolored] = control.getState().layers;
+      expect(recolored.categoryColors!.Other).not.toBe("#000000");
+      expect(recolored.otherColor).toBe("#000000");
+      expect(recolored.legendColors[2]).toBe("#000000");
+      expect(map.layers["data-use-fill"].paint["fill-color"]).toEqual([
+        "match",
+        ["get", "_choropleth_category"],
+        "Other",
+        recolored.categoryColors!.Other,
+        "Park",
+        recolored.categoryColors!.Park,
+        "__choropleth_other__",
+        "#000000",
+        "#808080",
+      ]);
+      const rows = Array.from(
+        container.querySelectorAll(".maplibre-gl-choropleth-legend-item"),
+      ).map((el) => el.textContent);
+      expect(rows.at(-1)).toBe("No data");
+    });
+
+    it("paints a plain color when no value has a category", async () => {
+      const data = squares([{ use: null }, { use: "" }]);
+      const { map, control } = mount(data);
+      await control.addLayer(DATA_URL, "use", { scheme: "unique_values" });
+      const [info] = control.getState().layers;
+      expect(info.legendLabels).toEqual([]);
+
+      control.setCategoryColor("data-use", "Other", "#000000");
+      expect(map.layers["data-use-fill"].paint["fill-color"]).toBe("#808080");
+    });
+  });
+
+  describe("normalization", () => {
+    /** The styled features the control put in the layer's source. */
+    function styled(map: ReturnType<typeof createMapMock>, layerId: string) {
+      return map.sources[`${layerId}-source`].data.features.map(
+        (f) => f.properties!,
+      );
+    }
+
+    it("classifies rates and leaves zero denominators as no data", async () => {
+      const data = squares([
+        { cases: 5, pop: 1000 },
+        { cases: 30, pop: 2000 },
+        { cases: 80, pop: 4000 },
+        { cases: 7, pop: 0 },
+      ]);
+      const { map, control } = mount(data);
+      await control.addLayer(DATA_URL, "cases", {
+        scheme: "equal_interval",
+        k: 3,
+        normalization: { by: "column", column: "pop", scale: 1000 },
+      });
+
+      const [info] = control.getState().layers;
+      expect(info.id).toBe("data-cases-per-pop");
+      expect(info.breaks).toEqual([5, 10, 15, 20]);
+      expect(info.noDataColor).toBe("#808080");
+      const props = styled(map, info.id);
+      expect(props.map((p) => p._choropleth_value)).toEqual([5, 15, 20, null]);
+      expect(props.map((p) => p._choropleth_bin)).toEqual([0, 1, 2, -1]);
+      expect(props[3]._choropleth_color).toBe("#808080");
+    });
+
+    it("divides by the area in km² for densities", async () => {
+      // Squares one degree wide at the equator, about 12,364 km² each
+      const data = squares([{ pop: 12364 }, { pop: 24728 }, { pop: 37092 }]);
+      const { map, control } = mount(data);
+      await control.addLayer(DATA_URL, "pop", {
+        k: 3,
+        normalization: { by: "area" },
+      });
+
+      const [info] = control.getState().layers;
+      expect(info.legendLabels[0]).toMatch(/^1\.00 – /);
+      styled(map, info.id).forEach((p, i) =>
+        expect(p._choropleth_value).toBeCloseTo(i + 1, 2),
+      );
+    });
+
+    it("adds a no data legend entry and keeps it when breaks change", async () => {
+      const data = squares([
+        { value: 1 },
+        { value: 2 },
+        { value: 3 },
+        { value: "n/a" },
+      ]);
+      const { map, control, container } = mount(data);
+      await control.addLayer(DATA_URL, "value", { scheme: "quantile", k: 3 });
+      const addToMap = Array.from(container.querySelectorAll("button")).find(
+        (b) => b.textContent === "Add to Map",
+      )!;
+      addToMap.click();
+      const labels = () =>
+        Array.from(
+          map.controls[0].querySelectorAll(".maplibre-gl-legend-label"),
+        ).map((el) => el.textContent);
+      expect(labels().at(-1)).toBe("No data");
+
+      control.setLayerBreaks("data-value", [2]);
+
+      const [info] = control.getState().layers;
+      expect(labels()).toEqual(["1.00 – 2.00", "2.00 – 3.00", "No data"]);
+      expect(map.layers["data-value-fill"].paint["fill-color"]).toEqual([
+        "case",
+        ["all", ["==", ["typeof", ["get", "value"]], "number"]],
+        [
+          "step",
+          valueOf("value", 1),
+          info.legendColors[0],
+          2,
+          info.legendColors[1],
+        ],
+        "#808080",
+      ]);
+    });
+  });
+});
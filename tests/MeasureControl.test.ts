@@ -41,6 +41,27 @@ function createMapMock() {
     removeSource: vi.fn(),
     getZoom: vi.fn().mockReturnValue(5),
     getCanvas: vi.fn().mockReturnValue({ style: {} as CSSStyleDeclaration }),
+    dragPan: { enable: vi.fn(), disable: vi.fn() },
+    // Edit handles under the mouse; tests return them as needed.
+    queryRenderedFeatures: vi.fn().mockReturnValue([]),
+    getTerrain: vi.fn().mockReturnValue(null),
+    setTerrain: vi.fn(),
+    // Elevation rises 1000 m per degree of longitude east of 0.
+    queryTerrainElevation: vi.fn(
+      (lngLat: { lng: number }) => lngLat.lng * 1000,
+    ),
+    // A DEM tile is loaded everywhere unless a test says otherwise.
+    terrain: {
+      tileManager: {
+        maxzoom: 14,
+        getSourceTile: vi.fn((_tileID: unknown): object | undefined => ({
+          dem: {},
+        })),
+      },
+      _getOverscaledTileIDFromLngLatZoom: vi.fn((lngLat: unknown) => ({
+        tileID: lngLat,
+      })),
+    },
     // Identity-ish projection so duplicate-vertex detection can run.
     project: vi.fn((lngLat: [number, number]) => ({
       x: lngLat[0] * 100,
@@ -66,7 +87,10 @@ function clickAt(
   lng: number,
   lat: number,
 ) {
-  ctx.fire("click", { lngLat: { lng, lat } });
+  ctx.fire("click", {
+    lngLat: { lng, lat },
+    point: { x: lng * 100, y: lat * 100 },
+  });
 }
 
 function finish(
@@ -310,4 +334,538 @@ describe("MeasureControl", () => {
     expect(control.getState().currentPoints).toHaveLength(2);
     expect(control.getState().isDrawing).toBe(true);
   });
+
+  describe("profile mode", () => {
+    function drawProfile(ctx: ReturnType<typeof createMapMock>) {
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      clickAt(ctx, 0.5, 0);
+      finish(ctx, 0.5, 0);
+    }
+
+    it("samples the active terrain along the line and summarizes it", async () => {
+      const { control, ctx, container } = mountExpanded({
+        defaultMode: "profile",
+        profileSamples: 7,
+      });
+      ctx.map.getTerrain.mockReturnValue({ source: "dem", exaggeration: 2 });
+      ctx.map.queryTerrainElevation.mockImplementation(
+        (lngLat: { lng: number }) => lngLat.lng * 2000,
+      );
+      const onProfile = vi.fn();
+      control.on("profile", onProfile);
+
+      drawProfile(ctx);
+      await vi.waitFor(() => expect(onProfile).toHaveBeenCalled());
+
+      const [measurement] = control.getMeasurements();
+      expect(measurement.mode).toBe("profile");
+      expect(measurement.distance).toBeGreaterThan(0);
+      const profile = measurement.profile!;
+      expect(profile.samples).toHaveLength(7);
+      // Exaggeration is divided back out of the queried elevations.
+      expect(profile.max).toBeCloseTo(1000);
+      expect(profile.min).toBeCloseTo(0);
+      expect(profile.gain).toBeCloseTo(1000);
+      expect(profile.loss).toBeCloseTo(500);
+      expect(ctx.map.setTerrain).not.toHaveBeenCalled();
+      expect(container.querySelector(".profile-gain")?.textContent).toBe(
+        "+1000.00 m",
+      );
+      expect(container.querySelector(".profile-line")).not.toBeNull();
+    });
+
+    it("temporarily enables a configured DEM source as terrain", async () => {
+      const { control, ctx } = mountExpanded({
+        defaultMode: "profile",
+        demSource: "my-dem",
+        profileSamples: 3,
+      });
+      ctx.map.once.mockImplementation((_ev: string, fn: () => void) => fn());
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+
+      const profile = await control.computeProfile(
+        control.getMeasurements()[0].id,
+      );
+
+      expect(ctx.map.setTerrain).toHaveBeenNthCalledWith(1, {
+        source: "my-dem",
+      });
+      expect(ctx.map.setTerrain).toHaveBeenLastCalledWith(null);
+      expect(profile?.samples.map((s) => s.elevation)).toEqual([0, 500, 1000]);
+    });
+
+    it("falls back to queryTerrainElevation without the terrain internals", async () => {
+      const { control, ctx } = mountExpanded({
+        defaultMode: "profile",
+        profileSamples: 3,
+      });
+      ctx.map.getTerrain.mockReturnValue({ source: "dem" });
+      delete (ctx.map.terrain as Partial<typeof ctx.map.terrain>)
+        ._getOverscaledTileIDFromLngLatZoom;
+      ctx.map.queryTerrainElevation.mockImplementation(
+        (lngLat: { lng: number }) =>
+          lngLat.lng <= 0.5 ? lngLat.lng * 1000 : null,
+      );
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+
+      const profile = await control.computeProfile(
+        control.getMeasurements()[0].id,
+      );
+
+      expect(profile?.samples.map((s) => s.elevation)).toEqual([0, 500, null]);
+    });
+
+    it("leaves samples outside the loaded DEM tiles empty", async () => {
+      const { control, ctx } = mountExpanded({
+        defaultMode: "profile",
+        profileSamples: 5,
+      });
+      ctx.map.getTerrain.mockReturnValue({ source: "dem" });
+      // Only the western half of the line is covered by a loaded tile; the
+      // terrain reports 0 elsewhere.
+      ctx.map.terrain.tileManager.getSourceTile.mockImplementation(
+        (tileID: unknown) =>
+          (tileID as { lng: number }).lng <= 0.5 ? { dem: {} } : undefined,
+      );
+      ctx.map.queryTerrainElevation.mockImplementation(
+        (lngLat: { lng: number }) => (lngLat.lng <= 0.5 ? 100 + lngLat.lng : 0),
+      );
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+
+      const profile = await control.computeProfile(
+        control.getMeasurements()[0].id,
+      );
+
+      expect(profile?.samples.map((s) => s.elevation)).toEqual([
+        100,
+        100.25,
+        100.5,
+        null,
+        null,
+      ]);
+      expect(profile?.min).toBe(100);
+      expect(profile?.max).toBe(100.5);
+      expect(profile?.loss).toBe(0);
+    });
+
+    it("reports when there is no DEM to sample", async () => {
+      const { control, ctx, container } = mountExpanded({
+        defaultMode: "profile",
+      });
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+
+      const profile = await control.computeProfile(
+        control.getMeasurements()[0].id,
+      );
+
+      expect(profile).toBeNull();
+      expect(container.querySelector(".profile-message")?.textContent).toMatch(
+        /enable terrain/,
+      );
+    });
+
+    it("moves a marker on the map when hovering the chart", async () => {
+      const { control, ctx, container } = mountExpanded({
+        defaultMode: "profile",
+        profileSamples: 11,
+      });
+      ctx.map.getTerrain.mockReturnValue({ source: "dem" });
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+      await control.computeProfile(control.getMeasurements()[0].id);
+
+      const svg = container.querySelector(".profile-chart svg") as SVGElement;
+      svg.getBoundingClientRect = () => ({ left: 0, width: 200 }) as DOMRect;
+      svg.dispatchEvent(new MouseEvent("mousemove", { clientX: 60 }));
+
+      const hover = ctx.data.features.find(
+        (f: GeoJSON.Feature) => f.properties?.profileHover,
+      );
+      expect(hover.geometry.coordinates[0]).toBeCloseTo(0.3);
+      expect(
+        container.querySelector(".profile-readout")?.textContent,
+      ).toContain("300.00 m");
+
+      svg.dispatchEvent(new MouseEvent("mouseleave"));
+      expect(
+        ctx.data.features.some(
+          (f: GeoJSON.Feature) => f.properties?.profileHover,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("radius, bearing and point modes", () => {
+    function mouse(
+      ctx: ReturnType<typeof createMapMock>,
+      ev: "mousedown" | "mouseup" | "mousemove",
+      lng: number,
+      lat: number,
+    ) {
+      ctx.fire(ev, {
+        lngLat: { lng, lat },
+        point: { x: lng * 100, y: lat * 100 },
+      });
+    }
+
+    it("drags out a geodesic circle from its center", () => {
+      const { control, ctx, container } = mountExpanded({
+        defaultMode: "radius",
+      });
+
+      mouse(ctx, "mousedown", 0, 0);
+      expect(ctx.map.dragPan.disable).toHaveBeenCalled();
+      mouse(ctx, "mousemove", 1, 0);
+      // Live readout while dragging: one degree of longitude at the equator.
+      expect(readTotal(container)).toBe("111.19 Kilometers");
+      mouse(ctx, "mouseup", 1, 0);
+
+      expect(ctx.map.dragPan.enable).toHaveBeenCalled();
+      const [m] = control.getMeasurements();
+      expect(m.mode).toBe("radius");
+      expect(m.radius).toBeCloseTo(111195, -1);
+      expect(m.circumference! / 1000).toBeCloseTo(698.6, 0);
+      // Close to the planar pi * r^2 for a small circle.
+      expect(m.area! / (Math.PI * m.radius! ** 2)).toBeCloseTo(1, 3);
+      const circle = ctx.data.features.find(
+        (f: GeoJSON.Feature) =>
+          f.properties?.id === m.id && f.geometry.type === "Polygon",
+      );
+      expect(circle.geometry.coordinates[0]).toHaveLength(65);
+      expect(circle.geometry.coordinates[0][16][0]).toBeCloseTo(1, 5);
+      expect(
+        container.querySelector(".measure-details")?.textContent,
+      ).toContain("Circumference: 698.6");
+    });
+
+    it("places the radius with two clicks when the press does not move", () => {
+      const { control, ctx } = mountExpanded({ defaultMode: "radius" });
+
+      mouse(ctx, "mousedown", 0, 0);
+      mouse(ctx, "mouseup", 0, 0);
+      clickAt(ctx, 0, 0);
+      expect(control.getState().currentPoints).toHaveLength(1);
+      expect(control.getMeasurements()).toHaveLength(0);
+
+      mouse(ctx, "mousedown", 0, 2);
+      mouse(ctx, "mouseup", 0, 2);
+      clickAt(ctx, 0, 2);
+
+      expect(control.getMeasurements()).toHaveLength(1);
+      expect(control.getMeasurements()[0].radius).toBeCloseTo(222390, -1);
+      expect(control.getState().isDrawing).toBe(true);
+    });
+
+    it("reports the forward bearing between two clicks", () => {
+      const { control, ctx, container } = mountExpanded({
+        defaultMode: "bearing",
+      });
+
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 0, -1);
+
+      const bearings = control.getMeasurements().map((m) => m.bearing);
+      expect(bearings[0]).toBeCloseTo(90);
+      expect(bearings[1]).toBeCloseTo(180);
+      expect(readTotal(container)).toBe("180.00 °");
+      expect(readList(container)[0]).toBe("90.00° over 111.19 Kilometers");
+      // Bearings have no unit to choose.
+      expect(
+        (container.querySelector(".measure-unit") as HTMLElement).style.display,
+      ).toBe("none");
+    });
+
+    it("records point coordinates", () => {
+      const { control, ctx, container } = mountExpanded({
+        defaultMode: "point",
+      });
+
+      clickAt(ctx, 10.75, 59.91);
+
+      const [m] = control.getMeasurements();
+      expect(m).toMatchObject({
+        mode: "point",
+        points: [{ lng: 10.75, lat: 59.91 }],
+      });
+      expect(container.querySelector(".result-label")?.textContent).toBe(
+        "Coordinates",
+      );
+      expect(readList(container)).toEqual(["59.910000, 10.750000"]);
+      expect(
+        ctx.data.features.some(
+          (f: GeoJSON.Feature) =>
+            f.properties?.id === m.id && f.geometry.type === "Point",
+        ),
+      ).toBe(true);
+    });
+
+    it("drops in-progress line points when switching to a fixed-point mode", () => {
+      const { control, ctx } = mountExpanded();
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+
+      control.setMode("bearing");
+
+      expect(control.getState().currentPoints).toEqual([]);
+      expect(control.getState().isDrawing).toBe(true);
+      expect(control.getMeasurements()).toEqual([]);
+    });
+  });
+
+  describe("editing", () => {
+    /** Press, drag and release the mouse on a handle. */
+    function dragHandle(
+      ctx: ReturnType<typeof createMapMock>,
+      handle: { index: number; midpoint: boolean },
+      from: [number, number],
+      to: [number, number],
+    ) {
+      ctx.map.queryRenderedFeatures.mockReturnValueOnce([
+        { properties: handle },
+      ]);
+      ctx.fire("mousedown", {
+        preventDefault: vi.fn(),
+        lngLat: { lng: from[0], lat: from[1] },
+        point: { x: from[0] * 100, y: from[1] * 100 },
+      });
+      ctx.fire("mousemove", {
+        lngLat: { lng: to[0], lat: to[1] },
+        point: { x: to[0] * 100, y: to[1] * 100 },
+      });
+      ctx.fire("mouseup", { lngLat: { lng: to[0], lat: to[1] } });
+    }
+
+    function rightClickHandle(
+      ctx: ReturnType<typeof createMapMock>,
+      index: number,
+    ) {
+      ctx.map.queryRenderedFeatures.mockReturnValueOnce([
+        { properties: { index, midpoint: false } },
+      ]);
+      finish(ctx, 0, 0);
+    }
+
+    it("moves a dragged vertex and recomputes the measurement", () => {
+      const { control, ctx, container } = mountExpanded();
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+      const [m] = control.getMeasurements();
+      const onUpdate = vi.fn();
+      control.on("measurementupdate", onUpdate);
+
+      control.editMeasurement(m.id);
+      expect(control.getState().isDrawing).toBe(false);
+      expect(control.getState().editingId).toBe(m.id);
+      expect(
+        container.querySelector(".measurement-item.editing"),
+      ).not.toBeNull();
+
+      dragHandle(ctx, { index: 1, midpoint: false }, [1, 0], [2, 0]);
+
+      expect(ctx.map.dragPan.disable).toHaveBeenCalled();
+      expect(ctx.map.dragPan.enable).toHaveBeenCalled();
+      expect(m.points[1]).toEqual({ lng: 2, lat: 0 });
+      expect(m.distance).toBeCloseTo(222390, -1);
+      expect(readList(container)).toEqual(["222.39 Kilometers"]);
+      expect(onUpdate).toHaveBeenCalledTimes(1);
+      expect(onUpdate.mock.calls[0][0].measurement).toBe(m);
+    });
+
+    it("adds a vertex from a midpoint and deletes one on right-click", () => {
+      const { control, ctx } = mountExpanded();
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 2, 0);
+      finish(ctx, 2, 0);
+      const [m] = control.getMeasurements();
+      control.editMeasurement(m.id);
+
+      // Handles cover both vertices and the segment midpoint.
+      const handles = ctx.data.features.map(
+        (f: GeoJSON.Feature) => f.properties,
+      );
+      expect(handles).toEqual([
+        { index: 0, midpoint: false },
+        { index: 1, midpoint: false },
+        { index: 1, midpoint: true },
+      ]);
+
+      dragHandle(ctx, { index: 1, midpoint: true }, [1, 0], [1, 1]);
+      expect(m.points).toEqual([
+        { lng: 0, lat: 0 },
+        { lng: 1, lat: 1 },
+        { lng: 2, lat: 0 },
+      ]);
+
+      rightClickHandle(ctx, 1);
+      expect(m.points).toHaveLength(2);
+      expect(m.distance).toBeCloseTo(222390, -1);
+
+      // A line keeps at least two vertices.
+      rightClickHandle(ctx, 1);
+      expect(m.points).toHaveLength(2);
+      expect(control.getMeasurements()).toHaveLength(1);
+    });
+
+    it("re-arms drawing when editing stops", () => {
+      const { control, ctx } = mountExpanded();
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+      control.editMeasurement(control.getMeasurements()[0].id);
+
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+
+      expect(control.getState().editingId).toBeNull();
+      expect(control.getState().isDrawing).toBe(true);
+      expect(ctx.handlerCount("mousedown")).toBe(1);
+    });
+  });
+
+  describe("snapping", () => {
+    const road = {
+      layer: { id: "roads" },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [1, 0],
+          [1, 2],
+        ],
+      },
+    };
+
+    it("snaps clicked points to vertices of rendered features", () => {
+      const { control, ctx } = mountExpanded({ snap: true });
+      ctx.map.queryRenderedFeatures.mockReturnValue([road]);
+
+      ctx.fire("mousemove", {
+        lngLat: { lng: 1.03, lat: 0.02 },
+        point: { x: 103, y: 2 },
+      });
+      // The indicator previews the snapped position before the click.
+      expect(ctx.data.features).toEqual([
+        expect.objectContaining({
+          properties: { type: "vertex" },
+          geometry: { type: "Point", coordinates: [1, 0] },
+        }),
+      ]);
+      ctx.fire("click", {
+        lngLat: { lng: 1.03, lat: 0.02 },
+        point: { x: 103, y: 2 },
+      });
+
+      expect(control.getState().currentPoints).toEqual([{ lng: 1, lat: 0 }]);
+    });
+
+    it("never snaps to the measurements themselves", () => {
+      const { control, ctx } = mountExpanded({ snap: true });
+      const lineLayer = ctx.map.addLayer.mock.calls.find(
+        ([layer]: [{ type: string }]) => layer.type === "line",
+      )[0];
+      ctx.map.queryRenderedFeatures.mockReturnValue([
+        { ...road, layer: { id: lineLayer.id } },
+      ]);
+
+      clickAt(ctx, 1.03, 0.02);
+
+      expect(control.getState().currentPoints).toEqual([
+        { lng: 1.03, lat: 0.02 },
+      ]);
+    });
+
+    it("places points where clicked when snapping is off", () => {
+      const { control, ctx, container } = mountExpanded({ snap: true });
+      ctx.map.queryRenderedFeatures.mockReturnValue([road]);
+
+      const checkbox = container.querySelector(
+        ".measure-snap input",
+      ) as HTMLInputElement;
+      expect(checkbox.checked).toBe(true);
+      checkbox.checked = false;
+      checkbox.dispatchEvent(new Event("change"));
+      clickAt(ctx, 1.03, 0.02);
+
+      expect(control.getState().snap).toBe(false);
+      expect(control.getState().currentPoints).toEqual([
+        { lng: 1.03, lat: 0.02 },
+      ]);
+    });
+  });
+
+  describe("persistence and import/export", () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it("restores measurements saved under a storage key", () => {
+      const { control, ctx } = mountExpanded({ storageKey: "measure-test" });
+      clickAt(ctx, 0, 0);
+      clickAt(ctx, 1, 0);
+      finish(ctx, 1, 0);
+
+      const restored = new MeasureControl({ storageKey: "measure-test" });
+      expect(restored.getMeasurements()).toEqual(control.getMeasurements());
+
+      control.clear();
+      expect(
+        new MeasureControl({ storageKey: "measure-test" }).getMeasurements(),
+      ).toEqual([]);
+    });
+
+    it.each(["geojson", "kml", "csv"] as const)(
+      "round-trips measurements through %s",
+      (format) => {
+        const { control, ctx } = mountExpanded();
+        clickAt(ctx, 0, 0);
+        clickAt(ctx, 1, 0);
+        finish(ctx, 1, 0);
+        control.setMode("radius");
+        ctx.fire("mousedown", {
+          lngLat: { lng: 0, lat: 0 },
+          point: { x: 0, y: 0 },
+        });
+        ctx.fire("mousemove", {
+          lngLat: { lng: 1, lat: 0 },
+          point: { x: 100, y: 0 },
+        });
+        ctx.fire("mouseup", {
+          lngLat: { lng: 1, lat: 0 },
+          point: { x: 100, y: 0 },
+        });
+        control.setMode("point");
+        clickAt(ctx, 10.75, 59.91);
+
+        const text = control.exportMeasurements(format);
+        const target = mountExpanded();
+        const onImport = vi.fn();
+        target.control.on("import", onImport);
+        const imported = target.control.importMeasurements(text, format);
+
+        expect(imported.map((m) => m.mode)).toEqual([
+          "distance",
+          "radius",
+          "point",
+        ]);
+        expect(imported[0].distance).toBeCloseTo(111195, -1);
+        expect(imported[1].points[0]).toEqual({ lng: 0, lat: 0 });
+        expect(imported[1].radius).toBeCloseTo(111195, -1);
+        expect(imported[2].points).toEqual([{ lng: 10.75, lat: 59.91 }]);
+        expect(target.control.getMeasurements()).toHaveLength(3);
+        expect(onImport).toHaveBeenCalledTimes(1);
+        expect(readList(target.container)).toHaveLength(3);
+      },
+    );
+  });
 });
@@ -0,0 +1,559 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PrintControl } from "../src/lib/core/PrintControl";
+import { Legend } from "../src/lib/core/Legend";
+import {
+  DEFAULT_PRINT_LAYOUT,
+  parsePrintLayout,
+  serializePrintLayout,
+} from "../src/lib/core/printLayout";
+
+const pdfPages: Array<{ format: number[]; orientation: string }> = [];
+
+vi.mock("jspdf", () => ({
+  jsPDF: class {
+    internal = {
+      pageSize: { getWidth: () => 100, getHeight: () => 50 },
+    };
+    constructor(options: { format: number[]; orientation: string }) {
+      pdfPages.push(options);
+    }
+    addPage(format: number[], orientation: string) {
+      pdfPages.push({ format, orientation });
+    }
+    addImage() {}
+    output() {
+      return new Blob(["%PDF"], { type: "application/pdf" });
+    }
+  },
+}));
+
+const counties: GeoJSON.FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { NAME: "Knox", STATE: "TN" },
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [-84, 35],
+            [-83, 35],
+            [-83, 36],
+            [-84, 35],
+          ],
+        ],
+      },
+    },
+    {
+      type: "Feature",
+      properties: { NAME: "Blount", STATE: "TN" },
+      geometry: { type: "Point", coordinates: [-83.9, 35.7] },
+    },
+  ],
+};
+
+function createMapMock() {
+  return {
+    on: vi.fn(),
+    off: vi.fn(),
+    once: vi.fn((_event: string, cb: () => void) => cb()),
+    triggerRepaint: vi.fn(),
+    getZoom: vi.fn().mockReturnValue(5),
+    getCenter: vi.fn(() => ({ lng: 0, lat: 0 })),
+    getBearing: vi.fn().mockReturnValue(0),
+    getPitch: vi.fn().mockReturnValue(0),
+    jumpTo: vi.fn(),
+    fitBounds: vi.fn(),
+    getStyle: vi.fn(() => ({ layers: [] })),
+    getLayer: vi.fn((id: string) =>
+      id === "counties-fill"
+        ? { id, type: "fill", source: "counties" }
+        : undefined,
+    ),
+    getSource: vi.fn(() => ({
+      type: "geojson",
+      getData: async () => counties,
+    })),
+    getCanvas: vi.fn(() => ({ width: 800, height: 600 })),
+  };
+}
+
+/** Stub the canvas composition, which jsdom cannot render, and record titles. */
+function stubCanvas(control: PrintControl, titles: string[]) {
+  vi.spyOn(control as any, "_createExportCanvas").mockImplementation(
+    async () => {
+      titles.push(control.getState().title);
+      return {
+        width: 200,
+        height: 100,
+        toDataURL: () => "data:image/png;base64,",
+        toBlob: (cb: (b: Blob) => void) => cb(new Blob(["image"])),
+      };
+    },
+  );
+}
+
+const bookmarkControl = {
+  getBookmarks: () => [
+    {
+      id: "a",
+      name: "Home",
+      lng: 10,
+      lat: 20,
+      zoom: 8,
+      pitch: 0,
+      bearing: 0,
+    },
+    {
+      id: "b",
+      name: "Work",
+      lng: 11,
+      lat: 21,
+      zoom: 12,
+      pitch: 30,
+      bearing: 45,
+    },
+  ],
+};
+
+describe("PrintControl atlas", () => {
+  beforeEach(() => {
+    pdfPages.length = 0;
+    URL.createObjectURL = vi.fn(() => "blob:atlas");
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it("renders one PDF page per bookmark and restores the view", async () => {
+    const map = createMapMock();
+    const control = new PrintControl({
+      title: "Original",
+      atlas: {
+        bookmarkControl: bookmarkControl as any,
+        titleTemplate: "{index}/{count}: {name}",
+      },
+    });
+    control.onAdd(map as any);
+    const titles: string[] = [];
+    stubCanvas(control, titles);
+    const onPage = vi.fn();
+    control.on("atlaspage", onPage);
+
+    const file = await control.exportAtlas();
+
+    expect(file.type).toBe("application/pdf");
+    expect(map.jumpTo).toHaveBeenCalledWith({
+      center: [11, 21],
+      zoom: 12,
+      bearing: 45,
+      pitch: 30,
+    });
+    expect(titles).toEqual(["1/2: Home", "2/2: Work"]);
+    expect(pdfPages).toHaveLength(2);
+    expect(onPage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ page: 2, pageCount: 2 }),
+    );
+    expect(map.jumpTo).toHaveBeenLastCalledWith(
+      expect.objectContaining({ zoom: 5 }),
+    );
+    expect(control.getState().title).toBe("Original");
+    expect(control.getState().exporting).toBe(false);
+  });
+
+  it("fits each feature and zips the pages", async () => {
+    const map = createMapMock();
+    const control = new PrintControl();
+    control.onAdd(map as any);
+    const titles: string[] = [];
+    stubCanvas(control, titles);
+
+    const file = await control.exportAtlas({
+      source: "features",
+      layerId: "counties-fill",
+      nameProperty: "NAME",
+      titleTemplate: "{name}, {STATE}",
+      output: "zip",
+    });
+
+    expect(map.fitBounds).toHaveBeenCalledWith([-84, 35, -83, 36], {
+      padding: 40,
+      maxZoom: 16,
+      animate: false,
+    });
+    expect(titles).toEqual(["Knox, TN", "Blount, TN"]);
+    expect(file.type).toBe("application/zip");
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const text = new TextDecoder("latin1").decode(bytes);
+    expect(text.startsWith("PK\u0003\u0004")).toBe(true);
+    expect(text).toContain("001-knox.png");
+    expect(text).toContain("002-blount.png");
+  });
+
+  it("merges the tile pieces of a feature into one page", async () => {
+    const square = (x: number): GeoJSON.Polygon => ({
+      type: "Polygon",
+      coordinates: [
+        [
+          [x, 0],
+          [x + 1, 0],
+          [x + 1, 1],
+          [x, 0],
+        ],
+      ],
+    });
+    const map = {
+      ...createMapMock(),
+      getSource: vi.fn(() => ({ type: "vector" })),
+      // Knox crosses a tile boundary; the tiles carry no feature IDs
+      querySourceFeatures: vi.fn(() => [
+        { properties: { NAME: "Knox" }, geometry: square(0) },
+        { properties: { NAME: "Knox" }, geometry: square(1) },
+        { properties: { NAME: "Blount" }, geometry: square(5) },
+      ]),
+    };
+    const control = new PrintControl();
+    control.onAdd(map as any);
+    const titles: string[] = [];
+    stubCanvas(control, titles);
+
+    await control.exportAtlas({
+      source: "features",
+      layerId: "counties-fill",
+      nameProperty: "NAME",
+      output: "zip",
+    });
+
+    expect(titles).toEqual(["Knox", "Blount"]);
+    expect(map.fitBounds).toHaveBeenCalledWith([0, 0, 2, 1], expect.anything());
+
+    // Without IDs or names the pieces cannot be told apart
+    map.querySourceFeatures.mockReturnValue([
+      { properties: {}, geometry: square(0) },
+    ]);
+    await expect(
+      control.exportAtlas({
+        source: "features",
+        layerId: "counties-fill",
+        nameProperty: "NAME",
+      }),
+    ).rejects.toThrow("set promoteId on the source");
+  });
+
+  it("reports an error when the layer does not exist", async () => {
+    const control = new PrintControl();
+    control.onAdd(createMapMock() as any);
+    const onError = vi.fn();
+    control.on("error", onError);
+
+    await expect(
+      control.exportAtlas({ source: "features", layerId: "missing" }),
+    ).rejects.toThrow("Layer not found: missing");
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ error: "Layer not found: missing" }),
+    );
+  });
+});
+
+describe("parsePrintLayout", () => {
+  it("round-trips a serialized layout", () => {
+    expect(
+      parsePrintLayout(serializePrintLayout(DEFAULT_PRINT_LAYOUT)),
+    ).toEqual(DEFAULT_PRINT_LAYOUT);
+  });
+
+  it("clamps positions, fills IDs and drops unknown properties", () => {
+    const layout = parsePrintLayout({
+      elements: [{ type: "text", x: 2, y: -1, text: "Source", bogus: 1 }],
+    });
+
+    expect(layout.elements[0]).toMatchObject({
+      type: "text",
+      x: 1,
+      y: 0,
+      text: "Source",
+    });
+    expect(layout.elements[0].id).toBeTruthy();
+    expect(layout.elements[0]).not.toHaveProperty("bogus");
+  });
+
+  it("rejects unknown element types", () => {
+    expect(() =>
+      parsePrintLayout('{"elements":[{"type":"chart","x":0,"y":0}]}'),
+    ).toThrow('unknown element "chart"');
+    expect(() => parsePrintLayout("{}")).toThrow("missing elements");
+  });
+});
+
+describe("PrintControl layout", () => {
+  it("toggles the composer and adds elements", () => {
+    const control = new PrintControl({
+      collapsed: false,
+      showLayoutOptions: true,
+    });
+    const container = control.onAdd(createMapMock() as any);
+    const toggle = container
+      .querySelector<HTMLInputElement>(".print-layout")!
+      .previousElementSibling!.querySelector("input")!;
+
+    toggle.checked = true;
+    toggle.dispatchEvent(new Event("change"));
+
+    expect(control.getLayout()).toEqual(DEFAULT_PRINT_LAYOUT);
+    expect(container.querySelectorAll(".print-layout-item")).toHaveLength(4);
+
+    const id = control.addLayoutElement({
+      type: "text",
+      x: 0,
+      y: 1,
+      text: "Source: OSM",
+    });
+    const items = container.querySelectorAll(".print-layout-item");
+    expect(items).toHaveLength(5);
+    expect(items[4].textContent).toBe("Source: OSM");
+
+    control.removeLayoutElement(id);
+    expect(control.getLayout()!.elements).toHaveLength(4);
+
+    control.setLayout(null);
+    expect(
+      container.querySelector<HTMLElement>(".print-layout")!.style.display,
+    ).toBe("none");
+  });
+
+  it("loads templates", () => {
+    const control = new PrintControl();
+    control.loadLayoutTemplate(
+      '{"name":"Report","elements":[{"id":"n","type":"northArrow","x":0,"y":0}]}',
+    );
+
+    expect(control.getLayout()).toEqual({
+      name: "Report",
+      elements: [{ id: "n", type: "northArrow", x: 0, y: 0 }],
+    });
+    expect(JSON.parse(control.exportLayoutTemplate()).name).toBe("Report");
+  });
+
+  it("draws the given legends at the element position", async () => {
+    const legend = new Legend({
+      title: "Land use",
+      items: [{ label: "Forest", color: "#228b22" }],
+    });
+    const control = new PrintControl({
+      layout: { elements: [{ id: "legend", type: "legend", x: 1, y: 1 }] },
+      legendControls: [legend],
+    });
+    control.onAdd(createMapMock() as any);
+    const ctx = new Proxy(
+      {
+        measureText: vi.fn(() => ({ width: 50 })),
+        translate: vi.fn(),
+        fillText: vi.fn(),
+      } as Record<string, unknown>,
+      { get: (target, key: string) => (target[key] ??= vi.fn()) },
+    );
+
+    await (control as any)._drawLayout(ctx, { x: 0, y: 0, w: 800, h: 600 }, 1);
+
+    // 68 px of swatch and label plus padding, flush with the 12 px margin
+    expect(ctx.translate).toHaveBeenCalledWith(704, 536);
+    expect(ctx.fillText).toHaveBeenCalledWith("Land use", 8, 14);
+    expect(ctx.fillText).toHaveBeenCalledWith("Forest", 26, 35);
+  });
+});
+
+describe("PrintControl offscreen rendering", () => {
+  it("derives the zoom and ground resolution from a fixed scale", () => {
+    const control = new PrintControl({ scale: 25000, dpi: 100 });
+    control.onAdd(createMapMock() as any);
+
+    // One export pixel is 1/100 inch on paper, or 25,000/100 inches on the ground
+    expect((control as any)._metersPerExportPixel(1)).toBeCloseTo(6.35);
+    expect((control as any)._offscreenZoom(800)).toBeCloseTo(13.5305, 3);
+  });
+
+  it("keeps the on-screen extent without a fixed scale", () => {
+    const map = { ...createMapMock(), getPixelRatio: () => 2 };
+    const control = new PrintControl({ offscreen: true });
+    control.onAdd(map as any);
+
+    // 400 CSS pixels on screen rendered 800 CSS pixels wide
+    expect((control as any)._offscreenZoom(800)).toBe(6);
+  });
+
+  it("renders the map offscreen into the page content area", async () => {
+    const control = new PrintControl({
+      pageSize: "letter",
+      orientation: "landscape",
+      dpi: 100,
+      margin: 36,
+      scale: 25000,
+    });
+    const map = createMapMock();
+    control.onAdd(map as any);
+    const rendered = document.createElement("canvas");
+    const render = vi
+      .spyOn(control as any, "_renderMapOffscreen")
+      .mockResolvedValue(rendered);
+    const ctx = new Proxy({} as Record<string, unknown>, {
+      get: (target, key: string) => (target[key] ??= vi.fn()),
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(
+      ctx as any,
+    );
+
+    const canvas = await (control as any)._createExportCanvas();
+
+    expect(canvas.width).toBe(1100);
+    expect(render).toHaveBeenCalledWith({ x: 50, y: 50, w: 1000, h: 750 });
+    expect(ctx.drawImage).toHaveBeenCalledWith(rendered, 50, 50, 1000, 750);
+    expect(map.triggerRepaint).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
+
+describe("PrintControl georeferenced export", () => {
+  it("refuses rotated or tilted maps", async () => {
+    const map = createMapMock();
+    map.getBearing.mockReturnValue(30);
+    const control = new PrintControl();
+    control.onAdd(map as any);
+    const render = vi.spyOn(control as any, "_createExportCanvas");
+
+    await expect(control.exportMap({ format: "geotiff" })).rejects.toThrow(
+      "north-up",
+    );
+    expect(render).not.toHaveBeenCalled();
+    expect(control.getState().format).toBe("png");
+  });
+
+  it("georeferences the map destination on the page", () => {
+    const map = { ...createMapMock(), getPixelRatio: () => 1 };
+    const control = new PrintControl();
+    control.onAdd(map as any);
+
+    // 800 CSS pixels at zoom 5 drawn 1000 export pixels wide after a margin
+    const { transform, mapRect } = (control as any)._getGeoReference(
+      {
+        content: { x: 50, y: 50, w: 1000, h: 750 },
+        mapDest: { x: 50, y: 50, w: 1000, h: 750 },
+        scaleX: 1.25,
+        clip: false,
+      },
+      false,
+    );
+
+    const pixel = 40075016.686 / (512 * 2 ** 5) / 1.25;
+    expect(transform.pixelWidth).toBeCloseTo(pixel);
+    expect(transform.pixelHeight).toBeCloseTo(pixel);
+    expect(transform.originX).toBeCloseTo(-550 * pixel);
+    expect(transform.originY).toBeCloseTo(425 * pixel);
+    expect(mapRect).toEqual({ x: 50, y: 50, w: 1000, h: 750 });
+  });
+});
+
+describe("PrintControl animation", () => {
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => "blob:animation");
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  /** Stub the frame composition with a 2x2 red canvas and record titles. */
+  function stubFrames(control: PrintControl, titles: string[]) {
+    vi.spyOn(control as any, "_createExportCanvas").mockImplementation(
+      async () => {
+        titles.push(control.getState().title);
+        return {
+          width: 2,
+          height: 2,
+          getContext: () => ({
+            getImageData: () => ({
+              data: new Uint8ClampedArray(16).fill(255),
+            }),
+          }),
+        };
+      },
+    );
+  }
+
+  it("records a globe spin as a GIF and restores the view", async () => {
+    const map = createMapMock();
+    const control = new PrintControl({ title: "Earth" });
+    control.onAdd(map as any);
+    const titles: string[] = [];
+    stubFrames(control, titles);
+    const onFrame = vi.fn();
+    control.on("animationframe", onFrame);
+
+    const file = await control.exportAnimation({
+      source: "spin",
+      spinSpeed: 20,
+      fps: 2,
+      duration: 1.5,
+      titleTemplate: "{title} {frame}/{count}",
+    });
+
+    expect(file.type).toBe("image/gif");
+    expect(map.jumpTo.mock.calls.slice(0, 3).map(([v]) => v.center)).toEqual([
+      [0, 0],
+      [-10, 0],
+      [-20, 0],
+    ]);
+    expect(titles).toEqual(["Earth 1/3", "Earth 2/3", "Earth 3/3"]);
+    expect(onFrame).toHaveBeenLastCalledWith(
+      expect.objectContaining({ frame: 3, frameCount: 3 }),
+    );
+    expect(map.jumpTo).toHaveBeenLastCalledWith(
+      expect.objectContaining({ zoom: 5 }),
+    );
+    expect(control.getState().title).toBe("Earth");
+  });
+
+  it("steps a layer through time and restores its filter", async () => {
+    const map = {
+      ...createMapMock(),
+      getFilter: vi.fn(() => undefined),
+      setFilter: vi.fn(),
+    };
+    const control = new PrintControl();
+    control.onAdd(map as any);
+    const titles: string[] = [];
+    stubFrames(control, titles);
+
+    await control.exportAnimation({
+      source: "time",
+      time: { layerId: "counties-fill", property: "NAME" },
+      titleTemplate: "{time}",
+      fps: 2,
+      duration: 2,
+    });
+
+    expect(titles).toEqual(["Blount", "Blount", "Knox", "Knox"]);
+    expect(map.setFilter).toHaveBeenCalledWith("counties-fill", [
+      "==",
+      ["get", "NAME"],
+      "Knox",
+    ]);
+    expect(map.setFilter).toHaveBeenLastCalledWith("counties-fill", null);
+  });
+
+  it("eases the camera between bookmarks", async () => {
+    const control = new PrintControl();
+    control.onAdd(createMapMock() as any);
+
+    const steps = await (control as any)._getAnimationSteps(
+      {
+        source: "bookmarks",
+        bookmarkControl,
+      },
+      10,
+      3,
+    );
+
+    expect(steps.map((step: any) => step.view)).toEqual([
+      { center: [10, 20], zoom: 8, bearing: 0, pitch: 0 },
+      { center: [10.5, 20.5], zoom: 10, bearing: 22.5, pitch: 15 },
+      { center: [11, 21], zoom: 12, bearing: 45, pitch: 30 },
+    ]);
+    expect(steps[1].name).toBe("Work");
+  });
+});
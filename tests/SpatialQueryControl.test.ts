@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  SpatialQueryControl,
+  substituteQueryParameters,
+  toTableName,
+} from "../src/lib/core/SpatialQueryControl";
+
+const converter = {
+  registerGeoJSON: vi.fn(async () => {}),
+  registerFile: vi.fn(async () => {}),
+  getRegisteredFiles: vi.fn(() => [] as string[]),
+  query: vi.fn(),
+};
+
+vi.mock("../src/lib/converters/DuckDBConverter", () => ({
+  getDuckDBConverter: () => converter,
+}));
+
+const parks: GeoJSON.FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { name: "Frogner" },
+      geometry: { type: "Point", coordinates: [10.7, 59.92] },
+    },
+  ],
+};
+
+function createMapMock() {
+  return {
+    on: vi.fn(),
+    off: vi.fn(),
+    getZoom: vi.fn().mockReturnValue(5),
+    getBounds: vi.fn(() => ({
+      getWest: () => -10,
+      getSouth: () => 40,
+      getEast: () => 20,
+      getNorth: () => 60,
+    })),
+    getStyle: vi.fn(() => ({
+      sources: {
+        "vector-dataset-parks": { type: "geojson" },
+        "inspect-highlight-1": { type: "geojson" },
+        basemap: { type: "raster" },
+      },
+    })),
+    getSource: vi.fn((id: string) =>
+      id === "vector-dataset-parks"
+        ? { type: "geojson", getData: async () => parks }
+        : id.startsWith("spatial-query-")
+          ? { type: "geojson" }
+          : undefined,
+    ),
+    addSource: vi.fn(),
+    addLayer: vi.fn(),
+    getLayer: vi.fn(() => ({})),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+    fitBounds: vi.fn(),
+  };
+}
+
+describe("toTableName", () => {
+  it("turns source IDs into bare identifiers", () => {
+    expect(toTableName("vector-dataset-1")).toBe("vector_dataset_1");
+    expect(toTableName("2024.roads")).toBe("t_2024_roads");
+  });
+});
+
+describe("substituteQueryParameters", () => {
+  it("replaces $bbox and $view with envelopes", () => {
+    const sql = substituteQueryParameters(
+      "SELECT * FROM t WHERE ST_Intersects(geom, $bbox) OR ST_Within(geom, $VIEW)",
+      { bbox: [1, 2, 3, 4], view: [-10, 40, 20, 60] },
+    );
+    expect(sql).toBe(
+      "SELECT * FROM t WHERE ST_Intersects(geom, ST_MakeEnvelope(1, 2, 3, 4)) OR ST_Within(geom, ST_MakeEnvelope(-10, 40, 20, 60))",
+    );
+  });
+
+  it("leaves strings, quoted identifiers and comments alone", () => {
+    const sql = substituteQueryParameters(
+      `SELECT '$bbox' AS "$view", 'it''s $view' -- $bbox
+FROM t /* $view */ WHERE ST_Within(geom, $view)`,
+      { view: [1, 2, 3, 4] },
+    );
+    expect(sql).toBe(
+      `SELECT '$bbox' AS "$view", 'it''s $view' -- $bbox
+FROM t /* $view */ WHERE ST_Within(geom, ST_MakeEnvelope(1, 2, 3, 4))`,
+    );
+  });
+
+  it("throws when $bbox is used without a drawn bbox", () => {
+    expect(() =>
+      substituteQueryParameters("SELECT $bbox", { bbox: null }),
+    ).toThrow(/Draw a bounding box/);
+  });
+});
+
+describe("SpatialQueryControl", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("offers GeoJSON sources as tables, skipping helper sources", () => {
+    const control = new SpatialQueryControl();
+    control.onAdd(createMapMock() as any);
+
+    expect(control.getTableNames()).toEqual(["vector_dataset_parks"]);
+  });
+
+  it("numbers sources whose IDs give the same table name", () => {
+    const map = createMapMock();
+    map.getStyle.mockReturnValue({
+      sources: {
+        "vector-dataset-parks": { type: "geojson" },
+        "vector.dataset.parks": { type: "geojson" },
+        basemap: { type: "raster" },
+      },
+    });
+    const control = new SpatialQueryControl();
+    control.onAdd(map as any);
+
+    expect(control.getTableNames()).toEqual([
+      "vector_dataset_parks",
+      "vector_dataset_parks_2",
+    ]);
+  });
+
+  it("loads mentioned sources and adds a geometry result to the map", async () => {
+    const map = createMapMock();
+    const viewState = {
+      getState: () => ({ drawnBBox: [10, 59, 11, 60] }),
+    };
+    const control = new SpatialQueryControl({
+      collapsed: false,
+      viewStateControl: viewState as any,
+    });
+    const container = control.onAdd(map as any);
+    const result = {
+      columns: [{ name: "name", type: "VARCHAR" }],
+      rows: [{ name: "Frogner" }],
+      geometryColumn: "geom",
+      geojson: parks,
+    };
+    converter.query.mockResolvedValue(result);
+    const onLayerAdd = vi.fn();
+    control.on("layeradd", onLayerAdd);
+
+    await control.runQuery(
+      "SELECT * FROM vector_dataset_parks WHERE ST_Intersects(geom, $bbox)",
+    );
+
+    expect(converter.registerGeoJSON).toHaveBeenCalledWith(
+      "vector_dataset_parks",
+      parks,
+    );
+    expect(converter.query).toHaveBeenCalledWith(
+      "SELECT * FROM vector_dataset_parks WHERE ST_Intersects(geom, ST_MakeEnvelope(10, 59, 11, 60))",
+    );
+    expect(map.addSource).toHaveBeenCalledWith("spatial-query-1", {
+      type: "geojson",
+      data: parks,
+    });
+    expect(map.addLayer).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "spatial-query-1-circle", type: "circle" }),
+    );
+    expect(onLayerAdd).toHaveBeenCalled();
+    expect(control.getState().layers).toHaveLength(1);
+    expect(
+      container.querySelector(".spatial-query-results td")?.textContent,
+    ).toBe("Frogner");
+  });
+
+  it("shows aggregate results in the table without adding a layer", async () => {
+    const map = createMapMock();
+    const control = new SpatialQueryControl({ collapsed: false });
+    const container = control.onAdd(map as any);
+    converter.query.mockResolvedValue({
+      columns: [{ name: "n", type: "BIGINT" }],
+      rows: [{ n: 42 }],
+      geometryColumn: null,
+      geojson: { type: "FeatureCollection", features: [] },
+    });
+
+    await control.runQuery("SELECT count(*) AS n FROM vector_dataset_parks");
+
+    expect(map.addSource).not.toHaveBeenCalled();
+    expect(
+      container.querySelector(".maplibre-gl-export-status")?.textContent,
+    ).toBe("1 rows, 0 features");
+  });
+
+  it("reports query errors", async () => {
+    const control = new SpatialQueryControl({ collapsed: false });
+    const container = control.onAdd(createMapMock() as any);
+    converter.query.mockRejectedValue(new Error("Catalog Error: no table"));
+    const onError = vi.fn();
+    control.on("error", onError);
+
+    const result = await control.runQuery("SELECT * FROM missing");
+
+    expect(result).toBeNull();
+    expect(control.getState().error).toBe("Catalog Error: no table");
+    expect(onError).toHaveBeenCalled();
+    expect(
+      container.querySelector(".maplibre-gl-export-status--error")
+        ?.textContent,
+    ).toBe("Catalog Error: no table");
+  });
+
+  it("removes result layers", async () => {
+    const map = createMapMock();
+    const control = new SpatialQueryControl();
+    control.onAdd(map as any);
+    converter.query.mockResolvedValue({
+      columns: [],
+      rows: [{}],
+      geometryColumn: "geom",
+      geojson: parks,
+    });
+
+    await control.runQuery("SELECT geom FROM vector_dataset_parks");
+    control.removeResult("query_1");
+
+    expect(map.removeLayer).toHaveBeenCalledWith("spatial-query-1-circle");
+    expect(map.removeSource).toHaveBeenCalledWith("spatial-query-1");
+    expect(control.getState().layers).toEqual([]);
+  });
+});
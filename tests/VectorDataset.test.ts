@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  VectorDatasetControl,
+  buildAttributeColorExpression,
+} from "../src/lib/core/VectorDataset";
+
+const points: GeoJSON.FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { kind: "a", pop: 10 },
+      geometry: { type: "Point", coordinates: [0, 0] },
+    },
+    {
+      type: "Feature",
+      properties: { kind: "b", pop: 30 },
+      geometry: { type: "Point", coordinates: [1, 1] },
+    },
+    {
+      type: "Feature",
+      properties: { kind: "a", pop: 50 },
+      geometry: { type: "Point", coordinates: [2, 2] },
+    },
+  ],
+};
+
+function createMapMock() {
+  const layers = new Set<string>();
+  return {
+    on: vi.fn(),
+    off: vi.fn(),
+    getZoom: vi.fn().mockReturnValue(5),
+    getContainer: vi.fn(() => document.createElement("div")),
+    addSource: vi.fn(),
+    getSource: vi.fn(),
+    removeSource: vi.fn(),
+    addLayer: vi.fn((layer: { id: string }) => layers.add(layer.id)),
+    getLayer: vi.fn((id: string) => (layers.has(id) ? {} : undefined)),
+    removeLayer: vi.fn((id: string) => layers.delete(id)),
+    setPaintProperty: vi.fn(),
+    fitBounds: vi.fn(),
+  };
+}
+
+describe("buildAttributeColorExpression", () => {
+  it("maps each category to its own color with a fallback", () => {
+    const expr = buildAttributeColorExpression(
+      points.features,
+      { column: "kind", type: "categorical" },
+      "#3388ff",
+    ) as unknown[];
+
+    expect(expr[0]).toBe("match");
+    expect(expr[1]).toEqual(["to-string", ["get", "kind"]]);
+    expect(expr[2]).toBe("a");
+    expect(expr[4]).toBe("b");
+    expect(expr[expr.length - 1]).toBe("#3388ff");
+  });
+
+  it("splits numeric values into equal-interval classes", () => {
+    const expr = buildAttributeColorExpression(
+      points.features,
+      { column: "pop", type: "graduated", classes: 4 },
+      "#3388ff",
+    ) as unknown[];
+
+    expect(expr[0]).toBe("case");
+    const step = expr[2] as unknown[];
+    expect(step[0]).toBe("step");
+    // Thresholds between classes: 20, 30, 40
+    expect([step[3], step[5], step[7]]).toEqual([20, 30, 40]);
+  });
+
+  it("returns the fallback color when the column has no usable values", () => {
+    expect(
+      buildAttributeColorExpression(
+        points.features,
+        { column: "missing", type: "graduated" },
+        "#3388ff",
+      ),
+    ).toBe("#3388ff");
+  });
+});
+
+describe("VectorDatasetControl styles", () => {
+  it("exposes the applied style on loaded datasets", async () => {
+    const control = new VectorDatasetControl({ fitBounds: false });
+    control.onAdd(createMapMock() as never);
+
+    const dataset = await control.loadGeoJSON(points, "points.geojson");
+
+    expect(dataset?.style?.circleColor).toBe("#3388ff");
+  });
+
+  it("falls back to the default style for datasets without one", async () => {
+    const map = createMapMock();
+    const control = new VectorDatasetControl({
+      fitBounds: false,
+      defaultStyle: { circleColor: "#ff0000" },
+    });
+    control.onAdd(map as never);
+
+    const dataset = (await control.loadGeoJSON(points, "points.geojson"))!;
+    delete dataset.style;
+    control.setDatasetStyle(dataset.id, { circleRadius: 10 });
+
+    expect(map.setPaintProperty).toHaveBeenCalledWith(
+      `${dataset.id}-point`,
+      "circle-color",
+      "#ff0000",
+    );
+    expect(dataset.style).toEqual({ circleRadius: 10 });
+  });
+
+  it("updates existing layers in place", async () => {
+    const map = createMapMock();
+    const control = new VectorDatasetControl({ fitBounds: false });
+    control.onAdd(map as never);
+    const handler = vi.fn();
+    control.on("stylechange", handler);
+
+    const dataset = (await control.loadGeoJSON(points, "points.geojson"))!;
+    control.setDatasetStyle(dataset.id, {
+      circleRadius: 10,
+      attributeStyle: { column: "kind", type: "categorical" },
+    });
+
+    const pointLayer = `${dataset.id}-point`;
+    expect(map.addLayer).toHaveBeenCalledTimes(1);
+    expect(map.setPaintProperty).toHaveBeenCalledWith(
+      pointLayer,
+      "circle-radius",
+      10,
+    );
+    expect(map.setPaintProperty).toHaveBeenCalledWith(
+      pointLayer,
+      "circle-color",
+      expect.arrayContaining(["match"]),
+    );
+    expect(control.getLoadedDatasets()[0].style?.attributeStyle?.column).toBe(
+      "kind",
+    );
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "stylechange" }),
+    );
+  });
+
+  it("goes back to fixed colors when the attribute style is cleared", async () => {
+    const map = createMapMock();
+    const control = new VectorDatasetControl({ fitBounds: false });
+    control.onAdd(map as never);
+
+    const dataset = (await control.loadGeoJSON(points, "points.geojson"))!;
+    control.setDatasetStyle(dataset.id, {
+      attributeStyle: { column: "kind", type: "categorical" },
+    });
+    control.setDatasetStyle(dataset.id, {
+      circleColor: "#ff0000",
+      attributeStyle: undefined,
+    });
+
+    expect(map.setPaintProperty).toHaveBeenLastCalledWith(
+      `${dataset.id}-point`,
+      "circle-stroke-width",
+      2,
+    );
+    expect(map.setPaintProperty).toHaveBeenCalledWith(
+      `${dataset.id}-point`,
+      "circle-color",
+      "#ff0000",
+    );
+  });
+});
@@ -129,9 +129,7 @@ describe("ViewStateControl", () => {
         showCopyView: false,
       });
       const container = control.onAdd(mockMap);
-      expect(
-        container.querySelector('[aria-label="Copy view"]'),
-      ).toBeNull();
+      expect(container.querySelector('[aria-label="Copy view"]')).toBeNull();
     });
   });
 
@@ -167,4 +165,63 @@ describe("ViewStateControl", () => {
       expect(control.isCollapsed()).toBe(true);
     });
   });
+
+  describe("bbox snapping", () => {
+    it("snaps the first bbox corner to a rendered vertex", () => {
+      const map = {
+        ...mockMap,
+        getCanvas: vi.fn().mockReturnValue(document.createElement("canvas")),
+        queryRenderedFeatures: vi.fn().mockReturnValue([
+          {
+            layer: { id: "parcels" },
+            geometry: { type: "Point", coordinates: [-98, 38] },
+          },
+        ]),
+        project: vi.fn(([lng, lat]: [number, number]) => ({
+          x: lng * 100,
+          y: lat * 100,
+        })),
+      };
+      const control = new ViewStateControl({
+        collapsed: false,
+        enableBBox: true,
+        snap: true,
+        snapIncludeLayers: ["parcels"],
+      });
+      map.getLayer.mockImplementation((id: string) =>
+        id === "parcels" ? {} : undefined,
+      );
+      const container = control.onAdd(map);
+      expect(
+        (
+          container.querySelector(
+            ".maplibre-gl-view-state-bbox-snap input",
+          ) as HTMLInputElement
+        ).checked,
+      ).toBe(true);
+
+      control.startBBoxDraw();
+      const onMouseDown = map.on.mock.calls.find(
+        ([event]: [string]) => event === "mousedown",
+      )[1];
+      onMouseDown({
+        lngLat: { lng: -97.97, lat: 38.02 },
+        point: { x: -9797, y: 3802 },
+        preventDefault: vi.fn(),
+        originalEvent: { preventDefault: vi.fn(), stopPropagation: vi.fn() },
+      });
+
+      const bboxSource = map.addSource.mock.calls.find(([id]: [string]) =>
+        id.endsWith("-bbox-src"),
+      )[1];
+      expect(bboxSource.data.geometry.coordinates[0][0]).toEqual([-98, 38]);
+      expect(map.queryRenderedFeatures).toHaveBeenCalledWith(
+        expect.anything(),
+        { layers: ["parcels"] },
+      );
+
+      expect(control.setSnap(false)).toBe(control);
+      expect(control.getState().snap).toBe(false);
+    });
+  });
 });
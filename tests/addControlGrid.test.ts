@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   addControlGrid,
   ALL_DEFAULT_CONTROLS,
@@ -223,3 +223,117 @@ describe("ALL_DEFAULT_CONTROLS", () => {
     }
   });
 });
+
+describe("ControlGrid layout", () => {
+  function createControl() {
+    return {
+      onAdd: vi.fn(() => document.createElement("div")),
+      onRemove: vi.fn(),
+    };
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should report the cell order and hidden default controls", () => {
+    const custom = createControl();
+    const grid = new ControlGrid({
+      controls: [custom],
+      defaultControls: ["search", "north"],
+    });
+    expect(grid.getLayout()).toEqual({
+      order: ["control-0", "search", "north"],
+      hidden: [],
+    });
+  });
+
+  it("should move a control and emit layoutchange", () => {
+    const a = createControl();
+    const b = createControl();
+    const grid = new ControlGrid({ controls: [a, b] });
+    const onLayout = vi.fn();
+    grid.on("layoutchange", onLayout);
+
+    grid.moveControl(b, 0);
+    expect(grid.getControls()).toEqual([b, a]);
+    expect(onLayout).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "layoutchange",
+        layout: { order: ["control-1", "control-0"], hidden: [] },
+      }),
+    );
+  });
+
+  it("should remove hidden default controls from the map and add them back", () => {
+    const map = createMockMap();
+    const grid = new ControlGrid({ defaultControls: ["search", "north"] });
+    map.addControl(grid);
+    const [search] = grid.getControls();
+    const onRemove = vi.spyOn(search, "onRemove");
+
+    grid.setControlVisible("search", false);
+    expect(onRemove).toHaveBeenCalled();
+    expect(grid.getControls()).toHaveLength(1);
+    expect(grid.getLayout().hidden).toEqual(["search"]);
+
+    grid.setControlVisible("search", true);
+    expect(grid.getControls()).toHaveLength(2);
+  });
+
+  it("should reorder cells dropped onto one another", () => {
+    const map = createMockMap();
+    const a = createControl();
+    const b = createControl();
+    const grid = new ControlGrid({ controls: [a, b], collapsed: false });
+    map.addControl(grid);
+    const source = a.onAdd.mock.results[0].value as HTMLElement;
+    const target = b.onAdd.mock.results[0].value as HTMLElement;
+
+    source.dispatchEvent(new Event("dragstart", { bubbles: true }));
+    target.dispatchEvent(new Event("drop", { bubbles: true }));
+    expect(grid.getControls()).toEqual([b, a]);
+  });
+
+  it("should persist the layout under storageKey", () => {
+    const first = new ControlGrid({
+      defaultControls: ["search", "north", "fullscreen"],
+      storageKey: "grid-layout",
+    });
+    first.setControlVisible("fullscreen", false);
+    first.moveControl(first.getControls()[1], 0);
+
+    const second = new ControlGrid({
+      defaultControls: ["search", "north", "fullscreen"],
+      storageKey: "grid-layout",
+    });
+    expect(second.getLayout()).toEqual({
+      order: ["north", "search", "fullscreen"],
+      hidden: ["fullscreen"],
+    });
+
+    second.resetLayout();
+    expect(second.getLayout()).toEqual({
+      order: ["search", "north", "fullscreen"],
+      hidden: [],
+    });
+  });
+
+  it("should list default controls in the customize menu", () => {
+    const map = createMockMap();
+    const grid = new ControlGrid({
+      defaultControls: ["search", "north"],
+      collapsed: false,
+    });
+    map.addControl(grid);
+    const container = (grid as any)._container as HTMLElement;
+    const boxes = container.querySelectorAll<HTMLInputElement>(
+      ".maplibre-gl-control-grid-menu input[type='checkbox']",
+    );
+    expect(boxes).toHaveLength(2);
+
+    boxes[1].checked = false;
+    boxes[1].dispatchEvent(new Event("change"));
+    expect(grid.getLayout().hidden).toEqual(["north"]);
+  });
+});
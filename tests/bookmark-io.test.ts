@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  bookmarksToGeoJSON,
+  bookmarksToKML,
+  decodeBookmarkShare,
+  encodeBookmarkShare,
+  exportBookmarksAs,
+  parseBookmarks,
+} from "../src/lib/core/bookmarkIO";
+import type { MapBookmark, MapBookmarkGroup } from "../src/lib/core/types";
+
+const groups: MapBookmarkGroup[] = [
+  { id: "g1", name: "Parks & Trails", collapsed: false },
+];
+
+const bookmarks: MapBookmark[] = [
+  {
+    id: "b1",
+    name: "Yosemite",
+    lng: -119.5383,
+    lat: 37.8651,
+    zoom: 11.5,
+    pitch: 45,
+    bearing: -20,
+    createdAt: 1700000000000,
+    groupId: "g1",
+    extra: { layers: ["trails"] },
+    caption: "<p>Half Dome &amp; El Capitan</p>",
+    dwell: 3000,
+  },
+  {
+    id: "b2",
+    name: "Denver <downtown>",
+    lng: -104.99,
+    lat: 39.74,
+    zoom: 13,
+    pitch: 0,
+    bearing: 0,
+    createdAt: 1700000001000,
+    thumbnail: "data:image/jpeg;base64,xyz",
+  },
+];
+
+describe("bookmarkIO", () => {
+  it("writes bookmarks as GeoJSON points with the camera as properties", () => {
+    const fc = bookmarksToGeoJSON(bookmarks, groups);
+    expect(fc.features).toHaveLength(2);
+    expect(fc.features[0].geometry.coordinates).toEqual([-119.5383, 37.8651]);
+    expect(fc.features[0].properties).toMatchObject({
+      name: "Yosemite",
+      zoom: 11.5,
+      pitch: 45,
+      bearing: -20,
+      folder: "Parks & Trails",
+      extra: { layers: ["trails"] },
+    });
+    expect(fc.features[1].properties).not.toHaveProperty("folder");
+    expect(fc.features[1].properties).not.toHaveProperty("thumbnail");
+  });
+
+  it("round-trips GeoJSON, keeping folders", () => {
+    const parsed = parseBookmarks(
+      exportBookmarksAs(bookmarks, "geojson", groups),
+    );
+    expect(parsed.groups).toHaveLength(1);
+    expect(parsed.groups[0].name).toBe("Parks & Trails");
+    expect(parsed.bookmarks[0]).toMatchObject({
+      id: "b1",
+      name: "Yosemite",
+      zoom: 11.5,
+      pitch: 45,
+      bearing: -20,
+      groupId: parsed.groups[0].id,
+    });
+    expect(parsed.bookmarks[1].groupId).toBeUndefined();
+  });
+
+  it("writes KML placemarks with a LookAt inside folders", () => {
+    const kml = bookmarksToKML(bookmarks, groups);
+    expect(kml).toContain("<Folder>");
+    expect(kml).toContain("<name>Parks &amp; Trails</name>");
+    expect(kml).toContain("<heading>-20</heading>");
+    expect(kml).toContain("<tilt>45</tilt>");
+    expect(kml).toContain("<name>Denver &lt;downtown&gt;</name>");
+  });
+
+  it("round-trips KML", () => {
+    const parsed = parseBookmarks(bookmarksToKML(bookmarks, groups));
+    expect(parsed.bookmarks.map((b) => b.name).sort()).toEqual([
+      "Denver <downtown>",
+      "Yosemite",
+    ]);
+    const yosemite = parsed.bookmarks.find((b) => b.name === "Yosemite")!;
+    expect(yosemite).toMatchObject({
+      caption: "<p>Half Dome &amp; El Capitan</p>",
+      dwell: 3000,
+      lng: -119.5383,
+      lat: 37.8651,
+      zoom: 11.5,
+      pitch: 45,
+      bearing: -20,
+      extra: { layers: ["trails"] },
+    });
+    expect(yosemite.groupId).toBe(parsed.groups[0].id);
+  });
+
+  it("derives the zoom from the LookAt range when ExtendedData is missing", () => {
+    const kml = bookmarksToKML([bookmarks[1]]).replace(
+      /<ExtendedData>.*<\/ExtendedData>/,
+      "",
+    );
+    const [bookmark] = parseBookmarks(kml).bookmarks;
+    expect(bookmark.zoom).toBeCloseTo(13, 3);
+  });
+
+  it("reads the control's JSON array and storage envelope", () => {
+    const array = parseBookmarks(JSON.stringify([...bookmarks, { foo: 1 }]));
+    expect(array.bookmarks).toHaveLength(2);
+    const envelope = parseBookmarks(JSON.stringify({ bookmarks, groups }));
+    expect(envelope.groups).toEqual(groups);
+    expect(() => parseBookmarks('{"foo": 1}')).toThrow();
+  });
+
+  it("round-trips a share token without IDs or thumbnails", () => {
+    const token = encodeBookmarkShare(bookmarks, "Parks & Trails");
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    const shared = decodeBookmarkShare(token);
+    expect(shared.groups).toHaveLength(1);
+    expect(shared.groups[0].name).toBe("Parks & Trails");
+    expect(shared.bookmarks).toHaveLength(2);
+    expect(shared.bookmarks[0]).toMatchObject({
+      name: "Yosemite",
+      lng: -119.5383,
+      zoom: 11.5,
+      groupId: shared.groups[0].id,
+      extra: { layers: ["trails"] },
+    });
+    expect(shared.bookmarks[0].id).not.toBe("b1");
+    expect(shared.bookmarks[1].thumbnail).toBeUndefined();
+  });
+
+  it("rejects an invalid share token", () => {
+    expect(() => decodeBookmarkShare("bm90LWpzb24")).toThrow();
+  });
+});
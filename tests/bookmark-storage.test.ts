@@ -0,0 +1,216 @@
+// @vitest-environment node
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+  BookmarkStorageConflictError,
+  IndexedDBBookmarkStorage,
+  RestBookmarkStorage,
+  mergeBookmarkData,
+} from "../src/lib/core/bookmarkStorage";
+import type { BookmarkStorageData, MapBookmark } from "../src/lib/core/types";
+
+function bookmark(
+  id: string,
+  name: string,
+  createdAt: number,
+  updatedAt?: number,
+): MapBookmark {
+  return {
+    id,
+    name,
+    lng: 0,
+    lat: 0,
+    zoom: 3,
+    pitch: 0,
+    bearing: 0,
+    createdAt,
+    ...(updatedAt !== undefined ? { updatedAt } : {}),
+  };
+}
+
+describe("mergeBookmarkData", () => {
+  it("keeps the newer copy of a bookmark edited in both sets", () => {
+    const local: BookmarkStorageData = {
+      bookmarks: [bookmark("a", "local", 1, 20)],
+      groups: [],
+    };
+    const remote: BookmarkStorageData = {
+      bookmarks: [bookmark("a", "remote", 1, 30)],
+      groups: [],
+    };
+    expect(mergeBookmarkData(local, remote).bookmarks[0].name).toBe("remote");
+    remote.bookmarks[0].updatedAt = 10;
+    expect(mergeBookmarkData(local, remote).bookmarks[0].name).toBe("local");
+  });
+
+  it("appends bookmarks only present in storage after the local ones", () => {
+    const merged = mergeBookmarkData(
+      { bookmarks: [bookmark("a", "a", 1)], groups: [] },
+      {
+        bookmarks: [bookmark("b", "b", 2), bookmark("a", "a", 1)],
+        groups: [{ id: "g", name: "Remote folder", collapsed: false }],
+      },
+    );
+    expect(merged.bookmarks.map((b) => b.id)).toEqual(["a", "b"]);
+    expect(merged.groups.map((g) => g.id)).toEqual(["g"]);
+  });
+
+  it("drops bookmarks and folders deleted after their last change", () => {
+    const merged = mergeBookmarkData(
+      { bookmarks: [], groups: [], deleted: { a: 50, g: 50 } },
+      {
+        bookmarks: [bookmark("a", "a", 1, 40), bookmark("b", "b", 2)],
+        groups: [{ id: "g", name: "Folder", collapsed: false }],
+      },
+    );
+    expect(merged.bookmarks.map((b) => b.id)).toEqual(["b"]);
+    expect(merged.groups).toEqual([]);
+    expect(merged.deleted).toEqual({ a: 50, g: 50 });
+  });
+
+  it("keeps a folder added again after it was deleted", () => {
+    const merged = mergeBookmarkData(
+      {
+        bookmarks: [],
+        groups: [{ id: "g", name: "Folder", collapsed: false, updatedAt: 60 }],
+      },
+      { bookmarks: [], groups: [], deleted: { g: 50 } },
+    );
+    expect(merged.groups.map((g) => g.id)).toEqual(["g"]);
+    expect(merged.deleted).toEqual({});
+  });
+
+  it("keeps a bookmark edited after it was deleted elsewhere", () => {
+    const merged = mergeBookmarkData(
+      { bookmarks: [bookmark("a", "renamed", 1, 60)], groups: [] },
+      { bookmarks: [], groups: [], deleted: { a: 50 } },
+    );
+    expect(merged.bookmarks.map((b) => b.name)).toEqual(["renamed"]);
+    expect(merged.deleted).toEqual({});
+  });
+});
+
+describe("RestBookmarkStorage", () => {
+  const store = new Map<string, string>();
+  const versions = new Map<string, number>();
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // A minimal bookmark service: one JSON document per key, bearer auth
+    server = createServer((req, res) => {
+      if (req.headers.authorization !== "Bearer secret") {
+        res.writeHead(401).end();
+        return;
+      }
+      const key = decodeURIComponent(
+        req.url!.replace(/^\/api\/bookmarks\//, ""),
+      );
+      // ETag: the version of the stored document
+      const etag = () => `"${versions.get(key) ?? 0}"`;
+      if (req.method === "GET") {
+        if (!store.has(key)) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(200, {
+          "Content-Type": "application/json",
+          ETag: etag(),
+        });
+        res.end(store.get(key));
+      } else if (req.method === "PUT") {
+        const ifMatch = req.headers["if-match"];
+        const ifNoneMatch = req.headers["if-none-match"];
+        if (
+          (ifMatch && (!store.has(key) || ifMatch !== etag())) ||
+          (ifNoneMatch === "*" && store.has(key))
+        ) {
+          res.writeHead(412).end();
+          return;
+        }
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          store.set(key, body);
+          versions.set(key, (versions.get(key) ?? 0) + 1);
+          res.writeHead(204, { ETag: etag() }).end();
+        });
+      } else if (req.method === "DELETE") {
+        store.delete(key);
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/api/bookmarks/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("saves, loads and deletes a bookmark set", async () => {
+    const storage = new RestBookmarkStorage({
+      baseUrl,
+      headers: async () => ({ Authorization: "Bearer secret" }),
+    });
+    const data: BookmarkStorageData = {
+      bookmarks: [bookmark("a", "Team view", 1)],
+      groups: [],
+      deleted: {},
+    };
+
+    expect(await storage.load("team/views")).toBeNull();
+    await storage.save("team/views", data);
+    expect(store.has("team/views")).toBe(true);
+    expect(await storage.load("team/views")).toEqual(data);
+    await storage.delete("team/views");
+    expect(await storage.load("team/views")).toBeNull();
+  });
+
+  it("rejects a save that would overwrite another client's write", async () => {
+    const headers = { Authorization: "Bearer secret" };
+    const first = new RestBookmarkStorage({ baseUrl, headers });
+    const second = new RestBookmarkStorage({ baseUrl, headers });
+    const data = (name: string): BookmarkStorageData => ({
+      bookmarks: [bookmark("a", name, 1)],
+      groups: [],
+    });
+
+    expect(await first.load("shared")).toBeNull();
+    expect(await second.load("shared")).toBeNull();
+    await first.save("shared", data("first"));
+    await expect(second.save("shared", data("second"))).rejects.toBeInstanceOf(
+      BookmarkStorageConflictError,
+    );
+
+    // After loading the new version the save goes through
+    await second.load("shared");
+    await second.save("shared", data("second"));
+    await expect(first.save("shared", data("stale"))).rejects.toBeInstanceOf(
+      BookmarkStorageConflictError,
+    );
+    expect((await first.load("shared"))!.bookmarks[0].name).toBe("second");
+  });
+
+  it("rejects when the service refuses the request", async () => {
+    const storage = new RestBookmarkStorage({
+      baseUrl,
+      headers: { Authorization: "Bearer wrong" },
+    });
+    await expect(storage.load("team")).rejects.toThrow("401");
+  });
+});
+
+describe("IndexedDBBookmarkStorage", () => {
+  it("rejects when IndexedDB is not available", async () => {
+    await expect(new IndexedDBBookmarkStorage().load("a")).rejects.toThrow(
+      "IndexedDB is not available",
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyAttributeFilter,
+  buildFilterExpression,
+  createFilterBuilder,
+  matchesFilter,
+} from "../src/lib/core/filterBuilder";
+import type { AttributeFilter } from "../src/lib/core/types";
+
+describe("buildFilterExpression", () => {
+  it("returns null for an empty or incomplete filter", () => {
+    expect(buildFilterExpression(null)).toBeNull();
+    expect(
+      buildFilterExpression({
+        combine: "and",
+        clauses: [{ column: "name", operator: "==", value: "" }],
+      }),
+    ).toBeNull();
+  });
+
+  it("returns a single clause unwrapped", () => {
+    expect(
+      buildFilterExpression({
+        combine: "and",
+        clauses: [{ column: "pop", operator: ">", value: "100" }],
+      }),
+    ).toEqual([
+      "all",
+      ["!=", ["get", "pop"], null],
+      [">", ["to-number", ["get", "pop"], 100], 100],
+    ]);
+  });
+
+  it("builds expressions that survive JSON", () => {
+    const filter: AttributeFilter = {
+      combine: "and",
+      clauses: (["<", "<=", ">", ">="] as const).map((operator) => ({
+        column: "pop",
+        operator,
+        value: 100,
+      })),
+    };
+    const expr = buildFilterExpression(filter);
+    expect(JSON.parse(JSON.stringify(expr))).toEqual(expr);
+  });
+
+  it("agrees with matchesFilter on missing and non-numeric values", () => {
+    // The parts of MapLibre's expression semantics the ordering clauses use
+    const evaluate = (
+      expr: unknown,
+      props: Record<string, unknown>,
+    ): unknown => {
+      if (!Array.isArray(expr)) return expr;
+      const [op, ...args] = expr;
+      const arg = (i: number) => evaluate(args[i], props);
+      switch (op) {
+        case "get":
+          return props[args[0] as string] ?? null;
+        case "all":
+          return args.every((a) => evaluate(a, props));
+        case "!=":
+          return arg(0) !== arg(1);
+        case "to-number": {
+          const v = arg(0);
+          if (v === null) return 0;
+          const n = Number(v);
+          return Number.isNaN(n) ? arg(1) : n;
+        }
+        case ">":
+          return (arg(0) as number) > (arg(1) as number);
+        case ">=":
+          return (arg(0) as number) >= (arg(1) as number);
+        case "<":
+          return (arg(0) as number) < (arg(1) as number);
+        case "<=":
+          return (arg(0) as number) <= (arg(1) as number);
+      }
+      throw new Error(`Unexpected operator ${String(op)}`);
+    };
+    const features = [
+      {},
+      { pop: null },
+      { pop: "n/a" },
+      { pop: "" },
+      { pop: 0 },
+      { pop: 100 },
+      { pop: "250" },
+    ];
+    for (const operator of ["<", "<=", ">", ">="] as const) {
+      for (const value of [-1, 0, 100]) {
+        const filter: AttributeFilter = {
+          combine: "and",
+          clauses: [{ column: "pop", operator, value }],
+        };
+        const expr = buildFilterExpression(filter);
+        for (const props of features) {
+          expect(
+            evaluate(expr, props),
+            `${JSON.stringify(props)} ${operator} ${value}`,
+          ).toBe(matchesFilter(props, filter));
+        }
+      }
+    }
+    expect(
+      matchesFilter({}, {
+        combine: "and",
+        clauses: [{ column: "pop", operator: "<", value: 100 }],
+      }),
+    ).toBe(false);
+  });
+
+  it("matches nothing when an ordering value is not a number", () => {
+    const filter: AttributeFilter = {
+      combine: "and",
+      clauses: [{ column: "pop", operator: "<", value: "many" }],
+    };
+    expect(buildFilterExpression(filter)).toEqual(["boolean", false]);
+    expect(matchesFilter({ pop: 5 }, filter)).toBe(false);
+  });
+
+  it("combines clauses with all / any", () => {
+    const filter: AttributeFilter = {
+      combine: "or",
+      clauses: [
+        { column: "type", operator: "==", value: "park" },
+        { column: "name", operator: "not_null" },
+      ],
+    };
+    const expr = buildFilterExpression(filter) as unknown[];
+    expect(expr[0]).toBe("any");
+    expect(expr).toHaveLength(3);
+  });
+});
+
+describe("matchesFilter", () => {
+  const filter: AttributeFilter = {
+    combine: "and",
+    clauses: [
+      { column: "pop", operator: ">=", value: 1000 },
+      { column: "name", operator: "starts_with", value: "spr" },
+    ],
+  };
+
+  it("evaluates AND clauses", () => {
+    expect(matchesFilter({ pop: 5000, name: "Springfield" }, filter)).toBe(
+      true,
+    );
+    expect(matchesFilter({ pop: 500, name: "Springfield" }, filter)).toBe(
+      false,
+    );
+  });
+
+  it("evaluates OR clauses", () => {
+    expect(
+      matchesFilter({ pop: 500, name: "Springfield" }, {
+        ...filter,
+        combine: "or",
+      }),
+    ).toBe(true);
+  });
+
+  it("matches numbers and strings alike for equality", () => {
+    const eq: AttributeFilter = {
+      combine: "and",
+      clauses: [{ column: "code", operator: "==", value: "42" }],
+    };
+    expect(matchesFilter({ code: 42 }, eq)).toBe(true);
+    expect(matchesFilter({ code: "42" }, eq)).toBe(true);
+  });
+
+  it("matches everything when the filter is empty", () => {
+    expect(matchesFilter({ a: 1 }, null)).toBe(true);
+  });
+});
+
+describe("applyAttributeFilter", () => {
+  it("keeps the layer's base filter and restores it when cleared", () => {
+    const base = ["==", ["geometry-type"], "Point"];
+    const filters: Record<string, unknown> = { points: base };
+    const map = {
+      getLayer: vi.fn().mockReturnValue({}),
+      getFilter: vi.fn((id: string) => filters[id]),
+      setFilter: vi.fn((id: string, f: unknown) => {
+        filters[id] = f;
+      }),
+    };
+    const cache = new Map();
+    const filter: AttributeFilter = {
+      combine: "and",
+      clauses: [{ column: "kind", operator: "==", value: "a" }],
+    };
+
+    applyAttributeFilter(map as any, ["points"], filter, cache);
+    expect(filters.points).toEqual([
+      "all",
+      base,
+      ["==", ["to-string", ["get", "kind"]], "a"],
+    ]);
+
+    applyAttributeFilter(map as any, ["points"], null, cache);
+    expect(filters.points).toEqual(base);
+  });
+});
+
+describe("createFilterBuilder", () => {
+  it("applies the edited clauses", () => {
+    const onApply = vi.fn();
+    const builder = createFilterBuilder({
+      columns: ["name", "pop"],
+      onApply,
+    });
+
+    const value = builder.querySelector(
+      ".maplibre-gl-filter-value",
+    ) as HTMLInputElement;
+    value.value = "Paris";
+    value.dispatchEvent(new Event("input"));
+    const apply = [...builder.querySelectorAll("button")].find(
+      (b) => b.textContent === "Apply",
+    )!;
+    apply.click();
+
+    expect(onApply).toHaveBeenCalledWith({
+      combine: "and",
+      clauses: [{ column: "name", operator: "==", value: "Paris" }],
+    });
+  });
+
+  it("clears the filter", () => {
+    const onApply = vi.fn();
+    const builder = createFilterBuilder({ columns: ["name"], onApply });
+    [...builder.querySelectorAll("button")]
+      .find((b) => b.textContent === "Clear")!
+      .click();
+    expect(onApply).toHaveBeenCalledWith(null);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  createGeoPdfViewport,
+  createGeoTiff,
+  createWorldFile,
+  lngLatToMercator,
+  mercatorToLngLat,
+} from "../src/lib/utils/georeference";
+
+const transform = {
+  originX: -1000,
+  originY: 2000,
+  pixelWidth: 10,
+  pixelHeight: 20,
+};
+
+describe("georeference", () => {
+  it("round-trips Web Mercator coordinates", () => {
+    const [x, y] = lngLatToMercator(-83.9, 35.96);
+    const [lng, lat] = mercatorToLngLat(x, y);
+
+    expect(lngLatToMercator(180, 0)[0]).toBeCloseTo(20037508.34, 2);
+    expect(lng).toBeCloseTo(-83.9, 9);
+    expect(lat).toBeCloseTo(35.96, 9);
+  });
+
+  it("writes world files for the center of the top-left pixel", () => {
+    expect(createWorldFile(transform).trim().split("\n").map(Number)).toEqual([
+      10, 0, 0, -20, -995, 1990,
+    ]);
+  });
+
+  it("encodes a GeoTIFF with EPSG:3857 geokeys", async () => {
+    const pixels = new Uint8Array([255, 0, 0, 255, 0, 0, 255, 128]);
+    const tiff = createGeoTiff(2, 1, pixels, transform);
+    const bytes = new Uint8Array(await tiff.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    const tags = new Map<number, { count: number; value: number }>();
+    const ifd = view.getUint32(4, true);
+    for (let i = 0; i < view.getUint16(ifd, true); i++) {
+      const entry = ifd + 2 + i * 12;
+      tags.set(view.getUint16(entry, true), {
+        count: view.getUint32(entry + 4, true),
+        value: view.getUint32(entry + 8, true),
+      });
+    }
+
+    expect(String.fromCharCode(bytes[0], bytes[1])).toBe("II");
+    expect(view.getUint16(2, true)).toBe(42);
+    expect(tags.get(256)!.value).toBe(2);
+    expect(tags.get(257)!.value).toBe(1);
+    const stripOffset = tags.get(273)!.value;
+    expect(Array.from(bytes.subarray(stripOffset))).toEqual(Array.from(pixels));
+
+    const scale = tags.get(33550)!.value;
+    expect(view.getFloat64(scale, true)).toBe(10);
+    expect(view.getFloat64(scale + 8, true)).toBe(20);
+    const tiepoint = tags.get(33922)!.value;
+    expect(view.getFloat64(tiepoint + 24, true)).toBe(-1000);
+    expect(view.getFloat64(tiepoint + 32, true)).toBe(2000);
+    const keys = tags.get(34735)!;
+    expect(keys.count).toBe(16);
+    expect(view.getUint16(keys.value + 14 * 2, true)).toBe(1);
+    expect(view.getUint16(keys.value + 15 * 2, true)).toBe(3857);
+  });
+
+  it("describes the map area of a GeoPDF page", () => {
+    const [east, north] = lngLatToMercator(1, 1);
+    const viewport = createGeoPdfViewport(
+      [36, 36, 756, 576],
+      [0, 0, east, north],
+    );
+
+    expect(viewport).toContain("/BBox [36.000 36.000 756.000 576.000]");
+    expect(viewport).toContain(
+      "/GPTS [0.000000000 0.000000000 1.000000000 0.000000000 " +
+        "1.000000000 1.000000000 0.000000000 1.000000000]",
+    );
+    expect(viewport).toContain(
+      '/EPSG 3857 /WKT (PROJCS["WGS 84 / Pseudo-Mercator"',
+    );
+  });
+});
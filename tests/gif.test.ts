@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { GifEncoder } from "../src/lib/utils/gif";
+
+/** Decode the LZW image data starting at `offset` into palette indices. */
+function lzwDecode(bytes: Uint8Array, offset: number): number[] {
+  const minCodeSize = bytes[offset++];
+  const data: number[] = [];
+  while (bytes[offset]) {
+    const size = bytes[offset++];
+    data.push(...bytes.subarray(offset, offset + size));
+    offset += size;
+  }
+
+  const clearCode = 1 << minCodeSize;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  let previous: number[] | null = null;
+  let bit = 0;
+  for (;;) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+      codeSize = minCodeSize + 1;
+      previous = null;
+      continue;
+    }
+    if (code === clearCode + 1) return output;
+    const entry: number[] =
+      code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+}
+
+describe("GifEncoder", () => {
+  it("encodes frames that decode to the original colors", async () => {
+    const width = 300;
+    const height = 200;
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    let seed = 1;
+    for (let i = 0; i < width * height; i++) {
+      // Noise over 200 colors, enough to fill and reset the LZW table
+      seed = (seed * 16807) % 2147483647;
+      const color = seed % 200;
+      rgba.set([(color * 8) % 256, color, 255 - color, 255], i * 4);
+    }
+    rgba[3] = 0;
+
+    const gif = new GifEncoder(width, height, { delay: 50 });
+    gif.addFrame(rgba);
+    gif.addFrame(rgba);
+    const bytes = new Uint8Array(await gif.finish().arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe("GIF89a");
+    expect(view.getUint16(6, true)).toBe(width);
+    expect(String.fromCharCode(...bytes.subarray(16, 27))).toBe("NETSCAPE2.0");
+    // Graphic control extension: transparent, 50 ms
+    expect(bytes[32]).toBe(0x21);
+    expect(bytes[35] & 1).toBe(1);
+    expect(view.getUint16(36, true)).toBe(5);
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+
+    const palette = bytes.subarray(50, 50 + 768);
+    const indices = lzwDecode(bytes, 50 + 768);
+    expect(indices).toHaveLength(width * height);
+    expect(indices[0]).toBe(255);
+    for (let i = 1; i < indices.length; i++) {
+      const p = indices[i] * 3;
+      const expected = [0, 1, 2].map((c) => ((rgba[i * 4 + c] >> 3) << 3) + 4);
+      if (
+        palette[p] !== expected[0] ||
+        palette[p + 1] !== expected[1] ||
+        palette[p + 2] !== expected[2]
+      ) {
+        throw new Error(`Pixel ${i} decoded to the wrong color`);
+      }
+    }
+  });
+});
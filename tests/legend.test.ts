@@ -68,6 +68,24 @@ describe('Legend', () => {
       expect(lg.getState().legends?.length).toBe(2);
       expect(lg.getState().legends?.[1].items[0].label).toBe('Highway');
     });
+
+    it('should size swatches per item when size is set', () => {
+      const lg = new Legend({
+        swatchSize: 16,
+        items: [
+          { label: 'Small', color: '#ff0000', shape: 'circle', size: 8 },
+          { label: 'Default', color: '#00ff00', shape: 'circle' },
+        ],
+      });
+
+      const container = lg.onAdd(mockMap);
+      const swatches = container.querySelectorAll<HTMLElement>(
+        '.maplibre-gl-legend-swatch',
+      );
+
+      expect(swatches[0].style.width).toBe('8px');
+      expect(swatches[1].style.width).toBe('16px');
+    });
   });
 
   describe('show/hide', () => {
@@ -0,0 +1,362 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  PermalinkManager,
+  captureLayers,
+  parsePermalink,
+  restoreLayers,
+  serializePermalink,
+  type PermalinkControls,
+  type PermalinkState,
+} from "../src/lib/core/permalink";
+
+function makeMap() {
+  const handlers: Record<string, (() => void)[]> = {};
+  return {
+    getCenter: vi.fn(() => ({ lng: -74.006, lat: 40.7128 })),
+    getZoom: vi.fn(() => 10.5),
+    getBearing: vi.fn(() => 0),
+    getPitch: vi.fn(() => 45),
+    jumpTo: vi.fn(),
+    isStyleLoaded: vi.fn(() => true),
+    once: vi.fn((event: string, handler: () => void) => {
+      (handlers[event] ??= []).push(handler);
+    }),
+    on: vi.fn((event: string, handler: () => void) => {
+      (handlers[event] ??= []).push(handler);
+    }),
+    off: vi.fn((event: string, handler: () => void) => {
+      handlers[event] = (handlers[event] ?? []).filter((h) => h !== handler);
+    }),
+    fire(event: string) {
+      for (const handler of handlers[event] ?? []) handler();
+    },
+  };
+}
+
+function makeControls() {
+  const terrain = { enabled: false, exaggeration: 1 };
+  return {
+    basemap: {
+      getSelectedBasemap: vi.fn(() => ({ id: "OpenStreetMap.Mapnik" })),
+      setBasemap: vi.fn(),
+      on: vi.fn(),
+      off: vi.fn(),
+    },
+    terrain: {
+      isEnabled: vi.fn(() => terrain.enabled),
+      getExaggeration: vi.fn(() => terrain.exaggeration),
+      enable: vi.fn(() => (terrain.enabled = true)),
+      disable: vi.fn(() => (terrain.enabled = false)),
+      setExaggeration: vi.fn((value: number) => (terrain.exaggeration = value)),
+      on: vi.fn(),
+      off: vi.fn(),
+    },
+    cog: {
+      getState: () => ({
+        layers: [
+          {
+            id: "cog-layer-0",
+            name: "DEM",
+            url: "https://example.com/dem.tif",
+            bands: "1",
+            colormap: "terrain",
+            rescaleMin: 0,
+            rescaleMax: 4000,
+            nodata: undefined,
+            opacity: 0.8,
+          },
+          {
+            id: "cog-layer-1",
+            url: "blob:http://localhost/1234",
+            bands: "1",
+            colormap: "none",
+            rescaleMin: 0,
+            rescaleMax: 255,
+            nodata: undefined,
+            opacity: 1,
+          },
+        ],
+      }),
+      addLayer: vi.fn(async () => {}),
+      on: vi.fn(),
+      off: vi.fn(),
+    },
+    pmtiles: {
+      getState: () => ({
+        layers: [
+          {
+            id: "pmtiles-source-0",
+            url: "https://example.com/roads.pmtiles",
+            tileType: "vector",
+            sourceLayers: ["roads", "water", "places"],
+            layerIds: [],
+            opacity: 1,
+            pickable: true,
+            sourceLayerColors: { roads: "#f00", water: "#00f" },
+          },
+        ],
+      }),
+      addLayer: vi.fn(async () => {}),
+      on: vi.fn(),
+      off: vi.fn(),
+    },
+    stac: {
+      getState: () => ({
+        layers: [
+          {
+            id: "stac-item-rgb-0",
+            stacUrl: "https://example.com/item.json",
+            assets: ["red", "green", "blue"],
+            colormap: "none",
+            rescaleMin: 0,
+            rescaleMax: 3000,
+            opacity: 1,
+          },
+        ],
+      }),
+      loadStacUrl: vi.fn(async () => {}),
+      addLayer: vi.fn(async () => {}),
+      on: vi.fn(),
+      off: vi.fn(),
+    },
+  };
+}
+
+describe("permalink hash", () => {
+  it("writes the camera, basemap, terrain and layers and reads them back", () => {
+    const state: PermalinkState = {
+      camera: { center: [-74.006, 40.7128], zoom: 10.5, bearing: 0, pitch: 45 },
+      basemap: "OpenTopoMap",
+      terrain: 1.5,
+      layers: [
+        { type: "cog", url: "https://example.com/dem.tif", options: {} },
+      ],
+    };
+    const hash = serializePermalink(state);
+    expect(hash).toContain("map=10.5/40.7128/-74.006/0/45");
+    expect(hash).toContain("terrain=1.5");
+    expect(parsePermalink(`#${hash}`)).toEqual(state);
+  });
+
+  it("keeps other hash parameters and replaces its own", () => {
+    const hash = serializePermalink(
+      { camera: { center: [1, 2], zoom: 3, bearing: 0, pitch: 0 } },
+      "#bookmarks=abc&map=1/1/1/0/0&terrain=2",
+    );
+    const params = new URLSearchParams(hash);
+    expect(params.get("bookmarks")).toBe("abc");
+    expect(params.get("map")).toBe("3/2/1/0/0");
+    expect(params.has("terrain")).toBe(false);
+  });
+
+  it("ignores malformed parameters", () => {
+    expect(parsePermalink("#map=a/b/c&terrain=x&layers=%%%")).toEqual({});
+    expect(parsePermalink("#terrain=0")).toEqual({ terrain: 0 });
+  });
+});
+
+describe("captureLayers / restoreLayers", () => {
+  it("reads shareable layers with their render options", () => {
+    const layers = captureLayers(
+      makeControls() as unknown as PermalinkControls,
+    );
+    expect(layers).toEqual([
+      {
+        type: "cog",
+        url: "https://example.com/dem.tif",
+        options: {
+          name: "DEM",
+          colormap: "terrain",
+          rescaleMin: 0,
+          rescaleMax: 4000,
+          opacity: 0.8,
+        },
+      },
+      {
+        type: "pmtiles",
+        url: "https://example.com/roads.pmtiles",
+        options: {
+          opacity: 1,
+          pickable: true,
+          sourceLayers: ["roads", "water"],
+        },
+      },
+      {
+        type: "stac",
+        url: "https://example.com/item.json",
+        options: {
+          assets: ["red", "green", "blue"],
+          rescaleMin: 0,
+          rescaleMax: 3000,
+          opacity: 1,
+        },
+      },
+    ]);
+  });
+
+  it("re-adds layers to their controls without zooming to them", async () => {
+    const controls = makeControls();
+    const layers = captureLayers(controls as unknown as PermalinkControls);
+    const added = await restoreLayers(
+      {
+        cog: controls.cog,
+        stac: controls.stac,
+      } as unknown as PermalinkControls,
+      layers,
+    );
+    expect(added).toBe(2);
+    expect(controls.cog.addLayer).toHaveBeenCalledWith(
+      "https://example.com/dem.tif",
+      expect.objectContaining({ colormap: "terrain", fitBounds: false }),
+    );
+    expect(controls.stac.loadStacUrl).toHaveBeenCalledWith(
+      "https://example.com/item.json",
+    );
+    expect(controls.stac.addLayer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        assets: ["red", "green", "blue"],
+        fitBounds: false,
+      }),
+    );
+    expect(controls.pmtiles.addLayer).not.toHaveBeenCalled();
+  });
+});
+
+describe("PermalinkManager", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    history.replaceState(null, "", "/");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("writes the map state to the hash after the map moves", () => {
+    const map = makeMap();
+    const manager = new PermalinkManager(map as never, {
+      controls: makeControls() as unknown as PermalinkControls,
+    });
+    const onUpdate = vi.fn();
+    manager.on("update", onUpdate);
+
+    map.fire("moveend");
+    expect(location.hash).toBe("");
+    vi.advanceTimersByTime(500);
+
+    const state = parsePermalink(location.hash);
+    expect(state.camera).toEqual({
+      center: [-74.006, 40.7128],
+      zoom: 10.5,
+      bearing: 0,
+      pitch: 45,
+    });
+    expect(state.basemap).toBe("OpenStreetMap.Mapnik");
+    expect(state.terrain).toBe(0);
+    expect(state.layers).toHaveLength(3);
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    manager.destroy();
+  });
+
+  it("restores the state in the hash on creation", async () => {
+    history.replaceState(
+      null,
+      "",
+      `/#${serializePermalink({
+        camera: { center: [10, 20], zoom: 5, bearing: 30, pitch: 10 },
+        basemap: "OpenTopoMap",
+        terrain: 2,
+        layers: [
+          {
+            type: "cog",
+            url: "https://example.com/dem.tif",
+            options: { opacity: 0.5 },
+          },
+        ],
+      })}`,
+    );
+    const map = makeMap();
+    const controls = makeControls();
+    const manager = new PermalinkManager(map as never, {
+      controls: controls as unknown as PermalinkControls,
+    });
+    const onRestore = vi.fn();
+    manager.on("restore", onRestore);
+    await vi.waitFor(() => expect(onRestore).toHaveBeenCalled());
+
+    expect(map.jumpTo).toHaveBeenCalledWith({
+      center: [10, 20],
+      zoom: 5,
+      bearing: 30,
+      pitch: 10,
+    });
+    expect(controls.basemap.setBasemap).toHaveBeenCalledWith("OpenTopoMap");
+    expect(controls.terrain.setExaggeration).toHaveBeenCalledWith(2);
+    expect(controls.terrain.enable).toHaveBeenCalled();
+    expect(controls.cog.addLayer).toHaveBeenCalledWith(
+      "https://example.com/dem.tif",
+      { opacity: 0.5, fitBounds: false },
+    );
+    manager.destroy();
+  });
+
+  it("does not wait for style.load while sources are still loading", async () => {
+    const map = makeMap();
+    // Adding the terrain's raster-dem source keeps isStyleLoaded() false
+    map.isStyleLoaded.mockReturnValue(false);
+    const controls = makeControls();
+    const manager = new PermalinkManager(map as never, {
+      controls: controls as unknown as PermalinkControls,
+      restoreOnLoad: false,
+    });
+
+    await manager.restore({
+      terrain: 2,
+      layers: [{ type: "cog", url: "https://example.com/dem.tif" }],
+    });
+
+    expect(controls.terrain.enable).toHaveBeenCalled();
+    expect(controls.cog.addLayer).toHaveBeenCalled();
+    expect(map.once).not.toHaveBeenCalledWith(
+      "style.load",
+      expect.any(Function),
+    );
+    manager.destroy();
+  });
+
+  it("adds layers once a replaced style has loaded", async () => {
+    const map = makeMap();
+    map.isStyleLoaded.mockReturnValue(false);
+    const controls = makeControls();
+    controls.basemap.setBasemap.mockImplementation(() =>
+      map.fire("styledataloading"),
+    );
+    const manager = new PermalinkManager(map as never, {
+      controls: controls as unknown as PermalinkControls,
+      restoreOnLoad: false,
+    });
+
+    const restored = manager.restore({
+      basemap: "OpenFreeMap.Liberty",
+      layers: [{ type: "cog", url: "https://example.com/dem.tif" }],
+    });
+    await Promise.resolve();
+    expect(controls.cog.addLayer).not.toHaveBeenCalled();
+
+    map.fire("style.load");
+    await restored;
+    expect(controls.cog.addLayer).toHaveBeenCalled();
+    manager.destroy();
+  });
+
+  it("builds a link without touching the current hash", () => {
+    const manager = new PermalinkManager(makeMap() as never, {
+      restoreOnLoad: false,
+    });
+    expect(manager.getUrl("https://example.com/app#bookmarks=abc")).toBe(
+      "https://example.com/app#bookmarks=abc&map=10.5/40.7128/-74.006/0/45",
+    );
+    expect(location.hash).toBe("");
+    manager.destroy();
+  });
+});
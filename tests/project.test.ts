@@ -0,0 +1,337 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  PROJECT_FILE_TYPE,
+  ProjectManager,
+  parseProject,
+  type MapProject,
+  type ProjectControls,
+} from "../src/lib/core/project";
+
+const roads = {
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: { name: "Main St" },
+      geometry: {
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      },
+    },
+  ],
+};
+
+function makeMap() {
+  return {
+    getCenter: vi.fn(() => ({ lng: 10, lat: 20 })),
+    getZoom: vi.fn(() => 5),
+    getBearing: vi.fn(() => 0),
+    getPitch: vi.fn(() => 0),
+    jumpTo: vi.fn(),
+    isStyleLoaded: vi.fn(() => true),
+    once: vi.fn(),
+    getSource: vi.fn((id: string) =>
+      id === "vector-source-1"
+        ? { serialize: () => ({ type: "geojson", data: roads }) }
+        : undefined,
+    ),
+  };
+}
+
+function makeControls() {
+  return {
+    grid: {
+      getState: () => ({ collapsed: false, rows: 2, columns: 3 }),
+      getLayout: () => ({ order: ["search", "legend"], hidden: ["print"] }),
+      setLayout: vi.fn(),
+      setRows: vi.fn(),
+      setColumns: vi.fn(),
+      collapse: vi.fn(),
+      expand: vi.fn(),
+    },
+    cog: {
+      getState: () => ({
+        layers: [
+          {
+            id: "cog-layer-0",
+            url: "https://example.com/dem.tif",
+            bands: "1",
+            colormap: "terrain",
+            rescaleMin: 0,
+            rescaleMax: 4000,
+            nodata: undefined,
+            opacity: 1,
+          },
+        ],
+      }),
+      addLayer: vi.fn(async () => {}),
+      removeLayer: vi.fn(),
+    },
+    pmtiles: {
+      getState: () => ({
+        layers: [
+          {
+            id: "pmtiles-source-0",
+            url: "blob:http://localhost/abcd",
+            fileName: "roads.pmtiles",
+            tileType: "vector",
+            sourceLayers: ["roads"],
+            layerIds: [],
+            opacity: 1,
+            pickable: true,
+          },
+        ],
+      }),
+      addLayer: vi.fn(async () => {}),
+      removeLayer: vi.fn(),
+    },
+    vector: {
+      getState: () => ({
+        layers: [
+          {
+            id: "vector-layer-1",
+            name: "Roads",
+            url: "inline-geojson",
+            format: "geojson",
+            sourceId: "vector-source-1",
+            layerIds: [],
+            featureCount: 1,
+            geometryTypes: ["LineString"],
+            opacity: 1,
+            fillColor: "#3388ff",
+            strokeColor: "#3388ff",
+            circleColor: "#3388ff",
+            pickable: true,
+            filter: { field: "name", operator: "==", value: "Main St" },
+          },
+        ],
+      }),
+      addLayer: vi.fn(async () => {}),
+      removeLayer: vi.fn(),
+      setLayerFilter: vi.fn(),
+    },
+    bookmark: {
+      getBookmarks: () => [
+        {
+          id: "b1",
+          name: "Home",
+          lng: 10,
+          lat: 20,
+          zoom: 5,
+          pitch: 0,
+          bearing: 0,
+          createdAt: 1,
+        },
+      ],
+      getGroups: () => [],
+      clear: vi.fn(),
+      importBookmarksFrom: vi.fn(() => 1),
+    },
+    measure: {
+      getMeasurements: () => [],
+      clear: vi.fn(),
+      importMeasurements: vi.fn(),
+    },
+  };
+}
+
+describe("ProjectManager", () => {
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => "blob:project");
+  });
+
+  it("captures the view, grid and layers", () => {
+    const manager = new ProjectManager(makeMap() as never, {
+      controls: makeControls() as unknown as ProjectControls,
+    });
+    const project = manager.getProject();
+
+    expect(project.type).toBe(PROJECT_FILE_TYPE);
+    expect(project.version).toBe(1);
+    expect(project.view.camera).toEqual({
+      center: [10, 20],
+      zoom: 5,
+      bearing: 0,
+      pitch: 0,
+    });
+    expect(project.grid).toEqual({
+      collapsed: false,
+      rows: 2,
+      columns: 3,
+      layout: { order: ["search", "legend"], hidden: ["print"] },
+    });
+    expect(project.layers.cog).toHaveLength(1);
+    expect(project.layers.pmtiles?.[0].file).toBe("roads.pmtiles");
+    expect(project.bookmarks?.bookmarks).toHaveLength(1);
+  });
+
+  it("embeds browser-only GeoJSON or references it by file name", () => {
+    const embedded = new ProjectManager(makeMap() as never, {
+      controls: makeControls() as unknown as ProjectControls,
+    }).getProject();
+    expect(embedded.layers.vector?.[0].data).toEqual(roads);
+    expect(embedded.layers.vector?.[0].file).toBeUndefined();
+
+    const referenced = new ProjectManager(makeMap() as never, {
+      controls: makeControls() as unknown as ProjectControls,
+      embedLocalData: false,
+    }).getProject();
+    expect(referenced.layers.vector?.[0].data).toBeUndefined();
+    expect(referenced.layers.vector?.[0].file).toBe("vector-layer-1.geojson");
+  });
+
+  it("rejects files that are not projects", () => {
+    expect(() => parseProject('{"type":"FeatureCollection"}')).toThrow(
+      "Invalid project file",
+    );
+    expect(() =>
+      parseProject(
+        JSON.stringify({ type: PROJECT_FILE_TYPE, version: 2, layers: {} }),
+      ),
+    ).toThrow("Unsupported project version: 2");
+  });
+
+  it("replaces the session with a saved project", async () => {
+    const source = new ProjectManager(makeMap() as never, {
+      controls: makeControls() as unknown as ProjectControls,
+    });
+    const text = source.exportProject();
+
+    const map = makeMap();
+    const controls = makeControls();
+    const manager = new ProjectManager(map as never, {
+      controls: controls as unknown as ProjectControls,
+    });
+    const onOpen = vi.fn();
+    manager.on("open", onOpen);
+    const result = await manager.open(text);
+
+    expect(result).toEqual({ layers: 2, missingFiles: ["roads.pmtiles"] });
+    expect(controls.grid.setRows).toHaveBeenCalledWith(2);
+    expect(controls.grid.setColumns).toHaveBeenCalledWith(3);
+    expect(controls.grid.setLayout).toHaveBeenCalledWith({
+      order: ["search", "legend"],
+      hidden: ["print"],
+    });
+    expect(controls.cog.removeLayer).toHaveBeenCalled();
+    expect(map.jumpTo).toHaveBeenCalledWith({
+      center: [10, 20],
+      zoom: 5,
+      bearing: 0,
+      pitch: 0,
+    });
+    expect(controls.cog.addLayer).toHaveBeenCalledWith(
+      "https://example.com/dem.tif",
+      expect.objectContaining({ colormap: "terrain", fitBounds: false }),
+    );
+    expect(controls.vector.addLayer).toHaveBeenCalledWith(
+      "blob:project",
+      "geojson",
+      expect.objectContaining({
+        name: "vector-layer-1",
+        circleColor: "#3388ff",
+        pickable: true,
+        viewportLoading: false,
+        fitBounds: false,
+      }),
+    );
+    expect(controls.vector.setLayerFilter).toHaveBeenCalledWith(
+      "vector-layer-1",
+      { field: "name", operator: "==", value: "Main St" },
+    );
+    expect(controls.pmtiles.addLayer).not.toHaveBeenCalled();
+    expect(controls.bookmark.clear).toHaveBeenCalled();
+    expect(controls.bookmark.importBookmarksFrom).toHaveBeenCalledWith(
+      expect.stringContaining('"Home"'),
+      "json",
+    );
+    expect(controls.measure.clear).toHaveBeenCalled();
+    expect(onOpen).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "open", result }),
+    );
+  });
+
+  it("loads referenced local files supplied with the project", async () => {
+    const project: MapProject = new ProjectManager(makeMap() as never, {
+      controls: makeControls() as unknown as ProjectControls,
+    }).getProject();
+    const controls = makeControls();
+    const manager = new ProjectManager(makeMap() as never, {
+      controls: controls as unknown as ProjectControls,
+    });
+
+    const result = await manager.open(project, {
+      "roads.pmtiles": new Blob(["pmtiles"]),
+    });
+    expect(result.missingFiles).toEqual([]);
+    expect(controls.pmtiles.addLayer).toHaveBeenCalledWith("blob:project", {
+      opacity: 1,
+      pickable: true,
+      fitBounds: false,
+    });
+  });
+
+  it("revokes object URLs of layers read whole once they are added", async () => {
+    const project: MapProject = new ProjectManager(makeMap() as never, {
+      controls: makeControls() as unknown as ProjectControls,
+    }).getProject();
+    URL.createObjectURL = vi
+      .fn()
+      .mockReturnValueOnce("blob:roads")
+      .mockReturnValueOnce("blob:archive");
+    const revoke = vi.fn();
+    URL.revokeObjectURL = revoke;
+    const controls = makeControls();
+    const manager = new ProjectManager(makeMap() as never, {
+      controls: controls as unknown as ProjectControls,
+    });
+
+    await manager.open(project, { "roads.pmtiles": new Blob(["pmtiles"]) });
+    expect(revoke).toHaveBeenCalledTimes(1);
+    expect(revoke).toHaveBeenCalledWith("blob:roads");
+    expect(controls.vector.addLayer.mock.invocationCallOrder[0]).toBeLessThan(
+      revoke.mock.invocationCallOrder[0],
+    );
+  });
+
+  it("opens a project while the map's sources are still loading", async () => {
+    const terrain = {
+      isEnabled: vi.fn(() => true),
+      getExaggeration: vi.fn(() => 1.5),
+      setExaggeration: vi.fn(),
+      enable: vi.fn(),
+      disable: vi.fn(),
+    };
+    const project: MapProject = new ProjectManager(makeMap() as never, {
+      controls: { ...makeControls(), terrain } as unknown as ProjectControls,
+    }).getProject();
+    expect(project.view.terrain).toBe(1.5);
+
+    const map = makeMap();
+    // Enabling terrain adds a raster-dem source, keeping isStyleLoaded() false
+    map.isStyleLoaded.mockReturnValue(false);
+    const controls = { ...makeControls(), terrain };
+    const manager = new ProjectManager(map as never, {
+      controls: controls as unknown as ProjectControls,
+    });
+
+    const result = await manager.open(project);
+    expect(terrain.setExaggeration).toHaveBeenCalledWith(1.5);
+    expect(terrain.enable).toHaveBeenCalled();
+    expect(result.layers).toBe(2);
+    expect(controls.cog.addLayer).toHaveBeenCalled();
+  });
+
+  it("emits an error for unreadable project text", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const manager = new ProjectManager(makeMap() as never);
+    const onError = vi.fn();
+    manager.on("error", onError);
+    await expect(manager.open("not json")).rejects.toThrow();
+    expect(onError).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
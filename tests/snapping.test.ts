@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from "vitest";
+import { findSnapPoint } from "../src/lib/core/snapping";
+
+const roads = {
+  layer: { id: "roads" },
+  geometry: {
+    type: "LineString",
+    coordinates: [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+    ],
+  },
+};
+
+const parcels = {
+  layer: { id: "parcels" },
+  geometry: {
+    type: "Polygon",
+    coordinates: [
+      [
+        [2, 2],
+        [3, 2],
+        [3, 3],
+        [2, 2],
+      ],
+    ],
+  },
+};
+
+/** A map stub with a 100 px per degree projection and the given features. */
+function createMapMock(features: unknown[]) {
+  return {
+    getLayer: vi.fn((id: string) =>
+      ["roads", "parcels"].includes(id) ? {} : undefined,
+    ),
+    queryRenderedFeatures: vi.fn(() => features),
+    project: vi.fn(([lng, lat]: [number, number]) => ({
+      x: lng * 100,
+      y: lat * 100,
+    })),
+    unproject: vi.fn(([x, y]: [number, number]) => ({
+      lng: x / 100,
+      lat: y / 100,
+    })),
+  };
+}
+
+const options = { tolerance: 10, includeLayers: [], excludeLayers: [] };
+
+describe("findSnapPoint", () => {
+  it("snaps to a vertex within the tolerance", () => {
+    const map = createMapMock([roads]);
+
+    expect(findSnapPoint(map as any, { x: 96, y: 4 }, options)).toEqual({
+      lng: 1,
+      lat: 0,
+      type: "vertex",
+      layerId: "roads",
+    });
+    expect(map.queryRenderedFeatures).toHaveBeenCalledWith(
+      [
+        [86, -6],
+        [106, 14],
+      ],
+      {},
+    );
+  });
+
+  it("snaps to the nearest point on an edge when no vertex is close", () => {
+    const map = createMapMock([roads, parcels]);
+
+    const snap = findSnapPoint(map as any, { x: 250, y: 206 }, options);
+
+    expect(snap).toMatchObject({ type: "edge", layerId: "parcels" });
+    expect(snap!.lng).toBeCloseTo(2.5);
+    expect(snap!.lat).toBeCloseTo(2);
+  });
+
+  it("ignores vertices and edges added by cutting features into tiles", () => {
+    // The piece of a parcel read from tile 1/1/0 (lng 0 to 180, lat 0 to
+    // 85), cut at the tile's buffer at lng -10
+    const piece = {
+      layer: { id: "parcels" },
+      _x: 1,
+      _y: 0,
+      _z: 1,
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [-10, 10],
+            [5, 10],
+            [5, 20],
+            [-10, 20],
+            [-10, 10],
+          ],
+        ],
+      },
+    };
+    const map = createMapMock([piece]);
+
+    expect(findSnapPoint(map as any, { x: -996, y: 1004 }, options)).toBeNull();
+    expect(findSnapPoint(map as any, { x: 496, y: 1004 }, options)).toEqual({
+      lng: 5,
+      lat: 10,
+      type: "vertex",
+      layerId: "parcels",
+    });
+    expect(
+      findSnapPoint(map as any, { x: 200, y: 1004 }, options),
+    ).toMatchObject({ lng: 2, lat: 10, type: "edge" });
+  });
+
+  it("returns null when nothing is within the tolerance", () => {
+    const map = createMapMock([roads]);
+
+    expect(findSnapPoint(map as any, { x: 50, y: 30 }, options)).toBeNull();
+  });
+
+  it("honors included and excluded layers", () => {
+    const map = createMapMock([roads]);
+
+    expect(
+      findSnapPoint(
+        map as any,
+        { x: 96, y: 4 },
+        {
+          ...options,
+          excludeLayers: ["roads"],
+        },
+      ),
+    ).toBeNull();
+
+    findSnapPoint(
+      map as any,
+      { x: 96, y: 4 },
+      {
+        ...options,
+        includeLayers: ["roads", "missing"],
+      },
+    );
+    expect(map.queryRenderedFeatures).toHaveBeenLastCalledWith(
+      expect.anything(),
+      { layers: ["roads"] },
+    );
+
+    expect(
+      findSnapPoint(
+        map as any,
+        { x: 96, y: 4 },
+        {
+          ...options,
+          includeLayers: ["missing"],
+        },
+      ),
+    ).toBeNull();
+  });
+});
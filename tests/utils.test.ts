@@ -9,6 +9,7 @@ import {
   interpolateColor,
   getColorAtPosition,
   generateGradientCSS,
+  sanitizeHtml,
 } from '../src/lib/utils';
 
 describe('Utility Functions', () => {
@@ -141,4 +142,35 @@ describe('Utility Functions', () => {
       expect(result).toBe('linear-gradient(to top, #000000 0%, #ffffff 100%)');
     });
   });
+
+  describe('sanitizeHtml', () => {
+    it('should keep formatting, links and images', () => {
+      const html =
+        '<p>Flood <b>extent</b> <a href="https://example.com" title="x">map</a></p><img src="data:image/png;base64,AA" alt="a">';
+      expect(sanitizeHtml(html)).toBe(html);
+    });
+
+    it('should drop scripts, event handlers and unsafe URLs', () => {
+      expect(sanitizeHtml('<script>alert(1)</script>ok')).toBe('ok');
+      expect(sanitizeHtml('<img src="x.png" onerror="alert(1)">')).toBe(
+        '<img src="x.png">'
+      );
+      expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe(
+        '<a>x</a>'
+      );
+      expect(sanitizeHtml('<a href=" JavaScript:alert(1)">x</a>')).toBe(
+        '<a>x</a>'
+      );
+      expect(sanitizeHtml('<img src="data:text/html,hi">')).toBe('<img>');
+      expect(sanitizeHtml('<p style="x">a<svg onload="alert(1)"></svg></p>')).toBe(
+        '<p>a</p>'
+      );
+    });
+
+    it('should unwrap unknown elements but keep their text', () => {
+      expect(sanitizeHtml('<custom-el><b>bold</b></custom-el>')).toBe(
+        '<b>bold</b>'
+      );
+    });
+  });
 });
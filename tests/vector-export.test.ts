@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  exportFeatures,
+  featuresToCSV,
+  geometryToWKT,
+  selectFeatures,
+} from "../src/lib/core/vectorExport";
+
+const features: GeoJSON.Feature[] = [
+  {
+    type: "Feature",
+    properties: { name: "Paris", pop: 2100000 },
+    geometry: { type: "Point", coordinates: [2.35, 48.86] },
+  },
+  {
+    type: "Feature",
+    properties: { name: "Lyon, Rhône", pop: 520000 },
+    geometry: { type: "Point", coordinates: [4.84, 45.76] },
+  },
+];
+
+describe("geometryToWKT", () => {
+  it("writes points, lines and polygons", () => {
+    expect(geometryToWKT({ type: "Point", coordinates: [1, 2] })).toBe(
+      "POINT (1 2)",
+    );
+    expect(
+      geometryToWKT({
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      }),
+    ).toBe("LINESTRING (0 0, 1 1)");
+    expect(
+      geometryToWKT({
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 0],
+          ],
+        ],
+      }),
+    ).toBe("POLYGON ((0 0, 1 0, 1 1, 0 0))");
+  });
+
+  it("returns an empty string for a null geometry", () => {
+    expect(geometryToWKT(null)).toBe("");
+  });
+});
+
+describe("featuresToCSV", () => {
+  it("writes a WKT column and quotes fields that need it", () => {
+    expect(featuresToCSV(features).split("\r\n")).toEqual([
+      "WKT,name,pop",
+      "POINT (2.35 48.86),Paris,2100000",
+      'POINT (4.84 45.76),"Lyon, Rhône",520000',
+    ]);
+  });
+});
+
+describe("selectFeatures", () => {
+  it("keeps features in the viewport", () => {
+    const selected = selectFeatures(features, "viewport", {
+      bounds: [2, 48, 3, 49],
+    });
+    expect(selected.map((f) => f.properties?.name)).toEqual(["Paris"]);
+  });
+
+  it("keeps features matching the filter", () => {
+    const selected = selectFeatures(features, "filter", {
+      filter: {
+        combine: "and",
+        clauses: [{ column: "pop", operator: "<", value: 1000000 }],
+      },
+    });
+    expect(selected.map((f) => f.properties?.name)).toEqual(["Lyon, Rhône"]);
+  });
+
+  it("keeps everything for the all scope", () => {
+    expect(selectFeatures(features, "all")).toHaveLength(2);
+  });
+});
+
+describe("exportFeatures", () => {
+  it("writes GeoJSON natively", async () => {
+    const { blob, filename } = await exportFeatures(
+      features,
+      "geojson",
+      "cities",
+    );
+    expect(filename).toBe("cities.geojson");
+    expect(JSON.parse(await blob.text()).features).toHaveLength(2);
+  });
+
+  it("zips the files DuckDB writes for Shapefile", async () => {
+    const converter = {
+      exportGeoJSON: vi.fn().mockResolvedValue({
+        "cities.shp": new Uint8Array([1, 2, 3]),
+        "cities.dbf": new Uint8Array([4, 5]),
+      }),
+    };
+    const { blob, filename } = await exportFeatures(
+      features,
+      "shapefile",
+      "cities",
+      converter as never,
+    );
+
+    expect(converter.exportGeoJSON).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "FeatureCollection" }),
+      "ESRI Shapefile",
+      "cities.shp",
+      [".shx", ".dbf", ".prj", ".cpg"],
+    );
+    expect(filename).toBe("cities.zip");
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    // Local file header signature "PK\x03\x04"
+    expect([...bytes.slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+});
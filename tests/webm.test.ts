@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebmEncoder } from "../src/lib/utils/webm";
+
+/** Log of what the recorder saw, in order. */
+let events: string[];
+
+/** MediaRecorder stand-in that emits one chunk per recorded frame. */
+class FakeRecorder {
+  static isTypeSupported = (type: string) => type === "video/webm";
+  state: "inactive" | "recording" | "paused" = "inactive";
+  ondataavailable: ((e: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  start() {
+    this.state = "recording";
+    events.push("start");
+  }
+  pause() {
+    this.state = "paused";
+    events.push("pause");
+  }
+  resume() {
+    this.state = "recording";
+    events.push("resume");
+  }
+  stop() {
+    this.state = "inactive";
+    events.push("stop");
+    this.ondataavailable?.({ data: new Blob(["webm"]) });
+    this.onstop?.();
+  }
+}
+
+describe("WebmEncoder", () => {
+  const track = {
+    requestFrame: vi.fn(() => events.push("frame")),
+    stop: vi.fn(),
+  };
+  const drawImage = vi.fn();
+
+  beforeEach(() => {
+    events = [];
+    vi.stubGlobal("MediaRecorder", FakeRecorder);
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+      drawImage,
+    } as unknown as CanvasRenderingContext2D);
+    (
+      HTMLCanvasElement.prototype as unknown as { captureStream: unknown }
+    ).captureStream = () => ({
+      getVideoTracks: () => [track],
+      getTracks: () => [track],
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    delete (
+      HTMLCanvasElement.prototype as unknown as { captureStream: unknown }
+    ).captureStream;
+  });
+
+  it("records each frame and pauses while the next one is made", async () => {
+    const webm = new WebmEncoder(2, 2, { fps: 100 });
+    const frame = document.createElement("canvas");
+    await webm.addFrame(frame);
+    await webm.addFrame(frame);
+    const blob = await webm.finish();
+
+    expect(events).toEqual([
+      "start",
+      "frame",
+      "pause",
+      "resume",
+      "frame",
+      "pause",
+      "stop",
+    ]);
+    expect(drawImage).toHaveBeenCalledTimes(2);
+    expect(drawImage).toHaveBeenCalledWith(frame, 0, 0);
+    expect(track.stop).toHaveBeenCalled();
+    expect(blob.type).toBe("video/webm");
+    expect(await blob.text()).toBe("webm");
+  });
+
+  it("fails up front when the browser cannot record WebM", () => {
+    vi.stubGlobal("MediaRecorder", undefined);
+    expect(() => new WebmEncoder(2, 2)).toThrow("WebM recording");
+  });
+});